@@ -2,17 +2,193 @@
 import { consola } from 'consola';
 import { Command } from 'commander';
 import { FlyerGenerator } from './src/FlyerGenerator';
-import type { PromoConfig } from './src/types';
+import {
+  ANIMATION_EFFECTS,
+  DEFAULT_DURATION,
+  DEFAULT_FRAMES,
+} from './src/animation';
+import { ASSET_PLACEMENTS, validateBrandAsset } from './src/assets';
+import {
+  SCRIM_STYLES,
+  parsePhotoFocus,
+  validateProductPhoto,
+} from './src/background';
+import { ResponseCache } from './src/cache/ResponseCache';
+import { DEFAULT_SLIDES, validateCarouselOptions } from './src/carousel';
+import { isColor, splitColorList } from './src/color';
+import {
+  DEFAULT_FORMATS,
+  FORMAT_CATEGORIES,
+  listFormats,
+  resolveFormatId,
+} from './src/formats';
+import {
+  IMPOSITION_MODES,
+  Imposer,
+  SHEET_ENCODINGS,
+  SHEET_ORIENTATIONS,
+  SHEET_SIZES,
+  type ImpositionMode,
+  type SheetEncoding,
+  type SheetOrientation,
+  type SheetSize,
+} from './src/imposition';
+import { INFO_FIELDS } from './src/layout/InfoBlock';
+import { BADGE_STYLES } from './src/layout/OfferBadge';
+import { LAYOUTS, resolveLayoutName } from './src/layouts';
+import {
+  OFFER_TYPES,
+  parseAmount,
+  parseOffer,
+  validateStructuredOffer,
+} from './src/offers';
+import {
+  IMAGE_ENCODINGS,
+  formatByteSize,
+  parseByteSize,
+  validateOutputOptions,
+} from './src/output';
+import { QR_PAYLOAD_TYPES, QR_PLACEMENTS, validateQrCode } from './src/qr';
+import {
+  formatOpeningHours,
+  parseOpeningHours,
+  validateValidityPeriod,
+} from './src/schedule';
+import {
+  DEFAULT_PALETTE,
+  PaletteExtractor,
+  PaletteRegistry,
+  PaletteSwatch,
+  type PaletteEntry,
+} from './src/palettes';
+import {
+  TemplateLoader,
+  formatTemplateIssues,
+  type FlyerTemplate,
+} from './src/templates';
+import {
+  COPY_PROVIDERS,
+  createCopyProvider,
+  resolveProviderName,
+  type CopyProvider,
+} from './src/providers';
+import type {
+  AnimationEffect,
+  AssetPlacement,
+  BadgeStyle,
+  BrandAsset,
+  CarouselOptions,
+  CopyProviderName,
+  FormatCategory,
+  FormatId,
+  ImageEncoding,
+  InfoField,
+  InfoFieldToggles,
+  LayoutName,
+  OfferType,
+  OpeningHours,
+  OutputOptions,
+  ProductPhoto,
+  PromoConfig,
+  QrCode,
+  QrPayloadType,
+  QrPlacement,
+  ScrimStyle,
+  StructuredOffer,
+  ValidityPeriod,
+} from './src/types';
+
+/**
+ * Options of the generate command as commander parses them: values are the
+ * raw strings, checked and converted by `runGenerate`.
+ */
+interface GenerateOptions {
+  product?: string;
+  business?: string;
+  offer?: string;
+  validity: string;
+  location: string;
+  phone: string;
+  schedule: string;
+  hours?: string;
+  validFrom?: string;
+  validUntil?: string;
+  timezone?: string;
+  allowExpired?: boolean;
+  colors?: string;
+  format: string;
+  quantity: string;
+  language: string;
+  provider?: string;
+  model?: string;
+  layout?: string;
+  hideInfo?: string;
+  cache: boolean;
+  logo?: string;
+  logoOnDark?: string;
+  logoOnLight?: string;
+  logoPlacement: string;
+  logoSize?: string;
+  photo?: string;
+  photoFocus: string;
+  scrim: string;
+  qr?: string;
+  qrUrl?: string;
+  qrMessage?: string;
+  qrName?: string;
+  qrPlacement: string;
+  qrSize?: string;
+  qrQuietZone?: string;
+  qrColor?: string;
+  qrBackground?: string;
+  offerType?: string;
+  offerValue?: string;
+  price?: string;
+  originalPrice?: string;
+  currency?: string;
+  badge: string;
+  locale?: string;
+  debugSafeZones?: boolean;
+  imageFormat?: string;
+  quality?: string;
+  progressive?: boolean;
+  mozjpeg?: boolean;
+  lossless?: boolean;
+  maxSize?: string;
+  keepSvg?: boolean;
+  bleed?: string;
+  cropMarks: boolean;
+  registrationMarks: boolean;
+  iccProfile?: string;
+  animate?: boolean;
+  frames?: string;
+  duration?: string;
+  effects?: string;
+  /** The slide count, or true for the default. */
+  carousel?: string | boolean;
+  slideNumbers?: boolean;
+}
 
 async function generateFlyers(
   config: PromoConfig,
-  formatChoice: string,
+  formats: FormatId[],
   quantity: number,
-  language: string
+  language: string,
+  provider: CopyProvider,
+  useCache: boolean,
+  debugSafeZones: boolean,
+  allowExpired: boolean,
+  templates: FlyerTemplate[]
 ) {
   consola.start('🚀 Starting flyer generation process...');
 
-  const generator = new FlyerGenerator();
+  const generator = new FlyerGenerator({
+    provider,
+    cache: useCache,
+    debugSafeZones,
+    allowExpired,
+    templates,
+  });
 
   // Show configuration summary
   consola.box(`
@@ -21,39 +197,60 @@ async function generateFlyers(
 🛍️  Product: ${config.product}
 🏢 Business: ${config.businessType}
 🎁 Offer: ${config.offer}
-⏰ Validity: ${config.validity}
+⏰ Validity: ${
+    config.validityPeriod
+      ? `${config.validityPeriod.start ?? '…'} → ${config.validityPeriod.end ?? '…'}${
+          config.validityPeriod.timeZone
+            ? ` (${config.validityPeriod.timeZone})`
+            : ''
+        }`
+      : config.validity
+  }
 📍 Location: ${config.location}
 📞 Phone: ${config.phone}
-🕒 Schedule: ${config.schedule}
-🎨 Colors: ${config.colors.join(', ')}
-📱 Format: ${formatChoice}
+🕒 Schedule: ${
+    config.openingHours
+      ? formatOpeningHours(config.openingHours)
+      : config.schedule
+  }
+🎨 Colors: ${config.colors.join(', ')}${
+    config.assets?.length
+      ? `\n🏷️  Logo: ${config.assets.map((asset) => `${asset.path} (${asset.placement ?? 'top-left'})`).join(', ')}`
+      : ''
+  }${config.photo ? `\n📷 Photo: ${config.photo.path}` : ''}${
+    config.qr
+      ? `\n🔳 QR code: ${config.qr.type} (${config.qr.placement ?? 'bottom-right'})`
+      : ''
+  }
+📱 Formats: ${formats.join(', ')}
+🖼️  Image: ${config.output?.encoding ?? 'png'}${
+    config.output?.animation ? ' (animated)' : ''
+  }${
+    config.output?.maxBytes
+      ? ` (max ${formatByteSize(config.output.maxBytes)})`
+      : ''
+  }${
+    Object.keys(config.outputs ?? {}).length
+      ? `, overridden for ${Object.keys(config.outputs!).join(', ')}`
+      : ''
+  }
 🔢 Quantity: ${quantity}
 🌐 Language: ${language}
+🤖 Copy provider: ${provider.name} (${provider.model})
+💾 Cache: ${useCache ? 'enabled' : 'disabled'}${
+    debugSafeZones ? '\n🛡️  Safe zone overlay: on' : ''
+  }
   `);
 
   try {
-    let flyers;
-
     consola.info('🤖 Generating AI-powered text variations...');
 
-    switch (formatChoice) {
-      case 'All formats (Facebook, Instagram, Stories)':
-        flyers = await generator.generateForAllFormats(
-          config,
-          quantity,
-          language
-        );
-        break;
-      case 'Instagram only (1080x1080)':
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-      case 'Stories only (1080x1920)':
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-      default: // Facebook only
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-    }
+    const flyers = await generator.generateVariations(
+      config,
+      quantity,
+      language,
+      formats
+    );
 
     consola.success(
       `🎉 Successfully generated ${flyers.length} promotional flyers!`
@@ -65,7 +262,11 @@ async function generateFlyers(
       consola.info(`   ${index + 1}. ${flyer.filename}`);
       consola.info(`      📝 Tone: ${flyer.textVariation.tone}`);
       consola.info(`      🎨 Color: ${flyer.color}`);
+      consola.info(`      🧩 Layout: ${flyer.layout}`);
       consola.info(`      📱 Format: ${flyer.format}`);
+      if (flyer.svgFilename) {
+        consola.info(`      ✏️  SVG: ${flyer.svgFilename}`);
+      }
       consola.info(`      💬 Title: "${flyer.textVariation.title}"`);
       console.log('');
     });
@@ -91,6 +292,65 @@ async function generateFlyers(
   }
 }
 
+async function generateCarousels(
+  config: PromoConfig,
+  formats: FormatId[],
+  options: CarouselOptions,
+  language: string,
+  provider: CopyProvider,
+  useCache: boolean,
+  debugSafeZones: boolean,
+  allowExpired: boolean,
+  templates: FlyerTemplate[]
+) {
+  consola.start('🎠 Starting carousel generation...');
+
+  const generator = new FlyerGenerator({
+    provider,
+    cache: useCache,
+    debugSafeZones,
+    allowExpired,
+    templates,
+  });
+
+  try {
+    const carousels = [];
+    for (const format of formats) {
+      carousels.push(
+        await generator.generateCarousel(
+          config,
+          { ...options, format },
+          language
+        )
+      );
+    }
+
+    consola.info('\n📊 Generated Slides:');
+    for (const carousel of carousels) {
+      consola.info(`   📱 ${carousel.format} (${carousel.color})`);
+      carousel.slides.forEach((slide, index) => {
+        consola.info(`   ${index + 1}. ${carousel.filenames[index]}`);
+        consola.info(`      🎯 Role: ${slide.role}`);
+        consola.info(`      💬 Title: "${slide.title}"`);
+      });
+      console.log('');
+    }
+
+    consola.box(`
+🎠 Carousel Generation Complete!
+
+📁 Files saved in: ./output_flyers/
+🖼️  Total slides: ${carousels.reduce((sum, c) => sum + c.filenames.length, 0)}
+📱 Formats: ${carousels.map((c) => c.format).join(', ')}
+
+💡 Upload the slides of each format in order as one Instagram post.
+    `);
+  } catch (error) {
+    consola.error('❌ Error during generation:', error);
+    process.exit(1);
+  }
+}
+
 async function main() {
   const program = new Command();
 
@@ -98,6 +358,7 @@ async function main() {
     .name('promomaker')
     .description('Generate promotional flyers with AI')
     .version('1.0.0')
+    .enablePositionalOptions()
     .option('-p, --product <product>', 'Product or service name')
     .option('-b, --business <type>', 'Business type')
     .option('-o, --offer <offer>', 'Special offer or promotion')
@@ -109,14 +370,33 @@ async function main() {
     .option('-l, --location <location>', 'Business location', 'Visit our store')
     .option('--phone <phone>', 'Contact phone number', 'Contact us')
     .option('-s, --schedule <schedule>', 'Business hours', 'Business hours')
+    .option(
+      '--hours <hours>',
+      'Opening hours by day, e.g. "mon-fri 09:00-18:00; sat 10:00-14:00; sun closed"; replaces --schedule'
+    )
+    .option(
+      '--valid-from <date>',
+      'First day of the offer (YYYY-MM-DD or YYYY-MM-DDTHH:MM)'
+    )
+    .option(
+      '--valid-until <date>',
+      'Last day of the offer (YYYY-MM-DD or YYYY-MM-DDTHH:MM); replaces --validity'
+    )
+    .option(
+      '--timezone <zone>',
+      'IANA time zone of the validity dates, e.g. America/Mexico_City (default: system)'
+    )
+    .option(
+      '--allow-expired',
+      'Generate flyers even when --valid-until has passed'
+    )
     .option(
       '-c, --colors <colors>',
-      'Comma-separated hex colors (or use: nicotordev, professional, restaurant, etc.)',
-      '#8B5CF6,#EC4899,#A855F7,#F472B6,#7C3AED,#E879F9'
+      'Comma-separated CSS colors, e.g. #FF6B6B,oklch(0.7 0.15 200), or a palette name (see `palettes list`); defaults to the palette for the business type'
     )
     .option(
       '-f, --format <format>',
-      'Output format (all|facebook|instagram|stories)',
+      'Comma-separated formats to render, or "all" for facebook, instagram and story (see `formats list`)',
       'all'
     )
     .option('-q, --quantity <quantity>', 'Number of variations (1-10)', '3')
@@ -125,10 +405,570 @@ async function main() {
       'Content language (English|Spanish|French|German|Italian|Portuguese)',
       'English'
     )
-    .parse();
+    .option(
+      '--provider <provider>',
+      `Copy provider (${COPY_PROVIDERS.join('|')}), defaults to COPY_PROVIDER or openai`
+    )
+    .option('--model <model>', 'Model name for the selected copy provider')
+    .option(
+      '--layout <layouts>',
+      `Comma-separated layouts or template names to rotate through (${LAYOUTS.join(
+        '|'
+      )}), defaults to all`
+    )
+    .option(
+      '--hide-info <fields>',
+      `Comma-separated details to leave out of the footer (${INFO_FIELDS.join(
+        '|'
+      )}|all)`
+    )
+    .option('--no-cache', 'Always request fresh copy instead of reusing cached responses')
+    .option('--logo <file>', 'Logo to place on the flyers (PNG, JPEG, WebP or SVG)')
+    .option(
+      '--logo-on-dark <file>',
+      'Logo variant for dark backgrounds, e.g. an all-white version'
+    )
+    .option('--logo-on-light <file>', 'Logo variant for light backgrounds')
+    .option(
+      '--logo-placement <placement>',
+      `Where the logo goes (${ASSET_PLACEMENTS.join('|')})`,
+      'top-left'
+    )
+    .option(
+      '--logo-size <fraction>',
+      'Largest logo height, as a fraction of the shorter canvas side'
+    )
+    .option(
+      '--photo <file>',
+      'Product photo to use as the background, cropped to each format'
+    )
+    .option(
+      '--photo-focus <focus>',
+      'Part of the photo to keep when cropping: attention, entropy, center or a focal point "x,y" (fractions, e.g. 0.3,0.6)',
+      'attention'
+    )
+    .option(
+      '--scrim <style>',
+      `How the photo is toned down under the copy (${SCRIM_STYLES.join('|')})`,
+      'auto'
+    )
+    .option(
+      '--qr <type>',
+      `Add a QR code (${QR_PAYLOAD_TYPES.join('|')}); tel, whatsapp, vcard and geo use --phone and --location`
+    )
+    .option(
+      '--qr-url <url>',
+      'Link for a url QR code, or the website on a vcard'
+    )
+    .option('--qr-message <text>', 'Message prefilled in a whatsapp chat')
+    .option(
+      '--qr-name <name>',
+      'Contact name on a vcard (default: the business type)'
+    )
+    .option(
+      '--qr-placement <placement>',
+      `Corner the QR code goes in (${QR_PLACEMENTS.join('|')})`,
+      'bottom-right'
+    )
+    .option(
+      '--qr-size <fraction>',
+      'QR code side, quiet zone included, as a fraction of the shorter canvas side (default: 0.16)'
+    )
+    .option(
+      '--qr-quiet-zone <modules>',
+      'Light margin around the QR code, in modules (default: 4)'
+    )
+    .option('--qr-color <color>', 'QR code module color (default: #000000)')
+    .option(
+      '--qr-background <color>',
+      'QR code background and quiet zone color (default: #FFFFFF)'
+    )
+    .option(
+      '--offer-type <type>',
+      `Kind of deal (${OFFER_TYPES.join('|')}); parsed from --offer when omitted`
+    )
+    .option(
+      '--offer-value <number>',
+      'Percent off for percent deals, money off for amount deals, items for multi-buy deals'
+    )
+    .option('--price <amount>', 'Promo price')
+    .option('--original-price <amount>', 'Regular price, shown struck through')
+    .option(
+      '--currency <code>',
+      'ISO 4217 currency of the prices and of $ in --offer (default: USD)'
+    )
+    .option(
+      '--badge <style>',
+      `Shape of the offer badge (${BADGE_STYLES.join('|')})`,
+      'starburst'
+    )
+    .option(
+      '--locale <locale>',
+      'Locale for prices and percentages, e.g. es-MX (default: from --language)'
+    )
+    .option(
+      '--debug-safe-zones',
+      'Shade the areas covered by platform UI (story header, reply bar...) on the images'
+    )
+    .option(
+      '--image-format <type>',
+      `File type of the images (${IMAGE_ENCODINGS.join('|')}; pdf is print-ready CMYK); add format=type entries for single formats, e.g. webp,a4=pdf`
+    )
+    .option(
+      '--quality <number>',
+      'Quality from 1 to 100 for jpeg, webp and avif (reduces png to a palette)'
+    )
+    .option('--progressive', 'Write progressive JPEGs')
+    .option('--mozjpeg', 'Use mozjpeg compression for smaller JPEGs')
+    .option('--lossless', 'Lossless WebP and AVIF')
+    .option(
+      '--max-size <size>',
+      'Largest file size, e.g. 1MB or 500KB, reached by lowering the quality; add format=size entries for single formats, e.g. whatsapp-status=1MB'
+    )
+    .option('--keep-svg', 'Also save the editable SVG of each flyer')
+    .option(
+      '--bleed <mm>',
+      'Bleed around print PDFs in millimeters (default: 3)'
+    )
+    .option('--no-crop-marks', 'Leave the crop marks off print PDFs')
+    .option(
+      '--no-registration-marks',
+      'Leave the registration marks off print PDFs'
+    )
+    .option(
+      '--icc-profile <file>',
+      'CMYK ICC profile for print PDFs (default: the one bundled with sharp)'
+    )
+    .option(
+      '--animate',
+      'Write animated flyers (webp or gif, default webp) with a fading title, pulsing CTA, sliding badge and countdown'
+    )
+    .option(
+      '--frames <count>',
+      `Frames per animation loop (2-120, default ${DEFAULT_FRAMES})`
+    )
+    .option(
+      '--duration <seconds>',
+      `Length of an animation loop in seconds (default ${DEFAULT_DURATION / 1000})`
+    )
+    .option(
+      '--effects <effects>',
+      `Comma-separated animation effects (${ANIMATION_EFFECTS.join('|')}), default all`
+    )
+    .option(
+      '--carousel [slides]',
+      `Generate an Instagram carousel instead of flyers, with this many slides (3-10, default ${DEFAULT_SLIDES}); -f defaults to instagram`
+    )
+    .option(
+      '--slide-numbers',
+      'Show the slide number ("2/5") on carousel slides'
+    )
+    .action(() => runGenerate(program.opts<GenerateOptions>(), program));
 
-  const options = program.opts();
+  program
+    .command('cache')
+    .description('Manage the text generation cache')
+    .command('clear')
+    .description('Delete all cached AI responses')
+    .action(async () => {
+      const cache = new ResponseCache();
+      const removed = await cache.clear();
+      consola.success(`🗑️  Removed ${removed} cached responses from ${cache.dir}`);
+    });
 
+  program
+    .command('formats')
+    .description('Manage output formats')
+    .command('list')
+    .description('List the registered formats and their sizes')
+    .option(
+      '--category <category>',
+      `Only formats of one category (${FORMAT_CATEGORIES.join('|')})`
+    )
+    .action((options: { category?: FormatCategory }) => {
+      if (options.category && !FORMAT_CATEGORIES.includes(options.category)) {
+        consola.error(
+          `❌ Unknown format category "${options.category}". Expected one of: ${FORMAT_CATEGORIES.join(', ')}.`
+        );
+        process.exit(1);
+      }
+      for (const format of listFormats(options.category)) {
+        const aliases = format.aliases?.length
+          ? ` (also: ${format.aliases.join(', ')})`
+          : '';
+        consola.info(
+          `📐 ${format.id.padEnd(22)} ${`${format.width}x${format.height}`.padEnd(
+            10
+          )} ${format.dpi} dpi  ${format.label}${aliases}`
+        );
+      }
+    });
+
+  program
+    .command('impose <inputs...>')
+    .description(
+      'Lay out generated flyers (files or folders) on print sheets with cut marks'
+    )
+    .option(
+      '-s, --sheet <size>',
+      `Sheet size (${Object.keys(SHEET_SIZES).join('|')})`,
+      'a4'
+    )
+    .option(
+      '--mode <mode>',
+      `${IMPOSITION_MODES.join('|')}: a sheet of copies per flyer, or different flyers side by side`,
+      'repeat'
+    )
+    .option(
+      '-f, --format <format>',
+      'Format of the flyers to impose, when the folder holds several'
+    )
+    .option(
+      '--copies <n>',
+      'Copies of each flyer (default: a full sheet each in repeat mode, one in mixed mode)'
+    )
+    .option('--gutter <mm>', 'Space between flyers in millimeters', '4')
+    .option('--margin <mm>', 'Space kept clear at the sheet edges', '8')
+    .option(
+      '--orientation <orientation>',
+      `${SHEET_ORIENTATIONS.join('|')} (auto fits the most flyers)`,
+      'auto'
+    )
+    .option('--no-rotate', 'Keep flyers upright even when turning fits more')
+    .option('--no-cut-marks', 'Leave the cut marks off the sheets')
+    .option(
+      '--image-format <types>',
+      `File types to write (${SHEET_ENCODINGS.join(',')})`,
+      SHEET_ENCODINGS.join(',')
+    )
+    .option(
+      '--icc-profile <file>',
+      'CMYK ICC profile for the PDF (default: the one bundled with sharp)'
+    )
+    .option(
+      '--output-dir <dir>',
+      'Folder to write the sheets to',
+      './output_flyers/sheets'
+    )
+    .action(
+      async (
+        inputs: string[],
+        options: {
+          sheet: string;
+          mode: string;
+          format?: string;
+          copies?: string;
+          gutter: string;
+          margin: string;
+          orientation: string;
+          rotate: boolean;
+          cutMarks: boolean;
+          imageFormat: string;
+          iccProfile?: string;
+          outputDir: string;
+        }
+      ) => {
+        try {
+          const sheets = await new Imposer().impose(inputs, {
+            sheet: options.sheet.toLowerCase() as SheetSize,
+            mode: options.mode as ImpositionMode,
+            format: options.format,
+            copies:
+              options.copies !== undefined ? Number(options.copies) : undefined,
+            gutter: Number(options.gutter),
+            margin: Number(options.margin),
+            orientation: options.orientation as SheetOrientation,
+            rotate: options.rotate,
+            cutMarks: options.cutMarks,
+            encodings: options.imageFormat
+              .split(',')
+              .map((type) => type.trim().toLowerCase() as SheetEncoding),
+            iccProfile: options.iccProfile,
+            outputDir: options.outputDir,
+          });
+          const flyers = sheets.reduce(
+            (total, sheet) => total + sheet.flyers.length,
+            0
+          );
+          consola.box(
+            `🖨️  ${sheets.length} sheet${sheets.length === 1 ? '' : 's'} with ${flyers} flyers saved in ${options.outputDir}`
+          );
+        } catch (error) {
+          consola.error(error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      }
+    );
+
+  const templatesCommand = program
+    .command('templates')
+    .description('Inspect declarative flyer templates');
+
+  templatesCommand
+    .command('list')
+    .description('List the templates found in the templates directory')
+    .action(() => {
+      const templates = new TemplateLoader().discover();
+      if (templates.length === 0) {
+        consola.info('🧩 No templates found.');
+        return;
+      }
+      for (const template of templates) {
+        consola.info(
+          `🧩 ${template.name}${
+            template.description ? ` - ${template.description}` : ''
+          } (${template.source})`
+        );
+      }
+    });
+
+  templatesCommand
+    .command('validate <files...>')
+    .description('Check template files and report every problem found')
+    .action((files: string[]) => {
+      const loader = new TemplateLoader();
+      let failed = false;
+
+      for (const file of files) {
+        const { template, issues } = loader.check(file);
+        if (template) {
+          consola.success(`✅ ${file}: template "${template.name}" is valid`);
+        } else {
+          failed = true;
+          consola.error(`❌ ${file}:\n${formatTemplateIssues(issues)}`);
+        }
+      }
+
+      if (failed) process.exit(1);
+    });
+
+  const palettesCommand = program
+    .command('palettes')
+    .description('Manage color palettes');
+
+  palettesCommand
+    .command('list')
+    .description('List the built-in and user palettes')
+    .option(
+      '--business <type>',
+      'Only the palette suggested for a business type'
+    )
+    .action((options: { business?: string }) => {
+      const registry = new PaletteRegistry();
+      if (options.business) {
+        const palette = registry.findForBusiness(options.business);
+        if (!palette) {
+          consola.info(
+            `🎨 No palette matches "${options.business}"; flyers will use ${DEFAULT_PALETTE}.`
+          );
+          return;
+        }
+        printPalette(palette);
+        return;
+      }
+      for (const palette of registry.list()) {
+        printPalette(palette);
+      }
+    });
+
+  palettesCommand
+    .command('add <name> <colors>')
+    .description('Save a palette to the user palettes file')
+    .option('-d, --description <text>', 'Short description')
+    .option(
+      '--business <types>',
+      'Comma-separated business types the palette suits'
+    )
+    .option('--force', 'Replace a user palette with the same name')
+    .action(
+      async (
+        name: string,
+        colors: string,
+        options: { description?: string; business?: string; force?: boolean }
+      ) => {
+        const registry = new PaletteRegistry();
+        try {
+          const palette = await registry.add(
+            {
+              name,
+              colors: splitColorList(colors),
+              description: options.description,
+              businessTypes: options.business?.split(','),
+            },
+            { replace: options.force }
+          );
+          consola.success(
+            `✅ Saved palette "${palette.name}" to ${registry.file}`
+          );
+          printPalette(palette);
+        } catch (error) {
+          consola.error(error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      }
+    );
+
+  palettesCommand
+    .command('remove <name>')
+    .description('Delete a user palette')
+    .action(async (name: string) => {
+      const registry = new PaletteRegistry();
+      try {
+        await registry.remove(name);
+        consola.success(`🗑️  Removed palette "${name}" from ${registry.file}`);
+      } catch (error) {
+        consola.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  palettesCommand
+    .command('preview <palette>')
+    .description(
+      'Render a swatch image of a palette name or comma-separated colors'
+    )
+    .option(
+      '--output <file>',
+      'PNG file to write (default: output_flyers/palette-<name>.png)'
+    )
+    .action(async (input: string, options: { output?: string }) => {
+      const registry = new PaletteRegistry();
+      let palette = registry.get(input);
+      if (!palette) {
+        const colors = splitColorList(input);
+        const invalid = colors.find((color) => !isColor(color));
+        if (invalid) {
+          consola.error(
+            `❌ "${invalid}" is not a palette name or CSS color (see \`palettes list\`).`
+          );
+          process.exit(1);
+        }
+        palette = { name: 'custom', colors, source: 'user' };
+      }
+
+      const slug = palette.name.replace(/[^a-z0-9]+/g, '-');
+      await new PaletteSwatch().render(
+        palette,
+        options.output ?? `./output_flyers/palette-${slug}.png`
+      );
+    });
+
+  palettesCommand
+    .command('extract <image>')
+    .description(
+      'Extract the dominant colors of a logo or product photo as a palette'
+    )
+    .option('-n, --count <count>', 'Most colors to extract', '6')
+    .option(
+      '--min-lc <lc>',
+      'APCA contrast flyer text must reach on each color (lower keeps more mid-tones)',
+      '60'
+    )
+    .option(
+      '--keep-background',
+      'Keep the plain backdrop color around the logo or product'
+    )
+    .option(
+      '--no-adjust',
+      'Leave out colors text cannot read on instead of darkening or lightening them'
+    )
+    .option('--save <name>', 'Save the colors as a user palette')
+    .option('-d, --description <text>', 'Description of the saved palette')
+    .option(
+      '--business <types>',
+      'Comma-separated business types the saved palette suits'
+    )
+    .option('--force', 'Replace a user palette with the same name')
+    .option('--preview <file>', 'Also render a swatch image to this PNG file')
+    .action(
+      async (
+        image: string,
+        options: {
+          count: string;
+          minLc: string;
+          keepBackground?: boolean;
+          adjust: boolean;
+          save?: string;
+          description?: string;
+          business?: string;
+          force?: boolean;
+          preview?: string;
+        }
+      ) => {
+        try {
+          const extraction = await new PaletteExtractor().extract(image, {
+            count: parseInt(options.count),
+            contrast: { minLc: Number(options.minLc) },
+            keepBackground: options.keepBackground,
+            adjust: options.adjust,
+          });
+
+          const reasons = {
+            background: 'backdrop',
+            contrast: 'text would not be readable on it',
+            duplicate: 'same as a color above once adjusted',
+          };
+          for (const swatch of extraction.swatches) {
+            const adjusted = swatch.original
+              ? ` (adjusted from ${swatch.original} for readable text)`
+              : '';
+            consola.info(
+              `🎨 ${swatch.color}  ${(swatch.share * 100).toFixed(1)}% of the image${adjusted}`
+            );
+          }
+          for (const swatch of extraction.rejected) {
+            consola.log(
+              `   skipped ${swatch.original ?? swatch.color} (${reasons[swatch.rejected!]})`
+            );
+          }
+          if (extraction.colors.length === 0) {
+            consola.error(
+              '❌ No usable colors found. Try --keep-background, or drop --no-adjust.'
+            );
+            process.exit(1);
+          }
+          consola.success(`✅ --colors "${extraction.colors.join(',')}"`);
+
+          const palette: PaletteEntry = {
+            name: options.save ?? 'extracted',
+            colors: extraction.colors,
+            description: options.description,
+            businessTypes: options.business?.split(','),
+            source: 'user',
+          };
+          if (options.save) {
+            const registry = new PaletteRegistry();
+            const saved = await registry.add(palette, {
+              replace: options.force,
+            });
+            consola.success(
+              `✅ Saved palette "${saved.name}" to ${registry.file}`
+            );
+          }
+          if (options.preview) {
+            await new PaletteSwatch().render(palette, options.preview);
+          }
+        } catch (error) {
+          consola.error(error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+      }
+    );
+
+  await program.parseAsync();
+}
+
+function printPalette(palette: PaletteEntry) {
+  const tag = palette.source === 'user' ? ' [user]' : '';
+  const description = palette.description ? ` - ${palette.description}` : '';
+  consola.info(`🎨 ${palette.name}${tag}${description}`);
+  consola.log(`   ${palette.colors.join(' ')}`);
+  if (palette.businessTypes?.length) {
+    consola.log(`   For: ${palette.businessTypes.join(', ')}`);
+  }
+}
+
+async function runGenerate(options: GenerateOptions, program: Command) {
   // Validate required CLI parameters
   if (!options.product || !options.business || !options.offer) {
     consola.error('❌ Missing required parameters!');
@@ -140,72 +980,322 @@ async function main() {
     return;
   }
 
-  // Check API key
-  if (
-    !process.env.OPENAI_API_KEY ||
-    process.env.OPENAI_API_KEY === 'sk-your-openai-api-key-here'
-  ) {
-    consola.error('❌ OpenAI API Key not configured!');
-    consola.info('💡 Please run: bun run setup');
-    consola.info('📝 Then edit .env file with your OpenAI API key');
+  let providerName: CopyProviderName;
+  try {
+    providerName = resolveProviderName({
+      provider: options.provider as CopyProviderName | undefined,
+    });
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : error);
     return;
   }
 
-  consola.success('✅ OpenAI API Key detected');
-
-  // Predefined color palettes
-  const colorPalettes: Record<string, string[]> = {
-    nicotordev: [
-      '#8B5CF6',
-      '#EC4899',
-      '#A855F7',
-      '#F472B6',
-      '#7C3AED',
-      '#E879F9',
-    ],
-    professional: [
-      '#8B5CF6',
-      '#6366F1',
-      '#3B82F6',
-      '#06B6D4',
-      '#10B981',
-      '#EC4899',
-    ],
-    restaurant: [
-      '#FF6B6B',
-      '#4ECDC4',
-      '#45B7D1',
-      '#96CEB4',
-      '#FECA57',
-      '#FF9FF3',
-    ],
-    'beauty spa': [
-      '#FF69B4',
-      '#E6E6FA',
-      '#DDA0DD',
-      '#F0E68C',
-      '#FFB6C1',
-      '#E0B4D6',
-    ],
-    gym: ['#FF4500', '#32CD32', '#1E90FF', '#FFD700', '#DC143C', '#000000'],
-    'digital marketing': [
-      '#3498DB',
-      '#E74C3C',
-      '#2ECC71',
-      '#F39C12',
-      '#9B59B6',
-      '#E67E22',
-    ],
-  };
+  // Check API key (only the hosted OpenAI provider needs one)
+  if (providerName === 'openai') {
+    if (
+      !process.env.OPENAI_API_KEY ||
+      process.env.OPENAI_API_KEY === 'sk-your-openai-api-key-here'
+    ) {
+      consola.error('❌ OpenAI API Key not configured!');
+      consola.info('💡 Please run: bun run setup');
+      consola.info('📝 Then edit .env file with your OpenAI API key');
+      consola.info('🔌 Or run offline with: --provider local|mock');
+      return;
+    }
+
+    consola.success('✅ OpenAI API Key detected');
+  }
 
-  // Parse colors - check if it's a palette name or custom colors
+  // Footer/info block toggles
+  const infoFields: InfoFieldToggles = {};
+  if (options.hideInfo) {
+    const hidden = options.hideInfo
+      .toLowerCase()
+      .split(',')
+      .map((field: string) => field.trim())
+      .filter(Boolean);
+    for (const field of hidden) {
+      if (field !== 'all' && !INFO_FIELDS.includes(field as InfoField)) {
+        consola.error(
+          `❌ Unknown info field "${field}". Use: ${INFO_FIELDS.join(', ')} or all`
+        );
+        return;
+      }
+    }
+    for (const field of INFO_FIELDS) {
+      if (hidden.includes('all') || hidden.includes(field)) {
+        infoFields[field] = false;
+      }
+    }
+  }
+
+  // Discovered once, to check --layout and to render
+  const templates = new TemplateLoader().discover();
+  let layouts: LayoutName[] | undefined;
+  try {
+    layouts = options.layout
+      ?.split(',')
+      .filter((name: string) => name.trim())
+      .map((name: string) => resolveLayoutName(name, templates));
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : error);
+    return;
+  }
+
+  let carousel: CarouselOptions | undefined;
+  if (options.carousel) {
+    carousel = {
+      slides:
+        options.carousel === true ? DEFAULT_SLIDES : Number(options.carousel),
+      numbering: options.slideNumbers ?? false,
+    };
+    try {
+      validateCarouselOptions(carousel);
+    } catch (error) {
+      consola.error(error instanceof Error ? error.message : error);
+      return;
+    }
+  }
+
+  let formats: FormatId[];
+  try {
+    formats =
+      options.format.trim().toLowerCase() === 'all'
+        ? carousel
+          ? ['instagram']
+          : DEFAULT_FORMATS
+        : options.format
+            .split(',')
+            .filter((name: string) => name.trim())
+            .map((name: string) => resolveFormatId(name));
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : error);
+    return;
+  }
+
+  const provider = createCopyProvider({
+    provider: providerName,
+    model: options.model,
+  });
+
+  // Colors: a palette name, custom colors, or the palette for the business
+  const palettes = new PaletteRegistry();
   let colors: string[];
-  const colorInput = options.colors.toLowerCase();
-  if (colorPalettes[colorInput]) {
-    colors = colorPalettes[colorInput];
-    consola.info(`🎨 Using ${colorInput} color palette`);
+  if (options.colors) {
+    const palette = palettes.get(options.colors);
+    if (palette) {
+      colors = palette.colors;
+      consola.info(`🎨 Using ${palette.name} color palette`);
+    } else {
+      colors = splitColorList(options.colors);
+      const invalid = colors.find((color) => !isColor(color));
+      if (invalid) {
+        consola.error(
+          `❌ "${invalid}" is not a CSS color or palette name. Use hex (#FF6B6B), rgb(), hsl(), oklch(), a color name or a palette (see \`palettes list\`).`
+        );
+        return;
+      }
+    }
   } else {
-    colors = options.colors.split(',').map((c: string) => c.trim());
+    const palette =
+      palettes.findForBusiness(options.business) ??
+      palettes.get(DEFAULT_PALETTE)!;
+    colors = palette.colors;
+    consola.info(`🎨 Using ${palette.name} color palette`);
+  }
+
+  let assets: BrandAsset[] | undefined;
+  if (options.logo) {
+    const logo: BrandAsset = {
+      path: options.logo,
+      onDark: options.logoOnDark,
+      onLight: options.logoOnLight,
+      placement: options.logoPlacement as AssetPlacement,
+      maxSize:
+        options.logoSize !== undefined ? Number(options.logoSize) : undefined,
+    };
+    try {
+      validateBrandAsset(logo);
+    } catch (error) {
+      consola.error(error instanceof Error ? error.message : error);
+      return;
+    }
+    assets = [logo];
+  }
+
+  let photo: ProductPhoto | undefined;
+  if (options.photo) {
+    photo = {
+      path: options.photo,
+      focus: parsePhotoFocus(options.photoFocus),
+      scrim: options.scrim as ScrimStyle,
+    };
+    try {
+      validateProductPhoto(photo);
+    } catch (error) {
+      consola.error(error instanceof Error ? error.message : error);
+      return;
+    }
+  }
+
+  let qr: QrCode | undefined;
+  if (options.qr) {
+    qr = {
+      type: options.qr as QrPayloadType,
+      url: options.qrUrl,
+      message: options.qrMessage,
+      name: options.qrName,
+      placement: options.qrPlacement as QrPlacement,
+      size: options.qrSize !== undefined ? Number(options.qrSize) : undefined,
+      quietZone:
+        options.qrQuietZone !== undefined
+          ? Number(options.qrQuietZone)
+          : undefined,
+      color: options.qrColor,
+      background: options.qrBackground,
+    };
+    try {
+      validateQrCode(qr, {
+        businessType: options.business,
+        phone: options.phone,
+        location: options.location,
+      });
+    } catch (error) {
+      consola.error(error instanceof Error ? error.message : error);
+      return;
+    }
+  }
+
+  // Structured offer: the flags refine the deal parsed from --offer. Copy
+  // that isn't a deal ("Grand opening") gets none unless one is asked for.
+  let structuredOffer: StructuredOffer | undefined;
+  const parsed = parseOffer(options.offer ?? '', options.currency);
+  if (parsed || options.offerType || options.price !== undefined) {
+    structuredOffer = {
+      ...parsed,
+      type: (options.offerType as OfferType) ?? parsed?.type ?? 'price',
+    };
+    if (options.offerValue !== undefined) {
+      if (structuredOffer.type === 'multi-buy') {
+        structuredOffer.quantity = Number(options.offerValue);
+      } else {
+        structuredOffer.value = parseAmount(options.offerValue);
+      }
+    }
+    if (options.price !== undefined) {
+      structuredOffer.promoPrice = parseAmount(options.price);
+    }
+    if (options.originalPrice !== undefined) {
+      structuredOffer.originalPrice = parseAmount(options.originalPrice);
+    }
+    if (options.currency) {
+      structuredOffer.currency = options.currency.toUpperCase();
+    }
+    try {
+      validateStructuredOffer(structuredOffer);
+    } catch (error) {
+      consola.error(error instanceof Error ? error.message : error);
+      return;
+    }
+  }
+
+  if (!BADGE_STYLES.includes(options.badge as BadgeStyle)) {
+    consola.error(
+      `❌ Unknown badge style "${options.badge}". Expected one of: ${BADGE_STYLES.join(', ')}.`
+    );
+    return;
+  }
+
+  if (options.locale) {
+    try {
+      Intl.getCanonicalLocales(options.locale);
+    } catch {
+      consola.error(
+        `❌ Invalid locale "${options.locale}". Use a BCP 47 tag like en-US or es-MX.`
+      );
+      return;
+    }
+  }
+
+  let openingHours: OpeningHours | undefined;
+  let validityPeriod: ValidityPeriod | undefined;
+  try {
+    if (options.hours) {
+      openingHours = parseOpeningHours(options.hours);
+    }
+    if (options.validFrom || options.validUntil) {
+      validityPeriod = {
+        start: options.validFrom,
+        end: options.validUntil,
+        timeZone: options.timezone,
+      };
+      validateValidityPeriod(validityPeriod);
+    } else if (options.timezone) {
+      consola.warn('⚠️ --timezone only applies to --valid-from/--valid-until.');
+    }
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : error);
+    return;
+  }
+
+  // Output: bare values apply to every format, format=value entries to one
+  const output: OutputOptions = {
+    quality:
+      options.quality !== undefined ? Number(options.quality) : undefined,
+    progressive: options.progressive,
+    mozjpeg: options.mozjpeg,
+    lossless: options.lossless,
+    keepSvg: options.keepSvg,
+    print: {
+      bleed: options.bleed !== undefined ? Number(options.bleed) : undefined,
+      cropMarks: options.cropMarks,
+      registrationMarks: options.registrationMarks,
+      iccProfile: options.iccProfile,
+    },
+    animation: options.animate
+      ? {
+          frames:
+            options.frames !== undefined ? Number(options.frames) : undefined,
+          duration:
+            options.duration !== undefined
+              ? Number(options.duration) * 1000
+              : undefined,
+          effects: options.effects
+            ?.split(',')
+            .map((effect: string) => effect.trim().toLowerCase())
+            .filter(Boolean) as AnimationEffect[] | undefined,
+        }
+      : undefined,
+  };
+  const outputs: Partial<Record<FormatId, OutputOptions>> = {};
+  const setOutput = <K extends keyof OutputOptions>(
+    list: string | undefined,
+    key: K,
+    parse: (value: string) => OutputOptions[K]
+  ) => {
+    for (const entry of list?.split(',') ?? []) {
+      const [name, value] = entry.includes('=')
+        ? entry.split('=')
+        : [undefined, entry];
+      const target = name ? (outputs[resolveFormatId(name)] ??= {}) : output;
+      target[key] = parse(value!.trim());
+    }
+  };
+  try {
+    setOutput(options.imageFormat, 'encoding', (value) => {
+      const encoding = value.toLowerCase();
+      return (encoding === 'jpg' ? 'jpeg' : encoding) as ImageEncoding;
+    });
+    setOutput(options.maxSize, 'maxBytes', parseByteSize);
+    if (output.animation) {
+      output.encoding ??= 'webp';
+    }
+    for (const entry of [output, ...Object.values(outputs)]) {
+      validateOutputOptions(entry!);
+    }
+  } catch (error) {
+    consola.error(error instanceof Error ? error.message : error);
+    return;
   }
 
   // Parse CLI options into config
@@ -218,33 +1308,50 @@ async function main() {
     phone: options.phone,
     schedule: options.schedule,
     colors: colors,
-    sizes: {
-      facebook: { width: 1200, height: 630 },
-      instagram: { width: 1080, height: 1080 },
-      story: { width: 1080, height: 1920 },
-    },
+    infoFields,
+    layouts,
+    assets,
+    photo,
+    qr,
+    structuredOffer,
+    currency: options.currency?.toUpperCase(),
+    badge: options.badge as BadgeStyle,
+    locale: options.locale,
+    openingHours,
+    validityPeriod,
+    output,
+    outputs,
   };
 
   const quantity = Math.min(Math.max(parseInt(options.quantity) || 3, 1), 10);
   const language = options.language;
 
-  // Map format option
-  let formatChoice = 'All formats (Facebook, Instagram, Stories)';
-  switch (options.format.toLowerCase()) {
-    case 'facebook':
-      formatChoice = 'Facebook only (1200x630)';
-      break;
-    case 'instagram':
-      formatChoice = 'Instagram only (1080x1080)';
-      break;
-    case 'stories':
-    case 'story':
-      formatChoice = 'Stories only (1080x1920)';
-      break;
-  }
-
   consola.info('🚀 Running PromoMaker in CLI mode...');
-  await generateFlyers(config, formatChoice, quantity, language);
+  if (carousel) {
+    await generateCarousels(
+      config,
+      formats,
+      carousel,
+      language,
+      provider,
+      options.cache,
+      options.debugSafeZones ?? false,
+      options.allowExpired ?? false,
+      templates
+    );
+    return;
+  }
+  await generateFlyers(
+    config,
+    formats,
+    quantity,
+    language,
+    provider,
+    options.cache,
+    options.debugSafeZones ?? false,
+    options.allowExpired ?? false,
+    templates
+  );
 }
 
 // Run if this is the main file
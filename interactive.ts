@@ -1,108 +1,39 @@
 #!/usr/bin/env bun
 import { consola } from 'consola';
 import { FlyerGenerator } from './src/FlyerGenerator';
-import type { PromoConfig } from './src/types';
-
-// Predefined color palettes for different business types
-const colorPalettes = {
-  // NicoTorDev's custom palette (main theme)
-  nicotordev: [
-    '#8B5CF6', // main-600
-    '#EC4899', // secondary-500
-    '#A855F7', // main-500
-    '#F472B6', // secondary-400
-    '#7C3AED', // main-700
-    '#E879F9', // secondary-300
-  ],
-  // Professional/tech palette based on your theme
-  professional: [
-    '#8B5CF6', // main
-    '#6366F1', // indigo
-    '#3B82F6', // blue
-    '#06B6D4', // cyan
-    '#10B981', // emerald
-    '#EC4899', // secondary
-  ],
-  restaurant: [
-    '#FF6B6B',
-    '#4ECDC4',
-    '#45B7D1',
-    '#96CEB4',
-    '#FECA57',
-    '#FF9FF3',
-  ],
-  'beauty spa': [
-    '#FF69B4',
-    '#E6E6FA',
-    '#DDA0DD',
-    '#F0E68C',
-    '#FFB6C1',
-    '#E0B4D6',
-  ],
-  gym: ['#FF4500', '#32CD32', '#1E90FF', '#FFD700', '#DC143C', '#000000'],
-  'technology academy': [
-    '#4A90E2',
-    '#50C878',
-    '#FF6B35',
-    '#9B59B6',
-    '#E67E22',
-    '#34495E',
-  ],
-  'event organizer': [
-    '#FFD700',
-    '#FF1493',
-    '#00FF7F',
-    '#FF4500',
-    '#8A2BE2',
-    '#DC143C',
-  ],
-  'real estate': [
-    '#2C3E50',
-    '#E74C3C',
-    '#3498DB',
-    '#27AE60',
-    '#F39C12',
-    '#8E44AD',
-  ],
-  'auto shop': [
-    '#2C3E50',
-    '#E74C3C',
-    '#F39C12',
-    '#95A5A6',
-    '#34495E',
-    '#E67E22',
-  ],
-  'retail store': [
-    '#E74C3C',
-    '#3498DB',
-    '#2ECC71',
-    '#F39C12',
-    '#9B59B6',
-    '#1ABC9C',
-  ],
-  'digital marketing': [
-    '#3498DB',
-    '#E74C3C',
-    '#2ECC71',
-    '#F39C12',
-    '#9B59B6',
-    '#E67E22',
-  ],
-  'professional services': [
-    '#34495E',
-    '#3498DB',
-    '#2ECC71',
-    '#E67E22',
-    '#9B59B6',
-    '#95A5A6',
-  ],
-};
+import { ASSET_PLACEMENTS, validateBrandAsset } from './src/assets';
+import { validateProductPhoto } from './src/background';
+import { isColor, splitColorList } from './src/color';
+import { DEFAULT_FORMATS, listFormats } from './src/formats';
+import { INFO_FIELDS } from './src/layout/InfoBlock';
+import { BADGE_STYLES } from './src/layout/OfferBadge';
+import { LAYOUTS } from './src/layouts';
+import { getOfferLabels, parseOffer } from './src/offers';
+import { QR_PAYLOAD_TYPES, validateQrCode } from './src/qr';
+import { PaletteRegistry } from './src/palettes';
+import { getValidityStatus, validateValidityPeriod } from './src/schedule';
+import { TemplateLoader, type FlyerTemplate } from './src/templates';
+import { resolveProviderName } from './src/providers';
+import type {
+  AssetPlacement,
+  BadgeStyle,
+  BrandAsset,
+  FormatId,
+  InfoFieldToggles,
+  LayoutName,
+  ProductPhoto,
+  PromoConfig,
+  QrCode,
+  QrPayloadType,
+  ValidityPeriod,
+} from './src/types';
 
 interface UserPreferences {
   config: PromoConfig;
-  formatChoice: string;
+  formats: FormatId[];
   quantity: number;
   language: string;
+  templates: FlyerTemplate[];
 }
 
 async function promptUser(): Promise<UserPreferences> {
@@ -143,7 +74,8 @@ async function promptUser(): Promise<UserPreferences> {
   );
 
   // Business Type with predefined options
-  const businessTypeOptions = Object.keys(colorPalettes);
+  const palettes = new PaletteRegistry();
+  const businessTypeOptions = palettes.list().map((palette) => palette.name);
   const businessType = await consola.prompt('🏢 What type of business is it?', {
     type: 'select',
     options: [...businessTypeOptions, 'other (custom)'],
@@ -169,11 +101,45 @@ async function promptUser(): Promise<UserPreferences> {
     }
   );
 
+  // Badge shape, when the offer has a deal worth a badge
+  const deal = parseOffer(offer);
+  let badge: BadgeStyle | undefined;
+  if (deal) {
+    const labels = getOfferLabels(deal);
+    badge = (await consola.prompt(
+      `🏷️  Badge shape for "${[labels.headline, labels.caption].filter(Boolean).join(' ')}"?`,
+      {
+        type: 'select',
+        options: BADGE_STYLES,
+      }
+    )) as unknown as BadgeStyle;
+  }
+
   // Validity
   const validity = await consola.prompt('⏰ How long is this offer valid?', {
     type: 'text',
     placeholder: 'e.g., Until end of month, Only this weekend, Limited time',
   });
+  const lastDay = (
+    (await consola.prompt(
+      '📅 Last day of the offer, for "Ends Sunday" and countdown copy (leave empty to skip):',
+      { type: 'text', placeholder: 'YYYY-MM-DD' }
+    )) as string
+  ).trim();
+  let validityPeriod: ValidityPeriod | undefined;
+  if (lastDay) {
+    try {
+      validateValidityPeriod({ end: lastDay });
+      if (getValidityStatus({ end: lastDay }).state === 'expired') {
+        throw new Error(`${lastDay} has already passed.`);
+      }
+      validityPeriod = { end: lastDay };
+    } catch (error) {
+      consola.warn(
+        `⚠️ ${error instanceof Error ? error.message : error} Continuing without an end date.`
+      );
+    }
+  }
 
   // Location
   const location = await consola.prompt('📍 Where is your business located?', {
@@ -193,6 +159,20 @@ async function promptUser(): Promise<UserPreferences> {
     placeholder: 'e.g., Mon-Sat 9AM-8PM, 24/7, By appointment',
   });
 
+  // Footer/info block
+  const shownInfo = await consola.prompt(
+    '🧾 Which details should appear in the flyer footer?',
+    {
+      type: 'multiselect',
+      options: [...INFO_FIELDS],
+      initial: [...INFO_FIELDS],
+      required: false,
+    }
+  );
+  const infoFields: InfoFieldToggles = Object.fromEntries(
+    INFO_FIELDS.map((field) => [field, (shownInfo as string[]).includes(field)])
+  );
+
   // Colors
   const usePresetColors = await consola.prompt(
     '🎨 Do you want to use preset colors for your business type?',
@@ -203,23 +183,137 @@ async function promptUser(): Promise<UserPreferences> {
   );
 
   let colors: string[];
-  if (usePresetColors && businessType in colorPalettes) {
-    colors = colorPalettes[businessType as keyof typeof colorPalettes];
+  const presetPalette = usePresetColors
+    ? palettes.findForBusiness(finalBusinessType)
+    : undefined;
+  if (presetPalette) {
+    colors = presetPalette.colors;
     consola.success(
-      `✅ Using ${businessType} color palette: ${colors.join(', ')}`
+      `✅ Using ${presetPalette.name} color palette: ${colors.join(', ')}`
     );
   } else {
+    if (usePresetColors) {
+      consola.info(`🎨 No preset palette for "${finalBusinessType}".`);
+    }
     const customColors = await consola.prompt(
-      '🌈 Enter your custom colors (hex format, separated by commas):',
+      '🌈 Enter a palette name or your custom colors (any CSS color: hex, rgb(), hsl(), oklch(), names; separated by commas):',
       {
         type: 'text',
-        placeholder: '#FF6B6B, #4ECDC4, #45B7D1',
+        placeholder: '#FF6B6B, #4ECDC4, oklch(0.7 0.15 200)',
         initial: '#3498DB, #E74C3C, #2ECC71, #F39C12',
       }
     );
-    colors = customColors.split(',').map((color: string) => color.trim());
+    colors =
+      palettes.get(customColors)?.colors ??
+      splitColorList(customColors).filter((color) => {
+        if (isColor(color)) return true;
+        consola.warn(`⚠️ "${color}" is not a CSS color, skipping it.`);
+        return false;
+      });
+    if (colors.length === 0) {
+      colors = ['#3498DB', '#E74C3C', '#2ECC71', '#F39C12'];
+      consola.info(`🎨 Using the default colors: ${colors.join(', ')}`);
+    }
+  }
+
+  // Logo
+  const logoPath = (
+    (await consola.prompt(
+      '🏷️  Logo file to place on the flyers (PNG, JPEG, WebP or SVG; leave empty for none):',
+      { type: 'text', placeholder: './logo.png' }
+    )) as string
+  ).trim();
+  let assets: BrandAsset[] | undefined;
+  if (logoPath) {
+    const placement = (await consola.prompt('📌 Where should the logo go?', {
+      type: 'select',
+      options: ASSET_PLACEMENTS,
+    })) as AssetPlacement;
+    try {
+      validateBrandAsset({ path: logoPath, placement });
+      assets = [{ path: logoPath, placement }];
+    } catch (error) {
+      consola.warn(
+        `⚠️ ${error instanceof Error ? error.message : error} Continuing without a logo.`
+      );
+    }
+  }
+
+  // Product photo
+  const photoPath = (
+    (await consola.prompt(
+      '📷 Product photo to use as the background (leave empty for a color gradient):',
+      { type: 'text', placeholder: './product.jpg' }
+    )) as string
+  ).trim();
+  let photo: ProductPhoto | undefined;
+  if (photoPath) {
+    try {
+      validateProductPhoto({ path: photoPath });
+      photo = { path: photoPath };
+    } catch (error) {
+      consola.warn(
+        `⚠️ ${error instanceof Error ? error.message : error} Continuing without a photo.`
+      );
+    }
+  }
+
+  // QR code
+  const qrType = (await consola.prompt('🔳 Add a QR code to the flyers?', {
+    type: 'select',
+    options: [
+      { label: 'No QR code', value: 'none' },
+      ...QR_PAYLOAD_TYPES.map((type) => ({
+        label: {
+          url: 'Link to a website',
+          tel: 'Call the phone number',
+          whatsapp: 'WhatsApp chat with the phone number',
+          vcard: 'Save the business as a contact',
+          geo: 'Open the location on a map',
+        }[type],
+        value: type,
+      })),
+    ],
+  })) as unknown as QrPayloadType | 'none';
+  let qr: QrCode | undefined;
+  if (qrType !== 'none') {
+    const url =
+      qrType === 'url' || qrType === 'vcard'
+        ? (
+            (await consola.prompt('🔗 Website address:', {
+              type: 'text',
+              placeholder: 'https://example.com',
+            })) as string
+          ).trim() || undefined
+        : undefined;
+    try {
+      validateQrCode(
+        { type: qrType, url },
+        { businessType: finalBusinessType, phone, location }
+      );
+      qr = { type: qrType, url };
+    } catch (error) {
+      consola.warn(
+        `⚠️ ${error instanceof Error ? error.message : error} Continuing without a QR code.`
+      );
+    }
   }
 
+  // Layouts
+  const templates = new TemplateLoader().discover();
+  const layoutChoice = await consola.prompt('🧩 Which layout should I use?', {
+    type: 'select',
+    options: [
+      'Rotate through all layouts',
+      ...LAYOUTS,
+      ...templates.map((template) => template.name),
+    ],
+  });
+  const layouts: LayoutName[] | undefined =
+    layoutChoice === 'Rotate through all layouts'
+      ? undefined
+      : [layoutChoice as LayoutName];
+
   // Format selection
   const formatChoice = await consola.prompt(
     '📱 Which formats do you want to generate?',
@@ -230,10 +324,42 @@ async function promptUser(): Promise<UserPreferences> {
         'Facebook only (1200x630)',
         'Instagram only (1080x1080)',
         'Stories only (1080x1920)',
+        'Choose other formats...',
       ],
     }
   );
 
+  let formats: FormatId[];
+  switch (formatChoice) {
+    case 'Facebook only (1200x630)':
+      formats = ['facebook'];
+      break;
+    case 'Instagram only (1080x1080)':
+      formats = ['instagram'];
+      break;
+    case 'Stories only (1080x1920)':
+      formats = ['story'];
+      break;
+    case 'Choose other formats...': {
+      const chosen = (await consola.prompt('📐 Pick the formats to render:', {
+        type: 'multiselect',
+        required: false,
+        options: listFormats().map((format) => ({
+          value: format.id,
+          label: format.label,
+          hint: `${format.width}x${format.height}`,
+        })),
+      })) as unknown as FormatId[];
+      formats = chosen.length > 0 ? chosen : DEFAULT_FORMATS;
+      if (chosen.length === 0) {
+        consola.warn('⚠️  No format selected, using Facebook, Instagram and Stories');
+      }
+      break;
+    }
+    default:
+      formats = DEFAULT_FORMATS;
+  }
+
   // Quantity
   const quantity = await consola.prompt(
     '🔢 How many text variations do you want?',
@@ -255,34 +381,38 @@ async function promptUser(): Promise<UserPreferences> {
     businessType: finalBusinessType,
     offer,
     validity,
+    validityPeriod,
     location,
     phone,
     schedule,
     colors,
-    sizes: {
-      facebook: { width: 1200, height: 630 },
-      instagram: { width: 1080, height: 1080 },
-      story: { width: 1080, height: 1920 },
-    },
+    infoFields,
+    layouts,
+    assets,
+    photo,
+    qr,
+    badge,
   };
 
   return {
     config,
-    formatChoice,
+    formats,
     quantity: Math.min(Math.max(quantityNum, 1), 10),
     language: finalLanguage,
+    templates,
   };
 }
 
 async function generateFlyers(
   config: PromoConfig,
-  formatChoice: string,
+  formats: FormatId[],
   quantity: number,
-  language: string
+  language: string,
+  templates: FlyerTemplate[]
 ) {
   consola.start('🚀 Starting flyer generation process...');
 
-  const generator = new FlyerGenerator();
+  const generator = new FlyerGenerator({ templates });
 
   // Show configuration summary
   consola.box(`
@@ -296,7 +426,7 @@ async function generateFlyers(
 📞 Phone: ${config.phone}
 🕒 Schedule: ${config.schedule}
 🎨 Colors: ${config.colors.join(', ')}
-📱 Format: ${formatChoice}
+📱 Formats: ${formats.join(', ')}
 🔢 Quantity: ${quantity}
 🌐 Language: ${language}
   `);
@@ -315,28 +445,14 @@ async function generateFlyers(
   }
 
   try {
-    let flyers;
-
     consola.info('🤖 Generating AI-powered text variations...');
 
-    switch (formatChoice) {
-      case 'All formats (Facebook, Instagram, Stories)':
-        flyers = await generator.generateForAllFormats(
-          config,
-          quantity,
-          language
-        );
-        break;
-      case 'Instagram only (1080x1080)':
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-      case 'Stories only (1080x1920)':
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-      default: // Facebook only
-        flyers = await generator.generateVariations(config, quantity, language);
-        break;
-    }
+    const flyers = await generator.generateVariations(
+      config,
+      quantity,
+      language,
+      formats
+    );
 
     consola.success(
       `🎉 Successfully generated ${flyers.length} promotional flyers!`
@@ -348,6 +464,7 @@ async function generateFlyers(
       consola.info(`   ${index + 1}. ${flyer.filename}`);
       consola.info(`      📝 Tone: ${flyer.textVariation.tone}`);
       consola.info(`      🎨 Color: ${flyer.color}`);
+      consola.info(`      🧩 Layout: ${flyer.layout}`);
       consola.info(`      📱 Format: ${flyer.format}`);
       consola.info(`      💬 Title: "${flyer.textVariation.title}"`);
       console.log('');
@@ -391,7 +508,7 @@ async function generateFlyers(
     });
 
     if (retry) {
-      await generateFlyers(config, formatChoice, quantity, language);
+      await generateFlyers(config, formats, quantity, language, templates);
     }
   }
 }
@@ -411,27 +528,33 @@ async function main() {
 Let's get started! 🎉
     `);
 
-    // Check if API key is configured
-    if (
-      !process.env.OPENAI_API_KEY ||
-      process.env.OPENAI_API_KEY === 'sk-your-openai-api-key-here'
-    ) {
-      consola.error('❌ OpenAI API Key not configured!');
-      consola.info('💡 Please run: bun run setup');
-      consola.info('📝 Then edit .env file with your OpenAI API key');
-      return;
-    }
+    // Check if API key is configured (only the hosted OpenAI provider needs one)
+    if (resolveProviderName() === 'openai') {
+      if (
+        !process.env.OPENAI_API_KEY ||
+        process.env.OPENAI_API_KEY === 'sk-your-openai-api-key-here'
+      ) {
+        consola.error('❌ OpenAI API Key not configured!');
+        consola.info('💡 Please run: bun run setup');
+        consola.info('📝 Then edit .env file with your OpenAI API key');
+        consola.info('🔌 Or set COPY_PROVIDER=local|mock to run offline');
+        return;
+      }
 
-    consola.success('✅ OpenAI API Key detected');
+      consola.success('✅ OpenAI API Key detected');
+    } else {
+      consola.success(`✅ Using ${resolveProviderName()} copy provider`);
+    }
     console.log('\n');
 
     // Get user preferences
-    const { config, formatChoice, quantity, language } = await promptUser();
+    const { config, formats, quantity, language, templates } =
+      await promptUser();
 
     console.log('\n');
 
     // Generate flyers
-    await generateFlyers(config, formatChoice, quantity, language);
+    await generateFlyers(config, formats, quantity, language, templates);
   } catch (error) {
     consola.error('❌ Unexpected error:', error);
   }
@@ -22,6 +22,28 @@ OPENAI_API_KEY=sk-your-openai-api-key-here
 # Optional: Configure the OpenAI model to use
 # OPENAI_MODEL=gpt-3.5-turbo
 
+# Optional: Copy provider (openai | local | mock)
+# COPY_PROVIDER=openai
+
+# Optional: OpenAI-compatible local endpoint (Ollama, llama.cpp server...)
+# LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+# LOCAL_LLM_MODEL=llama3.1
+
+# Optional: Text generation cache (location and TTL in seconds, 0 = never expire)
+# PROMOMAKER_CACHE_DIR=./.promomaker-cache/responses
+# PROMOMAKER_CACHE_TTL=604800
+
+# Optional: Font used for layout (must also be installed for rendering)
+# PROMOMAKER_FONT_DIR=./fonts
+# PROMOMAKER_FONT_REGULAR=./fonts/Inter-Regular.ttf
+# PROMOMAKER_FONT_BOLD=./fonts/Inter-Bold.ttf
+
+# Optional: Directory of JSON/YAML flyer templates
+# PROMOMAKER_TEMPLATE_DIR=./templates
+
+# Optional: File holding your own color palettes (bun cli.ts palettes add)
+# PROMOMAKER_PALETTES_FILE=./palettes.json
+
 # Optional: Output directory for generated flyers
 # OUTPUT_DIR=./output_flyers
 `;
@@ -69,7 +91,9 @@ async function verify() {
     { name: '.env file', check: () => existsSync('./.env') },
     {
       name: 'OPENAI_API_KEY variable',
-      check: () => !!process.env.OPENAI_API_KEY,
+      check: () =>
+        !!process.env.OPENAI_API_KEY ||
+        (process.env.COPY_PROVIDER ?? 'openai').toLowerCase() !== 'openai',
     },
   ];
 
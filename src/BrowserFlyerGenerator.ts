@@ -1,9 +1,26 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
-import type { PromoConfig, TextVariation } from './types.js';
-
-export type FlyerFormat = 'square' | 'story' | 'post' | 'banner';
+import { BrandAssets, type PlacedAsset } from './assets';
+import { parseColor, readableTextColor, toHex } from './color';
+import { getFormatSize, resolveFormatId } from './formats';
+import { OfferBadge } from './layout/OfferBadge';
+import { EstimatedTextMeasurer } from './layout/TextFitter';
+import { getOfferLabels, localeForLanguage, parseOffer } from './offers';
+import { QrCodeRenderer, buildQrPayload, type PlacedQrCode } from './qr';
+import { describeSchedule } from './schedule';
+import type {
+  BrandAsset,
+  FormatId,
+  PromoConfig,
+  TextVariation,
+} from './types.js';
+
+/** Any format id or alias from the format registry (see src/formats). */
+export type FlyerFormat = FormatId;
+
+/** Screenshots are taken at twice the CSS size, for sharper text. */
+const DEVICE_SCALE_FACTOR = 2;
 
 export interface UserPreferences extends PromoConfig {
   format: FlyerFormat;
@@ -12,6 +29,9 @@ export interface UserPreferences extends PromoConfig {
 
 export class BrowserFlyerGenerator {
   private browser: Browser | null = null;
+  private brandAssets = new BrandAssets();
+  private qrCodes = new QrCodeRenderer();
+  private offerBadge = new OfferBadge(new EstimatedTextMeasurer());
 
   async initialize(): Promise<void> {
     if (!this.browser) {
@@ -39,7 +59,9 @@ export class BrowserFlyerGenerator {
 
   private generateFlyerHTML(
     preferences: UserPreferences,
-    variations: Array<{ title: string; description: string; cta: string }>
+    variations: Array<{ title: string; description: string; cta: string }>,
+    assets: PlacedAsset[] = [],
+    qr?: PlacedQrCode
   ): string {
     const {
       product,
@@ -60,6 +82,7 @@ export class BrowserFlyerGenerator {
     const selectedVariation = variations[0]!; // Use first variation (non-null assertion after check)
 
     const colorPalette = this.getColorClasses(colors);
+    const headerLogo = assets.find((asset) => asset.placement === 'header');
 
     return `
 <!DOCTYPE html>
@@ -76,26 +99,33 @@ export class BrowserFlyerGenerator {
     </style>
 </head>
 <body class="bg-gradient-to-br from-primary-50 to-secondary-50 p-8">
-    <div class="flyer-container max-w-2xl mx-auto ${this.getFlyerSizeClass(
-      preferences.format
-    )}">
+    <div class="flyer-container mx-auto" style="${this.getFlyerSizeStyle(preferences)}">
         <!-- Header with gradient background -->
         <div class="flyer-header p-8 text-center relative overflow-hidden">
             <div class="absolute inset-0 bg-gradient-to-r ${
               colorPalette.gradient
             } opacity-90"></div>
             <div class="relative z-10">
-                <div class="w-20 h-20 bg-white rounded-full mx-auto mb-4 flex items-center justify-center business-logo">
+                ${
+                  headerLogo
+                    ? `<img src="${headerLogo.uri}" alt="" class="mx-auto mb-4" style="display: block; ${this.getAssetStyle(
+                        headerLogo
+                      )}">`
+                    : `<div class="w-20 h-20 bg-white rounded-full mx-auto mb-4 flex items-center justify-center business-logo">
                     <span class="text-2xl font-bold ${
                       colorPalette.text
                     }">${businessType.charAt(0).toUpperCase()}</span>
-                </div>
+                </div>`
+                }
                 <h1 class="text-3xl font-heading font-bold text-white mb-2">${
                   selectedVariation.title
                 }</h1>
-                <div class="offer-badge inline-block">
+                ${
+                  this.renderOfferBadge(preferences) ??
+                  `<div class="offer-badge inline-block">
                     <span class="text-lg font-bold">${offer}</span>
-                </div>
+                </div>`
+                }
             </div>
         </div>
 
@@ -150,7 +180,10 @@ export class BrowserFlyerGenerator {
                 <h3 class="text-xl font-bold mb-2">${selectedVariation.cta}</h3>
                 ${
                   validity
-                    ? `<p class="text-sm opacity-90 mb-4">Válido hasta: ${validity}</p>`
+                    ? `<p class="text-sm opacity-90 mb-4">${
+                        // Dates from a validity period are already worded ("Ends Sunday").
+                        preferences.validityPeriod ? '' : 'Válido hasta: '
+                      }${validity}</p>`
                     : ''
                 }
                 <div class="space-y-2">
@@ -177,6 +210,25 @@ export class BrowserFlyerGenerator {
         <div class="absolute bottom-4 left-4 w-12 h-12 ${
           colorPalette.bgSecondary
         } rounded-full opacity-20 animate-bounce-gentle"></div>
+
+        <!-- Brand assets -->
+        ${assets
+          .filter((asset) => asset !== headerLogo)
+          .map(
+            (asset) =>
+              `<img src="${asset.uri}" alt="" class="absolute z-10" style="left: ${
+                asset.x
+              }px; top: ${asset.y}px; ${this.getAssetStyle(asset)}">`
+          )
+          .join('\n        ')}
+        ${
+          qr
+            ? `<!-- QR code -->
+        <div class="absolute z-10" style="left: ${qr.x}px; top: ${qr.y}px;">${this.qrCodes.render(
+          qr
+        )}</div>`
+            : ''
+        }
     </div>
 </body>
 </html>`;
@@ -224,6 +276,11 @@ export class BrowserFlyerGenerator {
         box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
       }
 
+      .offer-badge-graphic {
+        display: block;
+        filter: drop-shadow(0 4px 12px rgba(0, 0, 0, 0.25));
+      }
+
       .offer-badge {
         background: linear-gradient(135deg, var(--color-secondary-500), var(--color-primary-500));
         color: white;
@@ -300,6 +357,7 @@ export class BrowserFlyerGenerator {
     const colorMappings: Record<string, any> = {
       purple: {
         gradient: 'from-purple-600 to-purple-700',
+        headerColor: '#9333EA',
         lightGradient: 'from-purple-50 to-purple-100',
         bg: 'bg-purple-500',
         bgSecondary: 'bg-purple-300',
@@ -308,6 +366,7 @@ export class BrowserFlyerGenerator {
       },
       pink: {
         gradient: 'from-pink-600 to-pink-700',
+        headerColor: '#DB2777',
         lightGradient: 'from-pink-50 to-pink-100',
         bg: 'bg-pink-500',
         bgSecondary: 'bg-pink-300',
@@ -316,6 +375,7 @@ export class BrowserFlyerGenerator {
       },
       blue: {
         gradient: 'from-blue-600 to-blue-700',
+        headerColor: '#2563EB',
         lightGradient: 'from-blue-50 to-blue-100',
         bg: 'bg-blue-500',
         bgSecondary: 'bg-blue-300',
@@ -324,6 +384,7 @@ export class BrowserFlyerGenerator {
       },
       green: {
         gradient: 'from-green-600 to-green-700',
+        headerColor: '#16A34A',
         lightGradient: 'from-green-50 to-green-100',
         bg: 'bg-green-500',
         bgSecondary: 'bg-green-300',
@@ -332,6 +393,7 @@ export class BrowserFlyerGenerator {
       },
       red: {
         gradient: 'from-red-600 to-red-700',
+        headerColor: '#DC2626',
         lightGradient: 'from-red-50 to-red-100',
         bg: 'bg-red-500',
         bgSecondary: 'bg-red-300',
@@ -344,19 +406,110 @@ export class BrowserFlyerGenerator {
     return colorMappings[primaryColor] || colorMappings.purple;
   }
 
-  private getFlyerSizeClass(format: FlyerFormat): string {
-    switch (format) {
-      case 'square':
-        return 'w-[600px] h-[600px]';
-      case 'story':
-        return 'w-[400px] h-[700px]';
-      case 'post':
-        return 'w-[500px] h-[500px]';
-      case 'banner':
-        return 'w-[800px] h-[400px]';
-      default:
-        return 'w-[600px] h-[600px]';
+  /**
+   * Positions brand assets on the flyer. Header and top-corner assets sit
+   * on the header gradient, the rest on the white card, and each gets the
+   * variant (or silhouette) that shows on what is behind it.
+   */
+  private async placeAssets(
+    preferences: UserPreferences
+  ): Promise<PlacedAsset[]> {
+    const assets = preferences.assets ?? [];
+    if (assets.length === 0) {
+      return [];
     }
+
+    const { width, height } = this.getViewportDimensions(preferences);
+    const onHeader = (asset: BrandAsset) =>
+      asset.placement !== 'watermark' &&
+      !asset.placement?.startsWith('bottom');
+    const [header, card] = await Promise.all([
+      this.brandAssets.place(assets.filter(onHeader), {
+        width,
+        height,
+        backgroundColor: this.getColorClasses(preferences.colors).headerColor,
+      }),
+      this.brandAssets.place(
+        assets.filter((asset) => !onHeader(asset)),
+        { width, height, backgroundColor: '#FFFFFF' }
+      ),
+    ]);
+    return [...header, ...card];
+  }
+
+  /**
+   * Encodes the QR code and positions it in its corner of the flyer, above
+   * any logo in the same band.
+   */
+  private placeQrCode(preferences: UserPreferences): PlacedQrCode | undefined {
+    if (!preferences.qr) {
+      return undefined;
+    }
+
+    const { width, height } = this.getViewportDimensions(preferences);
+    const canvas = this.brandAssets.reserveSpace({
+      width,
+      height,
+      backgroundColor: '#FFFFFF',
+      assets: preferences.assets,
+    });
+    return this.qrCodes.place(
+      {
+        ...preferences.qr,
+        payload: buildQrPayload(preferences.qr, preferences),
+      },
+      canvas
+    );
+  }
+
+  /**
+   * The offer as an inline SVG discount badge in the first brand color, or
+   * null when the offer has no recognized deal.
+   */
+  private renderOfferBadge(preferences: UserPreferences): string | null {
+    const offer =
+      preferences.structuredOffer ??
+      parseOffer(preferences.offer, preferences.currency);
+    if (!offer) {
+      return null;
+    }
+
+    const fill = toHex(preferences.colors[0] ?? '#A855F7');
+    const labels = getOfferLabels(
+      offer,
+      preferences.locale ?? localeForLanguage(preferences.language || 'English')
+    );
+    return `<svg class="offer-badge-graphic mx-auto" width="160" height="160" viewBox="0 0 200 200">
+                    ${this.offerBadge.render(
+                      labels,
+                      { cx: 100, cy: 100, r: 92 },
+                      {
+                        style: preferences.badge ?? 'starburst',
+                        fontFamily: "'Poppins', 'Inter', sans-serif",
+                        fill,
+                        color: toHex(readableTextColor(parseColor(fill))),
+                      }
+                    )}
+                </svg>`;
+  }
+
+  /** Size, opacity and silhouette tint of a placed asset, as inline CSS. */
+  private getAssetStyle(asset: PlacedAsset): string {
+    const tint =
+      asset.tint === '#FFFFFF'
+        ? ' filter: brightness(0) invert(1);'
+        : asset.tint
+          ? ' filter: brightness(0);'
+          : '';
+    return `width: ${asset.width}px; height: ${asset.height}px; opacity: ${asset.opacity};${tint}`;
+  }
+
+  /**
+   * Fixed CSS size of the flyer, so the screenshot matches the format.
+   */
+  private getFlyerSizeStyle(preferences: UserPreferences): string {
+    const { width, height } = this.getViewportDimensions(preferences);
+    return `width: ${width}px; height: ${height}px;`;
   }
 
   async generateFlyer(
@@ -372,15 +525,25 @@ export class BrowserFlyerGenerator {
 
     try {
       // Set viewport based on format
-      const dimensions = this.getViewportDimensions(preferences.format);
+      const dimensions = this.getViewportDimensions(preferences);
       await page.setViewport({
         width: dimensions.width,
         height: dimensions.height,
-        deviceScaleFactor: 2, // High DPI for better quality
+        deviceScaleFactor: DEVICE_SCALE_FACTOR, // High DPI for better quality
       });
 
       // Generate HTML content
-      const html = this.generateFlyerHTML(preferences, variations);
+      const assets = await this.placeAssets(preferences);
+      const html = this.generateFlyerHTML(
+        describeSchedule(
+          preferences,
+          preferences.locale ??
+            localeForLanguage(preferences.language || 'English')
+        ),
+        variations,
+        assets,
+        this.placeQrCode(preferences)
+      );
 
       // Set content and wait for fonts to load
       await page.setContent(html, {
@@ -417,19 +580,25 @@ export class BrowserFlyerGenerator {
     }
   }
 
-  private getViewportDimensions(format: FlyerFormat) {
-    switch (format) {
-      case 'square':
-        return { width: 600, height: 600 };
-      case 'story':
-        return { width: 400, height: 700 };
-      case 'post':
-        return { width: 500, height: 500 };
-      case 'banner':
-        return { width: 800, height: 400 };
-      default:
-        return { width: 600, height: 600 };
-    }
+  /**
+   * CSS viewport for the flyer's format, at its `preferences.sizes` entry
+   * or registered size. At DEVICE_SCALE_FACTOR the screenshot comes out at
+   * that pixel size.
+   *
+   * The old format names are aliases now: `square` and `post` are the
+   * Instagram post (540x540, was 600x600 and 500x500) and `banner` the
+   * Facebook post (600x315, was 800x400).
+   */
+  private getViewportDimensions(preferences: UserPreferences) {
+    // Ids only in `sizes` are kept; aliases resolve to the registered id.
+    const format = preferences.sizes?.[preferences.format]
+      ? preferences.format
+      : resolveFormatId(preferences.format);
+    const { width, height } = getFormatSize(format, preferences);
+    return {
+      width: Math.round(width / DEVICE_SCALE_FACTOR),
+      height: Math.round(height / DEVICE_SCALE_FACTOR),
+    };
   }
 
   private generateOutputPath(preferences: UserPreferences): string {
@@ -1,15 +1,81 @@
 import { consola } from 'consola';
 import { mkdir } from 'fs/promises';
-import { join } from 'path';
+import { basename, join } from 'path';
 import { TextGenerator } from './TextGenerator';
 import { ImageGenerator } from './ImageGenerator';
+import { ResponseCache } from './cache/ResponseCache';
+import {
+  DEFAULT_SLIDES,
+  slideRoles,
+  validateCarouselOptions,
+  type SlideBudget,
+} from './carousel';
+import { createColorScheme, toHex } from './color';
+import {
+  DEFAULT_FORMATS,
+  getFormatDpi,
+  getFormatSafeZone,
+  getFormatSize,
+  resolveFormatId,
+} from './formats';
+import { getInfoItems } from './layout/InfoBlock';
+import {
+  localeForLanguage,
+  parseOffer,
+  validateStructuredOffer,
+} from './offers';
+import { outputExtension, resolveOutputOptions } from './output';
+import { printCanvas } from './print';
+import { buildQrPayload } from './qr';
+import {
+  describeSchedule,
+  getValidityStatus,
+  validateOpeningHours,
+  validateValidityPeriod,
+} from './schedule';
+import {
+  CachedProvider,
+  createCopyProvider,
+  type CopyProvider,
+} from './providers';
+import { TemplateLoader, type FlyerTemplate } from './templates';
 import type {
   PromoConfig,
+  CarouselOptions,
+  CarouselSlide,
+  GeneratedCarousel,
   GeneratedFlyer,
   CanvasConfig,
+  FormatId,
+  LayoutName,
+  LengthBudget,
+  OutputOptions,
+  PromoDetails,
+  SlideRole,
   TextVariation,
 } from './types';
 
+export interface FlyerGeneratorOptions {
+  /** Copy backend to use instead of the one selected by environment. */
+  provider?: CopyProvider;
+  /**
+   * Response cache for text generation. Pass `false` to always call the
+   * provider, or a ResponseCache to customize location and TTL (default: enabled).
+   */
+  cache?: boolean | ResponseCache;
+  /** How many times overflowing copy is sent back for a shorter rewrite (default: 2). */
+  maxRefitAttempts?: number;
+  /** Shade each format's safe zone on the images to check placements (default: false). */
+  debugSafeZones?: boolean;
+  /** Generate flyers for an offer whose validity period has ended, with a warning (default: false). */
+  allowExpired?: boolean;
+  /**
+   * Declarative templates usable as layouts (default: those discovered in
+   * PROMOMAKER_TEMPLATE_DIR or ./templates).
+   */
+  templates?: FlyerTemplate[];
+}
+
 /**
  * Main class for generating promotional flyers.
  * Coordinates text generation with AI and image creation.
@@ -18,39 +84,76 @@ export class FlyerGenerator {
   private textGenerator: TextGenerator;
   private imageGenerator: ImageGenerator;
   private outputDir: string;
-
-  constructor() {
-    this.textGenerator = new TextGenerator();
-    this.imageGenerator = new ImageGenerator();
+  private maxRefitAttempts: number;
+  private debugSafeZones: boolean;
+  private allowExpired: boolean;
+
+  constructor(options: FlyerGeneratorOptions = {}) {
+    const provider = options.provider ?? createCopyProvider();
+    const cache = options.cache ?? true;
+    this.textGenerator = new TextGenerator(
+      cache === false
+        ? provider
+        : new CachedProvider(
+            provider,
+            cache === true ? new ResponseCache() : cache
+          )
+    );
+    this.imageGenerator = new ImageGenerator(
+      undefined,
+      options.templates ?? new TemplateLoader().discover()
+    );
     // Set default output directory.
     this.outputDir = './output_flyers';
+    this.maxRefitAttempts = Math.max(0, options.maxRefitAttempts ?? 2);
+    this.debugSafeZones = options.debugSafeZones ?? false;
+    this.allowExpired = options.allowExpired ?? false;
   }
 
   /**
    * Generates multiple flyer variations based on promotional configuration
-   * and desired number of variations.
+   * and desired number of variations, one image per requested format.
    *
    * @param config - Detailed promotional configuration (product, offer, colors, sizes).
    * @param quantity - Number of flyer variations to generate.
    * @param language - Language for text generation (default: 'English').
+   * @param formats - Ids or aliases of the formats to render (default: Facebook only).
    * @returns A promise that resolves with an array of GeneratedFlyer objects.
-   * @throws Error if text variations could not be generated.
+   * @throws Error if a format has no size, the offer has ended, or text variations could not be generated.
    */
   async generateVariations(
     config: PromoConfig,
     quantity: number,
-    language: string = 'English'
+    language: string = 'English',
+    formats: FormatId[] = ['facebook']
   ): Promise<GeneratedFlyer[]> {
-    consola.info(`🚀 Starting generation of ${quantity} promotional flyers.`);
+    // Check every format, color and date before spending any text generation on the run.
+    this.checkSchedule(config);
+    config = describeSchedule(
+      config,
+      config.locale ?? localeForLanguage(language)
+    );
+    const targets = this.resolveFormats(config, formats);
+    const colors = this.resolveColors(config.colors);
+    const outputs = new Map<FormatId, OutputOptions>(
+      targets.map((format) => [format, resolveOutputOptions(config, format)])
+    );
+
+    consola.info(
+      `🚀 Starting generation of ${quantity} promotional flyers (${targets.join(
+        ', '
+      )}).`
+    );
 
     // Ensure output directory exists before starting.
     await this.ensureOutputDirectory();
 
-    // Generate text variations using TextGenerator.
+    // Generate text variations using TextGenerator, within the layouts' length budget.
     const textVariations = await this.textGenerator.generateVariations(
       config,
       quantity,
-      language
+      language,
+      this.getLengthBudget(config, targets, quantity)
     );
 
     if (textVariations.length === 0) {
@@ -69,142 +172,66 @@ export class FlyerGenerator {
     for (let i = 0; i < quantity; i++) {
       // Use modulo operator to cycle through texts and colors if 'quantity' is greater than variations/colors.
       const textVariation = textVariations[i % textVariations.length];
-      const color = config.colors[i % config.colors.length] || '#3498DB';
-
-      // Currently, only generates for Facebook.
-      // Could be extended for an array of formats if desired as default behavior for single format.
-      const format = 'facebook' as const;
-      const dimensions = config.sizes[format];
-
-      // Canvas configuration for the image.
-      const canvasConfig: CanvasConfig = {
-        width: dimensions.width,
-        height: dimensions.height,
-        backgroundColor: color,
-        textColor: this.imageGenerator.getContrastColor(color),
-        accentColor: this.getAccentColor(color),
-      };
-
-      // Define filename and output path.
-      const filename = `flyer_${i + 1}_${
-        textVariation?.tone || 'generic'
-      }_${format}.png`;
-      const outputPath = join(this.outputDir, filename);
-
-      try {
-        // Generate flyer image.
-        if (textVariation) {
-          await this.imageGenerator.generateFlyer(
-            textVariation,
-            canvasConfig,
-            outputPath
-          );
-
-          flyers.push({
-            filename,
-            textVariation,
-            color,
-            format,
-          });
-          consola.info(
-            `✅ Flyer ${
-              i + 1
-            }/${quantity} (${format}) completed and saved to: ${outputPath}`
-          );
-        }
-      } catch (imageError) {
-        consola.error(
-          `❌ Error generating flyer ${i + 1} for format ${format}:`,
-          imageError
-        );
-        // Optional: could decide whether to throw error or continue with other flyers.
-        // For now, just log error and continue.
-      }
-    }
-
-    consola.success(`🎉 Generated ${flyers.length} flyers in total.`);
-    return flyers;
-  }
-
-  /**
-   * Generates flyers for all predefined social media formats (Facebook, Instagram, Story).
-   *
-   * @param config - Detailed promotional configuration.
-   * @param quantity - Number of text variations to generate per format.
-   * @param language - Language for text generation (default: 'English').
-   * @returns A promise that resolves with an array of GeneratedFlyer objects for all formats.
-   */
-  async generateForAllFormats(
-    config: PromoConfig,
-    quantity: number,
-    language: string = 'English'
-  ): Promise<GeneratedFlyer[]> {
-    consola.info(`🚀 Starting flyer generation for ALL social media formats.`);
+      const color = colors[i % colors.length] || '#3498DB';
+      const layout = this.getLayoutFor(config, i);
 
-    await this.ensureOutputDirectory();
-
-    const textVariations = await this.textGenerator.generateVariations(
-      config,
-      quantity,
-      language
-    );
-
-    if (textVariations.length === 0) {
-      throw new Error(
-        '❌ Could not generate text variations. Generation for all formats has been cancelled.'
-      );
-    }
-
-    consola.success(
-      `📝 Generated ${textVariations.length} text variations for multiple formats.`
-    );
-
-    const flyers: GeneratedFlyer[] = [];
-    // Define supported social media formats.
-    const formats: Array<'facebook' | 'instagram' | 'story'> = [
-      'facebook',
-      'instagram',
-      'story',
-    ];
-
-    for (let i = 0; i < quantity; i++) {
-      const textVariation = textVariations[i % textVariations.length];
-      const color = config.colors[i % config.colors.length] || '#3498DB';
-
-      for (const format of formats) {
-        const dimensions = config.sizes[format];
+      for (const format of targets) {
+        const output = outputs.get(format)!;
 
+        // Canvas configuration for the image.
         const canvasConfig: CanvasConfig = {
-          width: dimensions.width,
-          height: dimensions.height,
-          backgroundColor: color,
-          textColor: this.imageGenerator.getContrastColor(color),
-          accentColor: this.getAccentColor(color),
+          ...this.getCanvasGeometry(config, format, output),
+          ...this.getCanvasColors(color),
+          info: getInfoItems(config),
+          layout,
+          offer: config.offer,
+          structuredOffer: this.getStructuredOffer(config),
+          badge: config.badge,
+          locale: config.locale ?? localeForLanguage(language),
+          format,
+          details: this.getPromoDetails(config),
+          debugSafeZones: this.debugSafeZones,
+          assets: config.assets,
+          qr: this.getQrCode(config),
+          photo: config.photo,
+          endsAt: this.getEndsAt(config),
         };
 
+        // Define filename and output path.
         const filename = `flyer_${i + 1}_${
           textVariation?.tone || 'generic'
-        }_${format}.png`;
+        }_${format}${outputExtension(output)}`;
         const outputPath = join(this.outputDir, filename);
 
         try {
+          // Generate flyer image.
           if (textVariation) {
-            await this.imageGenerator.generateFlyer(
+            const fittedVariation = await this.fitToLayout(
               textVariation,
               canvasConfig,
-              outputPath
+              output,
+              language
+            );
+
+            const written = await this.imageGenerator.generateFlyer(
+              fittedVariation,
+              canvasConfig,
+              outputPath,
+              output
             );
 
             flyers.push({
               filename,
-              textVariation,
+              svgFilename: written.svgPath && basename(written.svgPath),
+              textVariation: fittedVariation,
               color,
               format,
+              layout,
             });
             consola.info(
               `✅ Flyer ${
                 i + 1
-              }/${quantity} for ${format} completed and saved to: ${outputPath}`
+              }/${quantity} (${format}) completed and saved to: ${outputPath}`
             );
           }
         } catch (imageError) {
@@ -212,15 +239,32 @@ export class FlyerGenerator {
             `❌ Error generating flyer ${i + 1} for format ${format}:`,
             imageError
           );
+          // Optional: could decide whether to throw error or continue with other flyers.
+          // For now, just log error and continue.
         }
       }
     }
-    consola.success(
-      `🎉 Generated ${flyers.length} flyers for all formats in total.`
-    );
+
+    consola.success(`🎉 Generated ${flyers.length} flyers in total.`);
     return flyers;
   }
 
+  /**
+   * Generates flyers for all default social media formats (Facebook, Instagram, Story).
+   *
+   * @param config - Detailed promotional configuration.
+   * @param quantity - Number of text variations to generate per format.
+   * @param language - Language for text generation (default: 'English').
+   * @returns A promise that resolves with an array of GeneratedFlyer objects for all formats.
+   */
+  async generateForAllFormats(
+    config: PromoConfig,
+    quantity: number,
+    language: string = 'English'
+  ): Promise<GeneratedFlyer[]> {
+    return this.generateVariations(config, quantity, language, DEFAULT_FORMATS);
+  }
+
   /**
    * Generates a single flyer with specific text variation, color and format.
    * Useful for previews or custom generations.
@@ -228,41 +272,67 @@ export class FlyerGenerator {
    * @param config - General promotional configuration.
    * @param textVariation - Specific text variation to use.
    * @param color - Background color for the flyer.
-   * @param format - Flyer format ('facebook', 'instagram', 'story'). Defaults to 'facebook'.
+   * @param format - Id or alias of a registered format (see src/formats). Defaults to 'facebook'.
+   * @param layout - Layout to render with. Defaults to the first of `config.layouts`, or 'centered'.
+   * @param language - Language of the copy, for the locale and rewrites (default: 'English').
    * @returns A promise that resolves with a GeneratedFlyer object of the created flyer.
    */
   async generateSingleFlyer(
     config: PromoConfig,
     textVariation: TextVariation,
     color: string = '#3498DB',
-    format: 'facebook' | 'instagram' | 'story' = 'facebook'
+    format: FormatId = 'facebook',
+    layout: LayoutName = config.layouts?.[0] ?? 'centered',
+    language: string = 'English'
   ): Promise<GeneratedFlyer> {
+    this.checkSchedule(config);
+    const locale = config.locale ?? localeForLanguage(language);
+    config = describeSchedule(config, locale);
+    format = this.resolveFormats(config, [format])[0]!;
+    color = this.resolveColors([color])[0]!;
+    const output = resolveOutputOptions(config, format);
     consola.info(`✨ Generating a unique flyer for format: ${format}`);
     await this.ensureOutputDirectory();
 
-    const dimensions = config.sizes[format];
-
     const canvasConfig: CanvasConfig = {
-      width: dimensions.width,
-      height: dimensions.height,
-      backgroundColor: color,
-      textColor: this.imageGenerator.getContrastColor(color),
-      accentColor: this.getAccentColor(color),
+      ...this.getCanvasGeometry(config, format, output),
+      ...this.getCanvasColors(color),
+      info: getInfoItems(config),
+      layout,
+      offer: config.offer,
+      structuredOffer: this.getStructuredOffer(config),
+      badge: config.badge,
+      locale,
+      format,
+      details: this.getPromoDetails(config),
+      debugSafeZones: this.debugSafeZones,
+      assets: config.assets,
+      qr: this.getQrCode(config),
+      photo: config.photo,
+      endsAt: this.getEndsAt(config),
     };
 
     // Use timestamp to ensure unique filename for custom flyers.
     const timestamp = Date.now();
     const filename = `flyer_custom_${
       textVariation.tone || 'custom'
-    }_${format}_${timestamp}.png`;
+    }_${format}_${timestamp}${outputExtension(output)}`;
     const outputPath = join(this.outputDir, filename);
+    const fittedVariation = await this.fitToLayout(
+      textVariation,
+      canvasConfig,
+      output,
+      language
+    );
 
+    let svgPath: string | undefined;
     try {
-      await this.imageGenerator.generateFlyer(
-        textVariation,
+      ({ svgPath } = await this.imageGenerator.generateFlyer(
+        fittedVariation,
         canvasConfig,
-        outputPath
-      );
+        outputPath,
+        output
+      ));
       consola.success(`✅ Unique flyer completed and saved to: ${outputPath}`);
     } catch (error) {
       consola.error(
@@ -274,9 +344,332 @@ export class FlyerGenerator {
 
     return {
       filename,
-      textVariation,
+      svgFilename: svgPath && basename(svgPath),
+      textVariation: fittedVariation,
       color,
       format,
+      layout,
+    };
+  }
+
+  /**
+   * Generates an Instagram carousel: a hook, benefit slides, the offer and
+   * a CTA slide, written as one sequence and rendered with a background
+   * that runs on across the slides. The details and the QR code go on the
+   * CTA slide only.
+   *
+   * @param config - Detailed promotional configuration.
+   * @param options - Slide count, format, numbering and color.
+   * @param language - Language for text generation (default: 'English').
+   * @returns A promise that resolves with the slides, in order.
+   * @throws Error if the options or the format are invalid, the offer has ended, or a slide could not be rendered.
+   */
+  async generateCarousel(
+    config: PromoConfig,
+    options: CarouselOptions = {},
+    language: string = 'English'
+  ): Promise<GeneratedCarousel> {
+    validateCarouselOptions(options);
+    this.checkSchedule(config);
+    const locale = config.locale ?? localeForLanguage(language);
+    config = describeSchedule(config, locale);
+    const format = this.resolveFormats(config, [
+      options.format ?? 'instagram',
+    ])[0]!;
+    const color = this.resolveColors([
+      options.color ?? config.colors[0] ?? '#3498DB',
+    ])[0]!;
+    const output = resolveOutputOptions(config, format);
+    const roles = slideRoles(options.slides ?? DEFAULT_SLIDES);
+
+    consola.info(
+      `🎠 Starting generation of a ${roles.length}-slide carousel (${format}).`
+    );
+    await this.ensureOutputDirectory();
+
+    const canvasFor = (role: SlideRole, index: number): CanvasConfig => ({
+      ...this.getCanvasGeometry(config, format, output),
+      ...this.getCanvasColors(color),
+      info: role === 'cta' ? getInfoItems(config) : [],
+      layout: 'carousel-slide',
+      slide: {
+        role,
+        index,
+        count: roles.length,
+        numbering: options.numbering ?? false,
+      },
+      offer: config.offer,
+      locale,
+      format,
+      details: this.getPromoDetails(config),
+      debugSafeZones: this.debugSafeZones,
+      assets: config.assets,
+      qr: role === 'cta' ? this.getQrCode(config) : undefined,
+      endsAt: this.getEndsAt(config),
+    });
+
+    const slides = await this.textGenerator.generateCarousel(
+      config,
+      roles,
+      language,
+      this.getSlideBudget(roles.map(canvasFor), output)
+    );
+
+    const carousel: GeneratedCarousel = {
+      filenames: [],
+      slides: [],
+      color,
+      format,
+    };
+    for (const [index, slide] of slides.entries()) {
+      const canvasConfig = canvasFor(slide.role, index);
+      const filename = `carousel_${index + 1}_${slide.role}_${format}${outputExtension(
+        output
+      )}`;
+      const outputPath = join(this.outputDir, filename);
+
+      const fitted = await this.fitToLayout(
+        this.slideToVariation(slide),
+        canvasConfig,
+        output,
+        language
+      );
+      const written = await this.imageGenerator.generateFlyer(
+        fitted,
+        canvasConfig,
+        outputPath,
+        output
+      );
+
+      carousel.filenames.push(filename);
+      if (written.svgPath) {
+        (carousel.svgFilenames ??= []).push(basename(written.svgPath));
+      }
+      carousel.slides.push({
+        ...slide,
+        title: fitted.title,
+        body: fitted.description,
+        ...(slide.callToAction ? { callToAction: fitted.callToAction } : {}),
+      });
+      consola.info(
+        `✅ Slide ${index + 1}/${slides.length} (${slide.role}) saved to: ${outputPath}`
+      );
+    }
+
+    consola.success(`🎉 Generated a ${slides.length}-slide carousel.`);
+    return carousel;
+  }
+
+  /**
+   * Measure-and-refit loop: checks the copy against the layout of the canvas
+   * and asks the TextGenerator for shorter rewrites of the fields that still
+   * overflow at the minimum font size. Whatever remains too long after the
+   * last attempt is ellipsized by the renderer, so nothing is clipped.
+   *
+   * @private
+   * @param textVariation - The copy to fit.
+   * @param canvasConfig - Canvas the copy will be rendered on.
+   * @param output - File type the canvas is written as.
+   * @param language - Language used for rewrites.
+   * @returns The variation with overflowing fields rewritten.
+   */
+  private async fitToLayout(
+    textVariation: TextVariation,
+    canvasConfig: CanvasConfig,
+    output: OutputOptions,
+    language: string = 'English'
+  ): Promise<TextVariation> {
+    let current = textVariation;
+
+    for (let attempt = 0; attempt < this.maxRefitAttempts; attempt++) {
+      const overflows = this.imageGenerator.findOverflows(
+        current,
+        canvasConfig,
+        output
+      );
+      if (overflows.length === 0) {
+        return current;
+      }
+
+      consola.info(
+        `📏 ${overflows
+          .map((o) => o.field)
+          .join(', ')} too long for ${canvasConfig.width}x${
+          canvasConfig.height
+        }, requesting shorter copy...`
+      );
+
+      current = { ...current };
+      for (const overflow of overflows) {
+        current[overflow.field] = await this.textGenerator.shortenField(
+          overflow.field,
+          overflow.text,
+          // Ask for a bit less on each retry in case the estimate was generous.
+          Math.floor(overflow.maxChars * (1 - attempt * 0.15)),
+          language
+        );
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Resolves the requested formats to ids, keeping ids only present in
+   * `config.sizes`.
+   *
+   * @private
+   * @throws Error naming the formats that have no size.
+   */
+  private resolveFormats(config: PromoConfig, formats: FormatId[]): FormatId[] {
+    if (formats.length === 0) {
+      throw new Error('❌ Configuration error: no formats requested.');
+    }
+
+    const missing: string[] = [];
+    const resolved = formats.flatMap((format) => {
+      if (config.sizes?.[format]) return [format];
+      try {
+        return [resolveFormatId(format)];
+      } catch {
+        missing.push(format);
+        return [];
+      }
+    });
+
+    if (missing.length > 0) {
+      throw new Error(
+        `❌ Configuration error: no size for format ${missing
+          .map((format) => `"${format}"`)
+          .join(', ')}. Add it to config.sizes or register it with registerFormat().`
+      );
+    }
+
+    return [...new Set(resolved)];
+  }
+
+  /**
+   * Layout for the flyer at `index`, rotating through `config.layouts`
+   * (or every layout and template) the same way colors rotate.
+   *
+   * @private
+   */
+  private getLayoutFor(config: PromoConfig, index: number): LayoutName {
+    const layouts = config.layouts?.length
+      ? config.layouts
+      : this.imageGenerator.layoutNames;
+    return layouts[index % layouts.length]!;
+  }
+
+  /**
+   * Strictest per-field character budget across the given formats and the
+   * layouts the first `quantity` flyers will use.
+   *
+   * @private
+   */
+  private getLengthBudget(
+    config: PromoConfig,
+    formats: FormatId[],
+    quantity: number
+  ): LengthBudget {
+    const budget: LengthBudget = {};
+    const layouts = new Set(
+      Array.from({ length: quantity }, (_, i) => this.getLayoutFor(config, i))
+    );
+
+    for (const format of formats) {
+      const output = resolveOutputOptions(config, format);
+      for (const layout of layouts) {
+        const formatBudget = this.imageGenerator.getLengthBudget(
+          {
+            ...this.getCanvasGeometry(config, format, output),
+            backgroundColor: '#000000',
+            textColor: '#FFFFFF',
+            accentColor: '#FFFFFF',
+            info: getInfoItems(config),
+            layout,
+            offer: config.offer,
+            structuredOffer: this.getStructuredOffer(config),
+            format,
+            details: this.getPromoDetails(config),
+            assets: config.assets,
+            qr: this.getQrCode(config),
+            endsAt: this.getEndsAt(config),
+          },
+          output
+        );
+
+        for (const [field, maxChars] of Object.entries(formatBudget) as Array<
+          [keyof LengthBudget, number]
+        >) {
+          budget[field] = Math.min(budget[field] ?? Infinity, maxChars);
+        }
+      }
+    }
+
+    return budget;
+  }
+
+  /**
+   * Strictest per-field character budget across the slides of a carousel,
+   * with the slide layout's description box as the slide body.
+   *
+   * @private
+   */
+  private getSlideBudget(
+    canvases: CanvasConfig[],
+    output: OutputOptions
+  ): SlideBudget {
+    const budget: SlideBudget = {};
+    for (const canvas of canvases) {
+      const { title, description, callToAction } =
+        this.imageGenerator.getLengthBudget(canvas, output);
+      const limits: SlideBudget = {
+        title,
+        body: description,
+        callToAction: canvas.slide?.role === 'cta' ? callToAction : undefined,
+      };
+      for (const [field, maxChars] of Object.entries(limits) as Array<
+        [keyof SlideBudget, number | undefined]
+      >) {
+        if (maxChars !== undefined) {
+          budget[field] = Math.min(budget[field] ?? Infinity, maxChars);
+        }
+      }
+    }
+    return budget;
+  }
+
+  /**
+   * A slide's copy in the fields the layouts fit and render: the body as
+   * the description, and no subtitle.
+   *
+   * @private
+   */
+  private slideToVariation(slide: CarouselSlide): TextVariation {
+    return {
+      title: slide.title,
+      subtitle: '',
+      description: slide.body,
+      callToAction: slide.callToAction ?? '',
+      tone: slide.role,
+      source: slide.source,
+    };
+  }
+
+  /**
+   * Details templates can bind to. Info fields hidden from the info block
+   * are left out here too.
+   *
+   * @private
+   */
+  private getPromoDetails(config: PromoConfig): PromoDetails {
+    return {
+      product: config.product,
+      businessType: config.businessType,
+      ...Object.fromEntries(
+        getInfoItems(config).map((item) => [item.field, item.text])
+      ),
     };
   }
 
@@ -303,42 +696,122 @@ export class FlyerGenerator {
   }
 
   /**
-   * Calculates a complementary accent color based on a base color.
-   * Attempts to provide adequate visual contrast.
+   * Size, safe zone and resolution of a format's canvas. PDF output is
+   * drawn on the print canvas, bleed included.
    *
    * @private
-   * @param baseColor - Base hexadecimal color (e.g. '#RRGGBB').
-   * @returns Calculated accent color in hexadecimal format.
    */
-  private getAccentColor(baseColor: string = '#3498DB'): string {
-    // If base color is invalid or empty, return predefined color.
-    if (!baseColor || !baseColor.startsWith('#') || baseColor.length !== 7) {
-      return '#FFD700'; // Gold by default
+  private getCanvasGeometry(
+    config: PromoConfig,
+    format: FormatId,
+    output: OutputOptions
+  ): Pick<CanvasConfig, 'width' | 'height' | 'safeZone' | 'dpi'> {
+    const size = getFormatSize(format, config);
+    const safeZone = getFormatSafeZone(format, config);
+    const dpi = getFormatDpi(format);
+    return output.encoding === 'pdf'
+      ? { ...printCanvas(size, dpi, output.print, safeZone), dpi }
+      : { ...size, safeZone, dpi };
+  }
+
+  /**
+   * Background, text and accent colors of a canvas, derived from the
+   * background in OKLCH so text and the CTA button stay legible (see
+   * `createColorScheme`).
+   *
+   * @private
+   * @param color - Background color, as hex.
+   */
+  private getCanvasColors(
+    color: string
+  ): Pick<CanvasConfig, 'backgroundColor' | 'textColor' | 'accentColor'> {
+    const scheme = createColorScheme(color);
+    return {
+      backgroundColor: scheme.background,
+      textColor: scheme.text,
+      accentColor: scheme.accent,
+    };
+  }
+
+  /**
+   * The promo's structured offer: the one given in the config, or the deal
+   * parsed from the offer text in the config's currency.
+   *
+   * @private
+   * @throws Error if the given offer is incomplete or out of range.
+   */
+  private getStructuredOffer(
+    config: PromoConfig
+  ): CanvasConfig['structuredOffer'] {
+    if (config.structuredOffer) {
+      validateStructuredOffer(config.structuredOffer);
+      return config.structuredOffer;
     }
+    return parseOffer(config.offer, config.currency) ?? undefined;
+  }
 
-    const hex = baseColor.replace('#', '');
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
+  /**
+   * Checks the promo's opening hours and validity period, refusing an offer
+   * that has already ended unless `allowExpired` is set.
+   *
+   * @private
+   * @throws Error if the dates are invalid or the offer has ended.
+   */
+  private checkSchedule(config: PromoConfig): void {
+    if (config.openingHours) {
+      validateOpeningHours(config.openingHours);
+    }
+    if (!config.validityPeriod) {
+      return;
+    }
 
-    // If it's gray or pure black/white, provide a more vivid accent color.
-    if (r === g && g === b) {
-      return '#00BFFF'; // Sky blue
+    validateValidityPeriod(config.validityPeriod);
+    const status = getValidityStatus(config.validityPeriod);
+    if (status.state === 'expired') {
+      const ended = status.endsAt!.toISOString();
+      if (!this.allowExpired) {
+        throw new Error(
+          `❌ Configuration error: the offer ended on ${ended}. Update its validity period, or allow expired offers to generate anyway.`
+        );
+      }
+      consola.warn(`⚠️ Generating flyers for an offer that ended on ${ended}.`);
+    } else if (status.state === 'upcoming') {
+      consola.warn(`⚠️ The offer starts on ${status.startsAt!.toISOString()}.`);
     }
+  }
 
-    // Calculate simple complementary color by inverting and adjusting RGB components.
-    const newR = (255 - r + 100) % 256;
-    const newG = (255 - g + 100) % 256;
-    const newB = (255 - b + 100) % 256;
+  /**
+   * When the promo's offer ends, for the countdown of animated flyers.
+   *
+   * @private
+   */
+  private getEndsAt(config: PromoConfig): Date | undefined {
+    return config.validityPeriod
+      ? getValidityStatus(config.validityPeriod).endsAt
+      : undefined;
+  }
 
-    // Ensure values are within 0-255 range.
-    const accentR = Math.min(255, Math.max(0, newR));
-    const accentG = Math.min(255, Math.max(0, newG));
-    const accentB = Math.min(255, Math.max(0, newB));
+  /**
+   * The promo's QR code with the text it encodes, built from its type and
+   * the promo's details.
+   *
+   * @private
+   * @throws Error if a detail the code's type needs is missing.
+   */
+  private getQrCode(config: PromoConfig): CanvasConfig['qr'] {
+    return config.qr
+      ? { ...config.qr, payload: buildQrPayload(config.qr, config) }
+      : undefined;
+  }
 
-    return `#${accentR.toString(16).padStart(2, '0')}${accentG
-      .toString(16)
-      .padStart(2, '0')}${accentB.toString(16).padStart(2, '0')}`;
+  /**
+   * Normalizes colors given in any CSS format to hex.
+   *
+   * @private
+   * @throws Error naming the first value that is not a color.
+   */
+  private resolveColors(colors: string[]): string[] {
+    return colors.map((color) => toHex(color));
   }
 
   /**
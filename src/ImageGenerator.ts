@@ -1,208 +1,354 @@
-import sharp from 'sharp';
 import { consola } from 'consola';
-import type { TextVariation, CanvasConfig } from './types';
+import { CountdownTicker, planFrames } from './animation';
+import { BrandAssets, type PlacedAsset } from './assets';
+import { PhotoBackground } from './background';
+import { parseColor, readableTextColor, toHex } from './color';
+import { FontMetricsMeasurer } from './layout/FontMetrics';
+import { InfoBlock } from './layout/InfoBlock';
+import { OfferBadge } from './layout/OfferBadge';
+import { TextFitter } from './layout/TextFitter';
+import { ImageEncoder, isAnimated, type WrittenImage } from './output';
+import {
+  COPY_FIELDS,
+  LAYOUTS,
+  createLayout,
+  type FlyerLayout,
+} from './layouts';
+import { QrCodeRenderer, type PlacedQrCode } from './qr';
+import type { FlyerTemplate } from './templates/TemplateSchema';
+import type {
+  AnimationFrame,
+  TextVariation,
+  CanvasConfig,
+  LayoutName,
+  LengthBudget,
+  OutputOptions,
+  TextOverflow,
+} from './types';
 
 export class ImageGenerator {
+  private fontMetrics: FontMetricsMeasurer;
+  private textFitter: TextFitter;
+  private infoBlock: InfoBlock;
+  private offerBadge: OfferBadge;
+  private fontFamily: string;
+  private templates: FlyerTemplate[];
+  private layouts = new Map<LayoutName, FlyerLayout>();
+  private brandAssets = new BrandAssets();
+  private photoBackground = new PhotoBackground();
+  private qrCodes = new QrCodeRenderer();
+  private encoder = new ImageEncoder();
+  private ticker: CountdownTicker;
+
+  /**
+   * @param fontMetrics - Font used to measure (and render) text. Defaults to
+   * the first preferred family found in PROMOMAKER_FONT_DIR or system fonts.
+   * @param templates - Declarative templates usable as layouts (see
+   * `TemplateLoader.discover`). Defaults to none.
+   */
+  constructor(
+    fontMetrics: FontMetricsMeasurer = new FontMetricsMeasurer(),
+    templates: FlyerTemplate[] = []
+  ) {
+    this.fontMetrics = fontMetrics;
+    this.templates = templates;
+    this.textFitter = new TextFitter(fontMetrics);
+    this.infoBlock = new InfoBlock(this.textFitter, fontMetrics);
+    this.offerBadge = new OfferBadge(fontMetrics);
+    this.ticker = new CountdownTicker(fontMetrics);
+    this.fontFamily = fontMetrics.hasFontFile
+      ? `'${fontMetrics.family.replace(/'/g, '')}', Arial, sans-serif`
+      : 'Arial, sans-serif';
+  }
+
+  /**
+   * Renders a flyer and writes it to `outputPath`; with `output.animation`
+   * and WebP or GIF output, renders every frame and writes the animation.
+   *
+   * @param output - Encoding, quality, size limit and animation (default: PNG).
+   * @returns The files written, with the size and quality of the image.
+   */
   async generateFlyer(
     textVariation: TextVariation,
     canvasConfig: CanvasConfig,
-    outputPath: string
-  ): Promise<void> {
+    outputPath: string,
+    output: OutputOptions = {}
+  ): Promise<WrittenImage> {
     consola.info(`🎨 Generating image: ${outputPath}`);
 
     try {
-      // Create the flyer SVG
-      const svg = this.createSVG(textVariation, canvasConfig);
+      // Load and position logos for this background
+      const assets = canvasConfig.assets?.length
+        ? await this.brandAssets.place(canvasConfig.assets, canvasConfig)
+        : [];
+
+      // Encode the QR code, clear of the logos
+      const qr = canvasConfig.qr
+        ? this.qrCodes.place(
+            canvasConfig.qr,
+            this.brandAssets.reserveSpace(canvasConfig)
+          )
+        : undefined;
+
+      // Plan the frames when animated; a countdown takes a band at the top
+      const frames = isAnimated(output)
+        ? planFrames(output.animation, canvasConfig.endsAt)
+        : [];
+      const ticking = frames.some((frame) => frame.countdown !== undefined);
 
-      // Convert SVG to PNG using Sharp
-      await sharp(Buffer.from(svg)).png({ quality: 90 }).toFile(outputPath);
+      // Crop the product photo and tone it down under the copy
+      const backdrop = canvasConfig.photo
+        ? await this.createBackdrop(
+            textVariation,
+            canvasConfig,
+            assets,
+            ticking
+          )
+        : undefined;
+
+      // Create the flyer SVG, and the SVG of each frame when animated
+      const [svg, ...frameSvgs] = this.createSVG(
+        textVariation,
+        backdrop ? { ...canvasConfig, backdrop } : canvasConfig,
+        assets,
+        qr,
+        frames
+      );
+
+      // Encode the SVG in the requested file type
+      const written = frames.length
+        ? await this.encoder.writeAnimation(frameSvgs, svg!, outputPath, output)
+        : await this.encoder.write(svg!, outputPath, output, canvasConfig.dpi);
 
       consola.success(`✅ Image generated: ${outputPath}`);
+      return written;
     } catch (error) {
       consola.error(`❌ Error generating image ${outputPath}:`, error);
       throw error;
     }
   }
 
-  private createSVG(text: TextVariation, config: CanvasConfig): string {
-    const { width, height, backgroundColor, textColor, accentColor } = config;
+  /**
+   * Every layout a canvas can use: the built-in ones, then the templates.
+   */
+  get layoutNames(): LayoutName[] {
+    return [...LAYOUTS, ...this.templates.map((template) => template.name)];
+  }
 
-    // Calculate responsive text sizes
-    const titleSize = Math.max(24, width * 0.05);
-    const subtitleSize = Math.max(18, width * 0.035);
-    const descriptionSize = Math.max(14, width * 0.025);
-    const ctaSize = Math.max(16, width * 0.03);
+  /**
+   * Lists the fields that don't fit their box in the canvas's layout, even
+   * at the minimum font size, with the character budget each should meet.
+   *
+   * @param text - The text variation to check.
+   * @param config - Canvas the variation will be rendered on.
+   * @param output - File type it is written as; animated countdowns take
+   * room from the copy.
+   * @returns One entry per overflowing field (empty when everything fits).
+   */
+  findOverflows(
+    text: TextVariation,
+    config: CanvasConfig,
+    output?: OutputOptions
+  ): TextOverflow[] {
+    const layout = this.getLayout(config).arrange(
+      text,
+      this.layoutConfig(config, this.isTicking(config, output))
+    ).text;
 
-    // Dynamic positions
-    const centerX = width / 2;
-    const titleY = height * 0.25;
-    const subtitleY = titleY + titleSize + 20;
-    const descriptionY = height * 0.55;
-    const ctaY = height * 0.8;
+    return COPY_FIELDS.filter((field) => layout[field]?.fits === false).map(
+      (field) => ({
+        field,
+        text: text[field],
+        maxChars: this.textFitter.capacity(layout[field]!.box),
+      })
+    );
+  }
 
-    return `
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <defs>
-    <linearGradient id="bgGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-      <stop offset="0%" style="stop-color:${backgroundColor};stop-opacity:1" />
-      <stop offset="100%" style="stop-color:${this.darkenColor(
-        backgroundColor,
-        0.2
-      )};stop-opacity:1" />
-    </linearGradient>
-
-    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
-      <feDropShadow dx="2" dy="2" stdDeviation="3" flood-color="rgba(0,0,0,0.3)"/>
-    </filter>
-  </defs>
-
-  <!-- Background with gradient -->
-  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
-
-  <!-- Geometric decoration -->
-  <circle cx="${width * 0.85}" cy="${height * 0.15}" r="${width * 0.08}"
-          fill="${accentColor}" opacity="0.3"/>
-  <rect x="${width * 0.05}" y="${height * 0.85}" width="${
-      width * 0.15
-    }" height="${height * 0.1}"
-        fill="${accentColor}" opacity="0.3" rx="5"/>
-
-  <!-- Main title -->
-  <text x="${centerX}" y="${titleY}"
-        font-family="Arial, sans-serif"
-        font-size="${titleSize}"
-        font-weight="bold"
-        fill="${textColor}"
-        text-anchor="middle"
-        filter="url(#shadow)">
-    ${this.escapeXML(text.title)}
-  </text>
-
-  <!-- Subtitle -->
-  <text x="${centerX}" y="${subtitleY}"
-        font-family="Arial, sans-serif"
-        font-size="${subtitleSize}"
-        font-weight="600"
-        fill="${textColor}"
-        text-anchor="middle"
-        opacity="0.9">
-    ${this.escapeXML(text.subtitle)}
-  </text>
-
-  <!-- Description (multiline if necessary) -->
-  ${this.createMultilineText(
-    text.description,
-    centerX,
-    descriptionY,
-    descriptionSize,
-    textColor,
-    width * 0.8
-  )}
-
-  <!-- Call to action (button) -->
-  <rect x="${centerX - text.callToAction.length * ctaSize * 0.3}"
-        y="${ctaY - ctaSize}"
-        width="${text.callToAction.length * ctaSize * 0.6}"
-        height="${ctaSize * 1.8}"
-        fill="${accentColor}"
-        rx="25"
-        filter="url(#shadow)"/>
-
-  <text x="${centerX}" y="${ctaY}"
-        font-family="Arial, sans-serif"
-        font-size="${ctaSize}"
-        font-weight="bold"
-        fill="white"
-        text-anchor="middle">
-    ${this.escapeXML(text.callToAction)}
-  </text>
-
-  <!-- Decorative line -->
-  <line x1="${width * 0.2}" y1="${height * 0.65}"
-        x2="${width * 0.8}" y2="${height * 0.65}"
-        stroke="${accentColor}"
-        stroke-width="2"
-        opacity="0.5"/>
-</svg>`;
+  /**
+   * Approximate character budget per field for this canvas and its layout,
+   * written as `output`.
+   */
+  getLengthBudget(config: CanvasConfig, output?: OutputOptions): LengthBudget {
+    const boxes = this.getLayout(config).getTextBoxes(
+      this.layoutConfig(config, this.isTicking(config, output))
+    );
+    return Object.fromEntries(
+      COPY_FIELDS.filter((field) => boxes[field]).map((field) => [
+        field,
+        this.textFitter.capacity(boxes[field]!),
+      ])
+    );
   }
 
-  private createMultilineText(
-    text: string,
-    x: number,
-    y: number,
-    fontSize: number,
-    color: string,
-    maxWidth: number
-  ): string {
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-
-    // Estimate characters per line based on maximum width
-    const charsPerLine = Math.floor(maxWidth / (fontSize * 0.6));
-
-    for (const word of words) {
-      if ((currentLine + word).length <= charsPerLine) {
-        currentLine += (currentLine ? ' ' : '') + word;
-      } else {
-        if (currentLine) lines.push(currentLine);
-        currentLine = word;
-      }
+  /**
+   * The layout a canvas is rendered with, built on first use.
+   */
+  private getLayout(config: CanvasConfig): FlyerLayout {
+    const name = config.layout ?? 'centered';
+    let layout = this.layouts.get(name);
+    if (!layout) {
+      layout = createLayout(
+        name,
+        {
+          textFitter: this.textFitter,
+          measurer: this.fontMetrics,
+          infoBlock: this.infoBlock,
+          offerBadge: this.offerBadge,
+          fontFamily: this.fontFamily,
+        },
+        this.templates
+      );
+      this.layouts.set(name, layout);
     }
-    if (currentLine) lines.push(currentLine);
-
-    return lines
-      .map((line, index) => {
-        const lineY = y + index * fontSize * 1.2;
-        return `<text x="${x}" y="${lineY}"
-                     font-family="Arial, sans-serif"
-                     font-size="${fontSize}"
-                     fill="${color}"
-                     text-anchor="middle"
-                     opacity="0.8">
-                ${this.escapeXML(line)}
-              </text>`;
-      })
-      .join('\n');
+    return layout;
   }
 
-  private escapeXML(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
+  /**
+   * Whether the canvas, written as `output`, is animated with a countdown.
+   */
+  private isTicking(config: CanvasConfig, output?: OutputOptions): boolean {
+    return (
+      isAnimated(output) &&
+      planFrames(output?.animation, config.endsAt).some(
+        (frame) => frame.countdown !== undefined
+      )
+    );
   }
 
-  private darkenColor(color: string, factor: number): string {
-    // Convert hex to RGB
-    const hex = color.replace('#', '');
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-
-    // Darken
-    const newR = Math.floor(r * (1 - factor));
-    const newG = Math.floor(g * (1 - factor));
-    const newB = Math.floor(b * (1 - factor));
-
-    // Convert back to hex
-    return `#${newR.toString(16).padStart(2, '0')}${newG
-      .toString(16)
-      .padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
+  /**
+   * The canvas copy is laid out on: built-in layouts keep clear of the
+   * space logos, the QR code and the countdown of animated flyers
+   * (`ticking`) take, templates place everything themselves.
+   */
+  private layoutConfig(config: CanvasConfig, ticking = false): CanvasConfig {
+    if (!this.getLayout(config).avoidsAssets) {
+      return config;
+    }
+    const reserved = this.qrCodes.reserveSpace(
+      this.brandAssets.reserveSpace(config)
+    );
+    return ticking ? this.ticker.reserveSpace(reserved) : reserved;
   }
 
-  getContrastColor(backgroundColor: string): string {
-    // Calculate background color luminosity
-    const hex = backgroundColor.replace('#', '');
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
+  /**
+   * The photo background for a canvas, with a scrim under the regions the
+   * laid-out copy and the logos cover.
+   */
+  private async createBackdrop(
+    text: TextVariation,
+    config: CanvasConfig,
+    assets: PlacedAsset[],
+    ticking: boolean
+  ): Promise<string> {
+    const layout = this.getLayout(config);
+    const layoutConfig = this.layoutConfig(config, ticking);
+    const regions = [
+      ...layout.getTextRegions(
+        layout.arrange(text, layoutConfig),
+        layoutConfig
+      ),
+      ...assets.filter((asset) => asset.placement !== 'watermark'),
+    ];
+
+    return this.photoBackground.create(config.photo!, config, regions);
+  }
 
-    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  /**
+   * The flyer's SVG, followed by the SVG of each animation frame: the copy
+   * is arranged once and every frame draws it with its effects applied.
+   */
+  private createSVG(
+    text: TextVariation,
+    config: CanvasConfig,
+    assets: PlacedAsset[] = [],
+    qr?: PlacedQrCode,
+    frames: AnimationFrame[] = []
+  ): string[] {
+    const { width, height } = config;
+    const layout = this.getLayout(config);
+    const layoutConfig = this.layoutConfig(
+      config,
+      frames.some((frame) => frame.countdown !== undefined)
+    );
 
-    // Return white or black based on luminosity
-    return luminance > 0.5 ? '#000000' : '#FFFFFF';
+    // Fit every field into its box (wrapping and shrinking the font if needed)
+    const arranged = layout.arrange(text, layoutConfig);
+    for (const field of COPY_FIELDS) {
+      if (arranged.text[field]?.fits === false) {
+        consola.warn(
+          `⚠️ "${field}" does not fit at ${width}x${height} (${layout.name}), ellipsizing it.`
+        );
+      }
+    }
+
+    return [undefined, ...frames].map((frame) => {
+      let overlays = this.brandAssets.render(assets);
+      if (qr) {
+        overlays += this.qrCodes.render(qr);
+      }
+      if (frame?.countdown !== undefined) {
+        overlays += this.ticker.render(
+          frame.countdown,
+          config,
+          this.fontFamily
+        );
+      }
+      if (config.debugSafeZones && config.safeZone) {
+        // Debug mode: shade the areas platform UI covers on top of everything.
+        overlays += this.createSafeZoneOverlay(config);
+      }
+
+      const svg = layout.render(
+        text,
+        frame ? { ...layoutConfig, frame } : layoutConfig,
+        arranged
+      );
+      if (!overlays) {
+        return svg;
+      }
+
+      const end = svg.lastIndexOf('</svg>');
+      return `${svg.slice(0, end)}${overlays}\n${svg.slice(end)}`;
+    });
+  }
+
+  /**
+   * Semi-transparent bands over the safe zone's insets and a dashed outline
+   * of the safe area, for checking placements by eye.
+   */
+  private createSafeZoneOverlay(config: CanvasConfig): string {
+    const { width, height } = config;
+    const { top, right, bottom, left } = config.safeZone!;
+    const bands = [
+      { x: 0, y: 0, width, height: top },
+      { x: 0, y: height - bottom, width, height: bottom },
+      { x: 0, y: top, width: left, height: height - top - bottom },
+      { x: width - right, y: top, width: right, height: height - top - bottom },
+    ].filter((band) => band.width > 0 && band.height > 0);
+
+    return `
+  <!-- Safe zone overlay (debug) -->
+  <g pointer-events="none">
+    ${bands
+      .map(
+        (band) =>
+          `<rect x="${band.x}" y="${band.y}" width="${band.width}" height="${band.height}"
+          fill="#FF1744" opacity="0.35"/>`
+      )
+      .join('\n    ')}
+    <rect x="${left}" y="${top}" width="${width - left - right}" height="${
+      height - top - bottom
+    }"
+          fill="none" stroke="#FF1744" stroke-width="${Math.max(2, width * 0.003)}"
+          stroke-dasharray="12 8"/>
+  </g>`;
+  }
+
+  /**
+   * Black or white text for a background in any CSS color format: of the
+   * two that pass WCAG AA, the one with the higher APCA contrast.
+   */
+  getContrastColor(backgroundColor: string): string {
+    return toHex(readableTextColor(parseColor(backgroundColor)));
   }
 }
@@ -1,47 +1,259 @@
-import OpenAI from 'openai';
 import { consola } from 'consola';
-import type { PromoConfig, TextVariation } from './types';
+import {
+  createCopyProvider,
+  type CopyMessage,
+  type CopyProvider,
+} from './providers';
+import {
+  extractSlides,
+  formatSlideIssues,
+  validateSlides,
+  type SlideBudget,
+} from './carousel';
+import { CopyEngine } from './copy/CopyEngine';
+import { localeForLanguage } from './offers';
+import { formatCountdown } from './schedule';
+import {
+  extractVariations,
+  formatIssues,
+  validateVariations,
+  type ValidationIssue,
+} from './TextVariationSchema';
+import type {
+  CarouselSlide,
+  CopyField,
+  LengthBudget,
+  PromoConfig,
+  SlideRole,
+  TextVariation,
+} from './types';
+
+export interface TextGeneratorOptions {
+  /** How many times invalid output is sent back to the model for repair (default: 2). */
+  maxRepairAttempts?: number;
+}
 
 export class TextGenerator {
-  private openai: OpenAI;
-
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      // It's good practice to throw a specific error type for better error handling upstream.
-      throw new Error(
-        '❌ Configuration error: OPENAI_API_KEY environment variable is not defined.'
-      );
-    }
+  private provider: CopyProvider;
+  private maxRepairAttempts: number;
+  private copyEngine = new CopyEngine();
 
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+  /**
+   * @param provider - Backend used to write the copy. Defaults to the one
+   * selected by COPY_PROVIDER (OpenAI unless configured otherwise).
+   * @param options - Validation and retry settings.
+   */
+  constructor(
+    provider: CopyProvider = createCopyProvider(),
+    options: TextGeneratorOptions = {}
+  ) {
+    this.provider = provider;
+    this.maxRepairAttempts = Math.max(0, options.maxRepairAttempts ?? 2);
   }
 
   /**
-   * Generates multiple text variations for a promotional campaign using OpenAI's GPT model.
-   * Includes robust error handling and a fallback mechanism.
+   * Generates multiple text variations for a promotional campaign using the configured copy provider.
+   * Responses are validated against the TextVariation schema; invalid output is
+   * sent back to the model with the validation errors a bounded number of times
+   * before falling back to offline copy.
    *
    * @param config - The promotional configuration.
    * @param quantity - The number of text variations to generate.
    * @param language - The language for text generation (default: 'English').
+   * @param budget - Optional per-field character limits of the target layouts.
    * @returns A promise that resolves to an array of TextVariation objects.
    */
   async generateVariations(
     config: PromoConfig,
     quantity: number,
-    language: string = 'English'
+    language: string = 'English',
+    budget: LengthBudget = {}
   ): Promise<TextVariation[]> {
     consola.info(
-      `🤖 Requesting ${quantity} text variations from AI in ${language}...`
+      `🤖 Requesting ${quantity} text variations from ${this.provider.name} (${this.provider.model}) in ${language}...`
     );
 
-    const prompt = this.buildPrompt(config, quantity, language);
+    const messages: CopyMessage[] = [
+      {
+        role: 'system',
+        content: this.getSystemPrompt(language),
+      },
+      {
+        role: 'user',
+        content:
+          this.buildPrompt(config, quantity, language) +
+          this.buildBudgetNote(budget, language),
+      },
+    ];
+
+    let bestEffort: TextVariation[] = [];
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo', // Consider using 'gpt-4' or 'gpt-4-turbo-preview' for higher quality and reliability.
+      for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+        const responseContent = await this.provider.complete({
+          messages,
+          temperature: 0.8, // A good balance between creativity and consistency.
+          maxTokens: 2000, // Sufficient tokens for multiple variations.
+          json: true, // Explicitly request JSON format.
+          context: { config, quantity, language },
+        });
+
+        const source = attempt === 0 ? 'ai' : 'repair';
+        const { valid, issues } = this.parseResponse(responseContent);
+        const variations = valid.map((v) => ({ ...v, source }) as const);
+
+        if (issues.length === 0 && variations.length >= quantity) {
+          return variations.slice(0, quantity);
+        }
+
+        if (variations.length > bestEffort.length) {
+          bestEffort = variations;
+        }
+
+        if (attempt < this.maxRepairAttempts) {
+          consola.warn(
+            `⚠️ AI response failed validation (${issues.length} issues), asking for a repair (${
+              attempt + 1
+            }/${this.maxRepairAttempts})...`
+          );
+          messages.push(
+            { role: 'assistant', content: responseContent },
+            {
+              role: 'user',
+              content: this.buildRepairPrompt(
+                issues,
+                variations.length,
+                quantity
+              ),
+            }
+          );
+        }
+      }
+    } catch (error) {
+      consola.error('❌ Error generating text with AI:', error);
+    }
+
+    if (bestEffort.length >= quantity) {
+      return bestEffort.slice(0, quantity);
+    }
+    if (bestEffort.length > 0) {
+      // Fill the rest with fallback copy, so the caller always gets `quantity`.
+      const missing = quantity - bestEffort.length;
+      consola.warn(
+        `⚠️ Using ${bestEffort.length}/${quantity} valid AI variations after repair attempts; ${missing} from the fallback copy.`
+      );
+      return [
+        ...bestEffort,
+        ...this.generateFallbackVariations(config, missing, language),
+      ];
+    }
+
+    // Fallback: generate basic variations if AI fails or never returns valid output.
+    return this.generateFallbackVariations(config, quantity, language);
+  }
+
+  /**
+   * Generates the copy of a carousel, one slide per role, as a sequence
+   * that reads as one story. Validation and repair work as for
+   * variations, except that only a complete, valid carousel is used:
+   * otherwise the slides come from the offline copy engine.
+   *
+   * @param config - The promotional configuration.
+   * @param roles - The role of each slide, in order (see slideRoles).
+   * @param language - The language for text generation (default: 'English').
+   * @param budget - Optional per-field character limits of the slide layout.
+   * @returns One slide per role.
+   */
+  async generateCarousel(
+    config: PromoConfig,
+    roles: SlideRole[],
+    language: string = 'English',
+    budget: SlideBudget = {}
+  ): Promise<CarouselSlide[]> {
+    consola.info(
+      `🤖 Requesting a ${roles.length}-slide carousel from ${this.provider.name} (${this.provider.model}) in ${language}...`
+    );
+
+    const messages: CopyMessage[] = [
+      {
+        role: 'system',
+        content: this.getSystemPrompt(language),
+      },
+      {
+        role: 'user',
+        content:
+          this.buildCarouselPrompt(config, roles, language) +
+          this.buildBudgetNote(budget, language),
+      },
+    ];
+
+    try {
+      for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+        const responseContent = await this.provider.complete({
+          messages,
+          temperature: 0.8,
+          maxTokens: 2000,
+          json: true,
+          context: { config, quantity: 1, language, slides: roles },
+        });
+
+        const source = attempt === 0 ? 'ai' : 'repair';
+        const { slides, issues } = this.parseSlides(responseContent, roles);
+        if (issues.length === 0) {
+          return slides.map((slide) => ({ ...slide, source }));
+        }
+
+        if (attempt < this.maxRepairAttempts) {
+          consola.warn(
+            `⚠️ AI carousel failed validation (${issues.length} issues), asking for a repair (${
+              attempt + 1
+            }/${this.maxRepairAttempts})...`
+          );
+          messages.push(
+            { role: 'assistant', content: responseContent },
+            {
+              role: 'user',
+              content: `Your previous answer did not pass validation:
+${formatSlideIssues(issues)}
+
+Return the complete corrected answer with exactly ${roles.length} slides, as a JSON object of the form {"slides": [...]}, keeping valid slides unchanged. Respond with JSON only.`,
+            }
+          );
+        }
+      }
+    } catch (error) {
+      consola.error('❌ Error generating the carousel with AI:', error);
+    }
+
+    consola.info('🔄 Generating offline carousel copy...');
+    return this.copyEngine
+      .generateCarousel(config, roles, language)
+      .map((slide) => ({ ...slide, source: 'fallback' }));
+  }
+
+  /**
+   * Asks the provider for a shorter rewrite of a single field that doesn't
+   * fit its layout box. Falls back to trimming words locally when the
+   * provider fails or still exceeds the limit.
+   *
+   * @param field - The field being rewritten.
+   * @param text - The current text of the field.
+   * @param maxChars - Maximum number of characters allowed.
+   * @param language - The language of the copy.
+   * @returns The shortened text.
+   */
+  async shortenField(
+    field: CopyField,
+    text: string,
+    maxChars: number,
+    language: string = 'English'
+  ): Promise<string> {
+    consola.info(
+      `✂️ Asking ${this.provider.name} to shorten "${field}" to ${maxChars} characters...`
+    );
+
+    try {
+      const response = await this.provider.complete({
         messages: [
           {
             role: 'system',
@@ -49,27 +261,104 @@ export class TextGenerator {
           },
           {
             role: 'user',
-            content: prompt,
+            content: `Rewrite this flyer ${field} in ${language} using at most ${maxChars} characters. Keep its meaning, tone and language.
+
+"${text}"
+
+Respond with JSON only, in the form {"text": "..."}.`,
           },
         ],
-        temperature: 0.8, // A good balance between creativity and consistency.
-        max_tokens: 2000, // Sufficient tokens for multiple variations.
-        response_format: { type: 'json_object' }, // Explicitly request JSON format.
+        temperature: 0.4,
+        maxTokens: 300,
+        json: true,
+        rewrite: { field, text, maxChars },
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
+      const parsed = JSON.parse(
+        response
+          .trim()
+          .replace(/^```(?:json)?\s*/i, '')
+          .replace(/\s*```$/, '')
+      );
+      const rewritten =
+        typeof parsed?.text === 'string' ? parsed.text.trim() : '';
 
-      if (!responseContent) {
-        throw new Error('AI did not return content in the response.');
+      if (rewritten.length > 0 && rewritten.length <= maxChars) {
+        return rewritten;
       }
-
-      // Since we requested 'json_object', the response should ideally be directly parseable.
-      return this.parseResponse(responseContent);
+      consola.warn(
+        `⚠️ Rewrite of "${field}" is still ${rewritten.length} characters, trimming it instead.`
+      );
     } catch (error) {
-      consola.error('❌ Error generating text with AI:', error);
-      // Fallback: generate basic variations if AI fails or response is invalid.
-      return this.generateFallbackVariations(config, quantity, language);
+      consola.warn(`⚠️ Could not rewrite "${field}", trimming it instead.`, error);
     }
+
+    return this.trimToLength(text, maxChars);
+  }
+
+  /**
+   * Drops trailing words until the text is at most `maxChars` long.
+   */
+  private trimToLength(text: string, maxChars: number): string {
+    const words = text.trim().split(/\s+/);
+    while (words.length > 1 && `${words.join(' ')}…`.length > maxChars) {
+      words.pop();
+    }
+    const trimmed = words.join(' ').replace(/[\s,.;:!?–-]+$/, '');
+    return trimmed.length < text.trim().length
+      ? `${trimmed.slice(0, maxChars - 1)}…`
+      : trimmed;
+  }
+
+  /**
+   * Formats the layout length budget as an extra prompt paragraph.
+   *
+   * @param budget - Per-field character limits.
+   * @param language - The target language.
+   * @returns The note, or an empty string when there is no budget.
+   */
+  private buildBudgetNote(
+    budget: LengthBudget | SlideBudget,
+    language: string
+  ): string {
+    const entries = Object.entries(budget).filter(
+      ([, maxChars]) => maxChars !== undefined
+    );
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const limits = entries
+      .map(([field, maxChars]) => `"${field}" ≤ ${maxChars}`)
+      .join(', ');
+
+    return language === 'Spanish'
+      ? `\n\nLímites de caracteres para que el texto quepa en el diseño: ${limits}.`
+      : `\n\nCharacter limits so the copy fits the flyer layout: ${limits}.`;
+  }
+
+  /**
+   * Builds the follow-up message asking the model to fix its previous answer.
+   *
+   * @param issues - Validation problems found in the previous answer.
+   * @param validCount - How many variations were already valid.
+   * @param quantity - How many variations were requested.
+   * @returns The repair prompt string.
+   */
+  private buildRepairPrompt(
+    issues: ValidationIssue[],
+    validCount: number,
+    quantity: number
+  ): string {
+    const problems =
+      issues.length > 0
+        ? formatIssues(issues)
+        : `- Only ${validCount} valid variations were returned, ${quantity} are required.`;
+
+    return `Your previous answer did not pass validation:
+${problems}
+
+Return the complete corrected answer with exactly ${quantity} variations, as a JSON object of the form {"variations": [...]}, keeping valid variations unchanged. Respond with JSON only.`;
   }
 
   /**
@@ -110,6 +399,14 @@ export class TextGenerator {
     quantity: number,
     language: string
   ): string {
+    // Time left in the offer's last week, worded for the copy's locale.
+    const countdown = config.validityPeriod
+      ? formatCountdown(
+          config.validityPeriod,
+          config.locale ?? localeForLanguage(language)
+        )
+      : null;
+
     const prompts: Record<string, string> = {
       English: `
 I need you to generate ${quantity} promotional text variations for a "${
@@ -122,33 +419,37 @@ Key business and offer details:
 - Validity/Duration of Offer: "${config.validity}"
 - Location (optional): "${config.location || 'Not specified'}"
 - Phone Contact (optional): "${config.phone || 'Not specified'}"
-- Business Hours (optional): "${config.schedule || 'Not specified'}"
+- Business Hours (optional): "${config.schedule || 'Not specified'}"${
+        countdown ? `\n- Time Left: "${countdown}" (use it to add urgency)` : ''
+      }
 
 For each of the ${quantity} variations, include the following fields and respect the maximum lengths indicated:
 1. **"title"**: An impactful title (maximum 8 words).
 2. **"subtitle"**: A subtitle that complements the title and adds value (maximum 15 words).
 3. **"callToAction"**: A clear and direct call to action (maximum 5 words).
-4. **"description"**: A brief and persuasive description that sells the product/offer (1-3 sentences).
+4. **"description"**: A brief and persuasive description that sells the product/offer (1-3 sentences, maximum 300 characters).
 5. **"tone"**: Describe the style or emotion of the variation (e.g.: "urgent", "elegant", "casual", "fun", "exclusive", "friendly", "informative", etc.).
 
 Each variation should be unique in its approach, using different sales angles, benefits and emotional tones, but always promoting the same product/offer. Make sure the variations are diverse.
 
-The response format MUST be a JSON array, like in the following example:
+The response format MUST be a JSON object with a "variations" array, like in the following example:
 
 \`\`\`json
-[
-  {
-    "title": "Limited Offer!",
-    "subtitle": "Don't miss this unique savings opportunity.",
-    "callToAction": "Buy Now!",
-    "description": "Enjoy an exclusive discount on ${
-      config.product
-    }. Valid for limited time only!",
-    "tone": "urgent"
-  }
-]
+{
+  "variations": [
+    {
+      "title": "Limited Offer!",
+      "subtitle": "Don't miss this unique savings opportunity.",
+      "callToAction": "Buy Now!",
+      "description": "Enjoy an exclusive discount on ${
+        config.product
+      }. Valid for limited time only!",
+      "tone": "urgent"
+    }
+  ]
+}
 \`\`\`
-Make sure the complete response is valid JSON and only contains the JSON array.`,
+Make sure the complete response is valid JSON and only contains the JSON object.`,
 
       Spanish: `
 Necesito que generes ${quantity} variaciones de texto promocional para un negocio tipo "${
@@ -161,75 +462,220 @@ Detalles clave del negocio y la oferta:
 - Validez/Vigencia de la Oferta: "${config.validity}"
 - Ubicación (opcional): "${config.location ?? 'No especificada'}"
 - Contacto Telefónico (opcional): "${config.phone ?? 'No especificado'}"
-- Horario de Atención (opcional): "${config.schedule ?? 'No especificado'}"
+- Horario de Atención (opcional): "${config.schedule ?? 'No especificado'}"${
+        countdown
+          ? `\n- Tiempo Restante: "${countdown}" (úsalo para dar urgencia)`
+          : ''
+      }
 
 Para cada una de las ${quantity} variaciones, incluye los siguientes campos y respeta las longitudes máximas indicadas:
 1. **"title"**: Un título impactante (máximo 8 palabras).
 2. **"subtitle"**: Un subtítulo que complemente el título y añada valor (máximo 15 palabras).
 3. **"callToAction"**: Una llamada a la acción clara y directa (máximo 5 palabras).
-4. **"description"**: Una descripción breve y persuasiva que venda el producto/oferta (1-3 oraciones).
+4. **"description"**: Una descripción breve y persuasiva que venda el producto/oferta (1-3 oraciones, máximo 300 caracteres).
 5. **"tone"**: Describe el estilo o la emoción de la variación (ej: "urgente", "elegante", "casual", "divertido", "exclusivo", "amigable", "informativo", etc.).
 
 Cada variación debe ser única en su enfoque, utilizando diferentes ángulos de venta, beneficios y tonos emocionales, pero siempre promocionando el mismo producto/oferta. Asegúrate de que las variaciones sean diversas.
 
-El formato de la respuesta DEBE ser un arreglo JSON, como en el siguiente ejemplo:
+El formato de la respuesta DEBE ser un objeto JSON con un arreglo "variations", como en el siguiente ejemplo:
 
 \`\`\`json
-[
-  {
-    "title": "¡Oferta Limitada!",
-    "subtitle": "No dejes pasar esta oportunidad única de ahorro.",
-    "callToAction": "¡Compra Ahora!",
-    "description": "Disfruta de un descuento exclusivo en ${
-      config.product
-    }. ¡Válido solo por tiempo limitado!",
-    "tone": "urgente"
-  }
-]
+{
+  "variations": [
+    {
+      "title": "¡Oferta Limitada!",
+      "subtitle": "No dejes pasar esta oportunidad única de ahorro.",
+      "callToAction": "¡Compra Ahora!",
+      "description": "Disfruta de un descuento exclusivo en ${
+        config.product
+      }. ¡Válido solo por tiempo limitado!",
+      "tone": "urgente"
+    }
+  ]
+}
 \`\`\`
-Asegúrate de que la respuesta completa sea un JSON válido y solo contenga el arreglo JSON.`,
+Asegúrate de que la respuesta completa sea un JSON válido y solo contenga el objeto JSON.`,
     };
 
     return prompts[language] ?? prompts['English'] ?? '';
   }
 
   /**
-   * Parses the JSON response from the OpenAI API.
-   * Includes error handling for invalid JSON.
+   * Constructs the prompt for a carousel: what each slide is for, in order.
+   *
+   * @param config - The promotional configuration.
+   * @param roles - The role of each slide, in order.
+   * @param language - The target language for text generation.
+   * @returns The constructed prompt string.
+   */
+  private buildCarouselPrompt(
+    config: PromoConfig,
+    roles: SlideRole[],
+    language: string
+  ): string {
+    const countdown = config.validityPeriod
+      ? formatCountdown(
+          config.validityPeriod,
+          config.locale ?? localeForLanguage(language)
+        )
+      : null;
+    const count = roles.length;
+
+    if (language === 'Spanish') {
+      const purposes: Record<SlideRole, string> = {
+        hook: 'una apertura que detenga el scroll y invite a deslizar',
+        benefit: 'un motivo distinto para comprar',
+        offer: 'la oferta y hasta cuándo es válida',
+        cta: 'qué hacer ahora y cómo contactar',
+      };
+      return `
+Necesito un carrusel de Instagram de ${count} diapositivas para un negocio tipo "${
+        config.businessType
+      }" que promociona "${config.product}".
+
+Detalles clave:
+- Producto/Servicio Principal: "${config.product}"
+- Oferta Específica: "${config.offer}"
+- Validez/Vigencia de la Oferta: "${config.validity}"
+- Ubicación (opcional): "${config.location ?? 'No especificada'}"
+- Contacto Telefónico (opcional): "${config.phone ?? 'No especificado'}"
+- Horario de Atención (opcional): "${config.schedule ?? 'No especificado'}"${
+        countdown
+          ? `\n- Tiempo Restante: "${countdown}" (úsalo para dar urgencia)`
+          : ''
+      }
+
+Diapositivas, en este orden:
+${roles.map((role, i) => `${i + 1}. "${role}": ${purposes[role]}.`).join('\n')}
+
+Para cada diapositiva incluye:
+1. **"role"**: el rol de la diapositiva, como en la lista.
+2. **"title"**: un título corto (máximo 8 palabras).
+3. **"body"**: una o dos frases de apoyo (máximo 160 caracteres).
+4. **"callToAction"**: solo en la diapositiva "cta", una llamada a la acción clara y directa (máximo 5 palabras).
+
+Las diapositivas se leen una tras otra y deben contar una sola historia. No repitas la misma frase en dos diapositivas.
+
+El formato de la respuesta DEBE ser un objeto JSON con un arreglo "slides" de exactamente ${count} elementos, por ejemplo:
+
+\`\`\`json
+{
+  "slides": [
+    { "role": "hook", "title": "¿Antojo de ${config.product}?", "body": "Desliza y descubre por qué es tu mejor opción." },
+    { "role": "cta", "title": "Pide el tuyo hoy", "body": "Te esperamos.", "callToAction": "¡Pide Ahora!" }
+  ]
+}
+\`\`\`
+Asegúrate de que la respuesta completa sea un JSON válido y solo contenga el objeto JSON.`;
+    }
+
+    const purposes: Record<SlideRole, string> = {
+      hook: 'a scroll-stopping opening that makes people swipe',
+      benefit: 'one distinct reason to buy',
+      offer: 'the deal and how long it lasts',
+      cta: 'what to do next and how to get in touch',
+    };
+    return `
+I need an Instagram carousel of ${count} slides for a "${
+      config.businessType
+    }" business promoting "${config.product}".
+
+Key details:
+- Main Product/Service: "${config.product}"
+- Specific Offer: "${config.offer}"
+- Validity/Duration of Offer: "${config.validity}"
+- Location (optional): "${config.location || 'Not specified'}"
+- Phone Contact (optional): "${config.phone || 'Not specified'}"
+- Business Hours (optional): "${config.schedule || 'Not specified'}"${
+      countdown ? `\n- Time Left: "${countdown}" (use it to add urgency)` : ''
+    }
+
+Slides, in this order:
+${roles.map((role, i) => `${i + 1}. "${role}": ${purposes[role]}.`).join('\n')}
+
+For each slide include:
+1. **"role"**: the slide's role, as listed above.
+2. **"title"**: a short headline (maximum 8 words).
+3. **"body"**: one or two supporting sentences (maximum 160 characters).
+4. **"callToAction"**: only on the "cta" slide, a clear and direct call to action (maximum 5 words).
+
+The slides are read one after another and should tell one story. Don't repeat the same sentence on two slides.
+
+The response format MUST be a JSON object with a "slides" array of exactly ${count} entries, for example:
+
+\`\`\`json
+{
+  "slides": [
+    { "role": "hook", "title": "Craving ${config.product}?", "body": "Swipe to see why it's your best pick." },
+    { "role": "cta", "title": "Get yours today", "body": "We're waiting for you.", "callToAction": "Order Now!" }
+  ]
+}
+\`\`\`
+Make sure the complete response is valid JSON and only contains the JSON object.`;
+  }
+
+  /**
+   * Parses and validates a carousel response, reporting unparseable JSON
+   * as an issue like parseResponse.
+   */
+  private parseSlides(
+    response: string,
+    roles: SlideRole[]
+  ): { slides: CarouselSlide[]; issues: ValidationIssue[] } {
+    try {
+      return validateSlides(extractSlides(response), roles);
+    } catch (error) {
+      return {
+        slides: [],
+        issues: [
+          {
+            index: -1,
+            field: '*',
+            message: `could not be read: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          },
+        ],
+      };
+    }
+  }
+
+  /**
+   * Parses and validates the JSON response from the provider.
+   * Unparseable JSON is reported as a single issue so it can be repaired like any other.
    *
    * @param response - The raw string response from the AI.
-   * @returns An array of parsed TextVariation objects.
+   * @returns The valid variations and the validation issues found.
    */
-  private parseResponse(response: string): TextVariation[] {
+  private parseResponse(response: string): {
+    valid: TextVariation[];
+    issues: ValidationIssue[];
+  } {
     try {
-      // If `response_format: { type: 'json_object' }` is used, the response should be clean JSON.
-      const variations: TextVariation[] = JSON.parse(response);
-
-      // Basic validation to ensure the parsed objects have essential fields.
-      return variations.filter(
-        (v) =>
-          typeof v === 'object' &&
-          v !== null &&
-          'title' in v &&
-          'subtitle' in v &&
-          'callToAction' in v &&
-          'description' in v &&
-          'tone' in v
-      );
+      return validateVariations(extractVariations(response));
     } catch (error) {
       consola.warn(
         '⚠️ Error parsing AI JSON response. The format may not be as expected.',
         error
       );
-      // If parsing fails, it's better to return an empty array or re-throw after logging.
-      // The calling function will then trigger the fallback if it's caught there.
-      throw new Error('Invalid JSON response format received from AI.');
+      return {
+        valid: [],
+        issues: [
+          {
+            index: -1,
+            field: '*',
+            message: `could not be read: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          },
+        ],
+      };
     }
   }
 
   /**
-   * Generates a set of basic, pre-defined text variations as a fallback.
-   * This is crucial when the AI fails to generate or returns an unparseable response.
+   * Generates variations with the offline copy engine.
+   * Used when the AI fails or never returns valid output.
    *
    * @param config - The promotional configuration.
    * @param quantity - The number of fallback variations to generate.
@@ -241,222 +687,10 @@ Asegúrate de que la respuesta completa sea un JSON válido y solo contenga el a
     quantity: number,
     language: string = 'English'
   ): TextVariation[] {
-    consola.info('🔄 Generating fallback variations due to an error...');
-
-    const baseTones = [
-      'urgent',
-      'elegant',
-      'casual',
-      'fun',
-      'exclusive',
-      'friendly',
-      'informative',
-      'inspiring',
-    ];
-    const fallbackVariations: TextVariation[] = [];
-
-    for (let i = 0; i < quantity; i++) {
-      const tone = baseTones[i % baseTones.length];
-      fallbackVariations.push({
-        title: this.generateFallbackTitle(config, tone || '', language),
-        subtitle: this.generateFallbackSubtitle(config, tone || '', language),
-        callToAction: this.generateFallbackCTA(tone || '', language),
-        description: this.generateFallbackDescription(
-          config,
-          tone || '',
-          i,
-          language
-        ),
-        tone: tone || '',
-      });
-    }
-
-    // Ensure we don't return an empty array if quantity > 0 and no fallbacks could be made.
-    if (fallbackVariations.length === 0 && quantity > 0) {
-      const fallbackTexts = this.getFallbackTexts(language);
-      return [
-        {
-          title: fallbackTexts.title.replace('{product}', config.product),
-          subtitle: fallbackTexts.subtitle.replace('{product}', config.product),
-          callToAction: fallbackTexts.callToAction,
-          description: fallbackTexts.description.replace(
-            '{product}',
-            config.product
-          ),
-          tone: 'general',
-        },
-      ];
-    }
-
-    return fallbackVariations;
-  }
-
-  /**
-   * Gets fallback texts in the specified language.
-   */
-  private getFallbackTexts(language: string) {
-    const fallbackTexts: Record<string, any> = {
-      English: {
-        title: 'Special Offer for {product}!',
-        subtitle: 'Discover more about our {product} today.',
-        callToAction: 'Learn More!',
-        description:
-          'Take advantage of the opportunity to discover {product} with our special offer.',
-      },
-      Spanish: {
-        title: '¡Oferta Especial de {product}!',
-        subtitle: 'Descubre más sobre nuestro {product} hoy.',
-        callToAction: '¡Infórmate!',
-        description:
-          'Aprovecha la oportunidad de conocer {product} con nuestra oferta especial.',
-      },
-    };
-
-    return fallbackTexts[language] || fallbackTexts['English'];
-  }
-
-  // --- Fallback Text Generation Helpers ---
-  // These helpers provide a basic, predefined set of responses when the AI fails.
-
-  private generateFallbackTitle(
-    config: PromoConfig,
-    tone: string,
-    language: string
-  ): string {
-    const titles: Record<string, Record<string, string>> = {
-      English: {
-        urgent: `Last Chance: ${config.offer}!`,
-        elegant: `Exclusive ${config.product} for you`,
-        casual: `Don't miss this ${config.product} deal!`,
-        fun: `Party Time for ${config.product}!`,
-        exclusive: `VIP Access to ${config.product}`,
-        friendly: `Enjoy with family: ${config.product}`,
-        informative: `Learn about ${config.product}: The Guide`,
-        inspiring: `Transform your day with ${config.product}`,
-      },
-      Spanish: {
-        urgent: `¡Última Oportunidad: ${config.offer}!`,
-        elegant: `${config.product} Exclusivo para ti`,
-        casual: `¡No te pierdas esta oferta de ${config.product}!`,
-        fun: `¡Hora de ${config.product}!`,
-        exclusive: `Acceso VIP a ${config.product}`,
-        friendly: `Disfruta en familia: ${config.product}`,
-        informative: `Conoce ${config.product}: La Guía`,
-        inspiring: `Transforma tu día con ${config.product}`,
-      },
-    };
-
-    const langTitles = titles[language] ?? titles['English'];
-    return (langTitles?.[tone] ?? `Discover ${config.product} Now!`).substring(
-      0,
-      50
-    );
-  }
-
-  private generateFallbackSubtitle(
-    config: PromoConfig,
-    tone: string,
-    language: string
-  ): string {
-    const subtitles: Record<string, Record<string, string>> = {
-      English: {
-        urgent: `${config.validity}. Act fast!`,
-        elegant: `Superior quality and unmatched design await you.`,
-        casual: `Relax and enjoy ${config.product}.`,
-        fun: `Fun is guaranteed with ${config.product}.`,
-        exclusive: `Unique benefits designed for select customers.`,
-        friendly: `Create unforgettable memories with your loved ones.`,
-        informative: `Everything you need to know before your purchase.`,
-        inspiring: `Achieve your goals with the support of ${config.product}.`,
-      },
-      Spanish: {
-        urgent: `${config.validity}. ¡Actúa rápido!`,
-        elegant: `Calidad superior y diseño inigualable te esperan.`,
-        casual: `Relájate y disfruta de ${config.product}.`,
-        fun: `La diversión está garantizada con ${config.product}.`,
-        exclusive: `Beneficios únicos diseñados para clientes selectos.`,
-        friendly: `Crea recuerdos inolvidables con los tuyos.`,
-        informative: `Todo lo que necesitas saber antes de tu compra.`,
-        inspiring: `Alcanza tus metas con el apoyo de ${config.product}.`,
-      },
-    };
-
-    const langSubtitles = subtitles[language] || subtitles['English'];
-    return (
-      langSubtitles?.[tone] ||
-      `Take advantage of our offer on ${config.product}.`
-    ).substring(0, 80);
-  }
-
-  private generateFallbackCTA(tone: string, language: string): string {
-    const ctas: Record<string, Record<string, string>> = {
-      English: {
-        urgent: 'Book Now!',
-        elegant: 'Request Info',
-        casual: 'Try It Now!',
-        fun: 'Join the Party!',
-        exclusive: 'Access Here!',
-        friendly: 'Come With Us!',
-        informative: 'Read More',
-        inspiring: 'Start Today!',
-      },
-      Spanish: {
-        urgent: '¡Reserva Ya!',
-        elegant: 'Solicita Info',
-        casual: '¡Pruébalo!',
-        fun: '¡Únete!',
-        exclusive: '¡Accede Aquí!',
-        friendly: '¡Ven con Nosotros!',
-        informative: 'Leer Más',
-        inspiring: '¡Empieza Hoy!',
-      },
-    };
-
-    const langCtas = ctas[language] || ctas['English'];
-    return (langCtas?.[tone] || 'More Info!').substring(0, 30);
-  }
-
-  private generateFallbackDescription(
-    config: PromoConfig,
-    tone: string,
-    index: number,
-    language: string
-  ): string {
-    const descriptions: Record<string, Record<string, string>> = {
-      English: {
-        urgent: `Don't miss this special offer on ${
-          config.product
-        }. Valid only until ${config.validity}. Visit us at ${
-          config.location || 'our store'
-        }!`,
-        elegant: `Immerse yourself in the premium experience of ${config.product}. Design and functionality come together for you.`,
-        casual: `Looking for something different? Our ${config.product} is perfect for your daily life.`,
-        fun: `Get ready for fun with ${config.product}. Ideal for any occasion!`,
-        exclusive: `A unique opportunity to access the best of ${config.product}. By invitation only!`,
-        friendly: `Unforgettable moments await you with ${config.product}. Ideal for sharing with family.`,
-        informative: `Discover the key features and benefits of ${config.product}.`,
-        inspiring: `Take the next step towards your dreams with ${config.product}.`,
-      },
-      Spanish: {
-        urgent: `No dejes pasar esta oferta especial en ${
-          config.product
-        }. Válida solo hasta ${config.validity}. ¡Visítanos en ${
-          config.location || 'nuestra tienda'
-        }!`,
-        elegant: `Sumérgete en la experiencia premium de ${config.product}. Diseño y funcionalidad se unen para ti.`,
-        casual: `¿Buscas algo diferente? Nuestro ${config.product} es perfecto para tu día a día.`,
-        fun: `Prepárate para la diversión con ${config.product}. ¡Ideal para cualquier ocasión!`,
-        exclusive: `Una oportunidad única para acceder a lo mejor de ${config.product}. ¡Solo por invitación!`,
-        friendly: `Momentos inolvidables te esperan con ${config.product}. Ideal para compartir en familia.`,
-        informative: `Descubre las características clave y beneficios de ${config.product}.`,
-        inspiring: `Da el siguiente paso hacia tus sueños con ${config.product}.`,
-      },
-    };
+    consola.info('🔄 Generating offline copy variations due to an error...');
 
-    const langDescriptions = descriptions[language] || descriptions['English'];
-    const baseDescription =
-      langDescriptions?.[tone] ||
-      `Take advantage of our incredible ${config.offer} on ${config.product}. ${config.validity}. Visit us at ${config.location}.`;
-    return baseDescription.substring(0, 200);
+    return this.copyEngine
+      .generate(config, quantity, language)
+      .map((variation) => ({ ...variation, source: 'fallback' }));
   }
 }
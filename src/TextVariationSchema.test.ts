@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  extractVariations,
+  formatIssues,
+  validateVariations,
+} from './TextVariationSchema';
+
+const variation = {
+  title: 'Pizza night',
+  subtitle: 'Two large pizzas for the price of one',
+  callToAction: 'Order now',
+  description: 'Every Friday, all day long.',
+  tone: 'fun',
+};
+
+describe('extractVariations', () => {
+  test('accepts a bare array', () => {
+    expect(extractVariations(JSON.stringify([variation]))).toEqual([variation]);
+  });
+
+  test('unwraps known keys, single array properties and code fences', () => {
+    expect(
+      extractVariations(JSON.stringify({ variations: [variation] }))
+    ).toEqual([variation]);
+    expect(extractVariations(JSON.stringify({ copy: [variation] }))).toEqual([
+      variation,
+    ]);
+    expect(
+      extractVariations('```json\n' + JSON.stringify([variation]) + '\n```')
+    ).toEqual([variation]);
+  });
+
+  test('wraps a single variation object', () => {
+    expect(extractVariations(JSON.stringify(variation))).toEqual([variation]);
+  });
+
+  test('rejects responses without variations', () => {
+    expect(() => extractVariations('{"message": "hi"}')).toThrow(
+      'does not contain a list of variations'
+    );
+    expect(() => extractVariations('not json')).toThrow();
+  });
+});
+
+describe('validateVariations', () => {
+  test('trims valid variations', () => {
+    const { valid, issues } = validateVariations([
+      { ...variation, title: '  Pizza night  ' },
+    ]);
+    expect(issues).toEqual([]);
+    expect(valid).toEqual([variation]);
+  });
+
+  test('reports every problem with its index and field', () => {
+    const { valid, issues } = validateVariations([
+      variation,
+      { ...variation, title: '', callToAction: 42 },
+      { ...variation, subtitle: 'x'.repeat(121) },
+      { ...variation, title: 'one two three four five six seven eight nine' },
+      'not an object',
+    ]);
+
+    expect(valid).toEqual([variation]);
+    expect(issues).toEqual([
+      { index: 1, field: 'title', message: 'must not be empty' },
+      { index: 1, field: 'callToAction', message: 'must be a string' },
+      {
+        index: 2,
+        field: 'subtitle',
+        message: 'must be at most 120 characters (got 121)',
+      },
+      { index: 3, field: 'title', message: 'must be at most 8 words' },
+      { index: 4, field: '*', message: 'must be an object' },
+    ]);
+  });
+
+  test('requires every field', () => {
+    const { tone, ...withoutTone } = variation;
+    const { issues } = validateVariations([withoutTone]);
+    expect(issues).toEqual([
+      { index: 0, field: 'tone', message: 'is required' },
+    ]);
+    expect(formatIssues(issues)).toContain('tone');
+  });
+});
@@ -0,0 +1,175 @@
+import type { TextVariation } from './types';
+
+type TextField = Exclude<keyof TextVariation, 'source'>;
+
+export interface FieldRule {
+  required: boolean;
+  maxLength: number;
+  maxWords?: number;
+}
+
+/**
+ * Shape every AI-produced variation must satisfy before it reaches the renderer.
+ * Lengths are in characters; word limits mirror the ones given in the prompt.
+ */
+export const TEXT_VARIATION_SCHEMA: Record<TextField, FieldRule> = {
+  title: { required: true, maxLength: 60, maxWords: 8 },
+  subtitle: { required: true, maxLength: 120, maxWords: 15 },
+  callToAction: { required: true, maxLength: 30, maxWords: 5 },
+  description: { required: true, maxLength: 300 },
+  tone: { required: true, maxLength: 30, maxWords: 3 },
+};
+
+export interface ValidationIssue {
+  /** Position of the offending variation, or -1 for the response as a whole. */
+  index: number;
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: TextVariation[];
+  issues: ValidationIssue[];
+}
+
+// Keys models commonly wrap the array in when forced into a JSON object.
+const WRAPPER_KEYS = [
+  'variations',
+  'textVariations',
+  'flyers',
+  'items',
+  'data',
+  'results',
+];
+
+/**
+ * Extracts the list of candidate variations from a raw model response.
+ * Accepts a bare array, `{ variations: [...] }`-style wrappers, any object
+ * with a single array property, a single variation object, and responses
+ * wrapped in Markdown code fences.
+ *
+ * @param raw - The raw string returned by the provider.
+ * @returns The unvalidated candidates.
+ * @throws Error if the response is not JSON or holds no list of variations.
+ */
+export function extractVariations(raw: string): unknown[] {
+  const cleaned = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  const parsed: unknown = JSON.parse(cleaned);
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  if (typeof parsed === 'object' && parsed !== null) {
+    const record = parsed as Record<string, unknown>;
+
+    for (const key of WRAPPER_KEYS) {
+      if (Array.isArray(record[key])) {
+        return record[key] as unknown[];
+      }
+    }
+
+    const arrays = Object.values(record).filter(Array.isArray);
+    if (arrays.length === 1) {
+      return arrays[0] as unknown[];
+    }
+
+    if ('title' in record) {
+      return [record];
+    }
+  }
+
+  throw new Error('Response does not contain a list of variations.');
+}
+
+/**
+ * Validates candidates against TEXT_VARIATION_SCHEMA.
+ * Valid entries are trimmed and returned; every problem is reported with
+ * its index and field so it can be sent back to the model.
+ *
+ * @param candidates - Output of extractVariations.
+ * @returns The valid variations and the list of issues found.
+ */
+export function validateVariations(candidates: unknown[]): ValidationResult {
+  const valid: TextVariation[] = [];
+  const issues: ValidationIssue[] = [];
+
+  candidates.forEach((candidate, index) => {
+    if (typeof candidate !== 'object' || candidate === null) {
+      issues.push({ index, field: '*', message: 'must be an object' });
+      return;
+    }
+
+    const record = candidate as Record<string, unknown>;
+    const entryIssues: ValidationIssue[] = [];
+    const variation: Partial<Record<TextField, string>> = {};
+
+    for (const [field, rule] of Object.entries(TEXT_VARIATION_SCHEMA) as Array<
+      [TextField, FieldRule]
+    >) {
+      const value = record[field];
+
+      if (value === undefined || value === null) {
+        if (rule.required) {
+          entryIssues.push({ index, field, message: 'is required' });
+        }
+        continue;
+      }
+
+      if (typeof value !== 'string') {
+        entryIssues.push({ index, field, message: 'must be a string' });
+        continue;
+      }
+
+      const text = value.trim();
+      if (rule.required && text.length === 0) {
+        entryIssues.push({ index, field, message: 'must not be empty' });
+      } else if (text.length > rule.maxLength) {
+        entryIssues.push({
+          index,
+          field,
+          message: `must be at most ${rule.maxLength} characters (got ${text.length})`,
+        });
+      } else if (
+        rule.maxWords !== undefined &&
+        text.split(/\s+/).length > rule.maxWords
+      ) {
+        entryIssues.push({
+          index,
+          field,
+          message: `must be at most ${rule.maxWords} words`,
+        });
+      }
+
+      variation[field] = text;
+    }
+
+    if (entryIssues.length > 0) {
+      issues.push(...entryIssues);
+    } else {
+      valid.push(variation as TextVariation);
+    }
+  });
+
+  return { valid, issues };
+}
+
+/**
+ * Formats validation issues as a bullet list for a repair prompt.
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => {
+      if (issue.index < 0) {
+        return `- The response ${issue.message}.`;
+      }
+      return issue.field === '*'
+        ? `- Variation ${issue.index + 1} ${issue.message}.`
+        : `- Variation ${issue.index + 1}: "${issue.field}" ${issue.message}.`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { EstimatedTextMeasurer } from '../layout/TextFitter';
+import type { CanvasConfig } from '../types';
+import { CountdownTicker, formatTicker } from './CountdownTicker';
+
+const canvas: CanvasConfig = {
+  width: 1080,
+  height: 1920,
+  backgroundColor: '#1A237E',
+  textColor: '#FFFFFF',
+  accentColor: '#FFEB3B',
+  safeZone: { top: 250, right: 64, bottom: 340, left: 64 },
+};
+
+describe('formatTicker', () => {
+  test.each([
+    [0, '00:00:00'],
+    [-5000, '00:00:00'],
+    [59_999, '00:00:59'],
+    [3 * 3600_000 + 14 * 60_000 + 5_000, '03:14:05'],
+    [2 * 86400_000 + 3 * 3600_000, '2d 03:00:00'],
+  ])('shows %i ms as %s', (milliseconds, clock) => {
+    expect(formatTicker(milliseconds)).toBe(clock);
+  });
+});
+
+describe('CountdownTicker', () => {
+  const ticker = new CountdownTicker(new EstimatedTextMeasurer());
+
+  test('reserves a band below the safe zone top', () => {
+    const reserved = ticker.reserveSpace(canvas);
+
+    expect(reserved.safeZone!.top).toBeGreaterThan(canvas.safeZone!.top);
+    expect(reserved.safeZone).toMatchObject({
+      right: 64,
+      bottom: 340,
+      left: 64,
+    });
+    expect(reserved.width).toBe(canvas.width);
+  });
+
+  test('reserves from the top edge without a safe zone', () => {
+    const bare: CanvasConfig = { ...canvas, safeZone: undefined };
+
+    expect(ticker.reserveSpace(bare).safeZone).toMatchObject({
+      right: 0,
+      bottom: 0,
+      left: 0,
+    });
+  });
+
+  test('draws the time left inside the reserved band', () => {
+    const svg = ticker.render(90_061_000, canvas, 'Arial');
+    const y = Number(svg.match(/<rect x="[\d.]+" y="([\d.]+)"/)![1]);
+    const height = Number(svg.match(/height="([\d.]+)"/)![1]);
+
+    expect(svg).toContain('>1d 01:01:01</text>');
+    expect(svg).toContain('fill="#FFEB3B"');
+    expect(y).toBeGreaterThanOrEqual(canvas.safeZone!.top);
+    expect(y + height).toBeLessThanOrEqual(
+      ticker.reserveSpace(canvas).safeZone!.top
+    );
+  });
+});
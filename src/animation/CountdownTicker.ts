@@ -0,0 +1,112 @@
+import { parseColor, readableTextColor, toHex } from '../color';
+import type { TextMeasurer } from '../layout/TextFitter';
+import type { CanvasConfig } from '../types';
+
+/**
+ * Time left as a clock: "2d 03:14:05", or "03:14:05" on the last day.
+ */
+export function formatTicker(milliseconds: number): string {
+  const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(seconds / 86400);
+  const clock = [
+    Math.floor(seconds / 3600) % 24,
+    Math.floor(seconds / 60) % 60,
+    seconds % 60,
+  ]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+/**
+ * The countdown of animated flyers: the time left in the offer on a pill
+ * across the top of the safe area, with a clock icon, ticking down frame
+ * by frame.
+ */
+export class CountdownTicker {
+  private measurer: TextMeasurer;
+
+  constructor(measurer: TextMeasurer) {
+    this.measurer = measurer;
+  }
+
+  /**
+   * SVG markup for the ticker.
+   *
+   * @param remaining - Time left in milliseconds.
+   * @param config - Canvas it is drawn on.
+   * @param fontFamily - CSS font-family list used for the text.
+   */
+  render(remaining: number, config: CanvasConfig, fontFamily: string): string {
+    const { width, accentColor } = config;
+    const { left = 0, right = 0 } = config.safeZone ?? {};
+    const { y, height: pillHeight, fontSize: size } = this.getBand(config);
+    const label = formatTicker(remaining);
+    const color = toHex(readableTextColor(parseColor(accentColor)));
+
+    // Sized for zeros, so the pill doesn't jitter as the digits change.
+    const textWidth = this.measurer.measure(
+      label.replace(/\d/g, '0'),
+      size,
+      true
+    );
+    const icon = size * 0.9;
+    const pad = size * 0.7;
+    const pillWidth = pad + icon + size * 0.4 + textWidth + pad;
+    const x = left + (width - left - right - pillWidth) / 2;
+    const cy = y + pillHeight / 2;
+    const iconX = x + pad + icon / 2;
+
+    return `
+  <!-- Countdown ticker -->
+  <g>
+    <rect x="${x}" y="${y}" width="${pillWidth}" height="${pillHeight}" rx="${
+      pillHeight / 2
+    }" fill="${accentColor}" filter="url(#shadow)"/>
+    <circle cx="${iconX}" cy="${cy}" r="${icon / 2}" fill="none" stroke="${color}" stroke-width="${
+      size * 0.1
+    }"/>
+    <path d="M${iconX},${cy - icon * 0.3} V${cy} L${iconX + icon * 0.22},${
+      cy + icon * 0.12
+    }" fill="none" stroke="${color}" stroke-width="${size * 0.1}" stroke-linecap="round"/>
+    <text x="${x + pad + icon + size * 0.4}" y="${cy + size * 0.35}"
+          font-family="${fontFamily}" font-size="${size}" font-weight="bold"
+          fill="${color}">${label}</text>
+  </g>`;
+  }
+
+  /**
+   * Canvas with the band the ticker takes at the top added to its safe
+   * zone, so layouts keep the copy clear of it.
+   */
+  reserveSpace<T extends Pick<CanvasConfig, 'width' | 'height' | 'safeZone'>>(
+    config: T
+  ): T {
+    const { y, height } = this.getBand(config);
+    return {
+      ...config,
+      safeZone: {
+        right: 0,
+        bottom: 0,
+        left: 0,
+        ...config.safeZone,
+        top: y + height + config.height * 0.02,
+      },
+    };
+  }
+
+  /** Top, height and font size of the ticker's pill. */
+  private getBand(
+    config: Pick<CanvasConfig, 'width' | 'height' | 'safeZone'>
+  ): { y: number; height: number; fontSize: number } {
+    const fontSize = Math.max(
+      16,
+      Math.min(config.width, config.height) * 0.045
+    );
+    return {
+      y: (config.safeZone?.top ?? 0) + config.height * 0.03,
+      height: fontSize * 1.8,
+      fontSize,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_DURATION,
+  DEFAULT_FRAMES,
+  planFrames,
+  validateAnimationOptions,
+} from './frames';
+
+const now = new Date('2026-10-18T12:00:00Z');
+const endsAt = new Date('2026-10-18T14:00:00Z');
+
+describe('planFrames', () => {
+  test('plans one loop at the default frame count', () => {
+    const frames = planFrames();
+
+    expect(frames).toHaveLength(DEFAULT_FRAMES);
+    expect(frames.every((frame) => frame.countdown === undefined)).toBe(true);
+  });
+
+  test('fades the title in and slides the badge in, then holds them', () => {
+    const frames = planFrames({ frames: 10 });
+    const first = frames[0]!;
+    const last = frames.at(-1)!;
+
+    expect(first.titleOpacity).toBe(0);
+    expect(first.titleRise).toBe(1);
+    expect(first.badgeOffset).toBe(1);
+    expect(last).toMatchObject({
+      titleOpacity: 1,
+      titleRise: 0,
+      badgeOffset: 0,
+    });
+
+    const opacities = frames.map((frame) => frame.titleOpacity);
+    expect(opacities).toEqual([...opacities].sort((a, b) => a - b));
+  });
+
+  test('pulses the CTA so the loop joins up', () => {
+    const scales = planFrames({ frames: 8 }).map((frame) => frame.ctaScale);
+
+    expect(scales[0]).toBe(1);
+    expect(Math.max(...scales)).toBeCloseTo(1.06);
+    expect(scales[2]).toBeCloseTo(1.06);
+    expect(scales.every((scale) => scale >= 1)).toBe(true);
+  });
+
+  test('holds parts still when their effect is off', () => {
+    for (const frame of planFrames({ frames: 6, effects: ['countdown'] })) {
+      expect(frame).toMatchObject({
+        titleOpacity: 1,
+        titleRise: 0,
+        ctaScale: 1,
+        badgeOffset: 0,
+      });
+    }
+  });
+
+  test('ticks the countdown down in real time', () => {
+    const frames = planFrames({ frames: 4, duration: 2000 }, endsAt, now);
+    const twoHours = 2 * 60 * 60 * 1000;
+
+    expect(frames.map((frame) => frame.countdown)).toEqual([
+      twoHours,
+      twoHours - 500,
+      twoHours - 1000,
+      twoHours - 1500,
+    ]);
+    expect(planFrames({ frames: 2 }, now, endsAt)[1]!.countdown).toBe(0);
+    expect(
+      planFrames({ frames: 2, effects: ['fade-title'] }, endsAt, now)[0]!
+        .countdown
+    ).toBeUndefined();
+  });
+});
+
+describe('validateAnimationOptions', () => {
+  test('accepts the defaults and the limits', () => {
+    expect(() => validateAnimationOptions({})).not.toThrow();
+    expect(() =>
+      validateAnimationOptions({
+        frames: 120,
+        duration: DEFAULT_DURATION,
+        loop: 0,
+      })
+    ).not.toThrow();
+  });
+
+  test.each([
+    [{ frames: 1 }, '2 to 120 frames, got 1'],
+    [{ frames: 2.5 }, 'got 2.5'],
+    [{ duration: 100 }, '200 to 30000 milliseconds, got 100'],
+    [{ effects: ['spin' as 'countdown'] }, 'unknown animation effect "spin"'],
+    [{ loop: -1 }, 'loop count must be a whole number'],
+  ])('rejects %o', (options, message) => {
+    expect(() => validateAnimationOptions(options)).toThrow(message);
+  });
+});
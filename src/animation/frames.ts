@@ -0,0 +1,131 @@
+import type {
+  AnimationEffect,
+  AnimationFrame,
+  AnimationOptions,
+} from '../types';
+
+export const ANIMATION_EFFECTS: AnimationEffect[] = [
+  'fade-title',
+  'pulse-cta',
+  'slide-badge',
+  'countdown',
+];
+
+export const DEFAULT_FRAMES = 24;
+
+/** Milliseconds. */
+export const DEFAULT_DURATION = 3000;
+
+const MIN_FRAMES = 2;
+const MAX_FRAMES = 120;
+const MIN_DURATION = 200;
+const MAX_DURATION = 30000;
+
+/** Part of the loop the title takes to fade in. */
+const TITLE_IN = 0.3;
+/** The badge starts sliding in at this point of the loop... */
+const BADGE_START = 0.1;
+/** ...and takes this long. */
+const BADGE_IN = 0.3;
+/** How much larger the CTA button gets at the top of a pulse. */
+const PULSE = 0.06;
+
+/**
+ * Checks animation options: a whole number of frames from 2 to 120, a
+ * duration from 200 ms to 30 s, known effects and a whole loop count.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateAnimationOptions(options: AnimationOptions): void {
+  const { frames, duration, loop } = options;
+  if (
+    frames !== undefined &&
+    !(Number.isInteger(frames) && frames >= MIN_FRAMES && frames <= MAX_FRAMES)
+  ) {
+    throw new Error(
+      `❌ Configuration error: an animation has ${MIN_FRAMES} to ${MAX_FRAMES} frames, got ${frames}.`
+    );
+  }
+  if (
+    duration !== undefined &&
+    !(
+      Number.isFinite(duration) &&
+      duration >= MIN_DURATION &&
+      duration <= MAX_DURATION
+    )
+  ) {
+    throw new Error(
+      `❌ Configuration error: an animation lasts ${MIN_DURATION} to ${MAX_DURATION} milliseconds, got ${duration}.`
+    );
+  }
+  const unknown = options.effects?.find(
+    (effect) => !ANIMATION_EFFECTS.includes(effect)
+  );
+  if (unknown !== undefined) {
+    throw new Error(
+      `❌ Configuration error: unknown animation effect "${unknown}". Expected one of: ${ANIMATION_EFFECTS.join(', ')}.`
+    );
+  }
+  if (loop !== undefined && !(Number.isInteger(loop) && loop >= 0)) {
+    throw new Error(
+      `❌ Configuration error: the loop count must be a whole number, 0 for endless, got ${loop}.`
+    );
+  }
+}
+
+/**
+ * The state of every frame of one loop. The title fades in and rises
+ * into place over the first 30%, the badge slides in from the right just
+ * after it starts, and the CTA pulses twice; the countdown ticks down in
+ * real time from `now`. Effects that are off hold their parts still.
+ *
+ * @param options - Frame count, duration and effects.
+ * @param endsAt - When the offer ends; without it there is no countdown.
+ * @param now - Time of the first frame (default: the current time).
+ */
+export function planFrames(
+  options: AnimationOptions = {},
+  endsAt?: Date,
+  now: Date = new Date()
+): AnimationFrame[] {
+  const count = options.frames ?? DEFAULT_FRAMES;
+  const duration = options.duration ?? DEFAULT_DURATION;
+  const effects = new Set(options.effects ?? ANIMATION_EFFECTS);
+
+  return Array.from({ length: count }, (_, index) => {
+    const t = index / count;
+    const title = effects.has('fade-title')
+      ? easeOut(progress(t, 0, TITLE_IN))
+      : 1;
+    const badge = effects.has('slide-badge')
+      ? easeOut(progress(t, BADGE_START, BADGE_IN))
+      : 1;
+
+    const frame: AnimationFrame = {
+      titleOpacity: title,
+      titleRise: 1 - title,
+      // sin² starts and ends at 0, so the loop joins up.
+      ctaScale: effects.has('pulse-cta')
+        ? 1 + PULSE * Math.sin(2 * Math.PI * t) ** 2
+        : 1,
+      badgeOffset: 1 - badge,
+    };
+    if (effects.has('countdown') && endsAt) {
+      frame.countdown = Math.max(
+        0,
+        endsAt.getTime() - now.getTime() - t * duration
+      );
+    }
+    return frame;
+  });
+}
+
+/** How far `t` is through the span starting at `start`, from 0 to 1. */
+function progress(t: number, start: number, length: number): number {
+  return Math.min(1, Math.max(0, (t - start) / length));
+}
+
+/** Cubic ease-out: fast start, gentle landing. */
+function easeOut(p: number): number {
+  return 1 - (1 - p) ** 3;
+}
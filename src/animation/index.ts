@@ -0,0 +1,8 @@
+export {
+  ANIMATION_EFFECTS,
+  DEFAULT_DURATION,
+  DEFAULT_FRAMES,
+  planFrames,
+  validateAnimationOptions,
+} from './frames';
+export { CountdownTicker, formatTicker } from './CountdownTicker';
@@ -0,0 +1,338 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import sharp from 'sharp';
+import { contrastRatio, parseColor, readableTextColor, toHex } from '../color';
+import type { Region } from '../layouts/FlyerLayout';
+import type {
+  AssetPlacement,
+  BrandAsset,
+  CanvasConfig,
+  RgbColor,
+  SafeZone,
+} from '../types';
+
+export const ASSET_PLACEMENTS: AssetPlacement[] = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'header',
+  'watermark',
+];
+
+/**
+ * Box each placement fits assets into: height as a fraction of the
+ * canvas's shorter side, and the widest aspect ratio allowed.
+ */
+const PLACEMENT_BOXES: Record<
+  AssetPlacement,
+  { size: number; aspect: number; opacity: number }
+> = {
+  'top-left': { size: 0.12, aspect: 2.5, opacity: 1 },
+  'top-right': { size: 0.12, aspect: 2.5, opacity: 1 },
+  'bottom-left': { size: 0.12, aspect: 2.5, opacity: 1 },
+  'bottom-right': { size: 0.12, aspect: 2.5, opacity: 1 },
+  header: { size: 0.14, aspect: 4, opacity: 1 },
+  watermark: { size: 0.5, aspect: 1.6, opacity: 0.12 },
+};
+
+/** Gap between assets and the canvas (or safe area) edge, as a fraction of the shorter side. */
+export const ASSET_MARGIN = 0.04;
+
+/** Assets are rasterized to at most this many pixels a side. */
+const MAX_PIXELS = 1200;
+
+/**
+ * Below this contrast with the background a logo without a variant for it
+ * would disappear, so it is drawn as a silhouette in the text color.
+ */
+const MIN_LOGO_CONTRAST = 1.8;
+
+/** The canvas fields asset placement depends on. */
+export type AssetCanvas = Pick<
+  CanvasConfig,
+  'width' | 'height' | 'backgroundColor' | 'safeZone'
+>;
+
+/** An asset file read and measured, ready to embed. */
+interface LoadedImage {
+  /** PNG data URI. */
+  uri: string;
+  width: number;
+  height: number;
+  /** Whether any pixel is (partly) transparent. */
+  hasAlpha: boolean;
+  /** Average color of the opaque pixels. */
+  color: RgbColor;
+}
+
+/** An asset with its image chosen for the background, positioned on the canvas. */
+export interface PlacedAsset extends Region {
+  placement: AssetPlacement;
+  /** PNG data URI of the chosen image. */
+  uri: string;
+  opacity: number;
+  /** Solid color to draw the asset in (a silhouette), when its own colors would not show. */
+  tint?: string;
+}
+
+/**
+ * Checks an asset before any copy is generated: a known placement, files
+ * that exist, and sizes in range.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateBrandAsset(asset: BrandAsset): void {
+  if (asset.placement && !ASSET_PLACEMENTS.includes(asset.placement)) {
+    throw new Error(
+      `❌ Configuration error: unknown asset placement "${asset.placement}". Expected one of: ${ASSET_PLACEMENTS.join(', ')}.`
+    );
+  }
+  for (const file of [asset.path, asset.onDark, asset.onLight]) {
+    if (file !== undefined && !existsSync(file)) {
+      throw new Error(
+        `❌ Configuration error: brand asset ${file} does not exist.`
+      );
+    }
+  }
+  if (
+    asset.maxSize !== undefined &&
+    !(asset.maxSize > 0 && asset.maxSize <= 1)
+  ) {
+    throw new Error(
+      `❌ Configuration error: asset size must be between 0 and 1 (a fraction of the canvas), got ${asset.maxSize}.`
+    );
+  }
+  if (
+    asset.opacity !== undefined &&
+    !(asset.opacity >= 0 && asset.opacity <= 1)
+  ) {
+    throw new Error(
+      `❌ Configuration error: asset opacity must be between 0 and 1, got ${asset.opacity}.`
+    );
+  }
+}
+
+/**
+ * Composites logos and other brand images onto flyers. Assets are fitted
+ * into a box for their placement (keeping their aspect ratio) inside the
+ * format's safe area, and the space they take is reserved so layouts keep
+ * copy clear of them. The variant for dark or light backgrounds is picked
+ * from the flyer's background color.
+ */
+export class BrandAssets {
+  private images = new Map<string, Promise<LoadedImage>>();
+
+  /**
+   * The canvas with its safe zone widened by the space assets take, for
+   * laying out copy around them. Watermarks are faint enough to overlap
+   * copy and take none.
+   */
+  reserveSpace<T extends AssetCanvas & Pick<CanvasConfig, 'assets'>>(
+    config: T
+  ): T {
+    if (!config.assets?.length) {
+      return config;
+    }
+
+    const reserved: SafeZone = {
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+      ...config.safeZone,
+    };
+    for (const asset of config.assets) {
+      const placement = asset.placement ?? 'top-left';
+      if (placement === 'watermark') continue;
+
+      const box = this.getBox(asset, config);
+      if (placement.startsWith('bottom')) {
+        reserved.bottom = Math.max(reserved.bottom, config.height - box.y);
+      } else {
+        reserved.top = Math.max(reserved.top, box.y + box.height);
+      }
+    }
+
+    return { ...config, safeZone: reserved };
+  }
+
+  /**
+   * Loads the assets' images and positions them on a canvas.
+   *
+   * @param assets - Assets to place.
+   * @param canvas - Canvas size, background and platform safe zone.
+   * @throws Error if an image file cannot be read.
+   */
+  async place(
+    assets: BrandAsset[],
+    canvas: AssetCanvas
+  ): Promise<PlacedAsset[]> {
+    const background = parseColor(canvas.backgroundColor);
+    const textColor = readableTextColor(background);
+    const isDark = toHex(textColor) === '#FFFFFF';
+
+    return Promise.all(
+      assets.map(async (asset) => {
+        const placement = asset.placement ?? 'top-left';
+        const variant = isDark ? asset.onDark : asset.onLight;
+        const image = await this.load(variant ?? asset.path);
+
+        const box = this.getBox(asset, canvas);
+        const scale = Math.min(
+          box.width / image.width,
+          box.height / image.height
+        );
+        const width = image.width * scale;
+        const height = image.height * scale;
+
+        const x = placement.endsWith('left')
+          ? box.x
+          : placement.endsWith('right')
+            ? box.x + box.width - width
+            : box.x + (box.width - width) / 2;
+        const y = placement.startsWith('top')
+          ? box.y
+          : placement.startsWith('bottom')
+            ? box.y + box.height - height
+            : box.y + (box.height - height) / 2;
+
+        const fades =
+          !variant &&
+          image.hasAlpha &&
+          contrastRatio(image.color, background) < MIN_LOGO_CONTRAST;
+
+        return {
+          placement,
+          uri: image.uri,
+          x,
+          y,
+          width,
+          height,
+          opacity: asset.opacity ?? PLACEMENT_BOXES[placement].opacity,
+          ...(fades ? { tint: toHex(textColor) } : {}),
+        };
+      })
+    );
+  }
+
+  /**
+   * SVG markup drawing placed assets; silhouettes use a flood filter over
+   * the image's alpha.
+   */
+  render(assets: PlacedAsset[]): string {
+    return assets
+      .map((asset, index) => {
+        const filter = asset.tint
+          ? `<filter id="assetTint${index}"><feFlood flood-color="${asset.tint}"/><feComposite in2="SourceAlpha" operator="in"/></filter>
+    `
+          : '';
+        return `
+  <!-- Brand asset (${asset.placement}) -->
+  <g opacity="${asset.opacity}"${
+    asset.tint ? ` filter="url(#assetTint${index})"` : ''
+  }>
+    ${filter}<image href="${asset.uri}" x="${asset.x}" y="${asset.y}" width="${asset.width}" height="${asset.height}" preserveAspectRatio="none"/>
+  </g>`;
+      })
+      .join('');
+  }
+
+  /** Box an asset is fitted into, inside the canvas's safe area. */
+  private getBox(asset: BrandAsset, canvas: AssetCanvas): Region {
+    const placement = asset.placement ?? 'top-left';
+    const { top = 0, right = 0, bottom = 0, left = 0 } = canvas.safeZone ?? {};
+    const safe = {
+      x: left,
+      y: top,
+      width: canvas.width - left - right,
+      height: canvas.height - top - bottom,
+    };
+
+    const short = Math.min(canvas.width, canvas.height);
+    const margin = short * ASSET_MARGIN;
+    const preset = PLACEMENT_BOXES[placement];
+    const height = Math.min(
+      short * (asset.maxSize ?? preset.size),
+      safe.height - 2 * margin
+    );
+    const width = Math.min(height * preset.aspect, safe.width - 2 * margin);
+
+    const x = placement.endsWith('left')
+      ? safe.x + margin
+      : placement.endsWith('right')
+        ? safe.x + safe.width - margin - width
+        : safe.x + (safe.width - width) / 2;
+    const y =
+      placement.startsWith('top') || placement === 'header'
+        ? safe.y + margin
+        : placement.startsWith('bottom')
+          ? safe.y + safe.height - margin - height
+          : safe.y + (safe.height - height) / 2;
+
+    return { x, y, width, height };
+  }
+
+  /**
+   * Reads an image once, as PNG (SVG logos are rasterized at a density
+   * that keeps them sharp), and measures its transparency and color.
+   */
+  private load(path: string): Promise<LoadedImage> {
+    const file = resolve(path);
+    let image = this.images.get(file);
+    if (!image) {
+      image = this.read(file).catch((error: Error) => {
+        this.images.delete(file);
+        throw new Error(
+          `❌ Configuration error: could not read brand asset ${path}: ${error.message}`
+        );
+      });
+      this.images.set(file, image);
+    }
+    return image;
+  }
+
+  private async read(file: string): Promise<LoadedImage> {
+    const metadata = await sharp(file).metadata();
+    const longest = Math.max(metadata.width ?? 0, metadata.height ?? 0);
+    const density =
+      metadata.format === 'svg' && longest > 0
+        ? Math.min(2400, (72 * MAX_PIXELS) / longest)
+        : undefined;
+
+    const { data, info } = await sharp(file, density ? { density } : {})
+      .resize(MAX_PIXELS, MAX_PIXELS, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    // Transparency and average color, from a thumbnail.
+    const sample = await sharp(data)
+      .resize(48, 48, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer();
+    let hasAlpha = false;
+    let total = 0;
+    const sum = { r: 0, g: 0, b: 0 };
+    for (let i = 0; i < sample.length; i += 4) {
+      const alpha = sample[i + 3]! / 255;
+      if (alpha < 0.98) hasAlpha = true;
+      sum.r += sample[i]! * alpha;
+      sum.g += sample[i + 1]! * alpha;
+      sum.b += sample[i + 2]! * alpha;
+      total += alpha;
+    }
+    const average = (value: number) => (total > 0 ? value / total / 255 : 0);
+
+    return {
+      uri: `data:image/png;base64,${data.toString('base64')}`,
+      width: info.width,
+      height: info.height,
+      hasAlpha,
+      color: { r: average(sum.r), g: average(sum.g), b: average(sum.b) },
+    };
+  }
+}
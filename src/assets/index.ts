@@ -0,0 +1,8 @@
+export {
+  ASSET_MARGIN,
+  ASSET_PLACEMENTS,
+  BrandAssets,
+  validateBrandAsset,
+  type AssetCanvas,
+  type PlacedAsset,
+} from './BrandAssets';
@@ -0,0 +1,389 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import sharp from 'sharp';
+import { contrastRatio, parseColor } from '../color';
+import type { Region } from '../layouts/FlyerLayout';
+import type {
+  CanvasConfig,
+  PhotoFocus,
+  ProductPhoto,
+  RgbColor,
+  ScrimStyle,
+} from '../types';
+
+export const SCRIM_STYLES: ScrimStyle[] = ['auto', 'gradient', 'blur', 'none'];
+
+/** Contrast the copy must keep over the photo (WCAG AA for body text). */
+const MIN_CONTRAST = 4.5;
+
+/**
+ * Share of the pixels under a text region allowed to miss the target, so
+ * a few specular highlights don't force an opaque scrim.
+ */
+const OUTLIERS = 0.02;
+
+/** Photos are analysed at this width. */
+const SAMPLE_WIDTH = 120;
+
+/**
+ * Standard deviation of the luminance under the copy above which `auto`
+ * blurs the photo: enough detail to fight with the letterforms.
+ */
+const BUSY_DEVIATION = 0.12;
+
+/** How far scrims fade out around the copy, as a fraction of the shorter side. */
+const FEATHER = 0.04;
+
+/** Blur radius (sigma) as a fraction of the shorter side. */
+const BLUR = 0.015;
+
+/** The canvas fields a photo background depends on. */
+export type PhotoCanvas = Pick<
+  CanvasConfig,
+  'width' | 'height' | 'backgroundColor' | 'textColor'
+>;
+
+/** A photo cropped to one canvas size. */
+interface CroppedPhoto {
+  /** JPEG data of the crop, at the canvas size. */
+  data: Buffer;
+  /** Downscaled RGB pixels, SAMPLE_WIDTH wide, for measuring luminance. */
+  sample: { data: Buffer; width: number; height: number };
+}
+
+/**
+ * Checks a photo before any copy is generated: a file that exists, a known
+ * scrim style, and a focal point inside the image.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateProductPhoto(photo: ProductPhoto): void {
+  if (!existsSync(photo.path)) {
+    throw new Error(
+      `❌ Configuration error: photo ${photo.path} does not exist.`
+    );
+  }
+  if (photo.scrim && !SCRIM_STYLES.includes(photo.scrim)) {
+    throw new Error(
+      `❌ Configuration error: unknown scrim "${photo.scrim}". Expected one of: ${SCRIM_STYLES.join(', ')}.`
+    );
+  }
+  const focus = photo.focus;
+  if (typeof focus === 'object') {
+    if (![focus.x, focus.y].every((value) => value >= 0 && value <= 1)) {
+      throw new Error(
+        `❌ Configuration error: photo focal point must be two fractions between 0 and 1, got ${focus.x},${focus.y}.`
+      );
+    }
+  } else if (focus && !['attention', 'entropy', 'center'].includes(focus)) {
+    throw new Error(
+      `❌ Configuration error: unknown photo focus "${focus}". Expected attention, entropy, center or a focal point "x,y".`
+    );
+  }
+}
+
+/**
+ * Parses a focus option: a strategy name or a focal point written as
+ * "x,y" fractions (e.g. "0.3,0.6").
+ */
+export function parsePhotoFocus(value: string): PhotoFocus {
+  const point = value.match(/^\s*([\d.]+)\s*,\s*([\d.]+)\s*$/);
+  if (point) {
+    return { x: Number(point[1]), y: Number(point[2]) };
+  }
+  return value.trim().toLowerCase() as PhotoFocus;
+}
+
+/**
+ * Turns a product photo into a flyer background. The photo is cropped to
+ * the canvas with sharp's attention or entropy strategy (or around a focal
+ * point), then toned down where the copy sits: the luminance under each
+ * text region decides how opaque a feathered layer of the background color
+ * must be for the text color (picked for that background) to reach 4.5:1
+ * over the darkest or lightest part of the photo. Busy areas are blurred
+ * first, which usually lets the layer stay lighter.
+ */
+export class PhotoBackground {
+  private crops = new Map<string, Promise<CroppedPhoto>>();
+
+  /**
+   * SVG markup painting the cropped photo and its scrim over the whole
+   * canvas.
+   *
+   * @param photo - Photo file, crop focus and scrim style.
+   * @param canvas - Canvas size and the background and text colors.
+   * @param regions - Areas the copy (and logos) cover.
+   * @throws Error if the photo cannot be read.
+   */
+  async create(
+    photo: ProductPhoto,
+    canvas: PhotoCanvas,
+    regions: Region[]
+  ): Promise<string> {
+    const { width, height } = canvas;
+    const crop = await this.crop(photo, width, height);
+    const style = photo.scrim ?? 'auto';
+    const areas = regions
+      .map((region) => this.clip(region, canvas))
+      .filter((region) => region.width > 0 && region.height > 0);
+
+    let markup = `<image href="data:image/jpeg;base64,${crop.data.toString(
+      'base64'
+    )}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none"/>`;
+    if (style === 'none' || areas.length === 0) {
+      return markup;
+    }
+
+    let sample = crop.sample;
+    const blur =
+      style === 'blur' ||
+      (style === 'auto' &&
+        areas.some(
+          (area) =>
+            this.deviation(this.pixels(sample, area, canvas)) > BUSY_DEVIATION
+        ));
+    const short = Math.min(width, height);
+    const feather = short * FEATHER;
+    markup += `
+      <filter id="photoFeather" filterUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">
+        <feGaussianBlur stdDeviation="${feather / 2}"/>
+      </filter>`;
+
+    if (blur) {
+      const { data } = await sharp(crop.data)
+        .blur(Math.max(0.3, short * BLUR))
+        .jpeg({ quality: 85 })
+        .toBuffer({ resolveWithObject: true });
+      sample = await this.sample(data, width, height);
+      markup += `
+      <mask id="photoBlurMask" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">
+        ${this.feathered(areas, feather, () => 1)}
+      </mask>
+      <image href="data:image/jpeg;base64,${data.toString(
+        'base64'
+      )}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none" mask="url(#photoBlurMask)"/>`;
+    }
+
+    const background = parseColor(canvas.backgroundColor);
+    const text = parseColor(canvas.textColor);
+    const alphas = areas.map((area) =>
+      this.scrimOpacity(this.pixels(sample, area, canvas), background, text)
+    );
+    if (alphas.every((alpha) => alpha === 0)) {
+      return markup;
+    }
+
+    return `${markup}
+      <mask id="photoScrimMask" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">
+        ${this.feathered(areas, feather, (index) => alphas[index]!)}
+      </mask>
+      <rect width="${width}" height="${height}" fill="${canvas.backgroundColor}" mask="url(#photoScrimMask)"/>`;
+  }
+
+  /**
+   * White mask shapes over the regions, grown by the feather width and
+   * blurred so they fade out around the copy instead of ending in a hard
+   * edge.
+   */
+  private feathered(
+    areas: Region[],
+    feather: number,
+    opacity: (index: number) => number
+  ): string {
+    const rects = areas
+      .map(
+        (area, index) =>
+          `<rect x="${area.x - feather}" y="${area.y - feather}" width="${
+            area.width + 2 * feather
+          }" height="${area.height + 2 * feather}" rx="${feather}" fill="#FFFFFF" fill-opacity="${opacity(
+            index
+          ).toFixed(3)}"/>`
+      )
+      .join('\n          ');
+    return `<g filter="url(#photoFeather)">
+          ${rects}
+        </g>`;
+  }
+
+  /**
+   * The least opaque background-color layer over which the text reaches
+   * the target contrast on all but the outlying pixels. Blending happens
+   * in sRGB, as SVG compositing does.
+   */
+  private scrimOpacity(
+    pixels: RgbColor[],
+    background: RgbColor,
+    text: RgbColor
+  ): number {
+    if (pixels.length === 0) return 0;
+
+    const ratios = pixels
+      .map((pixel) => ({ pixel, ratio: contrastRatio(text, pixel) }))
+      .sort((a, b) => a.ratio - b.ratio);
+    const worst = ratios[Math.floor(ratios.length * OUTLIERS)]!;
+    if (worst.ratio >= MIN_CONTRAST) return 0;
+
+    const blend = (alpha: number): RgbColor => ({
+      r: worst.pixel.r + (background.r - worst.pixel.r) * alpha,
+      g: worst.pixel.g + (background.g - worst.pixel.g) * alpha,
+      b: worst.pixel.b + (background.b - worst.pixel.b) * alpha,
+    });
+    if (contrastRatio(text, blend(1)) < MIN_CONTRAST) return 1;
+
+    let low = 0;
+    let high = 1;
+    while (high - low > 0.01) {
+      const mid = (low + high) / 2;
+      if (contrastRatio(text, blend(mid)) >= MIN_CONTRAST) high = mid;
+      else low = mid;
+    }
+    return high;
+  }
+
+  /** Standard deviation of the pixels' luma. */
+  private deviation(pixels: RgbColor[]): number {
+    if (pixels.length === 0) return 0;
+    const luma = pixels.map(
+      (pixel) => 0.2126 * pixel.r + 0.7152 * pixel.g + 0.0722 * pixel.b
+    );
+    const mean = luma.reduce((sum, value) => sum + value, 0) / luma.length;
+    return Math.sqrt(
+      luma.reduce((sum, value) => sum + (value - mean) ** 2, 0) / luma.length
+    );
+  }
+
+  /** Sample pixels inside a canvas region. */
+  private pixels(
+    sample: CroppedPhoto['sample'],
+    region: Region,
+    canvas: PhotoCanvas
+  ): RgbColor[] {
+    const scale = sample.width / canvas.width;
+    const x0 = Math.floor(region.x * scale);
+    const y0 = Math.floor(region.y * scale);
+    const x1 = Math.min(
+      sample.width,
+      Math.ceil((region.x + region.width) * scale)
+    );
+    const y1 = Math.min(
+      sample.height,
+      Math.ceil((region.y + region.height) * scale)
+    );
+
+    const pixels: RgbColor[] = [];
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const offset = (y * sample.width + x) * 3;
+        pixels.push({
+          r: sample.data[offset]! / 255,
+          g: sample.data[offset + 1]! / 255,
+          b: sample.data[offset + 2]! / 255,
+        });
+      }
+    }
+    return pixels;
+  }
+
+  private clip(region: Region, canvas: PhotoCanvas): Region {
+    const x = Math.max(0, region.x);
+    const y = Math.max(0, region.y);
+    return {
+      x,
+      y,
+      width: Math.min(canvas.width, region.x + region.width) - x,
+      height: Math.min(canvas.height, region.y + region.height) - y,
+    };
+  }
+
+  /** Crops a photo to a canvas size once per focus and size. */
+  private crop(
+    photo: ProductPhoto,
+    width: number,
+    height: number
+  ): Promise<CroppedPhoto> {
+    const file = resolve(photo.path);
+    const focus = photo.focus ?? 'attention';
+    const key = `${file}|${JSON.stringify(focus)}|${width}x${height}`;
+    let crop = this.crops.get(key);
+    if (!crop) {
+      crop = this.read(file, focus, width, height).catch((error: Error) => {
+        this.crops.delete(key);
+        throw new Error(
+          `❌ Configuration error: could not read photo ${photo.path}: ${error.message}`
+        );
+      });
+      this.crops.set(key, crop);
+    }
+    return crop;
+  }
+
+  private async read(
+    file: string,
+    focus: PhotoFocus,
+    width: number,
+    height: number
+  ): Promise<CroppedPhoto> {
+    let image: sharp.Sharp;
+    if (typeof focus === 'object') {
+      // Scale to cover the canvas, then cut it out around the focal point.
+      const metadata = await sharp(file).metadata();
+      const rotated = (metadata.orientation ?? 1) >= 5;
+      const sourceWidth = (rotated ? metadata.height : metadata.width) ?? width;
+      const sourceHeight =
+        (rotated ? metadata.width : metadata.height) ?? height;
+      const scale = Math.max(width / sourceWidth, height / sourceHeight);
+      const scaledWidth = Math.max(width, Math.round(sourceWidth * scale));
+      const scaledHeight = Math.max(height, Math.round(sourceHeight * scale));
+      const clamp = (value: number, max: number) =>
+        Math.min(Math.max(Math.round(value), 0), max);
+
+      image = sharp(file)
+        .rotate()
+        .resize(scaledWidth, scaledHeight, { fit: 'fill' })
+        .extract({
+          left: clamp(focus.x * scaledWidth - width / 2, scaledWidth - width),
+          top: clamp(
+            focus.y * scaledHeight - height / 2,
+            scaledHeight - height
+          ),
+          width,
+          height,
+        });
+    } else {
+      image = sharp(file)
+        .rotate()
+        .resize(width, height, {
+          fit: 'cover',
+          position:
+            focus === 'attention'
+              ? sharp.strategy.attention
+              : focus === 'entropy'
+                ? sharp.strategy.entropy
+                : 'centre',
+        });
+    }
+
+    const data = await image
+      .flatten({ background: '#FFFFFF' })
+      .jpeg({ quality: 90 })
+      .toBuffer();
+    return { data, sample: await this.sample(data, width, height) };
+  }
+
+  private async sample(
+    data: Buffer,
+    width: number,
+    height: number
+  ): Promise<CroppedPhoto['sample']> {
+    const sampleHeight = Math.max(
+      1,
+      Math.round((SAMPLE_WIDTH * height) / width)
+    );
+    const pixels = await sharp(data)
+      .resize(SAMPLE_WIDTH, sampleHeight, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+    return { data: pixels, width: SAMPLE_WIDTH, height: sampleHeight };
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  PhotoBackground,
+  SCRIM_STYLES,
+  parsePhotoFocus,
+  validateProductPhoto,
+  type PhotoCanvas,
+} from './PhotoBackground';
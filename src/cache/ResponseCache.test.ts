@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ResponseCache } from './ResponseCache';
+
+describe('ResponseCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('derives the same key from the same material', () => {
+    const material = { model: 'gpt', prompt: 'Pizza', quantity: 3 };
+
+    expect(ResponseCache.keyFor(material)).toBe(
+      ResponseCache.keyFor({ ...material })
+    );
+    expect(ResponseCache.keyFor(material)).not.toBe(
+      ResponseCache.keyFor({ ...material, quantity: 4 })
+    );
+    expect(ResponseCache.keyFor(material)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('returns what was stored under a key and misses other keys', async () => {
+    const cache = new ResponseCache({ dir });
+    const key = ResponseCache.keyFor('pizza');
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, '["copy"]');
+
+    expect(await cache.get(key)).toBe('["copy"]');
+    expect(await cache.get(ResponseCache.keyFor('tacos'))).toBeUndefined();
+    expect(await new ResponseCache({ dir }).get(key)).toBe('["copy"]');
+  });
+
+  test('misses expired and unreadable entries', async () => {
+    const key = ResponseCache.keyFor('pizza');
+    await writeFile(
+      join(dir, `${key}.json`),
+      JSON.stringify({ key, createdAt: Date.now() - 2000, value: 'old' })
+    );
+
+    expect(
+      await new ResponseCache({ dir, ttlSeconds: 1 }).get(key)
+    ).toBeUndefined();
+    expect(await new ResponseCache({ dir, ttlSeconds: 0 }).get(key)).toBe(
+      'old'
+    );
+
+    await writeFile(join(dir, `${key}.json`), 'not json');
+    expect(await new ResponseCache({ dir }).get(key)).toBeUndefined();
+  });
+
+  test('clears every entry', async () => {
+    const cache = new ResponseCache({ dir });
+    await cache.set(ResponseCache.keyFor(1), 'one');
+    await cache.set(ResponseCache.keyFor(2), 'two');
+
+    expect(await cache.clear()).toBe(2);
+    expect(await cache.get(ResponseCache.keyFor(1))).toBeUndefined();
+    expect(await new ResponseCache({ dir: join(dir, 'missing') }).clear()).toBe(
+      0
+    );
+  });
+
+  test('stores entries as JSON files named by key', async () => {
+    const cache = new ResponseCache({ dir });
+    const key = ResponseCache.keyFor('pizza');
+    await cache.set(key, 'copy');
+
+    const entry = JSON.parse(await readFile(join(dir, `${key}.json`), 'utf8'));
+    expect(entry).toMatchObject({ key, value: 'copy' });
+  });
+});
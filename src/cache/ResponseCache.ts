@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { consola } from 'consola';
+
+export const DEFAULT_CACHE_DIR = './.promomaker-cache/responses';
+export const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface ResponseCacheOptions {
+  /** Directory holding one JSON file per entry (default: PROMOMAKER_CACHE_DIR or ./.promomaker-cache/responses). */
+  dir?: string;
+  /** Entry lifetime in seconds (default: PROMOMAKER_CACHE_TTL or 7 days). 0 disables expiry. */
+  ttlSeconds?: number;
+}
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  value: string;
+}
+
+/**
+ * Content-addressed on-disk cache for provider responses.
+ * Entries are stored under the SHA-256 of their key material, so identical
+ * requests map to the same file regardless of when or where they were made.
+ */
+export class ResponseCache {
+  readonly dir: string;
+  readonly ttlSeconds: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.dir =
+      options.dir ?? process.env.PROMOMAKER_CACHE_DIR ?? DEFAULT_CACHE_DIR;
+
+    const envTtl = Number(process.env.PROMOMAKER_CACHE_TTL);
+    this.ttlSeconds =
+      options.ttlSeconds ??
+      (Number.isFinite(envTtl) && process.env.PROMOMAKER_CACHE_TTL
+        ? envTtl
+        : DEFAULT_CACHE_TTL_SECONDS);
+  }
+
+  /**
+   * Hashes arbitrary JSON-serializable key material into a cache key.
+   */
+  static keyFor(material: unknown): string {
+    return createHash('sha256').update(JSON.stringify(material)).digest('hex');
+  }
+
+  /**
+   * Returns the cached value, or undefined when missing, unreadable or expired.
+   */
+  async get(key: string): Promise<string | undefined> {
+    try {
+      const entry: CacheEntry = JSON.parse(
+        await readFile(this.pathFor(key), 'utf8')
+      );
+
+      if (
+        this.ttlSeconds > 0 &&
+        Date.now() - entry.createdAt > this.ttlSeconds * 1000
+      ) {
+        consola.debug(`Cache entry ${key.slice(0, 12)} expired.`);
+        return undefined;
+      }
+
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const entry: CacheEntry = { key, createdAt: Date.now(), value };
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.pathFor(key), JSON.stringify(entry, null, 2));
+    } catch (error) {
+      // A failed write only costs a future cache miss.
+      consola.warn(`⚠️ Could not write cache entry to '${this.dir}':`, error);
+    }
+  }
+
+  /**
+   * Deletes every cached entry.
+   *
+   * @returns The number of entries removed.
+   */
+  async clear(): Promise<number> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((f) => f.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    await Promise.all(files.map((f) => rm(join(this.dir, f), { force: true })));
+    return files.length;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { CopyEngine } from '../copy/CopyEngine';
+import type { PromoConfig } from '../types';
+import {
+  extractSlides,
+  formatSlideIssues,
+  validateSlides,
+} from './SlideSchema';
+import { DEFAULT_SLIDES, slideRoles, validateCarouselOptions } from './slides';
+
+const slide = (title: string, callToAction?: string) => ({
+  title,
+  body: 'Hand-stretched dough and a wood-fired oven.',
+  ...(callToAction ? { callToAction } : {}),
+});
+
+describe('slideRoles', () => {
+  test('opens with a hook and closes with the offer and a CTA', () => {
+    expect(slideRoles()).toHaveLength(DEFAULT_SLIDES);
+    expect(slideRoles(3)).toEqual(['hook', 'offer', 'cta']);
+    expect(slideRoles(5)).toEqual([
+      'hook',
+      'benefit',
+      'benefit',
+      'offer',
+      'cta',
+    ]);
+  });
+
+  test('accepts 3 to 10 whole slides', () => {
+    expect(() => validateCarouselOptions({ slides: 10 })).not.toThrow();
+    for (const slides of [2, 11, 4.5]) {
+      expect(() => validateCarouselOptions({ slides })).toThrow(
+        `got ${slides}`
+      );
+    }
+  });
+});
+
+describe('validateSlides', () => {
+  const roles = slideRoles(3);
+
+  test('gives slides their roles and keeps the button on the CTA', () => {
+    const { slides, issues } = validateSlides(
+      extractSlides(
+        JSON.stringify({
+          slides: [
+            slide('  Pizza night  ', 'Tap'),
+            slide('2x1 all weekend'),
+            slide('Order today', 'Order now'),
+          ],
+        })
+      ),
+      roles
+    );
+
+    expect(issues).toEqual([]);
+    expect(slides.map((s) => s.role)).toEqual(roles);
+    expect(slides[0]).toEqual({ role: 'hook', ...slide('Pizza night') });
+    expect(slides[2]!.callToAction).toBe('Order now');
+  });
+
+  test('rejects the whole carousel over any issue', () => {
+    const { slides, issues } = validateSlides(
+      [slide(''), 'not a slide', slide('Order today')],
+      roles
+    );
+
+    expect(slides).toEqual([]);
+    expect(issues).toEqual([
+      { index: 0, field: 'title', message: 'must not be empty' },
+      { index: 1, field: '*', message: 'must be an object' },
+      { index: 2, field: 'callToAction', message: 'is required' },
+    ]);
+  });
+
+  test('requires one slide per role', () => {
+    const { issues } = validateSlides([slide('Pizza night')], roles);
+
+    expect(issues[0]).toEqual({
+      index: -1,
+      field: '*',
+      message: 'must have exactly 3 slides (got 1)',
+    });
+    expect(formatSlideIssues(issues)).toBe(
+      '- The response must have exactly 3 slides (got 1).'
+    );
+  });
+});
+
+describe('offline carousel copy', () => {
+  const config: PromoConfig = {
+    product: 'Pizza',
+    businessType: 'restaurant',
+    offer: '2x1',
+    validity: 'This weekend',
+    location: 'Main Street 123',
+    phone: '+1 555 0100',
+    schedule: '12:00 - 23:00',
+    colors: ['#FF6B6B'],
+  };
+
+  test('writes slides that pass the schema', () => {
+    const roles = slideRoles(6);
+    const slides = new CopyEngine().generateCarousel(config, roles);
+
+    expect(validateSlides(slides, roles).issues).toEqual([]);
+    expect(slides[roles.indexOf('offer')]!.title).toContain('2x1');
+  });
+});
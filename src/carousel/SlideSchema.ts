@@ -0,0 +1,141 @@
+import {
+  extractVariations,
+  type FieldRule,
+  type ValidationIssue,
+} from '../TextVariationSchema';
+import type { CarouselSlide, SlideRole } from '../types';
+
+type SlideField = Exclude<keyof CarouselSlide, 'role' | 'source'>;
+
+/**
+ * Shape every AI-produced slide must satisfy. The CTA slide must also have
+ * a call to action; the other slides may not.
+ */
+export const SLIDE_SCHEMA: Record<SlideField, FieldRule> = {
+  title: { required: true, maxLength: 60, maxWords: 8 },
+  body: { required: true, maxLength: 160, maxWords: 30 },
+  callToAction: { required: false, maxLength: 30, maxWords: 5 },
+};
+
+/** Character limits of the slide layout, per field. */
+export type SlideBudget = Partial<Record<SlideField, number>>;
+
+export interface SlideValidationResult {
+  /** All slides, in order, or none when there are issues. */
+  slides: CarouselSlide[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Extracts the candidate slides from a raw model response, accepting the
+ * same wrappers as extractVariations plus `{ slides: [...] }`.
+ *
+ * @throws Error if the response is not JSON or holds no list of slides.
+ */
+export function extractSlides(raw: string): unknown[] {
+  return extractVariations(raw);
+}
+
+/**
+ * Validates candidates against SLIDE_SCHEMA. Slides get their roles from
+ * their position, so the response must have exactly one slide per role;
+ * a carousel with a slide missing can't be rendered, so any issue
+ * rejects the whole response.
+ *
+ * @param candidates - Output of extractSlides.
+ * @param roles - The role of each slide, in order.
+ */
+export function validateSlides(
+  candidates: unknown[],
+  roles: SlideRole[]
+): SlideValidationResult {
+  const slides: CarouselSlide[] = [];
+  const issues: ValidationIssue[] = [];
+
+  if (candidates.length !== roles.length) {
+    issues.push({
+      index: -1,
+      field: '*',
+      message: `must have exactly ${roles.length} slides (got ${candidates.length})`,
+    });
+  }
+
+  roles.forEach((role, index) => {
+    const candidate = candidates[index];
+    if (candidate === undefined) {
+      return;
+    }
+    if (typeof candidate !== 'object' || candidate === null) {
+      issues.push({ index, field: '*', message: 'must be an object' });
+      return;
+    }
+
+    const record = candidate as Record<string, unknown>;
+    const slide: CarouselSlide = { role, title: '', body: '' };
+
+    for (const [field, rule] of Object.entries(SLIDE_SCHEMA) as Array<
+      [SlideField, FieldRule]
+    >) {
+      const required =
+        rule.required || (field === 'callToAction' && role === 'cta');
+      const value = record[field];
+
+      if (value === undefined || value === null) {
+        if (required) {
+          issues.push({ index, field, message: 'is required' });
+        }
+        continue;
+      }
+
+      if (typeof value !== 'string') {
+        issues.push({ index, field, message: 'must be a string' });
+        continue;
+      }
+
+      const text = value.trim();
+      if (required && text.length === 0) {
+        issues.push({ index, field, message: 'must not be empty' });
+      } else if (text.length > rule.maxLength) {
+        issues.push({
+          index,
+          field,
+          message: `must be at most ${rule.maxLength} characters (got ${text.length})`,
+        });
+      } else if (
+        rule.maxWords !== undefined &&
+        text.split(/\s+/).length > rule.maxWords
+      ) {
+        issues.push({
+          index,
+          field,
+          message: `must be at most ${rule.maxWords} words`,
+        });
+      }
+
+      // Only the CTA slide shows a button.
+      if (field !== 'callToAction' || role === 'cta') {
+        slide[field] = text;
+      }
+    }
+
+    slides.push(slide);
+  });
+
+  return { slides: issues.length > 0 ? [] : slides, issues };
+}
+
+/**
+ * Formats slide issues as a bullet list for a repair prompt.
+ */
+export function formatSlideIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => {
+      if (issue.index < 0) {
+        return `- The response ${issue.message}.`;
+      }
+      return issue.field === '*'
+        ? `- Slide ${issue.index + 1} ${issue.message}.`
+        : `- Slide ${issue.index + 1}: "${issue.field}" ${issue.message}.`;
+    })
+    .join('\n');
+}
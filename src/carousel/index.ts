@@ -0,0 +1,16 @@
+export {
+  DEFAULT_SLIDES,
+  MAX_SLIDES,
+  MIN_SLIDES,
+  SLIDE_ROLES,
+  slideRoles,
+  validateCarouselOptions,
+} from './slides';
+export {
+  SLIDE_SCHEMA,
+  extractSlides,
+  formatSlideIssues,
+  validateSlides,
+  type SlideBudget,
+  type SlideValidationResult,
+} from './SlideSchema';
@@ -0,0 +1,43 @@
+import type { CarouselOptions, SlideRole } from '../types';
+
+export const SLIDE_ROLES: SlideRole[] = ['hook', 'benefit', 'offer', 'cta'];
+
+/** A hook, one benefit, and the offer and CTA slides. */
+export const MIN_SLIDES = 3;
+
+/** Instagram's limit is higher, but few people swipe this far. */
+export const MAX_SLIDES = 10;
+
+export const DEFAULT_SLIDES = 5;
+
+/**
+ * The roles of a carousel's slides, in order: a hook, as many benefit
+ * slides as fit, the offer and a closing CTA.
+ *
+ * @param count - Number of slides, MIN_SLIDES to MAX_SLIDES.
+ */
+export function slideRoles(count: number = DEFAULT_SLIDES): SlideRole[] {
+  return [
+    'hook',
+    ...Array.from({ length: count - 3 }, (): SlideRole => 'benefit'),
+    'offer',
+    'cta',
+  ];
+}
+
+/**
+ * Checks carousel options: a whole number of slides from 3 to 10.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateCarouselOptions(options: CarouselOptions): void {
+  const { slides } = options;
+  if (
+    slides !== undefined &&
+    !(Number.isInteger(slides) && slides >= MIN_SLIDES && slides <= MAX_SLIDES)
+  ) {
+    throw new Error(
+      `❌ Configuration error: a carousel has ${MIN_SLIDES} to ${MAX_SLIDES} slides, got ${slides}.`
+    );
+  }
+}
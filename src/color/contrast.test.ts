@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  apcaContrast,
+  checkContrast,
+  contrastRatio,
+  ensureContrast,
+  meetsContrast,
+  readableTextColor,
+} from './contrast';
+import { toHex } from './format';
+import { parseColor } from './parse';
+
+const black = parseColor('black');
+const white = parseColor('white');
+
+describe('contrastRatio', () => {
+  test('matches the WCAG reference values', () => {
+    expect(contrastRatio(black, white)).toBeCloseTo(21);
+    expect(contrastRatio(white, white)).toBeCloseTo(1);
+    expect(contrastRatio(parseColor('#767676'), white)).toBeCloseTo(4.54, 2);
+  });
+
+  test('reports the AA and AAA levels', () => {
+    const report = checkContrast(parseColor('#777777'), white);
+    expect(report.aa).toBe(false);
+    expect(report.aaLarge).toBe(true);
+    expect(report.aaa).toBe(false);
+  });
+});
+
+describe('apcaContrast', () => {
+  test('is signed by polarity', () => {
+    expect(apcaContrast(black, white)).toBeCloseTo(106.04, 1);
+    expect(apcaContrast(white, black)).toBeCloseTo(-107.88, 1);
+    expect(apcaContrast(white, white)).toBe(0);
+  });
+});
+
+describe('readableTextColor', () => {
+  test('picks black or white', () => {
+    expect(toHex(readableTextColor(parseColor('#FFEB3B')))).toBe('#000000');
+    expect(toHex(readableTextColor(parseColor('#1A237E')))).toBe('#FFFFFF');
+  });
+});
+
+describe('ensureContrast', () => {
+  test('keeps colors that already pass', () => {
+    const navy = parseColor('#1A237E');
+    expect(ensureContrast(navy, white)).toBe(navy);
+  });
+
+  test('moves the lightness until the target is met', () => {
+    const yellow = parseColor('#FFEB3B');
+    const fixed = ensureContrast(yellow, white);
+
+    expect(meetsContrast(yellow, white)).toBe(false);
+    expect(meetsContrast(fixed, white)).toBe(true);
+    expect(toHex(fixed)).not.toBe('#000000');
+  });
+});
@@ -0,0 +1,154 @@
+import type { ContrastReport, RgbColor } from '../types';
+import { oklchToRgb, rgbToOklab, rgbToOklch, toLinear } from './convert';
+
+/** Minimum contrast for text (WCAG 2.x ratio and APCA Lc). */
+export interface ContrastTarget {
+  /** WCAG contrast ratio (default: 4.5, AA for normal text). */
+  minRatio?: number;
+  /** APCA lightness contrast, compared by magnitude (default: 60). */
+  minLc?: number;
+}
+
+const BLACK: RgbColor = { r: 0, g: 0, b: 0 };
+const WHITE: RgbColor = { r: 1, g: 1, b: 1 };
+
+/** WCAG 2.x relative luminance, 0 (black) to 1 (white). */
+export function relativeLuminance(color: RgbColor): number {
+  return (
+    0.2126 * toLinear(color.r) +
+    0.7152 * toLinear(color.g) +
+    0.0722 * toLinear(color.b)
+  );
+}
+
+/** WCAG 2.x contrast ratio between two colors, from 1 to 21. */
+export function contrastRatio(a: RgbColor, b: RgbColor): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort(
+    (x, y) => y - x
+  );
+  return (light! + 0.05) / (dark! + 0.05);
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, following the
+ * 0.0.98G-4g constants. Positive for dark text on light backgrounds,
+ * negative for light text on dark ones; |Lc| 60 suits body-size text and
+ * 45 large headlines.
+ */
+export function apcaContrast(text: RgbColor, background: RgbColor): number {
+  const luminance = (color: RgbColor) => {
+    const y =
+      0.2126729 * color.r ** 2.4 +
+      0.7151522 * color.g ** 2.4 +
+      0.072175 * color.b ** 2.4;
+    // Soft clamp near black.
+    return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+  };
+
+  const textY = luminance(text);
+  const backgroundY = luminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (backgroundY ** 0.56 - textY ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (backgroundY ** 0.65 - textY ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/** WCAG and APCA contrast of a text color on a background. */
+export function checkContrast(
+  text: RgbColor,
+  background: RgbColor
+): ContrastReport {
+  const ratio = contrastRatio(text, background);
+  return {
+    ratio,
+    lc: apcaContrast(text, background),
+    aa: ratio >= 4.5,
+    aaLarge: ratio >= 3,
+    aaa: ratio >= 7,
+  };
+}
+
+/** Whether text on a background reaches the target on both scales. */
+export function meetsContrast(
+  text: RgbColor,
+  background: RgbColor,
+  { minRatio = 4.5, minLc = 60 }: ContrastTarget = {}
+): boolean {
+  return (
+    contrastRatio(text, background) >= minRatio &&
+    Math.abs(apcaContrast(text, background)) >= minLc
+  );
+}
+
+/**
+ * Black or white, whichever reads better on the background: of the two
+ * that pass WCAG AA (at least one always does), the one with the higher
+ * APCA contrast. APCA prefers white on saturated mid-tones where the WCAG
+ * ratio alone would pick black.
+ */
+export function readableTextColor(background: RgbColor): RgbColor {
+  const candidates = [WHITE, BLACK].filter(
+    (color) => contrastRatio(color, background) >= 4.5
+  );
+  return candidates.reduce((best, color) =>
+    Math.abs(apcaContrast(color, background)) >
+    Math.abs(apcaContrast(best, background))
+      ? color
+      : best
+  );
+}
+
+/**
+ * The color closest to `color` that reaches the contrast target on the
+ * background, keeping its OKLCH hue and moving its lightness as little as
+ * possible. Tries making it darker and lighter and keeps the result that
+ * looks closer to the original (extreme lightness also costs chroma);
+ * falls back to black or white when neither direction gets there.
+ */
+export function ensureContrast(
+  color: RgbColor,
+  background: RgbColor,
+  target: ContrastTarget = {}
+): RgbColor {
+  if (meetsContrast(color, background, target)) return color;
+
+  const oklch = rgbToOklch(color);
+  // Search in 8-bit steps so the result still passes once written as hex.
+  const at = (l: number) => {
+    const rgb = oklchToRgb({ ...oklch, l });
+    const round = (value: number) => Math.round(value * 255) / 255;
+    return { ...rgb, r: round(rgb.r), g: round(rgb.g), b: round(rgb.b) };
+  };
+
+  const candidates: Array<{ color: RgbColor; shift: number }> = [];
+  for (const end of [0, 1]) {
+    if (!meetsContrast(at(end), background, target)) continue;
+
+    // Binary search for the lightness closest to the original that passes.
+    let passing = end;
+    let failing = oklch.l;
+    while (Math.abs(passing - failing) > 0.002) {
+      const mid = (passing + failing) / 2;
+      if (meetsContrast(at(mid), background, target)) passing = mid;
+      else failing = mid;
+    }
+    const result = at(passing);
+    candidates.push({ color: result, shift: deltaE(color, result) });
+  }
+
+  if (candidates.length === 0) {
+    return readableTextColor(background);
+  }
+  return candidates.sort((a, b) => a.shift - b.shift)[0]!.color;
+}
+
+/** Perceptual distance between two colors (Euclidean in OKLab). */
+function deltaE(a: RgbColor, b: RgbColor): number {
+  const [l1, a1, b1] = rgbToOklab(a);
+  const [l2, a2, b2] = rgbToOklab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
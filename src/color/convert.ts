@@ -0,0 +1,185 @@
+import type { OklchColor, RgbColor } from '../types';
+
+type Vector = [number, number, number];
+
+/** sRGB transfer function, gamma-encoded to linear light. */
+export function toLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  const linear = abs <= 0.04045 ? abs / 12.92 : ((abs + 0.055) / 1.055) ** 2.4;
+  return Math.sign(channel) * linear;
+}
+
+/** Inverse of `toLinear`. */
+export function fromLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  const encoded =
+    abs <= 0.0031308 ? abs * 12.92 : 1.055 * abs ** (1 / 2.4) - 0.055;
+  return Math.sign(channel) * encoded;
+}
+
+function multiply(matrix: [Vector, Vector, Vector], [x, y, z]: Vector): Vector {
+  return matrix.map((row) => row[0] * x + row[1] * y + row[2] * z) as Vector;
+}
+
+// OKLab matrices from Björn Ottosson's reference implementation.
+const LINEAR_SRGB_TO_LMS: [Vector, Vector, Vector] = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: [Vector, Vector, Vector] = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+const OKLAB_TO_LMS: [Vector, Vector, Vector] = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.291485548],
+];
+const LMS_TO_LINEAR_SRGB: [Vector, Vector, Vector] = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.707614701],
+];
+
+// CIE Lab is relative to D50; sRGB to D65 (CSS Color 4 matrices).
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const D50_TO_D65: [Vector, Vector, Vector] = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const XYZ_D65_TO_LINEAR_SRGB: [Vector, Vector, Vector] = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+/** OKLab coordinates of an sRGB color. */
+export function rgbToOklab(color: RgbColor): Vector {
+  const lms = multiply(LINEAR_SRGB_TO_LMS, [
+    toLinear(color.r),
+    toLinear(color.g),
+    toLinear(color.b),
+  ]);
+  return multiply(LMS_TO_OKLAB, lms.map(Math.cbrt) as Vector);
+}
+
+/** sRGB color of OKLab coordinates; channels may fall outside 0-1. */
+export function oklabToRgb(lab: Vector, alpha?: number): RgbColor {
+  const lms = multiply(OKLAB_TO_LMS, lab).map((value) => value ** 3) as Vector;
+  const [r, g, b] = multiply(LMS_TO_LINEAR_SRGB, lms).map(fromLinear) as Vector;
+  return { r, g, b, alpha };
+}
+
+/** sRGB color of CIE Lab (D50) coordinates; channels may fall outside 0-1. */
+export function cieLabToRgb([l, a, b]: Vector, alpha?: number): RgbColor {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const xyz: Vector = [
+    fx ** 3 > epsilon ? fx ** 3 : (116 * fx - 16) / kappa,
+    l > kappa * epsilon ? fy ** 3 : l / kappa,
+    fz ** 3 > epsilon ? fz ** 3 : (116 * fz - 16) / kappa,
+  ].map((value, i) => value * D50_WHITE[i]!) as Vector;
+
+  const [r, g, bl] = multiply(
+    XYZ_D65_TO_LINEAR_SRGB,
+    multiply(D50_TO_D65, xyz)
+  ).map(fromLinear) as Vector;
+  return { r, g, b: bl, alpha };
+}
+
+/** Polar (lightness, chroma, hue) form of Lab-like coordinates. */
+export function toPolar([l, a, b]: Vector): Vector {
+  const c = Math.hypot(a, b);
+  const h = c < 1e-7 ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  return [l, c, h];
+}
+
+/** Inverse of `toPolar`. */
+export function fromPolar([l, c, h]: Vector): Vector {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+export function rgbToOklch(color: RgbColor): OklchColor {
+  const [l, c, h] = toPolar(rgbToOklab(color));
+  return { l, c, h, alpha: color.alpha };
+}
+
+/**
+ * sRGB color of an OKLCH color. Colors outside the sRGB gamut keep their
+ * lightness and hue and lose chroma until they fit (CSS Color 4 style
+ * gamut mapping), instead of being clipped per channel.
+ */
+export function oklchToRgb(color: OklchColor): RgbColor {
+  const l = Math.min(1, Math.max(0, color.l));
+  const convert = (c: number) =>
+    oklabToRgb(fromPolar([l, c, color.h]), color.alpha);
+
+  let rgb = convert(color.c);
+  if (!inGamut(rgb)) {
+    let low = 0;
+    let high = color.c;
+    while (high - low > 1e-4) {
+      const mid = (low + high) / 2;
+      if (inGamut(convert(mid))) low = mid;
+      else high = mid;
+    }
+    rgb = convert(low);
+  }
+
+  return clampRgb(rgb);
+}
+
+export function inGamut(color: RgbColor, tolerance = 1e-6): boolean {
+  return [color.r, color.g, color.b].every(
+    (channel) => channel >= -tolerance && channel <= 1 + tolerance
+  );
+}
+
+export function clampRgb(color: RgbColor): RgbColor {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return {
+    r: clamp(color.r),
+    g: clamp(color.g),
+    b: clamp(color.b),
+    alpha: color.alpha,
+  };
+}
+
+/** sRGB color of HSL coordinates (hue in degrees, saturation and lightness 0-1). */
+export function hslToRgb(
+  h: number,
+  s: number,
+  l: number,
+  alpha?: number
+): RgbColor {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return { r: channel(0), g: channel(8), b: channel(4), alpha };
+}
+
+/** sRGB color of HWB coordinates (hue in degrees, whiteness and blackness 0-1). */
+export function hwbToRgb(
+  h: number,
+  w: number,
+  b: number,
+  alpha?: number
+): RgbColor {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return { r: gray, g: gray, b: gray, alpha };
+  }
+  const pure = hslToRgb(h, 1, 0.5);
+  const scale = (value: number) => value * (1 - w - b) + w;
+  return { r: scale(pure.r), g: scale(pure.g), b: scale(pure.b), alpha };
+}
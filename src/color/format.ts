@@ -0,0 +1,62 @@
+import type { OklchColor, RgbColor } from '../types';
+import { oklchToRgb, rgbToOklch } from './convert';
+import { parseColor } from './parse';
+
+/**
+ * `#RRGGBB` form of a color (`#RRGGBBAA` when it is translucent), the form
+ * the SVG renderer and the palettes use.
+ *
+ * @param color - A parsed color or any CSS color.
+ * @throws Error if a string is not a color.
+ */
+export function toHex(color: RgbColor | string): string {
+  const rgb = typeof color === 'string' ? parseColor(color) : color;
+  const byte = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * 255)
+      .toString(16)
+      .padStart(2, '0');
+
+  const alpha = rgb.alpha !== undefined && rgb.alpha < 1 ? byte(rgb.alpha) : '';
+  return `#${byte(rgb.r)}${byte(rgb.g)}${byte(rgb.b)}${alpha}`.toUpperCase();
+}
+
+/** OKLCH coordinates of any CSS color. */
+export function toOklch(color: RgbColor | string): OklchColor {
+  return rgbToOklch(typeof color === 'string' ? parseColor(color) : color);
+}
+
+/** CSS `oklch()` notation, e.g. `oklch(0.65 0.13 240)`. */
+export function formatOklch(color: OklchColor): string {
+  const round = (value: number, digits: number) =>
+    Number(value.toFixed(digits));
+  const alpha =
+    color.alpha !== undefined && color.alpha < 1
+      ? ` / ${round(color.alpha, 3)}`
+      : '';
+  return `oklch(${round(color.l, 3)} ${round(color.c, 3)} ${round(color.h, 1)}${alpha})`;
+}
+
+/**
+ * Darkens a color by lowering its OKLCH lightness, keeping hue and
+ * chroma (where the gamut allows).
+ *
+ * @param color - Any CSS color.
+ * @param amount - Fraction of the lightness to remove, 0 to 1.
+ * @returns The darker color as hex.
+ */
+export function darken(color: string, amount: number): string {
+  const oklch = toOklch(color);
+  return toHex(oklchToRgb({ ...oklch, l: oklch.l * (1 - amount) }));
+}
+
+/**
+ * Lightens a color by raising its OKLCH lightness towards white.
+ *
+ * @param color - Any CSS color.
+ * @param amount - Fraction of the distance to white to cover, 0 to 1.
+ * @returns The lighter color as hex.
+ */
+export function lighten(color: string, amount: number): string {
+  const oklch = toOklch(color);
+  return toHex(oklchToRgb({ ...oklch, l: oklch.l + (1 - oklch.l) * amount }));
+}
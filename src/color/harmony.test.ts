@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { apcaContrast, contrastRatio } from './contrast';
+import { toOklch } from './format';
+import { HARMONY_KINDS, createColorScheme, getHarmony } from './harmony';
+import { parseColor } from './parse';
+
+/** Hue distance in degrees, either way round. */
+const hueDistance = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % 360;
+  return Math.min(difference, 360 - difference);
+};
+
+describe('getHarmony', () => {
+  test.each([
+    ['complementary', [0, 180]],
+    ['analogous', [0, 30, 30]],
+    ['triadic', [0, 120, 120]],
+    ['split-complementary', [0, 150, 150]],
+  ] as const)('rotates the hue for %s colors', (kind, distances) => {
+    const base = toOklch('#3498DB');
+    const colors = getHarmony('#3498DB', kind);
+
+    expect(colors).toHaveLength(distances.length);
+    expect(colors[0]).toBe('#3498DB');
+    for (const [index, color] of colors.entries()) {
+      const oklch = toOklch(color);
+      expect(hueDistance(oklch.h, base.h)).toBeCloseTo(distances[index]!, -1);
+      expect(oklch.l).toBeCloseTo(base.l, 1);
+    }
+  });
+
+  test('returns hex colors for every kind', () => {
+    for (const kind of HARMONY_KINDS) {
+      for (const color of getHarmony('oklch(0.7 0.15 40)', kind)) {
+        expect(color).toMatch(/^#[0-9A-F]{6}$/);
+      }
+    }
+  });
+
+  test('rejects what is not a color', () => {
+    expect(() => getHarmony('brandblue', 'triadic')).toThrow();
+  });
+});
+
+describe('createColorScheme', () => {
+  test.each(['#FF6B6B', '#FFEB3B', '#1A237E', '#FFFFFF', '#000000', '#808080'])(
+    'keeps every pair legible on %s',
+    (background) => {
+      const scheme = createColorScheme(background);
+      const base = parseColor(scheme.background);
+      const accent = parseColor(scheme.accent);
+
+      expect(scheme.background).toBe(background);
+      expect(
+        contrastRatio(parseColor(scheme.text), base)
+      ).toBeGreaterThanOrEqual(4.5);
+      expect(contrastRatio(accent, base)).toBeGreaterThanOrEqual(3);
+      expect(Math.abs(apcaContrast(accent, base))).toBeGreaterThanOrEqual(30);
+      expect(
+        contrastRatio(parseColor(scheme.accentText), accent)
+      ).toBeGreaterThanOrEqual(4.5);
+    }
+  );
+
+  test('uses a complementary accent for colorful backgrounds', () => {
+    const background = toOklch('#3498DB');
+    const accent = toOklch(createColorScheme('#3498DB').accent);
+
+    expect(hueDistance(accent.h, background.h)).toBeGreaterThan(120);
+  });
+});
@@ -0,0 +1,77 @@
+import type { ColorScheme, HarmonyKind, OklchColor } from '../types';
+import { oklchToRgb, rgbToOklch } from './convert';
+import { ensureContrast, readableTextColor } from './contrast';
+import { parseColor } from './parse';
+import { toHex } from './format';
+
+export const HARMONY_KINDS: HarmonyKind[] = [
+  'complementary',
+  'analogous',
+  'triadic',
+  'split-complementary',
+];
+
+/** Hue rotations of each harmony, the base color first. */
+const HARMONY_OFFSETS: Record<HarmonyKind, number[]> = {
+  complementary: [0, 180],
+  analogous: [0, -30, 30],
+  triadic: [0, 120, 240],
+  'split-complementary': [0, 150, 210],
+};
+
+/** Below this OKLCH chroma a color reads as gray and has no usable hue. */
+const NEUTRAL_CHROMA = 0.03;
+
+/** Accent used for grays, where a complementary hue means nothing (a sky blue). */
+const NEUTRAL_ACCENT: OklchColor = { l: 0.72, c: 0.14, h: 230 };
+
+/**
+ * Colors in harmony with a base color, rotating its hue in OKLCH so the
+ * results keep its perceived lightness and colorfulness.
+ *
+ * @param base - Any CSS color.
+ * @param kind - Which harmony to build.
+ * @returns Hex colors, the base color first.
+ * @throws Error if the base is not a color.
+ */
+export function getHarmony(base: string, kind: HarmonyKind): string[] {
+  const oklch = rgbToOklch(parseColor(base));
+
+  return HARMONY_OFFSETS[kind].map((offset) =>
+    toHex(oklchToRgb({ ...oklch, h: (oklch.h + offset + 360) % 360 }))
+  );
+}
+
+/**
+ * Colors for a flyer on the given background: black or white text that
+ * passes WCAG AA on it (see `readableTextColor`), a complementary accent
+ * that stands out from it (WCAG 3:1 and APCA Lc 30, the minimums for UI
+ * and very large text), and a CTA label readable on the accent.
+ *
+ * @param background - Any CSS color.
+ * @throws Error if the background is not a color.
+ */
+export function createColorScheme(background: string): ColorScheme {
+  const base = parseColor(background);
+  const oklch = rgbToOklch(base);
+
+  const accentSeed =
+    oklch.c < NEUTRAL_CHROMA
+      ? NEUTRAL_ACCENT
+      : {
+          l: oklch.l,
+          c: Math.max(oklch.c, 0.12),
+          h: (oklch.h + 180) % 360,
+        };
+  const accent = ensureContrast(oklchToRgb(accentSeed), base, {
+    minRatio: 3,
+    minLc: 30,
+  });
+
+  return {
+    background: toHex(base),
+    text: toHex(readableTextColor(base)),
+    accent: toHex(accent),
+    accentText: toHex(readableTextColor(accent)),
+  };
+}
@@ -0,0 +1,19 @@
+export {
+  isColor,
+  parseColor,
+  splitColorList,
+  tryParseColor,
+} from './parse';
+export { darken, formatOklch, lighten, toHex, toOklch } from './format';
+export { oklchToRgb as fromOklch } from './convert';
+export {
+  apcaContrast,
+  checkContrast,
+  contrastRatio,
+  ensureContrast,
+  meetsContrast,
+  readableTextColor,
+  relativeLuminance,
+  type ContrastTarget,
+} from './contrast';
+export { HARMONY_KINDS, createColorScheme, getHarmony } from './harmony';
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { toHex } from './format';
+import { isColor, parseColor, splitColorList, tryParseColor } from './parse';
+
+describe('parseColor', () => {
+  test.each([
+    ['#3498db', '#3498DB'],
+    ['#39f', '#3399FF'],
+    ['rebeccapurple', '#663399'],
+    ['rgb(52, 152, 219)', '#3498DB'],
+    ['rgb(52 152 219 / 50%)', '#3498DB80'],
+    ['hsl(204 70% 53%)', '#3398DB'],
+    ['hwb(0 0% 0%)', '#FF0000'],
+    ['oklch(0.628 0.2577 29.23)', '#FF0000'],
+    ['color(srgb 1 0.5 0)', '#FF8000'],
+  ])('reads %s', (input, hex) => {
+    expect(toHex(parseColor(input))).toBe(hex);
+  });
+
+  test('keeps the alpha channel', () => {
+    expect(parseColor('#00000080').alpha).toBeCloseTo(128 / 255);
+    expect(parseColor('transparent').alpha).toBe(0);
+  });
+
+  test('gamut maps colors outside sRGB', () => {
+    const color = parseColor('color(display-p3 0 1 0)');
+    for (const channel of [color.r, color.g, color.b]) {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('rejects text that is not a color', () => {
+    expect(() => parseColor('#12345')).toThrow('invalid color "#12345"');
+    expect(tryParseColor('blurple')).toBeNull();
+    expect(isColor('rgb(1 2)')).toBe(false);
+  });
+});
+
+describe('splitColorList', () => {
+  test('splits on commas outside functions', () => {
+    expect(splitColorList('#fff, rgb(52, 152, 219),red,')).toEqual([
+      '#fff',
+      'rgb(52, 152, 219)',
+      'red',
+    ]);
+  });
+});
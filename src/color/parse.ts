@@ -0,0 +1,282 @@
+import type { RgbColor } from '../types';
+import {
+  cieLabToRgb,
+  clampRgb,
+  fromLinear,
+  fromPolar,
+  hslToRgb,
+  hwbToRgb,
+  inGamut,
+  oklabToRgb,
+  oklchToRgb,
+  rgbToOklch,
+  toLinear,
+} from './convert';
+import { NAMED_COLORS } from './named';
+
+/** A parsed function argument: a plain number, a percentage or an angle. */
+interface Component {
+  value: number;
+  unit: '' | '%' | 'deg';
+}
+
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+// Linear display-p3 to linear sRGB (through XYZ D65).
+const P3_TO_LINEAR_SRGB = [
+  [1.2249401762805598, -0.22494017628055996, 0],
+  [-0.042056954709688163, 1.0420569547096881, 0],
+  [-0.019637554590334432, -0.07863604555063188, 1.0982736001409663],
+] as const;
+
+/**
+ * Parses any CSS color: named colors, `#rgb`/`#rgba`/`#rrggbb`/`#rrggbbaa`,
+ * `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`, `oklab()`, `oklch()` and
+ * `color()` in srgb, srgb-linear or display-p3, in both the comma and the
+ * space-separated syntax. Colors outside sRGB are gamut mapped.
+ *
+ * @param input - The color as written by the user.
+ * @returns The color in sRGB, channels from 0 to 1.
+ * @throws Error if the input is not a color.
+ */
+export function parseColor(input: string): RgbColor {
+  const color = tryParseColor(input);
+  if (!color) {
+    throw new Error(
+      `❌ Configuration error: invalid color "${input}". Use a CSS color such as #3498DB, rgb(52 152 219), hsl(204 70% 53%) or oklch(0.65 0.13 240).`
+    );
+  }
+  return color;
+}
+
+/** Like `parseColor`, but returns null for input that is not a color. */
+export function tryParseColor(input: string): RgbColor | null {
+  const text = input.trim().toLowerCase();
+
+  if (text === 'transparent') {
+    return { r: 0, g: 0, b: 0, alpha: 0 };
+  }
+  const named = NAMED_COLORS[text];
+  if (named !== undefined) {
+    return {
+      r: ((named >> 16) & 0xff) / 255,
+      g: ((named >> 8) & 0xff) / 255,
+      b: (named & 0xff) / 255,
+    };
+  }
+  if (text.startsWith('#')) {
+    return parseHex(text.slice(1));
+  }
+
+  const match = text.match(/^([a-z-]+)\((.*)\)$/);
+  if (!match) return null;
+  const [, name, body] = match as unknown as [string, string, string];
+  return parseFunction(name, body);
+}
+
+/**
+ * Splits a comma-separated list of colors, leaving the commas inside
+ * functions such as `rgb(52, 152, 219)` alone.
+ */
+export function splitColorList(input: string): string[] {
+  const colors: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of input) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      colors.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  colors.push(current);
+  return colors.map((color) => color.trim()).filter(Boolean);
+}
+
+/** Whether the input is a CSS color `parseColor` understands. */
+export function isColor(input: string): boolean {
+  return tryParseColor(input) !== null;
+}
+
+function parseHex(hex: string): RgbColor | null {
+  if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+    return null;
+  }
+  const digits =
+    hex.length <= 4
+      ? hex.split('').map((digit) => digit + digit)
+      : hex.match(/../g)!;
+  const [r, g, b, a] = digits.map((pair) => parseInt(pair, 16) / 255);
+
+  return { r: r!, g: g!, b: b!, alpha: a };
+}
+
+function parseFunction(name: string, body: string): RgbColor | null {
+  let space: string | undefined;
+  if (name === 'color') {
+    [space, body] = [
+      body.trim().split(/\s+/)[0],
+      body.trim().replace(/^\S+/, ''),
+    ];
+  }
+
+  const args = splitArguments(body);
+  if (!args) return null;
+  const { channels, alpha: alphaArg } = args;
+  if (channels.length !== 3 || channels.some((part) => !part)) return null;
+
+  const alpha = alphaArg === undefined ? undefined : fraction(alphaArg, 1);
+  if (alpha === null) return null;
+  const parts = channels as Component[];
+  const [first, second, third] = parts as [Component, Component, Component];
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const values = parts.map((part) =>
+        part.unit === 'deg' ? null : fraction(part, 255)
+      );
+      if (values.some((value) => value === null)) return null;
+      const [r, g, b] = values as number[];
+      return { r: r!, g: g!, b: b!, alpha };
+    }
+
+    case 'hsl':
+    case 'hsla':
+    case 'hwb': {
+      const h = hue(first);
+      const x = percentage(second);
+      const y = percentage(third);
+      if (h === null || x === null || y === null) return null;
+      return name === 'hwb'
+        ? hwbToRgb(h, x, y, alpha)
+        : hslToRgb(h, x, y, alpha);
+    }
+
+    case 'lab':
+    case 'lch':
+    case 'oklab':
+    case 'oklch': {
+      const ok = name.startsWith('ok');
+      const polar = name.endsWith('ch');
+      const l = scaled(first, ok ? 1 : 100);
+      const x = scaled(second, ok ? 0.4 : polar ? 150 : 125);
+      const y = polar ? hue(third) : scaled(third, ok ? 0.4 : 125);
+      if (l === null || x === null || y === null) return null;
+
+      if (name === 'oklch')
+        return oklchToRgb({ l, c: Math.max(0, x), h: y, alpha });
+      const lab = polar
+        ? fromPolar([l, Math.max(0, x), y])
+        : ([l, x, y] as [number, number, number]);
+      const rgb = ok ? oklabToRgb(lab, alpha) : cieLabToRgb(lab, alpha);
+      return fitGamut(rgb);
+    }
+
+    case 'color': {
+      const values = parts.map((part) =>
+        part.unit === 'deg' ? null : fraction(part, 1)
+      );
+      if (values.some((value) => value === null)) return null;
+      const [r, g, b] = values as number[];
+
+      if (space === 'srgb') return { r: r!, g: g!, b: b!, alpha };
+      if (space === 'srgb-linear') {
+        return fitGamut({
+          r: fromLinear(r!),
+          g: fromLinear(g!),
+          b: fromLinear(b!),
+          alpha,
+        });
+      }
+      if (space === 'display-p3') {
+        // display-p3 shares the sRGB transfer function.
+        const linear = [r!, g!, b!].map(toLinear);
+        const [lr, lg, lb] = P3_TO_LINEAR_SRGB.map(
+          (row) =>
+            row[0] * linear[0]! + row[1] * linear[1]! + row[2] * linear[2]!
+        ).map(fromLinear);
+        return fitGamut({ r: lr!, g: lg!, b: lb!, alpha });
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits `a b c / d` or `a, b, c, d` into components.
+ */
+function splitArguments(
+  body: string
+): { channels: Array<Component | null>; alpha?: Component } | null {
+  const [main, alphaPart, ...rest] = body.split('/');
+  if (rest.length > 0 || main === undefined) return null;
+
+  const parts = main.includes(',')
+    ? main.split(',').map((part) => part.trim())
+    : main.trim().split(/\s+/);
+
+  // The legacy syntax passes alpha as a fourth comma-separated value.
+  let alphaText = alphaPart?.trim();
+  if (main.includes(',') && parts.length === 4 && alphaText === undefined) {
+    alphaText = parts.pop();
+  }
+
+  const alpha = alphaText === undefined ? undefined : component(alphaText);
+  if (alpha === null) return null;
+  return { channels: parts.map(component), alpha };
+}
+
+function component(text: string): Component | null {
+  if (text === 'none') return { value: 0, unit: '' };
+  const match = text.match(
+    /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/
+  );
+  if (!match) return null;
+
+  const value = parseFloat(match[1]!);
+  const unit = match[2];
+  if (!unit) return { value, unit: '' };
+  if (unit === '%') return { value, unit: '%' };
+  return { value: value * ANGLE_UNITS[unit]!, unit: 'deg' };
+}
+
+/** 0-1 value from a number on a 0-`max` scale or a percentage. */
+function fraction(part: Component, max: number): number | null {
+  if (part.unit === 'deg') return null;
+  const value = part.unit === '%' ? part.value / 100 : part.value / max;
+  return Math.min(1, Math.max(0, value));
+}
+
+/** 0-1 value from a percentage (or a bare number read as one). */
+function percentage(part: Component): number | null {
+  if (part.unit === 'deg') return null;
+  return Math.min(1, Math.max(0, part.value / 100));
+}
+
+/** Number in the space's own units; percentages are relative to `reference`. */
+function scaled(part: Component, reference: number): number | null {
+  if (part.unit === 'deg') return null;
+  return part.unit === '%' ? (part.value / 100) * reference : part.value;
+}
+
+function hue(part: Component): number | null {
+  if (part.unit === '%') return null;
+  return ((part.value % 360) + 360) % 360;
+}
+
+/** Maps out-of-gamut results back into sRGB through OKLCH. */
+function fitGamut(color: RgbColor): RgbColor {
+  return inGamut(color) ? clampRgb(color) : oklchToRgb(rgbToOklch(color));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { validateVariations } from '../TextVariationSchema';
+import type { PromoConfig } from '../types';
+import { CopyEngine } from './CopyEngine';
+
+const config: PromoConfig = {
+  product: 'Pizza',
+  businessType: 'restaurant',
+  offer: '2x1',
+  validity: 'This weekend',
+  location: 'Main Street 123',
+  phone: '+1 555 0100',
+  schedule: '12:00 - 23:00',
+  colors: ['#FF6B6B'],
+};
+
+const key = (variation: { title: string; subtitle: string }) =>
+  `${variation.title}|${variation.subtitle}`;
+
+describe('CopyEngine', () => {
+  const engine = new CopyEngine();
+
+  test('generates the requested number of distinct variations', () => {
+    const variations = engine.generate(config, 12);
+
+    expect(variations).toHaveLength(12);
+    expect(new Set(variations.map(key)).size).toBe(12);
+  });
+
+  test('stays within the schema limits', () => {
+    const variations = engine.generate(
+      {
+        ...config,
+        product: 'Extra large double pepperoni stuffed crust pizza',
+      },
+      8
+    );
+
+    expect(validateVariations(variations).issues).toEqual([]);
+  });
+
+  test('fills the templates with the config', () => {
+    const copy = engine
+      .generate(config, 6)
+      .map((variation) => Object.values(variation).join(' '))
+      .join(' ');
+
+    expect(copy).toContain('Pizza');
+  });
+
+  test('writes Spanish copy and falls back to English', () => {
+    const spanish = engine.generate(config, 1, 'Spanish');
+    const english = engine.generate(config, 1, 'English');
+    const unknown = engine.generate(config, 1, 'Klingon');
+
+    expect(spanish).not.toEqual(english);
+    expect(unknown).toEqual(english);
+  });
+});
@@ -0,0 +1,252 @@
+import { TEXT_VARIATION_SCHEMA, type FieldRule } from '../TextVariationSchema';
+import { SLIDE_SCHEMA } from '../carousel';
+import { localeForLanguage } from '../offers';
+import { formatCountdown } from '../schedule';
+import type {
+  CarouselSlide,
+  PromoConfig,
+  SlideRole,
+  TextVariation,
+} from '../types';
+import {
+  COPY_TONES,
+  PHRASE_BANKS,
+  type PhraseBank,
+  type TonePhrases,
+} from './phrases';
+
+type Slots = Record<string, string>;
+
+/**
+ * Rule-based offline copywriter.
+ * Fills phrase-bank templates with PromoConfig values and combines titles,
+ * subtitles, calls to action and descriptions so every requested variation
+ * is distinct and within the TextVariation schema limits.
+ */
+export class CopyEngine {
+  /**
+   * Generates `quantity` distinct variations without any AI call.
+   *
+   * @param config - The promotional configuration used to fill templates.
+   * @param quantity - Number of variations to produce.
+   * @param language - Target language; unknown languages use English.
+   * @returns An array of TextVariation objects.
+   */
+  generate(
+    config: PromoConfig,
+    quantity: number,
+    language: string = 'English'
+  ): TextVariation[] {
+    const bank = this.getBank(language);
+    const slots = this.getSlots(config, language);
+
+    // Fill every template once per tone; the variation loop only picks indices.
+    const filled = COPY_TONES.map((tone) => ({
+      tone,
+      titles: this.fill(bank[tone].titles, slots, TEXT_VARIATION_SCHEMA.title),
+      subtitles: this.fill(
+        bank[tone].subtitles,
+        slots,
+        TEXT_VARIATION_SCHEMA.subtitle
+      ),
+      callsToAction: this.fill(
+        bank[tone].callsToAction,
+        slots,
+        TEXT_VARIATION_SCHEMA.callToAction
+      ),
+      descriptions: this.fill(
+        bank[tone].descriptions,
+        slots,
+        TEXT_VARIATION_SCHEMA.description
+      ),
+    }));
+
+    const variations: TextVariation[] = [];
+    const seen = new Set<string>();
+    const rounds = new Array<number>(filled.length).fill(0);
+
+    for (let i = 0; i < quantity; i++) {
+      const toneIndex = i % filled.length;
+      const phrases = filled[toneIndex]!;
+      const combinations = this.countCombinations(phrases);
+
+      let variation: TextVariation | undefined;
+      // Walk the combinations of this tone until an unused one turns up.
+      for (let tries = 0; tries < combinations; tries++) {
+        const candidate = this.combine(phrases, rounds[toneIndex]!);
+        rounds[toneIndex] = rounds[toneIndex]! + 1;
+        variation = candidate;
+        if (!seen.has(this.key(candidate))) break;
+      }
+
+      if (variation) {
+        seen.add(this.key(variation));
+        variations.push(variation);
+      }
+    }
+
+    return variations;
+  }
+
+  /**
+   * Writes carousel slides without any AI call, from one variation per
+   * copy slide so each slide takes a different angle. The offer slide
+   * states the offer and its validity as given.
+   *
+   * @param config - The promotional configuration used to fill templates.
+   * @param roles - The role of each slide, in order.
+   * @param language - Target language; unknown languages use English.
+   * @returns One slide per role.
+   */
+  generateCarousel(
+    config: PromoConfig,
+    roles: SlideRole[],
+    language: string = 'English'
+  ): CarouselSlide[] {
+    const copySlides = roles.filter((role) => role !== 'offer').length;
+    const variations = this.generate(config, copySlides, language);
+    const slots = this.getSlots(config, language);
+    let next = 0;
+
+    return roles.map((role) => {
+      if (role === 'offer') {
+        return {
+          role,
+          title: this.shorten(
+            slots.offer || config.product,
+            SLIDE_SCHEMA.title
+          ),
+          body: this.shorten(
+            [slots.validity, slots.countdown].filter(Boolean).join(' · '),
+            SLIDE_SCHEMA.body
+          ),
+        };
+      }
+
+      const variation = variations[next++ % variations.length]!;
+      const slide: CarouselSlide = {
+        role,
+        title: variation.title,
+        body: this.shorten(variation.subtitle, SLIDE_SCHEMA.body),
+      };
+      if (role === 'cta') {
+        slide.callToAction = variation.callToAction;
+      }
+      return slide;
+    });
+  }
+
+  private getBank(language: string): PhraseBank {
+    const match = Object.keys(PHRASE_BANKS).find(
+      (name) => name.toLowerCase() === language.trim().toLowerCase()
+    );
+    return PHRASE_BANKS[match ?? 'English'] ?? PHRASE_BANKS['English']!;
+  }
+
+  private getSlots(config: PromoConfig, language: string): Slots {
+    const countdown = config.validityPeriod
+      ? formatCountdown(
+          config.validityPeriod,
+          config.locale ?? localeForLanguage(language)
+        )
+      : null;
+
+    return {
+      product: config.product?.trim() ?? '',
+      offer: config.offer?.trim() ?? '',
+      validity: config.validity?.trim().replace(/[.!]+$/, '') ?? '',
+      location: config.location?.trim() ?? '',
+      phone: config.phone?.trim() ?? '',
+      schedule: config.schedule?.trim().replace(/[.!]+$/, '') ?? '',
+      countdown: countdown ?? '',
+    };
+  }
+
+  /**
+   * Fills templates, dropping those that reference an empty slot or exceed
+   * the field limits. If nothing survives, the first fillable template is
+   * shortened to fit instead.
+   */
+  private fill(templates: string[], slots: Slots, rule: FieldRule): string[] {
+    const fillable = templates.filter((template) =>
+      [...template.matchAll(/\{(\w+)\}/g)].every((m) => !!slots[m[1]!])
+    );
+    const texts = fillable.map((template) =>
+      template.replace(/\{(\w+)\}/g, (_, slot: string) => slots[slot] ?? '')
+    );
+
+    const fitting = texts.filter((text) => this.fits(text, rule));
+    if (fitting.length > 0) {
+      return fitting;
+    }
+
+    const first = texts[0] ?? templates[0]?.replace(/\{\w+\}/g, '').trim();
+    return [this.shorten(first ?? '', rule)];
+  }
+
+  private fits(text: string, rule: FieldRule): boolean {
+    return (
+      text.length <= rule.maxLength &&
+      (rule.maxWords === undefined || text.split(/\s+/).length <= rule.maxWords)
+    );
+  }
+
+  /**
+   * Drops trailing words until the text satisfies the rule.
+   */
+  private shorten(text: string, rule: FieldRule): string {
+    let words = text.split(/\s+/);
+    if (rule.maxWords !== undefined) {
+      words = words.slice(0, rule.maxWords);
+    }
+    while (words.length > 1 && words.join(' ').length > rule.maxLength) {
+      words.pop();
+    }
+    return words
+      .join(' ')
+      .slice(0, rule.maxLength)
+      .replace(/[\s,:;–-]+$/, '');
+  }
+
+  private countCombinations(phrases: TonePhrases): number {
+    return (
+      phrases.titles.length *
+      phrases.subtitles.length *
+      phrases.callsToAction.length *
+      phrases.descriptions.length
+    );
+  }
+
+  /**
+   * Picks one entry per field, reading `round` as a mixed-radix number so
+   * consecutive rounds change the title first, then the subtitle, and so on.
+   */
+  private combine(
+    phrases: TonePhrases & { tone: string },
+    round: number
+  ): TextVariation {
+    let rest = round;
+    const pick = (list: string[]): string => {
+      const value = list[rest % list.length] ?? '';
+      rest = Math.floor(rest / list.length);
+      return value;
+    };
+
+    return {
+      title: pick(phrases.titles),
+      subtitle: pick(phrases.subtitles),
+      callToAction: pick(phrases.callsToAction),
+      description: pick(phrases.descriptions),
+      tone: phrases.tone,
+    };
+  }
+
+  private key(variation: TextVariation): string {
+    return [
+      variation.title,
+      variation.subtitle,
+      variation.callToAction,
+      variation.description,
+    ].join('\u0000');
+  }
+}
@@ -0,0 +1,598 @@
+/**
+ * Phrase banks for the offline copy engine.
+ *
+ * Templates use `{slot}` placeholders filled from PromoConfig:
+ * `{product}`, `{offer}`, `{validity}`, `{location}`, `{phone}`, `{schedule}`,
+ * and `{countdown}` ("Only 3 days left") in the offer's last week.
+ * Every field of every tone keeps at least one template that only needs
+ * `{product}` and/or `{offer}`, so optional fields can always be left empty.
+ */
+
+export const COPY_TONES = [
+  'urgent',
+  'elegant',
+  'casual',
+  'fun',
+  'exclusive',
+  'friendly',
+  'informative',
+  'inspiring',
+] as const;
+
+export type CopyTone = (typeof COPY_TONES)[number];
+
+export interface TonePhrases {
+  titles: string[];
+  subtitles: string[];
+  callsToAction: string[];
+  descriptions: string[];
+}
+
+export type PhraseBank = Record<CopyTone, TonePhrases>;
+
+const English: PhraseBank = {
+  urgent: {
+    titles: ['Last Chance: {offer}!', '{offer} Ends Soon!', 'Hurry! {product} Deal'],
+    subtitles: ['{countdown} to get {offer}!', '{validity}. Act fast!', "Don't wait, {offer} won't last."],
+    callsToAction: ['Book Now!', 'Claim It Today!'],
+    descriptions: [
+      "Don't miss {offer} on {product}. {validity}. Visit us at {location}!",
+      'Time is running out to get {product} with {offer}. Come before it is gone!',
+    ],
+  },
+  elegant: {
+    titles: ['Exclusive {product} for You', 'The Art of {product}'],
+    subtitles: [
+      'Superior quality and unmatched design await you.',
+      'Refined taste, now with {offer}.',
+    ],
+    callsToAction: ['Request Info', 'Discover More'],
+    descriptions: [
+      'Immerse yourself in the premium experience of {product}. Design and quality come together for you.',
+      'Treat yourself to {product}, crafted with care and now with {offer}.',
+    ],
+  },
+  casual: {
+    titles: ["Don't Miss This {product} Deal!", 'Hey, {offer}!'],
+    subtitles: ['Relax and enjoy {product}.', 'Good vibes and {offer} on {product}.'],
+    callsToAction: ['Try It Now!', 'Drop By!'],
+    descriptions: [
+      'Looking for something different? Our {product} is perfect for your day.',
+      'Swing by for {product} and take advantage of {offer}. Easy as that.',
+    ],
+  },
+  fun: {
+    titles: ['Party Time for {product}!', '{offer}? Yes, Please!'],
+    subtitles: [
+      'Fun is guaranteed with {product}.',
+      'Bring your friends and grab {offer}.',
+    ],
+    callsToAction: ['Join the Party!', "Let's Go!"],
+    descriptions: [
+      'Get ready for fun with {product}. Perfect for any occasion!',
+      'Good times taste better with {product}, especially with {offer}!',
+    ],
+  },
+  exclusive: {
+    titles: ['VIP Access to {product}', 'Members Only: {offer}'],
+    subtitles: [
+      'Unique benefits designed for select customers.',
+      'A private offer on {product}, just for you.',
+    ],
+    callsToAction: ['Access Here!', 'Get VIP Access'],
+    descriptions: [
+      'A unique opportunity to enjoy the best of {product}, reserved for a few.',
+      'Be among the first to enjoy {offer} on {product}. Limited spots available.',
+    ],
+  },
+  friendly: {
+    titles: ['Enjoy Together: {product}', '{product} for the Whole Family'],
+    subtitles: [
+      'Create unforgettable memories with your loved ones.',
+      'Share {product} with {offer}.',
+    ],
+    callsToAction: ['Come With Us!', 'See You Soon!'],
+    descriptions: [
+      'Unforgettable moments await you with {product}. Perfect for sharing with family.',
+      'We would love to see you! Enjoy {offer} on {product} with the people you care about.',
+    ],
+  },
+  informative: {
+    titles: ['{product}: What You Need to Know', 'Now Available: {offer}'],
+    subtitles: [
+      'Everything you need to know before you buy.',
+      '{offer} on {product}. {schedule}.',
+    ],
+    callsToAction: ['Read More', 'Call {phone}'],
+    descriptions: [
+      'Discover the key features and benefits of {product}, now with {offer}.',
+      '{product} is available with {offer}. Find us at {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Transform Your Day with {product}', 'Your Moment Is Now'],
+    subtitles: [
+      'Reach your goals with {product}.',
+      'Start something great with {offer}.',
+    ],
+    callsToAction: ['Start Today!', 'Take the Step'],
+    descriptions: [
+      'Take the next step towards your dreams with {product}.',
+      'Great things start with a single decision. Choose {product} and enjoy {offer}.',
+    ],
+  },
+};
+
+const Spanish: PhraseBank = {
+  urgent: {
+    titles: ['¡Última Oportunidad: {offer}!', '¡{offer} por Poco Tiempo!', '¡Corre! Oferta en {product}'],
+    subtitles: ['{countdown} para aprovechar {offer}.', '{validity}. ¡Actúa rápido!', 'No esperes, {offer} no durará.'],
+    callsToAction: ['¡Reserva Ya!', '¡Aprovecha Hoy!'],
+    descriptions: [
+      'No dejes pasar {offer} en {product}. {validity}. ¡Visítanos en {location}!',
+      'Se acaba el tiempo para disfrutar {product} con {offer}. ¡Ven antes de que se agote!',
+    ],
+  },
+  elegant: {
+    titles: ['{product} Exclusivo para Ti', 'El Arte de {product}'],
+    subtitles: [
+      'Calidad superior y diseño inigualable te esperan.',
+      'Buen gusto, ahora con {offer}.',
+    ],
+    callsToAction: ['Solicita Info', 'Descubre Más'],
+    descriptions: [
+      'Sumérgete en la experiencia premium de {product}. Diseño y calidad se unen para ti.',
+      'Regálate {product}, elaborado con esmero y ahora con {offer}.',
+    ],
+  },
+  casual: {
+    titles: ['¡No te Pierdas {product}!', '¡Oye, {offer}!'],
+    subtitles: ['Relájate y disfruta de {product}.', 'Buena onda y {offer} en {product}.'],
+    callsToAction: ['¡Pruébalo!', '¡Pasa a Vernos!'],
+    descriptions: [
+      '¿Buscas algo diferente? {product} es perfecto para tu día a día.',
+      'Pasa por {product} y aprovecha {offer}. Así de fácil.',
+    ],
+  },
+  fun: {
+    titles: ['¡Hora de {product}!', '¿{offer}? ¡Claro que Sí!'],
+    subtitles: [
+      'La diversión está garantizada con {product}.',
+      'Trae a tus amigos y aprovecha {offer}.',
+    ],
+    callsToAction: ['¡Únete!', '¡Vamos!'],
+    descriptions: [
+      'Prepárate para la diversión con {product}. ¡Ideal para cualquier ocasión!',
+      'Los buenos momentos saben mejor con {product}, ¡y más con {offer}!',
+    ],
+  },
+  exclusive: {
+    titles: ['Acceso VIP a {product}', 'Solo para Clientes: {offer}'],
+    subtitles: [
+      'Beneficios únicos diseñados para clientes selectos.',
+      'Una oferta privada en {product}, solo para ti.',
+    ],
+    callsToAction: ['¡Accede Aquí!', 'Acceso VIP'],
+    descriptions: [
+      'Una oportunidad única de disfrutar lo mejor de {product}, reservada para pocos.',
+      'Sé de los primeros en disfrutar {offer} en {product}. Cupos limitados.',
+    ],
+  },
+  friendly: {
+    titles: ['Disfruta en Familia: {product}', '{product} para Todos'],
+    subtitles: [
+      'Crea recuerdos inolvidables con los tuyos.',
+      'Comparte {product} con {offer}.',
+    ],
+    callsToAction: ['¡Ven con Nosotros!', '¡Te Esperamos!'],
+    descriptions: [
+      'Momentos inolvidables te esperan con {product}. Ideal para compartir en familia.',
+      '¡Nos encantará verte! Disfruta {offer} en {product} con quienes más quieres.',
+    ],
+  },
+  informative: {
+    titles: ['{product}: Lo que Debes Saber', 'Ya Disponible: {offer}'],
+    subtitles: [
+      'Todo lo que necesitas saber antes de tu compra.',
+      '{offer} en {product}. {schedule}.',
+    ],
+    callsToAction: ['Leer Más', 'Llama al {phone}'],
+    descriptions: [
+      'Descubre las características y beneficios de {product}, ahora con {offer}.',
+      '{product} está disponible con {offer}. Encuéntranos en {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Transforma tu Día con {product}', 'Tu Momento es Ahora'],
+    subtitles: [
+      'Alcanza tus metas con {product}.',
+      'Empieza algo grande con {offer}.',
+    ],
+    callsToAction: ['¡Empieza Hoy!', 'Da el Paso'],
+    descriptions: [
+      'Da el siguiente paso hacia tus sueños con {product}.',
+      'Las grandes cosas empiezan con una decisión. Elige {product} y disfruta {offer}.',
+    ],
+  },
+};
+
+const French: PhraseBank = {
+  urgent: {
+    titles: ['Dernière Chance : {offer} !', '{offer}, Plus pour Longtemps !'],
+    subtitles: ['{countdown} pour profiter de {offer} !', '{validity}. Faites vite !', "N'attendez pas, {offer} ne durera pas."],
+    callsToAction: ['Réservez !', "Profitez-en Aujourd'hui"],
+    descriptions: [
+      'Ne manquez pas {offer} sur {product}. {validity}. Rendez-nous visite à {location} !',
+      'Le temps presse pour profiter de {product} avec {offer}. Venez vite !',
+    ],
+  },
+  elegant: {
+    titles: ['{product} Exclusif pour Vous', "L'Art de {product}"],
+    subtitles: [
+      'Une qualité supérieure et un design inégalé vous attendent.',
+      'Le raffinement, désormais avec {offer}.',
+    ],
+    callsToAction: ["Plus d'Infos", 'Découvrir'],
+    descriptions: [
+      "Plongez dans l'expérience premium de {product}. Le design et la qualité réunis pour vous.",
+      'Offrez-vous {product}, préparé avec soin et maintenant avec {offer}.',
+    ],
+  },
+  casual: {
+    titles: ['Ne Ratez pas {product} !', 'Hé, {offer} !'],
+    subtitles: ['Détendez-vous et profitez de {product}.', 'Bonne ambiance et {offer} sur {product}.'],
+    callsToAction: ['Essayez !', 'Passez nous Voir !'],
+    descriptions: [
+      'Envie de changement ? {product} est parfait pour votre quotidien.',
+      'Passez chercher {product} et profitez de {offer}. Tout simplement.',
+    ],
+  },
+  fun: {
+    titles: ['La Fête de {product} !', '{offer} ? Oui, Merci !'],
+    subtitles: [
+      'Le plaisir est garanti avec {product}.',
+      'Venez entre amis et profitez de {offer}.',
+    ],
+    callsToAction: ['Rejoignez-nous !', "C'est Parti !"],
+    descriptions: [
+      "Préparez-vous à vous amuser avec {product}. Idéal pour toutes les occasions !",
+      'Les bons moments sont encore meilleurs avec {product}, surtout avec {offer} !',
+    ],
+  },
+  exclusive: {
+    titles: ['Accès VIP à {product}', 'Réservé aux Clients : {offer}'],
+    subtitles: [
+      'Des avantages uniques pour des clients privilégiés.',
+      'Une offre privée sur {product}, rien que pour vous.',
+    ],
+    callsToAction: ['Accédez Ici !', 'Accès VIP'],
+    descriptions: [
+      'Une occasion unique de profiter du meilleur de {product}, réservée à quelques-uns.',
+      'Soyez parmi les premiers à profiter de {offer} sur {product}. Places limitées.',
+    ],
+  },
+  friendly: {
+    titles: ['En Famille : {product}', '{product} pour Tous'],
+    subtitles: [
+      'Créez des souvenirs inoubliables avec vos proches.',
+      'Partagez {product} avec {offer}.',
+    ],
+    callsToAction: ['Venez nous Voir !', 'À Bientôt !'],
+    descriptions: [
+      "Des moments inoubliables vous attendent avec {product}. Idéal à partager en famille.",
+      'Nous serons ravis de vous accueillir ! Profitez de {offer} sur {product} avec vos proches.',
+    ],
+  },
+  informative: {
+    titles: ['{product} : Ce Qu’il Faut Savoir', 'Disponible : {offer}'],
+    subtitles: [
+      "Tout ce qu'il faut savoir avant votre achat.",
+      '{offer} sur {product}. {schedule}.',
+    ],
+    callsToAction: ['En Savoir Plus', 'Appelez le {phone}'],
+    descriptions: [
+      'Découvrez les atouts de {product}, maintenant avec {offer}.',
+      '{product} est disponible avec {offer}. Retrouvez-nous à {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Transformez votre Journée avec {product}', "C'est Votre Moment"],
+    subtitles: [
+      'Atteignez vos objectifs avec {product}.',
+      'Commencez quelque chose de grand avec {offer}.',
+    ],
+    callsToAction: ["Commencez Aujourd'hui", 'Lancez-vous'],
+    descriptions: [
+      'Faites un pas de plus vers vos rêves avec {product}.',
+      'Les grandes choses commencent par une décision. Choisissez {product} et profitez de {offer}.',
+    ],
+  },
+};
+
+const German: PhraseBank = {
+  urgent: {
+    titles: ['Letzte Chance: {offer}!', '{offer} – Nur Noch Kurz!'],
+    subtitles: ['{countdown}: {offer} sichern!', '{validity}. Schnell sein!', 'Nicht warten, {offer} gilt nicht lange.'],
+    callsToAction: ['Jetzt Buchen!', 'Heute Sichern!'],
+    descriptions: [
+      'Verpassen Sie nicht {offer} auf {product}. {validity}. Besuchen Sie uns in {location}!',
+      'Die Zeit läuft: Holen Sie sich {product} mit {offer}, solange es geht!',
+    ],
+  },
+  elegant: {
+    titles: ['Exklusiv für Sie: {product}', 'Die Kunst von {product}'],
+    subtitles: [
+      'Höchste Qualität und einzigartiges Design erwarten Sie.',
+      'Feiner Geschmack, jetzt mit {offer}.',
+    ],
+    callsToAction: ['Infos Anfordern', 'Mehr Entdecken'],
+    descriptions: [
+      'Erleben Sie {product} in Premiumqualität. Design und Qualität vereint für Sie.',
+      'Gönnen Sie sich {product}, mit Sorgfalt gemacht und jetzt mit {offer}.',
+    ],
+  },
+  casual: {
+    titles: ['{product}-Deal Nicht Verpassen!', 'Hey, {offer}!'],
+    subtitles: ['Entspannen und {product} genießen.', 'Gute Laune und {offer} auf {product}.'],
+    callsToAction: ['Jetzt Testen!', 'Vorbeikommen!'],
+    descriptions: [
+      'Lust auf etwas Neues? {product} passt perfekt in Ihren Alltag.',
+      'Kommen Sie vorbei für {product} und nutzen Sie {offer}. Ganz einfach.',
+    ],
+  },
+  fun: {
+    titles: ['Partyzeit mit {product}!', '{offer}? Na Klar!'],
+    subtitles: [
+      'Mit {product} ist der Spaß garantiert.',
+      'Bring deine Freunde mit und hol dir {offer}.',
+    ],
+    callsToAction: ['Mach Mit!', "Los Geht's!"],
+    descriptions: [
+      'Bereit für Spaß mit {product}? Ideal für jeden Anlass!',
+      'Gute Zeiten schmecken besser mit {product}, besonders mit {offer}!',
+    ],
+  },
+  exclusive: {
+    titles: ['VIP-Zugang zu {product}', 'Nur für Kunden: {offer}'],
+    subtitles: [
+      'Einzigartige Vorteile für ausgewählte Kunden.',
+      'Ein privates Angebot für {product}, nur für Sie.',
+    ],
+    callsToAction: ['Hier Zugreifen!', 'VIP-Zugang'],
+    descriptions: [
+      'Eine einmalige Gelegenheit, das Beste von {product} zu genießen – nur für wenige.',
+      'Gehören Sie zu den Ersten mit {offer} auf {product}. Begrenzte Plätze.',
+    ],
+  },
+  friendly: {
+    titles: ['Gemeinsam Genießen: {product}', '{product} für die Ganze Familie'],
+    subtitles: [
+      'Schaffen Sie unvergessliche Erinnerungen mit Ihren Liebsten.',
+      'Teilen Sie {product} mit {offer}.',
+    ],
+    callsToAction: ['Kommen Sie Vorbei!', 'Bis Bald!'],
+    descriptions: [
+      'Unvergessliche Momente warten mit {product}. Ideal zum Teilen mit der Familie.',
+      'Wir freuen uns auf Sie! Genießen Sie {offer} auf {product} mit Ihren Liebsten.',
+    ],
+  },
+  informative: {
+    titles: ['{product}: Das Sollten Sie Wissen', 'Jetzt Verfügbar: {offer}'],
+    subtitles: [
+      'Alles, was Sie vor dem Kauf wissen müssen.',
+      '{offer} auf {product}. {schedule}.',
+    ],
+    callsToAction: ['Mehr Erfahren', 'Anrufen: {phone}'],
+    descriptions: [
+      'Entdecken Sie die Vorteile von {product}, jetzt mit {offer}.',
+      '{product} gibt es jetzt mit {offer}. Sie finden uns in {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Mehr aus Ihrem Tag mit {product}', 'Ihr Moment Ist Jetzt'],
+    subtitles: [
+      'Erreichen Sie Ihre Ziele mit {product}.',
+      'Starten Sie etwas Großes mit {offer}.',
+    ],
+    callsToAction: ['Heute Starten!', 'Jetzt Loslegen'],
+    descriptions: [
+      'Machen Sie mit {product} den nächsten Schritt zu Ihren Träumen.',
+      'Großes beginnt mit einer Entscheidung. Wählen Sie {product} und genießen Sie {offer}.',
+    ],
+  },
+};
+
+const Italian: PhraseBank = {
+  urgent: {
+    titles: ['Ultima Occasione: {offer}!', '{offer}, Ancora per Poco!'],
+    subtitles: ['{countdown} per approfittare di {offer}!', '{validity}. Affrettati!', 'Non aspettare, {offer} non durerà.'],
+    callsToAction: ['Prenota Ora!', 'Approfittane Oggi!'],
+    descriptions: [
+      'Non perdere {offer} su {product}. {validity}. Vieni a trovarci a {location}!',
+      'Il tempo stringe per avere {product} con {offer}. Vieni prima che finisca!',
+    ],
+  },
+  elegant: {
+    titles: ['{product} Esclusivo per Te', "L'Arte di {product}"],
+    subtitles: [
+      'Qualità superiore e design inimitabile ti aspettano.',
+      'Gusto raffinato, ora con {offer}.',
+    ],
+    callsToAction: ['Richiedi Info', 'Scopri di Più'],
+    descriptions: [
+      "Immergiti nell'esperienza premium di {product}. Design e qualità si uniscono per te.",
+      'Concediti {product}, curato nei dettagli e ora con {offer}.',
+    ],
+  },
+  casual: {
+    titles: ['Non Perdere {product}!', 'Ehi, {offer}!'],
+    subtitles: ['Rilassati e goditi {product}.', 'Buone vibrazioni e {offer} su {product}.'],
+    callsToAction: ['Provalo Ora!', 'Passa a Trovarci!'],
+    descriptions: [
+      'Cerchi qualcosa di diverso? {product} è perfetto per la tua giornata.',
+      'Passa per {product} e approfitta di {offer}. Semplice così.',
+    ],
+  },
+  fun: {
+    titles: ['È Festa con {product}!', '{offer}? Sì, Grazie!'],
+    subtitles: [
+      'Il divertimento è garantito con {product}.',
+      'Porta gli amici e approfitta di {offer}.',
+    ],
+    callsToAction: ['Unisciti a Noi!', 'Andiamo!'],
+    descriptions: [
+      'Preparati a divertirti con {product}. Perfetto per ogni occasione!',
+      'I bei momenti sono più buoni con {product}, soprattutto con {offer}!',
+    ],
+  },
+  exclusive: {
+    titles: ['Accesso VIP a {product}', 'Solo per Clienti: {offer}'],
+    subtitles: [
+      'Vantaggi unici pensati per clienti selezionati.',
+      'Un’offerta riservata su {product}, solo per te.',
+    ],
+    callsToAction: ['Accedi Qui!', 'Accesso VIP'],
+    descriptions: [
+      "Un'occasione unica per godere del meglio di {product}, riservata a pochi.",
+      'Sii tra i primi a goderti {offer} su {product}. Posti limitati.',
+    ],
+  },
+  friendly: {
+    titles: ['Insieme in Famiglia: {product}', '{product} per Tutti'],
+    subtitles: [
+      'Crea ricordi indimenticabili con chi ami.',
+      'Condividi {product} con {offer}.',
+    ],
+    callsToAction: ['Vieni da Noi!', 'Ti Aspettiamo!'],
+    descriptions: [
+      'Momenti indimenticabili ti aspettano con {product}. Ideale da condividere in famiglia.',
+      'Saremo felici di vederti! Goditi {offer} su {product} con chi ami.',
+    ],
+  },
+  informative: {
+    titles: ['{product}: Cosa Sapere', 'Ora Disponibile: {offer}'],
+    subtitles: [
+      'Tutto ciò che devi sapere prima di acquistare.',
+      '{offer} su {product}. {schedule}.',
+    ],
+    callsToAction: ['Leggi di Più', 'Chiama il {phone}'],
+    descriptions: [
+      'Scopri caratteristiche e vantaggi di {product}, ora con {offer}.',
+      '{product} è disponibile con {offer}. Ci trovi a {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Trasforma la tua Giornata con {product}', 'Il tuo Momento è Adesso'],
+    subtitles: [
+      'Raggiungi i tuoi obiettivi con {product}.',
+      'Inizia qualcosa di grande con {offer}.',
+    ],
+    callsToAction: ['Inizia Oggi!', 'Fai il Passo'],
+    descriptions: [
+      'Fai il prossimo passo verso i tuoi sogni con {product}.',
+      'Le grandi cose iniziano con una scelta. Scegli {product} e goditi {offer}.',
+    ],
+  },
+};
+
+const Portuguese: PhraseBank = {
+  urgent: {
+    titles: ['Última Chance: {offer}!', '{offer} por Pouco Tempo!'],
+    subtitles: ['{countdown} para aproveitar {offer}!', '{validity}. Corra!', 'Não espere, {offer} não vai durar.'],
+    callsToAction: ['Reserve Já!', 'Aproveite Hoje!'],
+    descriptions: [
+      'Não perca {offer} em {product}. {validity}. Visite-nos em {location}!',
+      'O tempo está acabando para garantir {product} com {offer}. Venha antes que acabe!',
+    ],
+  },
+  elegant: {
+    titles: ['{product} Exclusivo para Você', 'A Arte de {product}'],
+    subtitles: [
+      'Qualidade superior e design inigualável esperam por você.',
+      'Requinte, agora com {offer}.',
+    ],
+    callsToAction: ['Solicite Info', 'Descubra Mais'],
+    descriptions: [
+      'Mergulhe na experiência premium de {product}. Design e qualidade juntos para você.',
+      'Presenteie-se com {product}, feito com carinho e agora com {offer}.',
+    ],
+  },
+  casual: {
+    titles: ['Não Perca {product}!', 'Ei, {offer}!'],
+    subtitles: ['Relaxe e aproveite {product}.', 'Boas vibrações e {offer} em {product}.'],
+    callsToAction: ['Experimente!', 'Passe Aqui!'],
+    descriptions: [
+      'Procurando algo diferente? {product} é perfeito para o seu dia a dia.',
+      'Passe aqui para {product} e aproveite {offer}. Simples assim.',
+    ],
+  },
+  fun: {
+    titles: ['É Festa com {product}!', '{offer}? Claro que Sim!'],
+    subtitles: [
+      'Diversão garantida com {product}.',
+      'Traga os amigos e aproveite {offer}.',
+    ],
+    callsToAction: ['Participe!', 'Bora!'],
+    descriptions: [
+      'Prepare-se para se divertir com {product}. Ideal para qualquer ocasião!',
+      'Os bons momentos ficam melhores com {product}, ainda mais com {offer}!',
+    ],
+  },
+  exclusive: {
+    titles: ['Acesso VIP a {product}', 'Só para Clientes: {offer}'],
+    subtitles: [
+      'Benefícios únicos pensados para clientes selecionados.',
+      'Uma oferta reservada em {product}, só para você.',
+    ],
+    callsToAction: ['Acesse Aqui!', 'Acesso VIP'],
+    descriptions: [
+      'Uma oportunidade única de aproveitar o melhor de {product}, reservada para poucos.',
+      'Seja um dos primeiros a aproveitar {offer} em {product}. Vagas limitadas.',
+    ],
+  },
+  friendly: {
+    titles: ['Aproveite em Família: {product}', '{product} para Todos'],
+    subtitles: [
+      'Crie memórias inesquecíveis com quem você ama.',
+      'Compartilhe {product} com {offer}.',
+    ],
+    callsToAction: ['Venha com a Gente!', 'Esperamos Você!'],
+    descriptions: [
+      'Momentos inesquecíveis esperam por você com {product}. Ideal para compartilhar em família.',
+      'Vamos adorar receber você! Aproveite {offer} em {product} com quem você ama.',
+    ],
+  },
+  informative: {
+    titles: ['{product}: O que Você Precisa Saber', 'Já Disponível: {offer}'],
+    subtitles: [
+      'Tudo o que você precisa saber antes de comprar.',
+      '{offer} em {product}. {schedule}.',
+    ],
+    callsToAction: ['Saiba Mais', 'Ligue {phone}'],
+    descriptions: [
+      'Descubra as características e vantagens de {product}, agora com {offer}.',
+      '{product} está disponível com {offer}. Encontre-nos em {location}. {schedule}.',
+    ],
+  },
+  inspiring: {
+    titles: ['Transforme seu Dia com {product}', 'Seu Momento é Agora'],
+    subtitles: [
+      'Alcance seus objetivos com {product}.',
+      'Comece algo grande com {offer}.',
+    ],
+    callsToAction: ['Comece Hoje!', 'Dê o Passo'],
+    descriptions: [
+      'Dê o próximo passo rumo aos seus sonhos com {product}.',
+      'Grandes coisas começam com uma decisão. Escolha {product} e aproveite {offer}.',
+    ],
+  },
+};
+
+export const PHRASE_BANKS: Record<string, PhraseBank> = {
+  English,
+  Spanish,
+  French,
+  German,
+  Italian,
+  Portuguese,
+};
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { FormatSpec } from '../types';
+import {
+  DEFAULT_FORMATS,
+  getFormat,
+  getFormatDpi,
+  getFormatSafeZone,
+  getFormatSize,
+  listFormats,
+  registerFormat,
+  resolveFormatId,
+  unregisterFormat,
+} from '.';
+
+const KIOSK: FormatSpec = {
+  id: 'kiosk',
+  label: 'Store kiosk screen',
+  width: 1080,
+  height: 1920,
+  dpi: 96,
+  platform: 'In-store',
+  category: 'display',
+  safeZone: { top: 100, right: 40, bottom: 200, left: 40 },
+  aliases: ['totem'],
+};
+
+describe('format registry', () => {
+  afterEach(() => {
+    unregisterFormat('kiosk');
+  });
+
+  test('ships the presets, the defaults among them', () => {
+    const ids = listFormats().map((spec) => spec.id);
+
+    expect(ids).toEqual(expect.arrayContaining(DEFAULT_FORMATS));
+    expect(listFormats('print').map((spec) => spec.id)).toContain('a4');
+    expect(getFormat('story')).toMatchObject({ width: 1080, height: 1920 });
+  });
+
+  test('resolves aliases and names in any case', () => {
+    expect(resolveFormatId('Stories')).toBe('story');
+    expect(resolveFormatId(' post ')).toBe('instagram');
+    expect(getFormat('banner').id).toBe('facebook');
+    expect(() => resolveFormatId('billboard-xl')).toThrow(
+      'unknown format "billboard-xl"'
+    );
+  });
+
+  test('registers, lists and removes custom formats', () => {
+    registerFormat(KIOSK);
+
+    expect(getFormat('totem')).toBe(KIOSK);
+    expect(listFormats('display')).toContain(KIOSK);
+    expect(listFormats().at(-1)).toBe(KIOSK);
+
+    expect(unregisterFormat('kiosk')).toBe(true);
+    expect(unregisterFormat('kiosk')).toBe(false);
+    expect(() => resolveFormatId('totem')).toThrow('unknown format');
+  });
+
+  test('refuses taken ids and aliases unless replacing', () => {
+    registerFormat(KIOSK);
+
+    expect(() => registerFormat(KIOSK)).toThrow('already registered');
+    expect(() =>
+      registerFormat({ ...KIOSK, id: 'kiosk-2', aliases: ['totem'] })
+    ).toThrow('alias "totem" of format "kiosk-2" is already used by "kiosk"');
+    expect(() =>
+      registerFormat({ ...KIOSK, id: 'square', aliases: [] })
+    ).toThrow('already registered');
+
+    const wider = registerFormat(
+      { ...KIOSK, width: 1280, aliases: [] },
+      { replace: true }
+    );
+    expect(getFormat('kiosk')).toBe(wider);
+    expect(() => resolveFormatId('totem')).toThrow('unknown format');
+  });
+
+  test('rejects invalid formats', () => {
+    expect(() => registerFormat({ ...KIOSK, id: 'Kiosk Screen' })).toThrow(
+      'lowercase letters, digits and dashes'
+    );
+    expect(() => registerFormat({ ...KIOSK, width: 0 })).toThrow(
+      'positive whole pixels'
+    );
+    expect(() =>
+      registerFormat({
+        ...KIOSK,
+        safeZone: { top: 1000, right: 0, bottom: 920, left: 0 },
+      })
+    ).toThrow('leaves no room');
+  });
+
+  test('sizes formats from config.sizes first and scales the safe zone', () => {
+    registerFormat(KIOSK);
+    const config = { sizes: { kiosk: { width: 540, height: 960 } } };
+
+    expect(getFormatSize('kiosk')).toEqual({ width: 1080, height: 1920 });
+    expect(getFormatSize('kiosk', config)).toEqual({ width: 540, height: 960 });
+    expect(getFormatSafeZone('kiosk', config)).toEqual({
+      top: 50,
+      right: 20,
+      bottom: 100,
+      left: 20,
+    });
+    expect(getFormatSafeZone('facebook')).toBeUndefined();
+  });
+
+  test('reports the resolution of presets and config-only formats', () => {
+    expect(getFormatDpi('a4')).toBe(300);
+    expect(getFormatDpi('instagram')).toBe(72);
+    expect(getFormatDpi('custom-only')).toBe(72);
+  });
+});
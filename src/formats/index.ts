@@ -0,0 +1,210 @@
+import type {
+  Dimensions,
+  FormatCategory,
+  FormatId,
+  FormatSpec,
+  PromoConfig,
+  SafeZone,
+} from '../types';
+import { FORMAT_PRESETS } from './presets';
+
+export { FORMAT_PRESETS };
+
+export const FORMAT_CATEGORIES: FormatCategory[] = [
+  'social',
+  'display',
+  'video',
+  'print',
+];
+
+/** Formats generated when none are requested. */
+export const DEFAULT_FORMATS: FormatId[] = ['facebook', 'instagram', 'story'];
+
+const formats = new Map<FormatId, FormatSpec>();
+const aliases = new Map<string, FormatId>();
+
+/**
+ * Adds a format to the registry, making it available to every renderer
+ * and to `--format`.
+ *
+ * @param spec - Format to add. Ids are lowercase letters, digits and dashes.
+ * @param options.replace - Replace a format already registered under this id.
+ * @returns The registered format.
+ * @throws Error if the format is invalid or the id or an alias is taken.
+ */
+export function registerFormat(
+  spec: FormatSpec,
+  options: { replace?: boolean } = {}
+): FormatSpec {
+  const problem = checkFormat(spec);
+  if (problem) {
+    throw new Error(
+      `❌ Configuration error: invalid format "${spec.id}": ${problem}.`
+    );
+  }
+
+  const existing = formats.get(spec.id) ?? formats.get(aliases.get(spec.id) ?? '');
+  if (existing && !(options.replace && existing.id === spec.id)) {
+    throw new Error(
+      `❌ Configuration error: format "${spec.id}" is already registered.`
+    );
+  }
+  for (const alias of spec.aliases ?? []) {
+    const owner = aliases.get(alias) ?? (formats.has(alias) ? alias : undefined);
+    if (owner && owner !== spec.id) {
+      throw new Error(
+        `❌ Configuration error: alias "${alias}" of format "${spec.id}" is already used by "${owner}".`
+      );
+    }
+  }
+
+  if (existing) {
+    unregisterFormat(existing.id);
+  }
+  formats.set(spec.id, spec);
+  for (const alias of spec.aliases ?? []) {
+    aliases.set(alias, spec.id);
+  }
+  return spec;
+}
+
+/**
+ * Removes a format (and its aliases) from the registry.
+ *
+ * @returns Whether the format was registered.
+ */
+export function unregisterFormat(id: FormatId): boolean {
+  const spec = formats.get(id);
+  if (!spec) return false;
+
+  formats.delete(id);
+  for (const alias of spec.aliases ?? []) {
+    aliases.delete(alias);
+  }
+  return true;
+}
+
+/**
+ * Registered formats in registration order, optionally of one category.
+ */
+export function listFormats(category?: FormatCategory): FormatSpec[] {
+  const all = [...formats.values()];
+  return category ? all.filter((spec) => spec.category === category) : all;
+}
+
+/**
+ * Checks a format name or alias, e.g. from the command line.
+ *
+ * @returns The id of the registered format.
+ * @throws Error if no format has this name.
+ */
+export function resolveFormatId(name: string): FormatId {
+  const normalized = name.trim().toLowerCase();
+  const id = formats.has(normalized) ? normalized : aliases.get(normalized);
+
+  if (!id) {
+    throw new Error(
+      `❌ Configuration error: unknown format "${name}". Expected one of: ${[
+        ...formats.keys(),
+      ].join(', ')}.`
+    );
+  }
+
+  return id;
+}
+
+/**
+ * Looks up a registered format by id or alias.
+ *
+ * @throws Error if no format has this name.
+ */
+export function getFormat(name: string): FormatSpec {
+  return formats.get(resolveFormatId(name))!;
+}
+
+/**
+ * Canvas size for a format: the config's `sizes` entry when it has one,
+ * otherwise the registered preset.
+ *
+ * @throws Error if the format is neither in `config.sizes` nor registered.
+ */
+export function getFormatSize(
+  format: FormatId,
+  config: Pick<PromoConfig, 'sizes'> = {}
+): Dimensions {
+  const override = config.sizes?.[format];
+  if (override) {
+    return { width: override.width, height: override.height };
+  }
+
+  const { width, height } = getFormat(format);
+  return { width, height };
+}
+
+/**
+ * Safe zone of a format at the size it is rendered at. When `config.sizes`
+ * overrides the preset's size, the insets are scaled along with it.
+ *
+ * @returns The insets, or undefined when the format has no safe zone.
+ */
+export function getFormatSafeZone(
+  format: FormatId,
+  config: Pick<PromoConfig, 'sizes'> = {}
+): SafeZone | undefined {
+  const id = formats.has(format) ? format : aliases.get(format);
+  const spec = id ? formats.get(id) : undefined;
+  if (!spec?.safeZone) return undefined;
+
+  const { width, height } = getFormatSize(format, config);
+  const scaleX = width / spec.width;
+  const scaleY = height / spec.height;
+  return {
+    top: Math.round(spec.safeZone.top * scaleY),
+    right: Math.round(spec.safeZone.right * scaleX),
+    bottom: Math.round(spec.safeZone.bottom * scaleY),
+    left: Math.round(spec.safeZone.left * scaleX),
+  };
+}
+
+/**
+ * Resolution of a format in pixels per inch: the registered preset's, or
+ * 72 for formats only given in `config.sizes`.
+ */
+export function getFormatDpi(format: FormatId): number {
+  const id = formats.has(format) ? format : aliases.get(format);
+  return (id && formats.get(id)?.dpi) || 72;
+}
+
+function checkFormat(spec: FormatSpec): string | null {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(spec.id)) {
+    return 'the id must be lowercase letters, digits and dashes';
+  }
+  if (
+    !Number.isInteger(spec.width) ||
+    !Number.isInteger(spec.height) ||
+    spec.width <= 0 ||
+    spec.height <= 0
+  ) {
+    return 'width and height must be positive whole pixels';
+  }
+  if (!(spec.dpi > 0)) {
+    return 'dpi must be positive';
+  }
+
+  const zone = spec.safeZone;
+  if (zone) {
+    const insets = [zone.top, zone.right, zone.bottom, zone.left];
+    if (insets.some((inset) => !(inset >= 0))) {
+      return 'safe zone insets must be zero or more';
+    }
+    if (zone.left + zone.right >= spec.width || zone.top + zone.bottom >= spec.height) {
+      return 'the safe zone leaves no room on the canvas';
+    }
+  }
+
+  return null;
+}
+
+for (const preset of FORMAT_PRESETS) {
+  registerFormat(preset);
+}
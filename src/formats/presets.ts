@@ -0,0 +1,243 @@
+import type { FormatSpec, SafeZone } from '../types';
+
+/** 5 mm at 300 DPI, kept clear of trimming on printed flyers. */
+const PRINT_MARGIN: SafeZone = { top: 59, right: 59, bottom: 59, left: 59 };
+
+/** 3 mm at 300 DPI, for cards too small for the full print margin. */
+const CARD_MARGIN: SafeZone = { top: 35, right: 35, bottom: 35, left: 35 };
+
+/**
+ * Formats shipped with PromoMaker. Sizes follow each platform's current
+ * recommendation; safe zones mark where its UI overlays the image.
+ */
+export const FORMAT_PRESETS: FormatSpec[] = [
+  // Social feeds
+  {
+    id: 'facebook',
+    label: 'Facebook post',
+    width: 1200,
+    height: 630,
+    dpi: 72,
+    platform: 'Facebook',
+    category: 'social',
+    aliases: ['banner'],
+  },
+  {
+    id: 'instagram',
+    label: 'Instagram square post',
+    width: 1080,
+    height: 1080,
+    dpi: 72,
+    platform: 'Instagram',
+    category: 'social',
+    aliases: ['square', 'post'],
+  },
+  {
+    id: 'instagram-portrait',
+    label: 'Instagram portrait post',
+    width: 1080,
+    height: 1350,
+    dpi: 72,
+    platform: 'Instagram',
+    category: 'social',
+  },
+  {
+    id: 'story',
+    label: 'Instagram / Facebook story',
+    width: 1080,
+    height: 1920,
+    dpi: 72,
+    platform: 'Instagram',
+    category: 'social',
+    // Profile header on top, reply bar at the bottom.
+    safeZone: { top: 250, right: 64, bottom: 340, left: 64 },
+    aliases: ['stories', 'reels'],
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn post',
+    width: 1200,
+    height: 627,
+    dpi: 72,
+    platform: 'LinkedIn',
+    category: 'social',
+  },
+  {
+    id: 'linkedin-square',
+    label: 'LinkedIn square post',
+    width: 1200,
+    height: 1200,
+    dpi: 72,
+    platform: 'LinkedIn',
+    category: 'social',
+  },
+  {
+    id: 'x',
+    label: 'X post',
+    width: 1600,
+    height: 900,
+    dpi: 72,
+    platform: 'X',
+    category: 'social',
+    aliases: ['twitter'],
+  },
+  {
+    id: 'pinterest',
+    label: 'Pinterest pin',
+    width: 1000,
+    height: 1500,
+    dpi: 72,
+    platform: 'Pinterest',
+    category: 'social',
+  },
+  {
+    id: 'whatsapp-status',
+    label: 'WhatsApp status',
+    width: 1080,
+    height: 1920,
+    dpi: 72,
+    platform: 'WhatsApp',
+    category: 'social',
+    // Contact name on top, reply field at the bottom.
+    safeZone: { top: 180, right: 48, bottom: 240, left: 48 },
+  },
+
+  // Video
+  {
+    id: 'youtube-thumbnail',
+    label: 'YouTube thumbnail',
+    width: 1280,
+    height: 720,
+    dpi: 72,
+    platform: 'YouTube',
+    category: 'video',
+  },
+
+  // IAB display ads
+  {
+    id: 'iab-medium-rectangle',
+    label: 'Medium rectangle (300x250)',
+    width: 300,
+    height: 250,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-large-rectangle',
+    label: 'Large rectangle (336x280)',
+    width: 336,
+    height: 280,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-leaderboard',
+    label: 'Leaderboard (728x90)',
+    width: 728,
+    height: 90,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-half-page',
+    label: 'Half page (300x600)',
+    width: 300,
+    height: 600,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-wide-skyscraper',
+    label: 'Wide skyscraper (160x600)',
+    width: 160,
+    height: 600,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-billboard',
+    label: 'Billboard (970x250)',
+    width: 970,
+    height: 250,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+  {
+    id: 'iab-mobile-banner',
+    label: 'Mobile banner (320x50)',
+    width: 320,
+    height: 50,
+    dpi: 72,
+    platform: 'IAB',
+    category: 'display',
+  },
+
+  // Print
+  {
+    id: 'a4',
+    label: 'A4 flyer',
+    width: 2480,
+    height: 3508,
+    dpi: 300,
+    platform: 'ISO 216',
+    category: 'print',
+    safeZone: PRINT_MARGIN,
+  },
+  {
+    id: 'a5',
+    label: 'A5 flyer',
+    width: 1748,
+    height: 2480,
+    dpi: 300,
+    platform: 'ISO 216',
+    category: 'print',
+    safeZone: PRINT_MARGIN,
+  },
+  {
+    id: 'a6',
+    label: 'A6 flyer',
+    width: 1240,
+    height: 1748,
+    dpi: 300,
+    platform: 'ISO 216',
+    category: 'print',
+    safeZone: PRINT_MARGIN,
+  },
+  {
+    id: 'dl',
+    label: 'DL flyer (99 x 210 mm)',
+    width: 1169,
+    height: 2480,
+    dpi: 300,
+    platform: 'DIN 676',
+    category: 'print',
+    safeZone: PRINT_MARGIN,
+  },
+  {
+    id: 'business-card',
+    label: 'Business card (85 x 55 mm)',
+    width: 1004,
+    height: 650,
+    dpi: 300,
+    platform: 'EU',
+    category: 'print',
+    safeZone: CARD_MARGIN,
+    aliases: ['card'],
+  },
+  {
+    id: 'letter',
+    label: 'US Letter flyer',
+    width: 2550,
+    height: 3300,
+    dpi: 300,
+    platform: 'ANSI',
+    category: 'print',
+    safeZone: PRINT_MARGIN,
+  },
+];
@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import sharp from 'sharp';
+import { Imposer } from './Imposer';
+import { planSheet } from './layout';
+
+const CARD = { width: 85, height: 55 };
+
+describe('planSheet', () => {
+  test('turns business cards to fit nine on A4', () => {
+    const layout = planSheet(CARD, { sheet: 'a4' });
+
+    expect(layout.slots).toHaveLength(9);
+    expect([layout.columns, layout.rows]).toEqual([3, 3]);
+    expect(layout.orientation).toBe('portrait');
+    expect(layout.rotated).toBe(true);
+  });
+
+  test('turns the sheet instead when flyers stay upright', () => {
+    const layout = planSheet(CARD, { sheet: 'a4', rotate: false });
+
+    expect(layout.slots).toHaveLength(9);
+    expect(layout.orientation).toBe('landscape');
+    expect(layout.rotated).toBe(false);
+  });
+
+  test('fits more A6 flyers without margins', () => {
+    const a6 = { width: 105, height: 148 };
+
+    expect(planSheet(a6, { sheet: 'a4' }).slots).toHaveLength(2);
+    expect(
+      planSheet(a6, { sheet: 'a4', margin: 0, gutter: 0 }).slots
+    ).toHaveLength(4);
+  });
+
+  test('rejects flyers larger than the sheet', () => {
+    expect(() =>
+      planSheet({ width: 420, height: 594 }, { sheet: 'a4' })
+    ).toThrow('does not fit on A4');
+  });
+});
+
+describe('Imposer', () => {
+  let dir: string;
+  const names = [
+    'flyer_1_fun_business-card',
+    'flyer_2_fun_business-card',
+    'flyer_3_fun_business-card',
+  ];
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'imposer-'));
+    for (const [index, name] of names.entries()) {
+      await sharp({
+        create: {
+          width: 100,
+          height: 65,
+          channels: 3,
+          background: { r: index * 100, g: 0, b: 0 },
+        },
+      })
+        .png()
+        .toFile(join(dir, `${name}.png`));
+    }
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const impose = (mode: 'repeat' | 'mixed', copies?: number) =>
+    new Imposer().impose([dir], {
+      sheet: 'a4',
+      mode,
+      copies,
+      encodings: ['png'],
+      dpi: 72,
+      outputDir: join(dir, `sheets-${mode}`),
+    });
+
+  test('fills a sheet with each flyer in repeat mode', async () => {
+    const sheets = await impose('repeat');
+
+    expect(sheets).toHaveLength(3);
+    for (const [index, sheet] of sheets.entries()) {
+      expect(sheet.flyers).toHaveLength(9);
+      expect(
+        new Set(sheet.flyers.map((file) => basename(file, '.png')))
+      ).toEqual(new Set([names[index]!]));
+    }
+  });
+
+  test('takes the flyers in turn in mixed mode', async () => {
+    const sheets = await impose('mixed', 4);
+
+    expect(sheets.map((sheet) => sheet.flyers.length)).toEqual([9, 3]);
+    const order = sheets
+      .flatMap((sheet) => sheet.flyers)
+      .map((file) => basename(file, '.png'));
+    expect(order).toEqual([...names, ...names, ...names, ...names]);
+    expect(sheets[0]!.files).toEqual([
+      join(dir, 'sheets-mixed', 'sheet_1_business-card_a4.png'),
+    ]);
+  });
+});
@@ -0,0 +1,460 @@
+import { mkdir, readdir, stat, writeFile } from 'fs/promises';
+import { extname, join, parse as parsePath } from 'path';
+import sharp from 'sharp';
+import { consola } from 'consola';
+import { getFormat, listFormats, resolveFormatId } from '../formats';
+import { PrintExporter, validatePrintOptions, type MarkLine } from '../print';
+import type { FormatId, FormatSpec } from '../types';
+import {
+  SHEET_ORIENTATIONS,
+  SHEET_SIZES,
+  cutMarks,
+  planSheet,
+  type SheetLayout,
+  type SheetLayoutOptions,
+} from './layout';
+
+/**
+ * 'repeat' fills sheets with copies of one flyer (step and repeat);
+ * 'mixed' puts different flyers side by side.
+ */
+export type ImpositionMode = 'repeat' | 'mixed';
+
+/** File types a sheet is written as. */
+export type SheetEncoding = 'pdf' | 'png';
+
+export const IMPOSITION_MODES: ImpositionMode[] = ['repeat', 'mixed'];
+export const SHEET_ENCODINGS: SheetEncoding[] = ['pdf', 'png'];
+
+/** Image types flyers are read from, best first when a flyer has several. */
+const FLYER_EXTENSIONS = ['.svg', '.png', '.webp', '.avif', '.jpg', '.jpeg'];
+
+/** Line width of the cut marks, in points. */
+const MARK_WIDTH = 0.25;
+
+export interface ImpositionOptions extends SheetLayoutOptions {
+  /** Default: 'repeat'. */
+  mode?: ImpositionMode;
+  /**
+   * Format of the flyers to impose. Needed when the inputs hold several,
+   * or when file names don't end in a format id.
+   */
+  format?: FormatId;
+  /**
+   * Copies of each flyer. Default: a full sheet of each in 'repeat' mode,
+   * one of each in 'mixed' mode.
+   */
+  copies?: number;
+  /** Default: true. */
+  cutMarks?: boolean;
+  /** Default: both PDF and PNG. */
+  encodings?: SheetEncoding[];
+  /** CMYK profile for the PDF: a file, or 'cmyk' for sharp's (default). */
+  iccProfile?: string;
+  /** Pixels per inch of the sheets (default: 300). */
+  dpi?: number;
+  /** Default: './output_flyers/sheets'. */
+  outputDir?: string;
+}
+
+/** A written print sheet. */
+export interface ImposedSheet {
+  /** Files written, one per encoding. */
+  files: string[];
+  /** Flyer image in each filled slot, in order. */
+  flyers: string[];
+  layout: SheetLayout;
+}
+
+/** A flyer image resized for its slot. */
+interface Tile {
+  data: Buffer;
+  width: number;
+  height: number;
+  /** Bleed kept around the trim, in millimeters. */
+  bleed: number;
+}
+
+/**
+ * Checks imposition options: a known sheet size, orientation, mode and
+ * encodings, non-negative spacing, a positive number of copies and a
+ * usable ICC profile.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateImpositionOptions(options: ImpositionOptions): void {
+  if (!(options.sheet in SHEET_SIZES)) {
+    throw new Error(
+      `❌ Configuration error: unknown sheet size "${options.sheet}". Expected one of: ${Object.keys(SHEET_SIZES).join(', ')}.`
+    );
+  }
+  if (options.mode && !IMPOSITION_MODES.includes(options.mode)) {
+    throw new Error(
+      `❌ Configuration error: unknown imposition mode "${options.mode}". Expected one of: ${IMPOSITION_MODES.join(', ')}.`
+    );
+  }
+  if (
+    options.orientation &&
+    !SHEET_ORIENTATIONS.includes(options.orientation)
+  ) {
+    throw new Error(
+      `❌ Configuration error: unknown sheet orientation "${options.orientation}". Expected one of: ${SHEET_ORIENTATIONS.join(', ')}.`
+    );
+  }
+  for (const key of ['gutter', 'margin'] as const) {
+    const value = options[key];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new Error(
+        `❌ Configuration error: the ${key} must be 0 or more millimeters, got ${value}.`
+      );
+    }
+  }
+  const { copies, dpi, encodings } = options;
+  if (copies !== undefined && !(Number.isInteger(copies) && copies > 0)) {
+    throw new Error(
+      `❌ Configuration error: copies must be a positive whole number, got ${copies}.`
+    );
+  }
+  if (
+    dpi !== undefined &&
+    !(Number.isFinite(dpi) && dpi >= 72 && dpi <= 1200)
+  ) {
+    throw new Error(
+      `❌ Configuration error: the sheet resolution must be from 72 to 1200 DPI, got ${dpi}.`
+    );
+  }
+  const unknown = encodings?.find(
+    (encoding) => !SHEET_ENCODINGS.includes(encoding)
+  );
+  if (encodings?.length === 0 || unknown) {
+    throw new Error(
+      `❌ Configuration error: sheets are written as ${SHEET_ENCODINGS.join(' and ')}, got "${unknown ?? ''}".`
+    );
+  }
+  validatePrintOptions({ iccProfile: options.iccProfile });
+}
+
+/**
+ * Lays out generated flyers on larger print sheets, several to a sheet
+ * with gutters and cut marks, for print shops that print small flyers
+ * (A6, DL, business cards) on A4 or A3 paper. Sheets are written as a CMYK
+ * PDF (see `PrintExporter`) and a PNG proof.
+ *
+ * Flyers are read from SVG or raster images named like the generator's
+ * output (`flyer_1_fun_a6.svg`), which gives their format and trim size.
+ * Images drawn with a bleed (the SVG kept next to a print PDF) keep as
+ * much of it as fits in half the gutter.
+ */
+export class Imposer {
+  private printExporter = new PrintExporter();
+
+  /**
+   * Imposes flyers onto sheets and writes them.
+   *
+   * @param inputs - Flyer images, or folders of them (e.g. output_flyers).
+   * @param options - Sheet, mode, spacing and output.
+   * @returns The sheets written, in order.
+   * @throws Error if the options are invalid, no flyers are found, they
+   * come in several formats, or one does not fit on the sheet.
+   */
+  async impose(
+    inputs: string[],
+    options: ImpositionOptions
+  ): Promise<ImposedSheet[]> {
+    validateImpositionOptions(options);
+    const { format, files } = await this.collectFlyers(inputs, options.format);
+    const spec = getFormat(format);
+    const trim = {
+      width: (spec.width / spec.dpi) * 25.4,
+      height: (spec.height / spec.dpi) * 25.4,
+    };
+    const layout = planSheet(trim, options);
+    const perSheet = layout.slots.length;
+    consola.info(
+      `📐 ${perSheet} ${format} flyer${perSheet === 1 ? '' : 's'} per ${options.sheet.toUpperCase()} sheet (${layout.columns} x ${layout.rows}, ${layout.orientation}${layout.rotated ? ', turned' : ''})`
+    );
+
+    const marks = options.cutMarks === false ? [] : cutMarks(layout);
+    if (options.cutMarks !== false && marks.length === 0) {
+      consola.warn(
+        '⚠️ The margins leave no room for cut marks; the sheets have none.'
+      );
+    }
+
+    // Which flyer goes in each slot of each sheet. Mixed sheets take the
+    // flyers in turn, so copies of one are spread across the sheets.
+    const pages: string[][] =
+      options.mode === 'mixed'
+        ? chunk(
+            Array.from({ length: options.copies ?? 1 }, () => files).flat(),
+            perSheet
+          )
+        : files.flatMap((file) =>
+            chunk(Array(options.copies ?? perSheet).fill(file), perSheet)
+          );
+
+    const dpi = options.dpi ?? 300;
+    const outputDir = options.outputDir ?? './output_flyers/sheets';
+    const encodings = options.encodings ?? SHEET_ENCODINGS;
+    await mkdir(outputDir, { recursive: true });
+
+    const tiles = new Map<string, Promise<Tile>>();
+    const sheets: ImposedSheet[] = [];
+    for (const [index, flyers] of pages.entries()) {
+      const pixels = await this.renderSheet(
+        flyers.map((file) => {
+          let tile = tiles.get(file);
+          if (!tile) {
+            tile = this.loadTile(file, spec, layout, dpi);
+            tiles.set(file, tile);
+          }
+          return tile;
+        }),
+        layout,
+        dpi
+      );
+
+      const name = `sheet_${index + 1}_${format}_${options.sheet}`;
+      const written: string[] = [];
+      for (const encoding of encodings) {
+        const path = join(outputDir, `${name}.${encoding}`);
+        if (encoding === 'pdf') {
+          await writeFile(
+            path,
+            await this.printExporter.exportSheet(
+              pixels.clone(),
+              dpi,
+              marks,
+              options.iccProfile
+            )
+          );
+        } else {
+          await pixels
+            .clone()
+            .composite([
+              { input: Buffer.from(this.marksSvg(marks, layout, dpi)) },
+            ])
+            .withMetadata({ density: dpi })
+            .png()
+            .toFile(path);
+        }
+        written.push(path);
+      }
+
+      consola.success(
+        `✅ Sheet ${index + 1}/${pages.length}: ${flyers.length} flyer${flyers.length === 1 ? '' : 's'} → ${written.join(', ')}`
+      );
+      sheets.push({ files: written, flyers, layout });
+    }
+    return sheets;
+  }
+
+  /**
+   * Flyer images in the inputs, one per flyer, with the format they share.
+   * Files are taken in name order; a flyer saved in several types is read
+   * from the best one (SVG first).
+   */
+  private async collectFlyers(
+    inputs: string[],
+    format?: FormatId
+  ): Promise<{ format: FormatId; files: string[] }> {
+    const wanted = format && resolveFormatId(format);
+    // Longest ids first, so "instagram-portrait" wins over "instagram".
+    const ids = listFormats()
+      .map((spec) => spec.id)
+      .sort((a, b) => b.length - a.length);
+    const formatOf = (file: string) =>
+      ids.find((id) => parsePath(file).name.endsWith(`_${id}`));
+
+    const candidates: Array<{ file: string; format?: FormatId }> = [];
+    for (const input of inputs) {
+      const info = await stat(input).catch(() => undefined);
+      if (!info) {
+        throw new Error(`❌ Configuration error: ${input} does not exist.`);
+      }
+      if (info.isDirectory()) {
+        const names = (await readdir(input)).sort((a, b) =>
+          a.localeCompare(b, undefined, { numeric: true })
+        );
+        for (const name of names) {
+          if (FLYER_EXTENSIONS.includes(extname(name).toLowerCase())) {
+            candidates.push({
+              file: join(input, name),
+              format: formatOf(name),
+            });
+          }
+        }
+      } else {
+        // Files named on purpose may leave their format to `format`.
+        candidates.push({ file: input, format: formatOf(input) ?? wanted });
+      }
+    }
+
+    const best = new Map<string, { file: string; format: FormatId }>();
+    for (const { file, format: found } of candidates) {
+      if (!found || (wanted && found !== wanted)) {
+        continue;
+      }
+      const { dir, name, ext } = parsePath(file);
+      const rank = (path: string) =>
+        FLYER_EXTENSIONS.indexOf(extname(path).toLowerCase());
+      if (rank(file) === -1) {
+        throw new Error(
+          `❌ Configuration error: ${file} is not a flyer image (${ext || 'no extension'}). Use SVG, PNG, WebP, AVIF or JPEG.`
+        );
+      }
+      const key = join(dir, name);
+      const current = best.get(key);
+      if (!current || rank(file) < rank(current.file)) {
+        best.set(key, { file, format: found });
+      }
+    }
+
+    const flyers = [...best.values()];
+    if (flyers.length === 0) {
+      throw new Error(
+        `❌ Configuration error: no ${wanted ? `${wanted} ` : ''}flyer images found in ${inputs.join(', ')}. Sheets are made from SVG, PNG, WebP, AVIF or JPEG flyers; keep the SVG of print PDFs with --keep-svg.`
+      );
+    }
+    const formats = [...new Set(flyers.map((flyer) => flyer.format))];
+    if (formats.length > 1) {
+      throw new Error(
+        `❌ Configuration error: found flyers in several formats (${formats.join(', ')}). Choose one to impose.`
+      );
+    }
+    return { format: formats[0]!, files: flyers.map((flyer) => flyer.file) };
+  }
+
+  /**
+   * Reads a flyer image and sizes it for a slot. An image larger than its
+   * format by the same amount on each side was drawn with a bleed; up to
+   * half the gutter of it is kept.
+   */
+  private async loadTile(
+    file: string,
+    spec: FormatSpec,
+    layout: SheetLayout,
+    dpi: number
+  ): Promise<Tile> {
+    const image = sharp(file).flatten({ background: '#ffffff' });
+    const { width = spec.width, height = spec.height } = await image.metadata();
+
+    // Bleed in source pixels, when the image has one.
+    const extraX = (width - spec.width) / 2;
+    const extraY = (height - spec.height) / 2;
+    const sourceBleed =
+      extraX > 0 && Math.abs(extraX - extraY) <= 1
+        ? Math.min(extraX, extraY)
+        : 0;
+    const pixelsPerMm = spec.dpi / 25.4;
+    const bleed = Math.min(sourceBleed / pixelsPerMm, layout.gutter / 2);
+
+    const keep = Math.round(bleed * pixelsPerMm);
+    const trimmed =
+      sourceBleed > 0
+        ? image.extract({
+            left: Math.round(sourceBleed) - keep,
+            top: Math.round(sourceBleed) - keep,
+            width: spec.width + keep * 2,
+            height: spec.height + keep * 2,
+          })
+        : image;
+
+    const { width: slotWidth, height: slotHeight } = layout.item;
+    const toPixels = (mm: number) => Math.round((mm / 25.4) * dpi);
+    const target = {
+      width: toPixels(slotWidth + bleed * 2),
+      height: toPixels(slotHeight + bleed * 2),
+    };
+    const upright = await trimmed
+      .resize(
+        layout.rotated ? target.height : target.width,
+        layout.rotated ? target.width : target.height,
+        { fit: 'fill' }
+      )
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    if (!layout.rotated) {
+      const { data, info } = upright;
+      return { data, width: info.width, height: info.height, bleed };
+    }
+
+    // sharp can't rotate after an extract in the same pipeline.
+    const { data, info } = await sharp(upright.data, {
+      raw: {
+        width: upright.info.width,
+        height: upright.info.height,
+        channels: 3,
+      },
+    })
+      .rotate(90)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height, bleed };
+  }
+
+  /** The sheet with its flyers, as raw pixels to encode. */
+  private async renderSheet(
+    tiles: Array<Promise<Tile>>,
+    layout: SheetLayout,
+    dpi: number
+  ): Promise<sharp.Sharp> {
+    const toPixels = (mm: number) => Math.round((mm / 25.4) * dpi);
+    const composites = await Promise.all(
+      tiles.map(async (pending, index) => {
+        const tile = await pending;
+        const slot = layout.slots[index]!;
+        return {
+          input: tile.data,
+          raw: { width: tile.width, height: tile.height, channels: 3 as const },
+          left: toPixels(slot.x - tile.bleed),
+          top: toPixels(slot.y - tile.bleed),
+        };
+      })
+    );
+
+    const { data, info } = await sharp({
+      create: {
+        width: toPixels(layout.width),
+        height: toPixels(layout.height),
+        channels: 3,
+        background: '#ffffff',
+      },
+    })
+      .composite(composites)
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return sharp(data, {
+      raw: { width: info.width, height: info.height, channels: 3 },
+    });
+  }
+
+  /** Cut marks as an SVG overlay for the PNG proof. */
+  private marksSvg(
+    marks: MarkLine[],
+    layout: SheetLayout,
+    dpi: number
+  ): string {
+    const scale = dpi / 25.4;
+    const width = Math.round(layout.width * scale);
+    const height = Math.round(layout.height * scale);
+    const stroke = Math.max(1, (MARK_WIDTH / 72) * dpi);
+    const lines = marks.map(
+      ([x1, y1, x2, y2]) =>
+        `<line x1="${x1 * scale}" y1="${y1 * scale}" x2="${x2 * scale}" y2="${y2 * scale}"/>`
+    );
+    return `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <g stroke="#000000" stroke-width="${stroke}">${lines.join('')}</g>
+</svg>`;
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,22 @@
+export {
+  IMPOSITION_MODES,
+  Imposer,
+  SHEET_ENCODINGS,
+  validateImpositionOptions,
+  type ImposedSheet,
+  type ImpositionMode,
+  type ImpositionOptions,
+  type SheetEncoding,
+} from './Imposer';
+export {
+  DEFAULT_GUTTER,
+  DEFAULT_MARGIN,
+  SHEET_ORIENTATIONS,
+  SHEET_SIZES,
+  cutMarks,
+  planSheet,
+  type SheetLayout,
+  type SheetLayoutOptions,
+  type SheetOrientation,
+  type SheetSize,
+} from './layout';
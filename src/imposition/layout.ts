@@ -0,0 +1,213 @@
+import type { MarkLine } from '../print';
+import type { Dimensions } from '../types';
+
+/** Paper a print shop feeds through the press. */
+export type SheetSize = 'a4' | 'a3' | 'sra3' | 'letter' | 'tabloid';
+
+export type SheetOrientation = 'portrait' | 'landscape' | 'auto';
+
+export const SHEET_ORIENTATIONS: SheetOrientation[] = [
+  'portrait',
+  'landscape',
+  'auto',
+];
+
+/** Sheet sizes in millimeters, portrait. */
+export const SHEET_SIZES: Record<SheetSize, Dimensions> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  sra3: { width: 320, height: 450 },
+  letter: { width: 215.9, height: 279.4 },
+  tabloid: { width: 279.4, height: 431.8 },
+};
+
+/** Space between neighbouring flyers, in millimeters. */
+export const DEFAULT_GUTTER = 4;
+
+/** Space kept clear at the sheet's edges, in millimeters. */
+export const DEFAULT_MARGIN = 8;
+
+/** Cut marks start this far from the flyers, in millimeters... */
+const MARK_GAP = 1;
+/** ...are at most this long... */
+const MARK_LENGTH = 5;
+/** ...and shorter ones than this are left out. */
+const MIN_MARK_LENGTH = 2;
+/** Paper kept between the marks and the sheet's edge, in millimeters. */
+const MARK_MARGIN = 1;
+
+/** How flyers are arranged on a sheet. */
+export interface SheetLayoutOptions {
+  sheet: SheetSize;
+  /** 'auto' picks the orientation that fits the most flyers (default). */
+  orientation?: SheetOrientation;
+  /** Millimeters between flyers (default: 4). */
+  gutter?: number;
+  /** Millimeters kept clear at the sheet's edges (default: 8). */
+  margin?: number;
+  /** Turn flyers a quarter turn when more fit that way (default: true). */
+  rotate?: boolean;
+}
+
+/** A grid of flyers on a sheet, in millimeters from its top-left corner. */
+export interface SheetLayout {
+  width: number;
+  height: number;
+  orientation: Exclude<SheetOrientation, 'auto'>;
+  columns: number;
+  rows: number;
+  /** Size of a flyer as placed, after turning. */
+  item: Dimensions;
+  /** Whether flyers are turned a quarter turn. */
+  rotated: boolean;
+  gutter: number;
+  /** Top-left corner of each flyer, row by row. */
+  slots: Array<{ x: number; y: number }>;
+}
+
+/**
+ * Finds the grid that fits the most flyers of a trim size on a sheet,
+ * trying both sheet orientations and both ways round for the flyer. Ties
+ * keep the sheet portrait and the flyer upright. The grid is centered.
+ *
+ * @param item - Trim size of a flyer in millimeters.
+ * @throws Error if not even one flyer fits inside the margins.
+ */
+export function planSheet(
+  item: Dimensions,
+  options: SheetLayoutOptions
+): SheetLayout {
+  const sheet = SHEET_SIZES[options.sheet];
+  const gutter = options.gutter ?? DEFAULT_GUTTER;
+  const margin = options.margin ?? DEFAULT_MARGIN;
+  const orientations: Array<SheetLayout['orientation']> =
+    options.orientation === 'portrait' || options.orientation === 'landscape'
+      ? [options.orientation]
+      : ['portrait', 'landscape'];
+  // Square flyers gain nothing from turning.
+  const turns =
+    options.rotate === false || item.width === item.height
+      ? [false]
+      : [false, true];
+
+  let best: SheetLayout | undefined;
+  for (const orientation of orientations) {
+    const [width, height] =
+      orientation === 'portrait'
+        ? [sheet.width, sheet.height]
+        : [sheet.height, sheet.width];
+    for (const rotated of turns) {
+      const placed = rotated
+        ? { width: item.height, height: item.width }
+        : item;
+      const columns = fit(width - margin * 2, placed.width, gutter);
+      const rows = fit(height - margin * 2, placed.height, gutter);
+      if (best && columns * rows <= best.columns * best.rows) {
+        continue;
+      }
+
+      const x0 = (width - (columns * (placed.width + gutter) - gutter)) / 2;
+      const y0 = (height - (rows * (placed.height + gutter) - gutter)) / 2;
+      const slots = [];
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          slots.push({
+            x: x0 + column * (placed.width + gutter),
+            y: y0 + row * (placed.height + gutter),
+          });
+        }
+      }
+      best = {
+        width,
+        height,
+        orientation,
+        columns,
+        rows,
+        item: placed,
+        rotated,
+        gutter,
+        slots,
+      };
+    }
+  }
+
+  if (!best || best.slots.length === 0) {
+    throw new Error(
+      `❌ Configuration error: a ${mm(item.width)} x ${mm(item.height)} mm flyer does not fit on ${options.sheet.toUpperCase()} with ${mm(margin)} mm margins. Use a larger sheet or smaller margins.`
+    );
+  }
+  return best;
+}
+
+/**
+ * Cut marks for a sheet: a short line in the margin, in line with each
+ * edge of each column and row of flyers. Sides where the margin leaves no
+ * room for a mark get none.
+ *
+ * @returns Lines in millimeters from the sheet's top-left corner.
+ */
+export function cutMarks(layout: SheetLayout): MarkLine[] {
+  const { slots, item } = layout;
+  const first = slots[0]!;
+  const last = slots[slots.length - 1]!;
+  const left = first.x;
+  const top = first.y;
+  const right = last.x + item.width;
+  const bottom = last.y + item.height;
+  const length = (space: number) => {
+    const available = Math.min(MARK_LENGTH, space - MARK_GAP - MARK_MARGIN);
+    return available >= MIN_MARK_LENGTH ? available : 0;
+  };
+  const vertical = length(top);
+  const horizontal = length(left);
+
+  // Without a gutter, neighbouring flyers share a cut.
+  const edges = (starts: number[], size: number) =>
+    [...new Set(starts.flatMap((at) => [at, at + size].map(round)))].sort(
+      (a, b) => a - b
+    );
+  const xs = edges(
+    slots.slice(0, layout.columns).map((slot) => slot.x),
+    item.width
+  );
+  const ys = edges(
+    slots
+      .filter((_, index) => index % layout.columns === 0)
+      .map((slot) => slot.y),
+    item.height
+  );
+
+  const lines: MarkLine[] = [];
+  if (vertical > 0) {
+    for (const x of xs) {
+      lines.push(
+        [x, top - MARK_GAP, x, top - MARK_GAP - vertical],
+        [x, bottom + MARK_GAP, x, bottom + MARK_GAP + vertical]
+      );
+    }
+  }
+  if (horizontal > 0) {
+    for (const y of ys) {
+      lines.push(
+        [left - MARK_GAP, y, left - MARK_GAP - horizontal, y],
+        [right + MARK_GAP, y, right + MARK_GAP + horizontal, y]
+      );
+    }
+  }
+  return lines;
+}
+
+/** How many items fit in a length, with gutters between them. */
+function fit(length: number, size: number, gutter: number): number {
+  // The epsilon absorbs rounding in sizes converted from pixels.
+  return Math.max(0, Math.floor((length + gutter + 1e-6) / (size + gutter)));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Millimeters for messages, to a tenth. */
+function mm(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
@@ -0,0 +1,220 @@
+import opentype, { type Font } from 'opentype.js';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { basename, extname, join } from 'path';
+import { consola } from 'consola';
+import { EstimatedTextMeasurer, type TextMeasurer } from './TextFitter';
+
+/** Families tried in order when no font is configured explicitly. */
+export const PREFERRED_FONT_FAMILIES = [
+  'Arial',
+  'Liberation Sans',
+  'Helvetica',
+  'DejaVu Sans',
+  'Noto Sans',
+  'Roboto',
+  'Open Sans',
+  'Lato',
+];
+
+const SYSTEM_FONT_DIRS = [
+  '/usr/share/fonts',
+  '/usr/local/share/fonts',
+  join(homedir(), '.fonts'),
+  join(homedir(), '.local/share/fonts'),
+  '/Library/Fonts',
+  '/System/Library/Fonts',
+  join(homedir(), 'Library/Fonts'),
+  'C:\\Windows\\Fonts',
+];
+
+export interface FontFiles {
+  regular: string;
+  bold?: string;
+}
+
+/** Entries of a font's name table, by platform in some opentype.js versions. */
+interface FontNames {
+  fontFamily?: { en?: string };
+  windows?: { fontFamily?: { en?: string } };
+  macintosh?: { fontFamily?: { en?: string } };
+}
+
+export interface FontMetricsOptions {
+  /** Explicit font files; otherwise PROMOMAKER_FONT_REGULAR/BOLD or discovery. */
+  files?: FontFiles;
+  /** Extra directories to search (PROMOMAKER_FONT_DIR is always searched first). */
+  dirs?: string[];
+}
+
+/**
+ * Measures text with the advance widths and kerning of real font files.
+ * Glyphs missing from the font (and the whole text, when no font file can be
+ * found) fall back to the estimated measurer.
+ */
+export class FontMetricsMeasurer implements TextMeasurer {
+  /** Family name to use in SVG so the renderer picks the measured font. */
+  readonly family: string;
+  private regular?: Font;
+  private bold?: Font;
+  private fallback = new EstimatedTextMeasurer();
+
+  constructor(options: FontMetricsOptions = {}) {
+    const files = options.files ?? this.findFontFiles(options.dirs ?? []);
+
+    if (files) {
+      this.regular = this.load(files.regular);
+      this.bold = files.bold ? this.load(files.bold) : undefined;
+    }
+
+    this.family = this.regular
+      ? this.familyName(this.regular) ?? this.familyOf(files!.regular)
+      : 'Arial';
+
+    if (!this.regular) {
+      consola.debug(
+        'No font file found for text metrics, using estimated glyph widths.'
+      );
+    }
+  }
+
+  /** True when measurements come from a font file rather than estimates. */
+  get hasFontFile(): boolean {
+    return this.regular !== undefined;
+  }
+
+  measure(text: string, fontSize: number, bold: boolean = false): number {
+    const font = (bold && this.bold) || this.regular;
+    if (!font) {
+      return this.fallback.measure(text, fontSize, bold);
+    }
+
+    // Sum advances and pair kerning directly; opentype.js' shaping path
+    // throws on some GSUB tables, and plain advances are what librsvg uses.
+    const scale = fontSize / font.unitsPerEm;
+    let width = 0;
+    let previous: opentype.Glyph | undefined;
+
+    for (const char of text) {
+      if (font.charToGlyphIndex(char) === 0) {
+        // Missing from the font: the renderer will substitute another font.
+        width += this.fallback.measure(char, fontSize, bold);
+        previous = undefined;
+        continue;
+      }
+
+      const glyph = font.charToGlyph(char);
+      width += (glyph.advanceWidth ?? 0) * scale;
+      if (previous) {
+        width += font.getKerningValue(previous, glyph) * scale;
+      }
+      previous = glyph;
+    }
+
+    // A regular face emboldened by the renderer is slightly wider.
+    return bold && !this.bold ? width * 1.05 : width;
+  }
+
+  /**
+   * Family name from the font's name table; opentype.js nests it per
+   * platform in some versions.
+   */
+  private familyName(font: Font): string | undefined {
+    const names: FontNames = font.names;
+    return (
+      names.fontFamily?.en ??
+      names.windows?.fontFamily?.en ??
+      names.macintosh?.fontFamily?.en
+    );
+  }
+
+  private load(path: string): Font | undefined {
+    try {
+      const data = readFileSync(path);
+      return opentype.parse(
+        data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+      );
+    } catch (error) {
+      consola.warn(`⚠️ Could not load font '${path}':`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Looks for a regular/bold pair, first in the configured directories
+   * (any family, preferred ones first), then in the system font folders.
+   */
+  private findFontFiles(extraDirs: string[]): FontFiles | undefined {
+    const envRegular = process.env.PROMOMAKER_FONT_REGULAR;
+    if (envRegular) {
+      return { regular: envRegular, bold: process.env.PROMOMAKER_FONT_BOLD };
+    }
+
+    const configuredDirs = [
+      ...(process.env.PROMOMAKER_FONT_DIR
+        ? [process.env.PROMOMAKER_FONT_DIR]
+        : []),
+      ...extraDirs,
+    ];
+    const configured = configuredDirs.flatMap((dir) => this.listFonts(dir));
+    if (configured.length > 0) {
+      const found = this.pickFamily(configured, [
+        ...PREFERRED_FONT_FAMILIES,
+        ...configured.map((file) => this.familyOf(file)),
+      ]);
+      if (found) return found;
+    }
+
+    return this.pickFamily(
+      SYSTEM_FONT_DIRS.flatMap((dir) => this.listFonts(dir)),
+      PREFERRED_FONT_FAMILIES
+    );
+  }
+
+  private pickFamily(
+    files: string[],
+    families: string[]
+  ): FontFiles | undefined {
+    const styleOf = (file: string) =>
+      this.normalize(basename(file, extname(file)));
+
+    for (const family of families) {
+      const key = this.normalize(family);
+      const regular = files.find((file) =>
+        [key, `${key}regular`, `${key}book`].includes(styleOf(file))
+      );
+      if (!regular) continue;
+
+      const bold = files.find((file) =>
+        [`${key}bold`, `${key}bd`].includes(styleOf(file))
+      );
+      return { regular, bold };
+    }
+
+    return undefined;
+  }
+
+  private familyOf(file: string): string {
+    return basename(file, extname(file)).split('-')[0] ?? '';
+  }
+
+  private normalize(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]/g, '');
+  }
+
+  private listFonts(dir: string, depth: number = 0): string[] {
+    if (depth > 3 || !existsSync(dir)) return [];
+
+    try {
+      return readdirSync(dir).flatMap((entry) => {
+        const path = join(dir, entry);
+        if (statSync(path).isDirectory()) {
+          return this.listFonts(path, depth + 1);
+        }
+        return /\.(ttf|otf)$/i.test(entry) ? [path] : [];
+      });
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import type { TextFitter, TextMeasurer } from './TextFitter';
+import type {
+  InfoField,
+  InfoFieldToggles,
+  InfoItem,
+  PromoConfig,
+  SafeZone,
+} from '../types';
+
+/** Display order of the info block. */
+export const INFO_FIELDS: InfoField[] = [
+  'offer',
+  'validity',
+  'location',
+  'phone',
+  'schedule',
+];
+
+/**
+ * How the items are arranged: a single compact row on landscape canvases,
+ * two columns on square ones and a stacked list on tall ones.
+ */
+export type InfoArrangement = 'row' | 'grid' | 'stack';
+
+/** Line icons drawn on a 24x24 grid with a 2px stroke. */
+const INFO_ICONS: Record<InfoField, string> = {
+  // Price tag
+  offer:
+    '<path d="M20.6 13.4l-7.2 7.2a2 2 0 0 1-2.8 0L2 12V2h10l8.6 8.6a2 2 0 0 1 0 2.8z"/><circle cx="7" cy="7" r="1.5"/>',
+  // Calendar
+  validity:
+    '<rect x="3" y="4" width="18" height="18" rx="2"/><path d="M16 2v4M8 2v4M3 10h18"/>',
+  // Map pin
+  location:
+    '<path d="M21 10c0 7-9 13-9 13S3 17 3 10a9 9 0 0 1 18 0z"/><circle cx="12" cy="10" r="3"/>',
+  // Handset
+  phone:
+    '<path d="M22 16.9v3a2 2 0 0 1-2.2 2 19.8 19.8 0 0 1-8.6-3.1 19.5 19.5 0 0 1-6-6A19.8 19.8 0 0 1 2.1 4.2 2 2 0 0 1 4.1 2h3a2 2 0 0 1 2 1.7c.1.9.4 1.8.7 2.7a2 2 0 0 1-.5 2.1L8 9.8a16 16 0 0 0 6 6l1.3-1.3a2 2 0 0 1 2.1-.4c.9.3 1.8.6 2.7.7a2 2 0 0 1 1.7 2z"/>',
+  // Clock
+  schedule: '<circle cx="12" cy="12" r="10"/><path d="M12 6v6l4 2"/>',
+};
+
+/** An item positioned inside the block; `y` is the first baseline. */
+export interface PlacedInfoItem {
+  field: InfoField;
+  lines: string[];
+  iconX: number;
+  iconY: number;
+  textX: number;
+  y: number;
+}
+
+export interface InfoBlockLayout {
+  arrangement: InfoArrangement;
+  /** Top edge of the block; everything below it belongs to the footer. */
+  top: number;
+  height: number;
+  fontSize: number;
+  iconSize: number;
+  items: PlacedInfoItem[];
+}
+
+/**
+ * Picks the enabled, non-empty details of a promotion in display order.
+ *
+ * @param config - Promotion whose details are shown.
+ * @param toggles - Per-field switches (defaults to `config.infoFields`).
+ */
+export function getInfoItems(
+  config: PromoConfig,
+  toggles: InfoFieldToggles = config.infoFields ?? {}
+): InfoItem[] {
+  return INFO_FIELDS.filter((field) => toggles[field] !== false)
+    .map((field) => ({ field, text: (config[field] ?? '').trim() }))
+    .filter((item) => item.text.length > 0);
+}
+
+/**
+ * Footer component listing the promotion details (offer, validity,
+ * location, phone, schedule) with an icon each. The arrangement adapts to
+ * the canvas shape, and the font shrinks (then text is ellipsized) so every
+ * item stays on its line.
+ */
+export class InfoBlock {
+  private textFitter: TextFitter;
+  private measurer: TextMeasurer;
+
+  constructor(textFitter: TextFitter, measurer: TextMeasurer) {
+    this.textFitter = textFitter;
+    this.measurer = measurer;
+  }
+
+  /**
+   * Arrangement used for a canvas of the given size.
+   */
+  static arrangementFor(width: number, height: number): InfoArrangement {
+    const ratio = width / height;
+    if (ratio >= 1.3) return 'row';
+    if (ratio >= 0.8) return 'grid';
+    return 'stack';
+  }
+
+  /**
+   * Lays the items out in a band along the bottom of the canvas (or of its
+   * safe zone).
+   *
+   * @param items - Details to show, in display order.
+   * @param width - Canvas width.
+   * @param height - Canvas height.
+   * @param safeZone - Edges covered by platform UI; the block sits above
+   * the bottom inset and its items between the side insets.
+   * @returns The block geometry, or null when there is nothing to show.
+   */
+  layout(
+    items: InfoItem[],
+    width: number,
+    height: number,
+    safeZone?: SafeZone
+  ): InfoBlockLayout | null {
+    if (items.length === 0) {
+      return null;
+    }
+
+    const arrangement = InfoBlock.arrangementFor(width, height);
+    const preferredSize = Math.max(14, Math.min(width, height) * 0.028);
+    const minFontSize = Math.max(12, preferredSize * 0.75);
+    const left = safeZone?.left ?? 0;
+    const right = safeZone?.right ?? 0;
+    const innerWidth = Math.min(width * 0.9, width - left - right);
+    const centerX = left + (width - left - right) / 2;
+    const maxLines = arrangement === 'stack' ? 2 : 1;
+
+    // Use as many columns as the arrangement allows while every item still
+    // fits on its line(s); fall back to fewer, wider columns.
+    const maxColumns =
+      arrangement === 'row'
+        ? items.length
+        : arrangement === 'grid'
+          ? Math.min(2, items.length)
+          : 1;
+
+    let columns = maxColumns;
+    let fontSize = preferredSize;
+    for (; columns >= 1; columns--) {
+      const fitted = this.fitItems(
+        items,
+        this.textWidth(innerWidth, columns, preferredSize),
+        preferredSize,
+        minFontSize,
+        maxLines
+      );
+      fontSize = Math.min(...fitted.map((text) => text.fontSize));
+      if (fitted.every((text) => text.fits) || columns === 1) break;
+    }
+
+    // Render every item at the same size so the block reads as one unit.
+    const iconSize = fontSize * 1.1;
+    const iconGap = fontSize * 0.5;
+    const columnGap = fontSize * 1.5;
+    const lineHeight = fontSize * 1.2;
+    const rowGap = fontSize * 0.6;
+    const padding = fontSize * 0.9;
+    const cellWidth = (innerWidth - (columns - 1) * columnGap) / columns;
+    const lines = this.fitItems(
+      items,
+      this.textWidth(innerWidth, columns, fontSize),
+      fontSize,
+      fontSize,
+      maxLines
+    ).map((text) => text.lines);
+
+    const rows: number[][] = [];
+    for (let i = 0; i < items.length; i += columns) {
+      rows.push(items.slice(i, i + columns).map((_, j) => i + j));
+    }
+    const rowHeights = rows.map(
+      (row) =>
+        Math.max(...row.map((index) => lines[index]!.length)) * lineHeight
+    );
+    const blockHeight =
+      padding * 2 +
+      rowHeights.reduce((sum, h) => sum + h, 0) +
+      (rows.length - 1) * rowGap;
+    const top = height - (safeZone?.bottom ?? 0) - blockHeight;
+
+    // Stacked items share a left edge; row and grid items are centered in their cells.
+    const contentWidths = lines.map(
+      (itemLines) =>
+        iconSize +
+        iconGap +
+        Math.max(...itemLines.map((line) => this.measurer.measure(line, fontSize)))
+    );
+    const stackX = centerX - Math.max(...contentWidths) / 2;
+
+    const placed: PlacedInfoItem[] = [];
+    let rowTop = top + padding;
+    rows.forEach((row, rowIndex) => {
+      const rowWidth = row.length * cellWidth + (row.length - 1) * columnGap;
+      const rowX = centerX - rowWidth / 2;
+
+      row.forEach((index, column) => {
+        const cellX = rowX + column * (cellWidth + columnGap);
+        const x =
+          arrangement === 'stack'
+            ? stackX
+            : cellX + (cellWidth - contentWidths[index]!) / 2;
+        // Cap height is roughly 0.7em, so the line's visual middle sits 0.35em above the baseline.
+        const y = rowTop + lineHeight / 2 + fontSize * 0.35;
+
+        placed.push({
+          field: items[index]!.field,
+          lines: lines[index]!,
+          iconX: x,
+          iconY: y - fontSize * 0.35 - iconSize / 2,
+          textX: x + iconSize + iconGap,
+          y,
+        });
+      });
+
+      rowTop += rowHeights[rowIndex]! + rowGap;
+    });
+
+    return {
+      arrangement,
+      top,
+      height: blockHeight,
+      fontSize,
+      iconSize,
+      items: placed,
+    };
+  }
+
+  /**
+   * SVG markup for a laid out block: a translucent band with icons and text.
+   *
+   * @param layout - Result of `layout`.
+   * @param width - Canvas width.
+   * @param fontFamily - CSS font-family list used for the text.
+   * @param color - Text and icon color.
+   */
+  render(
+    layout: InfoBlockLayout,
+    width: number,
+    fontFamily: string,
+    color: string
+  ): string {
+    const lineHeight = layout.fontSize * 1.2;
+    const scale = layout.iconSize / 24;
+
+    const items = layout.items.map((item) => {
+      const text = item.lines
+        .map(
+          (line, index) =>
+            `<text x="${item.textX}" y="${item.y + index * lineHeight}"
+          font-family="${fontFamily}"
+          font-size="${layout.fontSize}"
+          fill="${color}">${this.escapeXML(line)}</text>`
+        )
+        .join('\n');
+
+      return `<g transform="translate(${item.iconX} ${item.iconY}) scale(${scale})"
+       fill="none" stroke="${color}" stroke-width="2"
+       stroke-linecap="round" stroke-linejoin="round">${INFO_ICONS[item.field]}</g>
+    ${text}`;
+    });
+
+    return `<rect x="0" y="${layout.top}" width="${width}" height="${layout.height}"
+        fill="${color}" opacity="0.12"/>
+  <g opacity="0.95">
+    ${items.join('\n    ')}
+  </g>`;
+  }
+
+  private textWidth(innerWidth: number, columns: number, fontSize: number) {
+    const columnGap = fontSize * 1.5;
+    const cellWidth = (innerWidth - (columns - 1) * columnGap) / columns;
+    return cellWidth - fontSize * 1.1 - fontSize * 0.5;
+  }
+
+  private fitItems(
+    items: InfoItem[],
+    maxWidth: number,
+    fontSize: number,
+    minFontSize: number,
+    maxLines: number
+  ) {
+    return items.map((item) =>
+      this.textFitter.fit(item.text, {
+        maxWidth,
+        maxLines,
+        fontSize,
+        minFontSize,
+        // Phone numbers and addresses shouldn't be split mid-word.
+        hyphenate: false,
+      })
+    );
+  }
+
+  private escapeXML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
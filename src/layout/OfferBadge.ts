@@ -0,0 +1,224 @@
+import type { TextMeasurer } from './TextFitter';
+import type { OfferLabels } from '../offers';
+import type { BadgeStyle } from '../types';
+
+export const BADGE_STYLES: BadgeStyle[] = ['starburst', 'ribbon', 'price-tag'];
+
+/** Square a badge is drawn in: centered on (cx, cy), 2r wide and tall. */
+export interface BadgeArea {
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+export interface OfferBadgeOptions {
+  style: BadgeStyle;
+  /** CSS font-family list used for the text. */
+  fontFamily: string;
+  /** Badge color. */
+  fill: string;
+  /** Text color, readable on `fill`. */
+  color: string;
+  /** Tilt in degrees (default: -8). */
+  rotate?: number;
+  /** SVG filter reference for the shape, e.g. 'url(#shadow)'. */
+  filter?: string;
+}
+
+/** Region of the shape text is fitted into, relative to the area's center. */
+interface TextArea {
+  dx: number;
+  width: number;
+  height: number;
+}
+
+/** Small lines (struck price, caption) relative to the headline. */
+const SMALL_RATIO = 0.38;
+
+/**
+ * Discount badge component: a starburst, a notched ribbon or a price tag
+ * with the offer's headline ("-50%") set as large as the shape allows, the
+ * regular price struck through above it and a caption ("OFF") below.
+ */
+export class OfferBadge {
+  private measurer: TextMeasurer;
+
+  constructor(measurer: TextMeasurer) {
+    this.measurer = measurer;
+  }
+
+  /**
+   * SVG markup for a badge.
+   *
+   * @param labels - Formatted offer text (see `getOfferLabels`).
+   * @param area - Square to draw in; the shape stays inside it.
+   * @param options - Shape, font and colors.
+   */
+  render(
+    labels: OfferLabels,
+    area: BadgeArea,
+    options: OfferBadgeOptions
+  ): string {
+    const { cx, cy } = area;
+    const { shape, text } = this.getShape(options.style, area, options);
+    const filter = options.filter ? ` filter="${options.filter}"` : '';
+
+    return `<g transform="rotate(${options.rotate ?? -8} ${cx} ${cy})">
+    <g${filter}>${shape}</g>
+    ${this.renderText(labels, { cx: cx + text.dx, cy }, text, options)}
+  </g>`;
+  }
+
+  /** The shape's markup and where its text goes. */
+  private getShape(
+    style: BadgeStyle,
+    { cx, cy, r }: BadgeArea,
+    { fill, color }: OfferBadgeOptions
+  ): { shape: string; text: TextArea } {
+    const point = (x: number, y: number) => `${x.toFixed(1)},${y.toFixed(1)}`;
+
+    switch (style) {
+      case 'ribbon': {
+        // A band with notched tails and a stitched edge.
+        const h = r * 0.45;
+        const notch = r * 0.16;
+        const band = [
+          point(cx - r, cy - h),
+          point(cx + r, cy - h),
+          point(cx + r - notch, cy),
+          point(cx + r, cy + h),
+          point(cx - r, cy + h),
+          point(cx - r + notch, cy),
+        ].join(' ');
+        const stitch = h * 0.8;
+        return {
+          shape: `<polygon points="${band}" fill="${fill}"/>
+    <path d="M${cx - r * 0.8} ${cy - stitch}H${cx + r * 0.8}M${cx - r * 0.8} ${cy + stitch}H${cx + r * 0.8}"
+          stroke="${color}" stroke-width="${Math.max(1, r * 0.015)}"
+          stroke-dasharray="${r * 0.05} ${r * 0.035}" opacity="0.6"/>`,
+          text: { dx: 0, width: r * 1.5, height: h * 1.5 },
+        };
+      }
+      case 'price-tag': {
+        // A tag pointing left, with an eyelet and its string.
+        const h = r * 0.55;
+        const corner = r * 0.08;
+        const tag = [
+          point(cx - r + corner, cy),
+          point(cx - r * 0.55, cy - h),
+          point(cx + r - corner, cy - h),
+          point(cx + r - corner, cy + h),
+          point(cx - r * 0.55, cy + h),
+        ].join(' ');
+        const hole = cx - r * 0.62;
+        return {
+          shape: `<polygon points="${tag}" fill="${fill}" stroke="${fill}"
+             stroke-width="${corner * 2}" stroke-linejoin="round"/>
+    <circle cx="${hole}" cy="${cy}" r="${r * 0.07}" fill="${color}" opacity="0.85"/>
+    <path d="M${hole} ${cy}C${hole - r * 0.2} ${cy - r * 0.5} ${cx - r * 0.6} ${cy - r * 0.9} ${cx - r * 0.95} ${cy - r * 0.85}"
+          fill="none" stroke="${color}" stroke-width="${Math.max(1, r * 0.02)}" opacity="0.6"/>`,
+          text: { dx: r * 0.2, width: r * 1.3, height: h * 1.7 },
+        };
+      }
+      default: {
+        // Sixteen points alternating between two radii.
+        const points = Array.from({ length: 32 }, (_, index) => {
+          const radius = index % 2 === 0 ? r : r * 0.84;
+          const angle = (index * Math.PI) / 16;
+          return point(
+            cx + radius * Math.sin(angle),
+            cy - radius * Math.cos(angle)
+          );
+        }).join(' ');
+        return {
+          shape: `<polygon points="${points}" fill="${fill}"/>
+    <circle cx="${cx}" cy="${cy}" r="${r * 0.72}" fill="none" stroke="${color}"
+            stroke-width="${Math.max(1, r * 0.015)}" opacity="0.5"/>`,
+          text: { dx: 0, width: r * 1.15, height: r * 1.05 },
+        };
+      }
+    }
+  }
+
+  /**
+   * The labels stacked in the text area: the struck price, the headline
+   * and the caption, each on one line, sized to fit.
+   */
+  private renderText(
+    labels: OfferLabels,
+    center: { cx: number; cy: number },
+    area: TextArea,
+    { fontFamily, color }: OfferBadgeOptions
+  ): string {
+    const widthFor = (line: string) =>
+      area.width / this.measurer.measure(line, 1, true);
+    const small = [labels.originalPrice, labels.caption].filter(
+      (line): line is string => !!line
+    );
+
+    const headlineSize = Math.min(
+      widthFor(labels.headline),
+      area.height / (1 + small.length * SMALL_RATIO * 1.2)
+    );
+    const smallSize = (line: string) =>
+      Math.min(headlineSize * SMALL_RATIO, widthFor(line));
+
+    const lines: {
+      text: string;
+      size: number;
+      headline?: boolean;
+      struck?: boolean;
+    }[] = [];
+    if (labels.originalPrice) {
+      lines.push({
+        text: labels.originalPrice,
+        size: smallSize(labels.originalPrice),
+        struck: true,
+      });
+    }
+    lines.push({ text: labels.headline, size: headlineSize, headline: true });
+    if (labels.caption) {
+      lines.push({ text: labels.caption, size: smallSize(labels.caption) });
+    }
+
+    // Small lines take 1.2em; the headline's cap height is about 0.75em.
+    const heights = lines.map((line) =>
+      line.headline ? line.size * 0.95 : line.size * 1.2
+    );
+    let top = center.cy - heights.reduce((sum, h) => sum + h, 0) / 2;
+
+    return lines
+      .map((line, index) => {
+        const height = heights[index]!;
+        // Cap height is roughly 0.7em, so the visual middle sits 0.35em above the baseline.
+        const baseline = top + height / 2 + line.size * 0.35;
+        top += height;
+
+        const markup = `<text x="${center.cx}" y="${baseline}"
+          font-family="${fontFamily}"
+          font-size="${line.size}"
+          font-weight="bold"
+          fill="${color}"
+          text-anchor="middle"${line.struck ? ' opacity="0.8"' : ''}>${this.escapeXML(line.text)}</text>`;
+        if (!line.struck) {
+          return markup;
+        }
+
+        const half = this.measurer.measure(line.text, line.size, true) / 2;
+        const strikeY = baseline - line.size * 0.32;
+        return `${markup}
+    <line x1="${center.cx - half * 1.08}" y1="${strikeY}" x2="${center.cx + half * 1.08}" y2="${strikeY}"
+          stroke="${color}" stroke-width="${Math.max(1.5, line.size * 0.09)}" opacity="0.9"/>`;
+      })
+      .join('\n    ');
+  }
+
+  private escapeXML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Measures a single line of text in pixels.
+ */
+export interface TextMeasurer {
+  measure(text: string, fontSize: number, bold?: boolean): number;
+}
+
+/**
+ * Approximates advance widths with per-character classes, calibrated on the
+ * wider of Arial and its usual fallback (DejaVu Sans) so estimates err on the
+ * side of fitting. A glyph-metric measurer can be swapped in through the
+ * TextFitter constructor.
+ */
+export class EstimatedTextMeasurer implements TextMeasurer {
+  measure(text: string, fontSize: number, bold: boolean = false): number {
+    let units = 0;
+    for (const char of text) {
+      units += this.charWidth(char);
+    }
+    return units * fontSize * (bold ? 1.16 : 1);
+  }
+
+  private charWidth(char: string): number {
+    if (' .,;:!|\'"iljtfI'.includes(char)) return 0.33;
+    if ('mwMW@%'.includes(char)) return 0.92;
+    if (/[0-9]/.test(char)) return 0.62;
+    if (char !== char.toLowerCase()) return 0.72;
+    if (/\p{Extended_Pictographic}/u.test(char)) return 1.0;
+    return 0.58;
+  }
+}
+
+export interface TextBox {
+  /** Maximum line width in pixels. */
+  maxWidth: number;
+  /** Maximum number of lines. */
+  maxLines: number;
+  /** Optional height limit in pixels; reduces the line count at large font sizes. */
+  maxHeight?: number;
+  /** Line height as a multiple of the font size (default: 1.2). */
+  lineHeight?: number;
+  /** Break words wider than a line with a hyphen (default: true). */
+  hyphenate?: boolean;
+  /** Preferred font size in pixels. */
+  fontSize: number;
+  /** Smallest font size the text may shrink to. */
+  minFontSize: number;
+  bold?: boolean;
+}
+
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+  /** False when the text only fits after ellipsizing at the minimum font size. */
+  fits: boolean;
+}
+
+/**
+ * Fits text into a box by wrapping and shrinking the font size.
+ */
+export class TextFitter {
+  private measurer: TextMeasurer;
+
+  constructor(measurer: TextMeasurer = new EstimatedTextMeasurer()) {
+    this.measurer = measurer;
+  }
+
+  /**
+   * Greedy word wrap at the given font size. Words wider than a line are
+   * hyphenated when `hyphenate` is set, otherwise kept whole (and `fit`
+   * treats that line as overflowing).
+   */
+  wrap(
+    text: string,
+    fontSize: number,
+    maxWidth: number,
+    bold: boolean = false,
+    hyphenate: boolean = false
+  ): string[] {
+    const words = text
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .flatMap((word) =>
+        hyphenate ? this.hyphenate(word, fontSize, maxWidth, bold) : [word]
+      );
+    const lines: string[] = [];
+    let currentLine = '';
+
+    for (const word of words) {
+      // Hyphenated chunks always end a line.
+      if (currentLine.endsWith('\u00AD')) {
+        lines.push(currentLine.slice(0, -1) + '-');
+        currentLine = word;
+        continue;
+      }
+
+      const candidate = currentLine ? `${currentLine} ${word}` : word;
+      if (
+        !currentLine ||
+        this.measurer.measure(candidate, fontSize, bold) <= maxWidth
+      ) {
+        currentLine = candidate;
+      } else {
+        lines.push(currentLine);
+        currentLine = word;
+      }
+    }
+    if (currentLine) lines.push(currentLine.replace(/\u00AD$/, '-'));
+
+    return lines;
+  }
+
+  /**
+   * Splits a word wider than `maxWidth` into chunks that fit with a trailing
+   * hyphen, preferring breaks after a vowel. Chunks except the last end with
+   * a soft hyphen marker that `wrap` turns into a visible hyphen.
+   */
+  private hyphenate(
+    word: string,
+    fontSize: number,
+    maxWidth: number,
+    bold: boolean
+  ): string[] {
+    const chunks: string[] = [];
+    let rest = word;
+
+    while (this.measurer.measure(rest, fontSize, bold) > maxWidth) {
+      const chars = [...rest];
+      let end = chars.length - 1;
+      while (
+        end > 2 &&
+        this.measurer.measure(chars.slice(0, end).join('') + '-', fontSize, bold) >
+          maxWidth
+      ) {
+        end--;
+      }
+      if (end <= 2) break;
+
+      // Step back to just after a vowel if one is close, for a nicer break.
+      for (let i = end; i > Math.max(2, end - 3); i--) {
+        if (/[aeiouáéíóúàèìòùâêîôûãõäëïöü]/i.test(chars[i - 1] ?? '')) {
+          end = i;
+          break;
+        }
+      }
+
+      chunks.push(chars.slice(0, end).join('') + '\u00AD');
+      rest = chars.slice(end).join('');
+    }
+
+    chunks.push(rest);
+    return chunks;
+  }
+
+  /**
+   * Shrinks the font from `box.fontSize` towards `box.minFontSize` until the
+   * wrapped text fits. If it never does, the text is ellipsized at the minimum
+   * size so nothing is ever clipped, and `fits` is reported as false.
+   */
+  fit(text: string, box: TextBox): FittedText {
+    const step = Math.max(1, Math.round(box.fontSize * 0.05));
+
+    for (
+      let fontSize = box.fontSize;
+      fontSize >= box.minFontSize;
+      fontSize -= step
+    ) {
+      const lines = this.wrap(
+        text,
+        fontSize,
+        box.maxWidth,
+        box.bold,
+        box.hyphenate ?? true
+      );
+      if (this.linesFit(lines, fontSize, box)) {
+        return { lines, fontSize, fits: true };
+      }
+    }
+
+    return {
+      lines: this.ellipsize(text, box),
+      fontSize: box.minFontSize,
+      fits: false,
+    };
+  }
+
+  /**
+   * Rough number of characters the box holds at its minimum font size,
+   * used as a length budget for prompts and rewrites.
+   */
+  capacity(box: TextBox): number {
+    const sample = 'Sample text for the average glyph width';
+    const averageWidth =
+      this.measurer.measure(sample, box.minFontSize, box.bold) / sample.length;
+    // Leave some slack for word wrapping.
+    return Math.max(
+      1,
+      Math.floor(
+        (box.maxWidth / averageWidth) *
+          this.maxLinesAt(box.minFontSize, box) *
+          0.85
+      )
+    );
+  }
+
+  /**
+   * Number of lines the box allows at a given font size.
+   */
+  maxLinesAt(fontSize: number, box: TextBox): number {
+    if (box.maxHeight === undefined) {
+      return box.maxLines;
+    }
+    const lineHeight = fontSize * (box.lineHeight ?? 1.2);
+    const byHeight = Math.floor((box.maxHeight - fontSize) / lineHeight) + 1;
+    return Math.max(1, Math.min(box.maxLines, byHeight));
+  }
+
+  private linesFit(lines: string[], fontSize: number, box: TextBox): boolean {
+    return (
+      lines.length <= this.maxLinesAt(fontSize, box) &&
+      lines.every(
+        (line) => this.measurer.measure(line, fontSize, box.bold) <= box.maxWidth
+      )
+    );
+  }
+
+  /**
+   * Drops trailing words at the minimum font size until the text fits,
+   * ending the last line with an ellipsis.
+   */
+  private ellipsize(text: string, box: TextBox): string[] {
+    const words = text.trim().split(/\s+/);
+
+    while (words.length > 0) {
+      const candidate = `${words.join(' ').replace(/[\s,.;:!?–-]+$/, '')}…`;
+      const lines = this.wrap(
+        candidate,
+        box.minFontSize,
+        box.maxWidth,
+        box.bold,
+        box.hyphenate ?? true
+      );
+      if (this.linesFit(lines, box.minFontSize, box)) {
+        return lines;
+      }
+      words.pop();
+    }
+
+    return ['…'];
+  }
+}
@@ -0,0 +1,170 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+interface Badge {
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+/**
+ * A round sticker with the offer above centered copy; offers with a
+ * recognized deal get a starburst, ribbon or price tag badge instead. On
+ * landscape canvases the badge moves to the right edge so the copy keeps
+ * its height.
+ */
+export class BadgeTopLayout extends FlyerLayout {
+  readonly name = 'badge-top' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { content } = this.getRegions(config);
+    return this.scaledBoxes(
+      Math.min(config.width, config.height * 1.6),
+      content.width,
+      content.height * 0.4
+    );
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const { content } = this.getRegions(config, info);
+    const stacked = this.stack(
+      text,
+      config,
+      this.getTextBoxes(config),
+      content,
+      'middle'
+    );
+
+    return {
+      text: stacked.text as LayoutResult['text'],
+      ctaButton: stacked.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { width, height, accentColor } = config;
+    const { badge } = this.getRegions(config, layout.info);
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+
+  <!-- Soft accent glow in the opposite corner -->
+  <circle cx="${width * 0.1}" cy="${height * 0.9}" r="${Math.min(width, height) * 0.25}"
+          fill="${accentColor}" opacity="0.15"/>
+
+  <!-- Offer badge -->
+  ${this.animate(this.renderBadge(text, config, badge), {
+    dx: (config.frame?.badgeOffset ?? 0) * width,
+    opacity: 1 - (config.frame?.badgeOffset ?? 0),
+  })}
+  ${this.renderCopy(config, layout)}`
+    );
+  }
+
+  /**
+   * A discount badge when the offer has a recognized deal; otherwise a
+   * round sticker with the offer text (or the tone) wrapped inside.
+   */
+  private renderBadge(
+    text: TextVariation,
+    config: CanvasConfig,
+    badge: Badge
+  ): string {
+    const { accentColor } = config;
+    const badgeColor = this.contrastColor(accentColor);
+    const labels = this.offerLabels(config);
+    if (labels) {
+      return this.offerBadge.render(labels, badge, {
+        style: config.badge ?? 'starburst',
+        fontFamily: this.fontFamily,
+        fill: accentColor,
+        color: badgeColor,
+        filter: 'url(#shadow)',
+      });
+    }
+
+    // The offer reads best on the badge; fall back to the tone.
+    const label = (config.offer || text.tone).toUpperCase();
+    const fitted = this.textFitter.fit(label, {
+      // Keep the lines inside the circle, not just its bounding box.
+      maxWidth: badge.r * 1.4,
+      maxLines: 3,
+      maxHeight: badge.r * 1.1,
+      fontSize: badge.r * 0.4,
+      minFontSize: Math.max(12, badge.r * 0.16),
+      bold: true,
+    });
+    const lineHeight = fitted.fontSize * 1.2;
+    const firstY =
+      badge.cy -
+      ((fitted.lines.length - 1) * lineHeight) / 2 +
+      fitted.fontSize * 0.35;
+
+    return `<g transform="rotate(-8 ${badge.cx} ${badge.cy})">
+    <circle cx="${badge.cx}" cy="${badge.cy}" r="${badge.r}"
+            fill="${accentColor}" filter="url(#shadow)"/>
+    <circle cx="${badge.cx}" cy="${badge.cy}" r="${badge.r * 0.88}"
+            fill="none" stroke="${badgeColor}" stroke-width="2"
+            stroke-dasharray="6 4" opacity="0.6"/>
+    ${fitted.lines
+      .map(
+        (line, index) =>
+          `<text x="${badge.cx}" y="${firstY + index * lineHeight}"
+          font-family="${this.fontFamily}"
+          font-size="${fitted.fontSize}"
+          font-weight="bold"
+          fill="${badgeColor}"
+          text-anchor="middle">${this.escapeXML(line)}</text>`
+      )
+      .join('\n    ')}
+  </g>`;
+  }
+
+  private getRegions(
+    config: CanvasConfig,
+    info = this.layoutInfo(config)
+  ): { badge: Badge; content: Region } {
+    const { width, height } = config;
+    const bottom = this.contentBottom(config, info);
+    const margin = Math.min(width, height) * 0.06;
+    // The badge carries the offer, so it stays inside the safe area.
+    const safe = this.safeArea(config);
+    const top = safe.y + margin;
+
+    if (width > height * 1.3) {
+      const r = Math.min(height * 0.22, width * 0.12);
+      return {
+        badge: { cx: safe.x + safe.width - margin - r, cy: top + r, r },
+        content: {
+          x: margin,
+          y: margin,
+          width: safe.x + safe.width - r * 2 - margin * 3,
+          height: bottom - margin * 2,
+        },
+      };
+    }
+
+    // Shrink the badge when a logo or platform UI leaves little height.
+    const r = Math.min(Math.min(width, height) * 0.13, (bottom - top) * 0.15);
+    const badgeBottom = top + r * 2;
+    return {
+      badge: { cx: safe.x + safe.width / 2, cy: top + r, r },
+      content: {
+        x: margin,
+        y: badgeBottom + margin,
+        width: width - margin * 2,
+        height: bottom - badgeBottom - margin * 2,
+      },
+    };
+  }
+}
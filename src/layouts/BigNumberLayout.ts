@@ -0,0 +1,198 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/** Percentages, prices, "2x1" deals and plain numbers, in that order of preference. */
+const HEADLINE_PATTERNS = [
+  /\d+(?:[.,]\d+)?\s?%/,
+  /[$€£¥]\s?\d+(?:[.,]\d+)?|\d+(?:[.,]\d+)?\s?[$€£¥]/,
+  /\d+\s?x\s?\d+/i,
+  /\d+(?:[.,]\d+)?/,
+];
+
+/**
+ * Extracts the number worth shouting about from an offer ("50% off" → "50%",
+ * "Early bird $25" → "$25", "2x1 pizzas" → "2x1").
+ *
+ * @returns The headline, or null when the offer has no number.
+ */
+export function extractHeadlineNumber(offer: string): string | null {
+  for (const pattern of HEADLINE_PATTERNS) {
+    const match = offer.match(pattern);
+    if (match) {
+      return match[0].replace(/\s+/g, '');
+    }
+  }
+  return null;
+}
+
+/**
+ * The offer's number set huge next to (landscape) or above (square and tall
+ * canvases) the copy, with the regular price struck through beneath it when
+ * known. Without a number in the offer, the copy is simply centered.
+ */
+export class BigNumberLayout extends FlyerLayout {
+  readonly name = 'big-number' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { content } = this.getRegions(config, this.getHeadline(config) !== null);
+    return this.scaledBoxes(
+      Math.min(config.width, config.height * 1.6),
+      content.width,
+      content.height * 0.4
+    );
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const hasHeadline = this.getHeadline(config) !== null;
+    const { content, side } = this.getRegions(config, hasHeadline, info);
+    const stacked = this.stack(
+      text,
+      config,
+      this.getTextBoxes(config),
+      content,
+      side ? 'start' : 'middle'
+    );
+
+    return {
+      text: stacked.text as LayoutResult['text'],
+      ctaButton: stacked.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { accentColor } = config;
+    const headline = this.getHeadline(config);
+    const { hero } = this.getRegions(config, headline !== null, layout.info);
+
+    let heroMarkup = '';
+    if (headline && hero) {
+      // The regular price, struck through, goes under the number.
+      const original = this.offerLabels(config)?.originalPrice;
+      const numberHeight = original ? hero.height * 0.7 : hero.height;
+      // As large as the hero area allows, by width and by height.
+      const fontSize = Math.min(
+        numberHeight * 0.8,
+        (hero.width / this.measurer.measure(headline, 100, true)) * 100
+      );
+      const cx = hero.x + hero.width / 2;
+      const baseline = hero.y + numberHeight / 2 + fontSize * 0.35;
+      heroMarkup = `
+  <!-- Offer number -->
+  <circle cx="${cx}" cy="${hero.y + hero.height / 2}"
+          r="${Math.min(hero.width, hero.height) * 0.55}"
+          fill="${accentColor}" opacity="0.25"/>
+  <text x="${cx}" y="${baseline}"
+        font-family="${this.fontFamily}"
+        font-size="${fontSize}"
+        font-weight="bold"
+        fill="${accentColor}"
+        text-anchor="middle"
+        filter="url(#shadow)">${this.escapeXML(headline)}</text>`;
+
+      if (original) {
+        const size = Math.min(
+          hero.height * 0.2,
+          fontSize * 0.35,
+          ((hero.width * 0.8) / this.measurer.measure(original, 100, true)) *
+            100
+        );
+        const half = this.measurer.measure(original, size, true) / 2;
+        // Centered in the band left under the number.
+        const originalY =
+          hero.y + numberHeight + hero.height * 0.15 + size * 0.35;
+        const strikeY = originalY - size * 0.32;
+        heroMarkup += `
+  <text x="${cx}" y="${originalY}"
+        font-family="${this.fontFamily}"
+        font-size="${size}"
+        font-weight="bold"
+        fill="${config.textColor}"
+        text-anchor="middle"
+        opacity="0.8">${this.escapeXML(original)}</text>
+  <line x1="${cx - half * 1.08}" y1="${strikeY}" x2="${cx + half * 1.08}" y2="${strikeY}"
+        stroke="${accentColor}" stroke-width="${Math.max(2, size * 0.1)}"/>`;
+      }
+    }
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+  ${this.animate(heroMarkup, {
+    dx: (config.frame?.badgeOffset ?? 0) * config.width,
+    opacity: 1 - (config.frame?.badgeOffset ?? 0),
+  })}
+  ${this.renderCopy(config, layout)}`
+    );
+  }
+
+  /**
+   * The structured offer's headline ("-50%", "2x1", the promo price), or
+   * the number found in the offer text.
+   */
+  private getHeadline(config: CanvasConfig): string | null {
+    const labels = this.offerLabels(config);
+    if (labels?.headline) {
+      return labels.headline;
+    }
+    return config.offer ? extractHeadlineNumber(config.offer) : null;
+  }
+
+  /**
+   * Splits the canvas into the hero area for the number and the copy area.
+   * `side` is true when they sit side by side.
+   */
+  private getRegions(
+    config: CanvasConfig,
+    hasHeadline: boolean,
+    info = this.layoutInfo(config)
+  ): { hero: Region | null; content: Region; side: boolean } {
+    const { width } = config;
+    const bottom = this.contentBottom(config, info);
+    const margin = Math.min(width, config.height) * 0.06;
+    // The number is the offer, so it stays inside the safe area too.
+    const safe = this.safeArea(config);
+    const full: Region = {
+      x: safe.x + margin,
+      y: safe.y + margin,
+      width: safe.width - margin * 2,
+      height: bottom - safe.y - margin * 2,
+    };
+
+    if (!hasHeadline) {
+      return { hero: null, content: full, side: false };
+    }
+
+    if (width > config.height * 1.3) {
+      const heroWidth = full.width * 0.42;
+      return {
+        side: true,
+        hero: { ...full, width: heroWidth },
+        content: {
+          ...full,
+          x: full.x + heroWidth + margin,
+          width: full.width - heroWidth - margin,
+        },
+      };
+    }
+
+    const heroHeight = full.height * 0.35;
+    return {
+      side: false,
+      hero: { ...full, height: heroHeight },
+      content: {
+        ...full,
+        y: full.y + heroHeight + margin,
+        height: full.height - heroHeight - margin,
+      },
+    };
+  }
+}
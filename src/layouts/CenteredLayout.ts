@@ -0,0 +1,162 @@
+import type { InfoBlockLayout } from '../layout/InfoBlock';
+import type { FittedText, TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult } from './FlyerLayout';
+
+/**
+ * The original layout: centered copy on a gradient, with a circle, a
+ * rectangle and a divider line as decoration.
+ */
+export class CenteredLayout extends FlyerLayout {
+  readonly name = 'centered' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { width } = config;
+    const safe = this.safeArea(config);
+    const ctaSize = Math.max(16, width * 0.03);
+    const { descriptionY, ctaY, margin } = this.getAnchors(
+      config,
+      this.layoutInfo(config),
+      ctaSize * 1.8
+    );
+
+    const boxes = this.scaledBoxes(
+      width,
+      Math.min(width * 0.9, safe.width),
+      ctaY - ctaSize - margin - descriptionY
+    );
+    boxes.description.maxWidth = Math.min(width * 0.8, safe.width);
+    return boxes;
+  }
+
+  /**
+   * Title and subtitle flow down from the title anchor, the CTA button grows
+   * around its anchor (above the info block), and the description gets
+   * whatever space is left between them. Everything stays inside the safe
+   * area.
+   */
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const safe = this.safeArea(config);
+    const centerX = safe.x + safe.width / 2;
+    const boxes = this.getTextBoxes(config);
+    const info = this.layoutInfo(config);
+
+    const cta = this.textFitter.fit(text.callToAction, boxes.callToAction);
+    const anchors = this.getAnchors(
+      config,
+      info,
+      this.getCtaButton(cta, 0, 0).height
+    );
+    const { descriptionY, ctaY, margin } = anchors;
+    const ctaButton = this.getCtaButton(cta, centerX, ctaY);
+
+    const title = this.textFitter.fit(text.title, boxes.title);
+    // Hang the title below the top inset when the anchor would put it under it.
+    const titleY = Math.max(anchors.titleY, safe.y + margin + title.fontSize * 0.8);
+    const titleBottom = this.lastBaseline(titleY, title);
+
+    const subtitle = this.textFitter.fit(text.subtitle, boxes.subtitle);
+    const subtitleY = titleBottom + subtitle.fontSize + 20;
+    const subtitleBottom = this.lastBaseline(subtitleY, subtitle);
+
+    const descriptionTop = Math.max(
+      descriptionY,
+      subtitleBottom + margin + boxes.description.fontSize
+    );
+    const descriptionBox: TextBox = {
+      ...boxes.description,
+      maxHeight: ctaButton.y - margin - descriptionTop,
+    };
+    const description = this.textFitter.fit(text.description, descriptionBox);
+
+    const at = (x: number, y: number) => ({ x, y, anchor: 'middle' as const });
+
+    return {
+      text: {
+        title: { ...title, box: boxes.title, ...at(centerX, titleY) },
+        subtitle: { ...subtitle, box: boxes.subtitle, ...at(centerX, subtitleY) },
+        description: {
+          ...description,
+          box: descriptionBox,
+          ...at(centerX, descriptionTop),
+        },
+        callToAction: {
+          ...cta,
+          box: boxes.callToAction,
+          ...at(centerX, ctaButton.textY),
+        },
+      },
+      ctaButton,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { width, height, accentColor } = config;
+    const lineY = Math.min(height * 0.65, layout.ctaButton!.y - height * 0.03);
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+
+  <!-- Geometric decoration -->
+  <circle cx="${width * 0.85}" cy="${height * 0.15}" r="${width * 0.08}"
+          fill="${accentColor}" opacity="0.3"/>
+  ${
+    // The bottom corner belongs to the info block when there is one.
+    layout.info
+      ? ''
+      : `<rect x="${width * 0.05}" y="${height * 0.85}" width="${
+          width * 0.15
+        }" height="${height * 0.1}"
+        fill="${accentColor}" opacity="0.3" rx="5"/>`
+  }
+  ${this.renderCopy(config, layout)}
+
+  <!-- Decorative line (kept above the CTA button) -->
+  <line x1="${width * 0.2}" y1="${lineY}"
+        x2="${width * 0.8}" y2="${lineY}"
+        stroke="${accentColor}"
+        stroke-width="2"
+        opacity="0.5"/>`
+    );
+  }
+
+  /**
+   * Vertical anchors of the layout. With an info block or a safe zone, the
+   * CTA moves up so its button (`ctaHeight` tall) clears the footer and the
+   * bottom inset.
+   */
+  private getAnchors(
+    config: CanvasConfig,
+    info: InfoBlockLayout | null = null,
+    ctaHeight: number = 0
+  ) {
+    const { height } = config;
+    const margin = Math.max(10, height * 0.02);
+    const ctaY =
+      info || config.safeZone
+        ? Math.min(
+            height * 0.8,
+            this.contentBottom(config, info) - margin - ctaHeight / 2
+          )
+        : height * 0.8;
+
+    return {
+      titleY: height * 0.25,
+      descriptionY: Math.min(height * 0.55, ctaY - height * 0.2),
+      ctaY,
+      margin,
+    };
+  }
+
+  private lastBaseline(y: number, text: FittedText): number {
+    return y + (text.lines.length - 1) * text.fontSize * 1.2;
+  }
+}
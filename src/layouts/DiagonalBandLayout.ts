@@ -0,0 +1,102 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/** Rise of the band across the canvas, as a fraction of its shorter side. */
+const BAND_RISE = 0.08;
+
+/**
+ * Centered copy with the title set on a tilted accent band running across
+ * the whole canvas.
+ */
+export class DiagonalBandLayout extends FlyerLayout {
+  readonly name = 'diagonal-band' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const region = this.getRegion(config);
+    return this.scaledBoxes(config.width, region.width, region.height * 0.4);
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const boxes = this.getTextBoxes(config);
+    const stacked = this.stack(
+      text,
+      config,
+      boxes,
+      this.getRegion(config, info),
+      'middle',
+      undefined,
+      // Room for the band and the stripe under it
+      { title: this.getBandPadding(config, boxes.title.fontSize) * 1.3 }
+    );
+
+    return {
+      text: stacked.text as LayoutResult['text'],
+      ctaButton: stacked.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { width, accentColor } = config;
+    const title = layout.text.title!;
+
+    // Band around the title block, tilted up towards the right edge and
+    // tall enough that the tilt never uncovers the ends of the lines.
+    const rise = this.getRise(config);
+    const padding = this.getBandPadding(config, title.fontSize);
+    const top = title.y - title.fontSize * 0.8 - padding;
+    const bottom = top + this.blockHeight(title) + padding * 2;
+    const band = [
+      `0,${top + rise / 2}`,
+      `${width},${top - rise / 2}`,
+      `${width},${bottom - rise / 2}`,
+      `0,${bottom + rise / 2}`,
+    ].join(' ');
+    const stripeY = bottom + rise / 2 + title.fontSize * 0.5;
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+
+  <!-- Diagonal band behind the title -->
+  <polygon points="${band}" fill="${accentColor}" filter="url(#shadow)"/>
+  <polygon points="0,${stripeY + rise / 2} ${width},${stripeY - rise / 2} ${width},${
+    stripeY - rise / 2 + 6
+  } 0,${stripeY + rise / 2 + 6}"
+           fill="${accentColor}" opacity="0.4"/>
+  ${this.renderCopy(config, layout, {
+    title: this.contrastColor(accentColor),
+  })}`
+    );
+  }
+
+  private getRise(config: CanvasConfig): number {
+    return Math.min(config.width, config.height) * BAND_RISE;
+  }
+
+  private getBandPadding(config: CanvasConfig, fontSize: number): number {
+    return fontSize * 0.5 + this.getRise(config) / 2;
+  }
+
+  private getRegion(config: CanvasConfig, info = this.layoutInfo(config)): Region {
+    const { width, height } = config;
+    const margin = Math.min(width, height) * 0.06;
+    // Keep the title clear of the band's tilted edges.
+    const inset = Math.max(margin, this.getRise(config));
+
+    return {
+      x: inset,
+      y: margin,
+      width: width - inset * 2,
+      height: this.contentBottom(config, info) - margin * 2,
+    };
+  }
+}
@@ -0,0 +1,646 @@
+import {
+  contrastRatio,
+  darken,
+  parseColor,
+  readableTextColor,
+  toHex,
+} from '../color';
+import type { InfoBlock, InfoBlockLayout } from '../layout/InfoBlock';
+import type { OfferBadge } from '../layout/OfferBadge';
+import type {
+  FittedText,
+  TextBox,
+  TextFitter,
+  TextMeasurer,
+} from '../layout/TextFitter';
+import { getOfferLabels, type OfferLabels } from '../offers';
+import type {
+  CanvasConfig,
+  CopyField,
+  LayoutName,
+  TextVariation,
+} from '../types';
+
+export const COPY_FIELDS: CopyField[] = [
+  'title',
+  'subtitle',
+  'description',
+  'callToAction',
+];
+
+/** A fitted field with the box it was fitted into and where it is drawn. */
+export interface LaidOutText extends FittedText {
+  box: TextBox;
+  x: number;
+  /** First baseline. */
+  y: number;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export interface CtaButton {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** First text baseline inside the button. */
+  textY: number;
+}
+
+/**
+ * Positions of everything a layout draws from the copy and the details.
+ * Built-in layouts place every field; templates only the fields they bind.
+ */
+export interface LayoutResult {
+  text: Partial<Record<CopyField, LaidOutText>>;
+  ctaButton?: CtaButton;
+  info: InfoBlockLayout | null;
+}
+
+/** Fields placed by `FlyerLayout.stack`; the button is set when the CTA is included. */
+export interface StackedText {
+  text: Partial<Record<CopyField, LaidOutText>>;
+  ctaButton?: CtaButton;
+}
+
+/** Rectangle of the canvas a layout flows text into. */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Shared text, footer and badge services handed to every layout. */
+export interface LayoutTools {
+  textFitter: TextFitter;
+  measurer: TextMeasurer;
+  infoBlock: InfoBlock;
+  offerBadge: OfferBadge;
+  fontFamily: string;
+}
+
+export interface TextStyle {
+  weight?: string;
+  opacity?: number;
+  filter?: string;
+}
+
+/**
+ * Base class for the named flyer layouts. A layout decides where the copy
+ * goes (`arrange`) and what is drawn around it (`render`); fitting, the CTA
+ * button, the info block and SVG helpers are shared here.
+ */
+export abstract class FlyerLayout {
+  abstract readonly name: LayoutName;
+  /** Whether copy is moved clear of logos and other brand assets. */
+  readonly avoidsAssets: boolean = true;
+
+  protected textFitter: TextFitter;
+  protected measurer: TextMeasurer;
+  protected infoBlock: InfoBlock;
+  protected offerBadge: OfferBadge;
+  protected fontFamily: string;
+
+  constructor(tools: LayoutTools) {
+    this.textFitter = tools.textFitter;
+    this.measurer = tools.measurer;
+    this.infoBlock = tools.infoBlock;
+    this.offerBadge = tools.offerBadge;
+    this.fontFamily = tools.fontFamily;
+  }
+
+  /**
+   * Text boxes at their largest for this canvas, used for length budgets.
+   */
+  abstract getTextBoxes(
+    config: CanvasConfig
+  ): Partial<Record<CopyField, TextBox>>;
+
+  /**
+   * Fits and positions the copy on the canvas.
+   */
+  abstract arrange(text: TextVariation, config: CanvasConfig): LayoutResult;
+
+  /**
+   * Complete SVG document for a variation arranged by `arrange`.
+   */
+  abstract render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string;
+
+  /**
+   * Info block along the bottom edge (above the safe zone's bottom inset),
+   * or null when there are no details.
+   */
+  protected layoutInfo(config: CanvasConfig): InfoBlockLayout | null {
+    return this.infoBlock.layout(
+      config.info ?? [],
+      config.width,
+      config.height,
+      config.safeZone
+    );
+  }
+
+  /**
+   * Part of the canvas not covered by platform UI: the whole canvas minus
+   * the format's safe zone insets.
+   */
+  protected safeArea(config: CanvasConfig): Region {
+    const { top = 0, right = 0, bottom = 0, left = 0 } = config.safeZone ?? {};
+    return {
+      x: left,
+      y: top,
+      width: config.width - left - right,
+      height: config.height - top - bottom,
+    };
+  }
+
+  /**
+   * Overlap of a region with the safe area, so text flowed into it stays
+   * clear of platform UI.
+   */
+  protected clampToSafeArea(region: Region, config: CanvasConfig): Region {
+    const safe = this.safeArea(config);
+    const x = Math.max(region.x, safe.x);
+    const y = Math.max(region.y, safe.y);
+    return {
+      x,
+      y,
+      width: Math.max(0, Math.min(region.x + region.width, safe.x + safe.width) - x),
+      height: Math.max(0, Math.min(region.y + region.height, safe.y + safe.height) - y),
+    };
+  }
+
+  /**
+   * Text box sizes derived from a basis width (usually the canvas width),
+   * with line widths limited to `maxWidth`.
+   */
+  protected scaledBoxes(
+    basis: number,
+    maxWidth: number,
+    maxDescriptionHeight?: number
+  ): Record<CopyField, TextBox> {
+    const titleSize = Math.max(24, basis * 0.05);
+    const subtitleSize = Math.max(18, basis * 0.035);
+    const descriptionSize = Math.max(14, basis * 0.025);
+    const ctaSize = Math.max(16, basis * 0.03);
+
+    return {
+      title: {
+        maxWidth,
+        maxLines: 2,
+        fontSize: titleSize,
+        minFontSize: Math.max(24, titleSize * 0.6),
+        bold: true,
+      },
+      subtitle: {
+        maxWidth,
+        maxLines: 2,
+        fontSize: subtitleSize,
+        minFontSize: Math.max(18, subtitleSize * 0.6),
+        bold: true,
+      },
+      description: {
+        maxWidth,
+        maxLines: 8,
+        maxHeight: maxDescriptionHeight,
+        fontSize: descriptionSize,
+        minFontSize: Math.max(14, descriptionSize * 0.7),
+      },
+      callToAction: {
+        maxWidth: Math.min(maxWidth, basis * 0.7),
+        maxLines: 2,
+        fontSize: ctaSize,
+        minFontSize: Math.max(16, ctaSize * 0.7),
+        bold: true,
+      },
+    };
+  }
+
+  /**
+   * Flows the given fields down a region in order and centers the stack
+   * vertically. The description (if included) gets whatever height the
+   * other fields leave; the CTA (if included) becomes a button at the end.
+   * `spacing` reserves extra room above and below a field, e.g. for a
+   * shape drawn behind it. The region is clamped to the canvas's safe
+   * area first.
+   */
+  protected stack(
+    text: TextVariation,
+    config: CanvasConfig,
+    boxes: Record<CopyField, TextBox>,
+    region: Region,
+    anchor: 'start' | 'middle',
+    fields: CopyField[] = COPY_FIELDS,
+    spacing: Partial<Record<CopyField, number>> = {}
+  ): StackedText {
+    if (config.safeZone) {
+      region = this.clampToSafeArea(region, config);
+      boxes = Object.fromEntries(
+        COPY_FIELDS.map((field) => [
+          field,
+          {
+            ...boxes[field],
+            maxWidth: Math.min(boxes[field].maxWidth, region.width),
+          },
+        ])
+      ) as Record<CopyField, TextBox>;
+    }
+
+    const gap = Math.max(12, region.height * 0.035);
+    const x = anchor === 'middle' ? region.x + region.width / 2 : region.x;
+    const flowing = fields.filter(
+      (field) => field !== 'callToAction' && field !== 'description'
+    );
+    const extra = fields.reduce(
+      (sum, field) => sum + (spacing[field] ?? 0) * 2,
+      0
+    );
+
+    // Start from the preferred sizes and scale everything down together
+    // until the fixed fields leave room for at least one description line.
+    let fitted: Partial<Record<CopyField, FittedText>> = {};
+    let cta: FittedText | null = null;
+    let button: CtaButton | null = null;
+    let fixedHeight = 0;
+    for (let scale = 1; scale >= 0.5; scale -= 0.1) {
+      const scaled = (box: TextBox): TextBox => ({
+        ...box,
+        fontSize: Math.max(box.minFontSize, box.fontSize * scale),
+      });
+
+      fitted = {};
+      for (const field of flowing) {
+        fitted[field] = this.textFitter.fit(text[field], scaled(boxes[field]));
+      }
+      cta = fields.includes('callToAction')
+        ? this.textFitter.fit(text.callToAction, scaled(boxes.callToAction))
+        : null;
+      button = cta ? this.getCtaButton(cta, 0, 0) : null;
+
+      fixedHeight =
+        extra +
+        flowing.reduce(
+          (sum, field) => sum + this.blockHeight(fitted[field]!) + gap,
+          0
+        ) +
+        (button ? gap * 0.5 + button.height : -gap);
+
+      const descriptionRoom = fields.includes('description')
+        ? boxes.description.minFontSize + gap
+        : 0;
+      if (fixedHeight + descriptionRoom <= region.height) break;
+    }
+
+    let descriptionBox: TextBox | undefined;
+    if (fields.includes('description')) {
+      descriptionBox = {
+        ...boxes.description,
+        maxHeight: Math.max(
+          boxes.description.minFontSize,
+          Math.min(
+            boxes.description.maxHeight ?? Infinity,
+            region.height - fixedHeight - gap
+          )
+        ),
+      };
+      fitted.description = this.textFitter.fit(
+        text.description,
+        descriptionBox
+      );
+    }
+
+    const totalHeight =
+      fixedHeight +
+      (fitted.description ? this.blockHeight(fitted.description) + gap : 0);
+    let top = region.y + Math.max(0, (region.height - totalHeight) / 2);
+
+    const laidOut: Partial<Record<CopyField, LaidOutText>> = {};
+    for (const field of fields) {
+      if (field === 'callToAction') continue;
+      const item = fitted[field]!;
+      const box = field === 'description' ? descriptionBox! : boxes[field];
+      top += spacing[field] ?? 0;
+      laidOut[field] = { ...item, box, x, y: top + item.fontSize * 0.8, anchor };
+      top += this.blockHeight(item) + gap + (spacing[field] ?? 0);
+    }
+
+    if (!cta || !button) {
+      return { text: laidOut };
+    }
+
+    top += gap * 0.5 + (spacing.callToAction ?? 0);
+    const buttonCenter = anchor === 'middle' ? x : x + button.width / 2;
+    const ctaButton = this.getCtaButton(
+      cta,
+      buttonCenter,
+      top + button.height / 2
+    );
+    laidOut.callToAction = {
+      ...cta,
+      box: boxes.callToAction,
+      x: buttonCenter,
+      y: ctaButton.textY,
+      anchor: 'middle',
+    };
+
+    return { text: laidOut, ctaButton };
+  }
+
+  /**
+   * Bottom of the area available to the copy: the top of the info block,
+   * or the bottom of the safe area.
+   */
+  protected contentBottom(
+    config: CanvasConfig,
+    info: InfoBlockLayout | null
+  ): number {
+    return info ? info.top : config.height - (config.safeZone?.bottom ?? 0);
+  }
+
+  /** Height from the top of the first line to the bottom of the last. */
+  protected blockHeight(text: FittedText): number {
+    return text.fontSize * (1.2 * (text.lines.length - 1) + 1);
+  }
+
+  /**
+   * Button geometry sized to the measured CTA text, centered on (cx, cy).
+   */
+  protected getCtaButton(cta: FittedText, cx: number, cy: number): CtaButton {
+    const lineHeight = cta.fontSize * 1.2;
+    const textWidth = Math.max(
+      ...cta.lines.map((line) => this.measurer.measure(line, cta.fontSize, true))
+    );
+    const width = textWidth + cta.fontSize * 2;
+    const height = (cta.lines.length - 1) * lineHeight + cta.fontSize * 1.8;
+
+    return {
+      x: cx - width / 2,
+      y: cy - height / 2,
+      width,
+      height,
+      // Cap height is roughly 0.7em, so +0.35em centers a line on cy.
+      textY: cy - ((cta.lines.length - 1) * lineHeight) / 2 + cta.fontSize * 0.35,
+    };
+  }
+
+  /**
+   * Areas covered by copy drawn straight on the background: the text
+   * fields (at their box width) and the info block. The CTA label sits on
+   * its button and is left out.
+   */
+  getTextRegions(layout: LayoutResult, config: CanvasConfig): Region[] {
+    const regions: Region[] = [];
+
+    for (const [field, text] of Object.entries(layout.text)) {
+      if (field === 'callToAction' || !text || text.lines.length === 0) {
+        continue;
+      }
+      const { maxWidth, lineHeight = 1.2 } = text.box;
+      const x =
+        text.anchor === 'middle'
+          ? text.x - maxWidth / 2
+          : text.anchor === 'end'
+            ? text.x - maxWidth
+            : text.x;
+      regions.push({
+        x,
+        y: text.y - text.fontSize,
+        width: maxWidth,
+        height: text.fontSize * (lineHeight * (text.lines.length - 1) + 1.3),
+      });
+    }
+
+    if (layout.info) {
+      regions.push({
+        x: 0,
+        y: layout.info.top,
+        width: config.width,
+        height: layout.info.height,
+      });
+    }
+
+    return regions;
+  }
+
+  /**
+   * Wraps layout-specific markup in an SVG document with the shared
+   * background gradient and drop shadow definitions. With a photo
+   * backdrop, `bgGradient` is a pattern painting the photo instead, so
+   * every layout's background fill shows it.
+   */
+  protected svgDocument(config: CanvasConfig, body: string, defs = ''): string {
+    const { width, height, backgroundColor } = config;
+
+    const background = config.backdrop
+      ? `<pattern id="bgGradient" patternUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">
+      ${config.backdrop}
+    </pattern>`
+      : `<linearGradient id="bgGradient" x1="0%" y1="0%" x2="100%" y2="100%">
+      <stop offset="0%" style="stop-color:${backgroundColor};stop-opacity:1" />
+      <stop offset="100%" style="stop-color:${this.gradientEnd(
+        config
+      )};stop-opacity:1" />
+    </linearGradient>`;
+
+    return `
+<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    ${background}
+
+    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+      <feDropShadow dx="2" dy="2" stdDeviation="3" flood-color="rgba(0,0,0,0.3)"/>
+    </filter>
+    ${defs}
+  </defs>
+  ${body}
+</svg>`;
+  }
+
+  /**
+   * Title, subtitle, description, CTA button and info block, drawn the same
+   * way by every layout.
+   */
+  protected renderCopy(
+    config: CanvasConfig,
+    layout: LayoutResult,
+    colors: { text?: string; title?: string; button?: string; buttonText?: string } = {},
+    options: { shadow?: boolean; buttonRadius?: number } = {}
+  ): string {
+    const textColor = colors.text ?? config.textColor;
+    const { ctaButton, info } = layout;
+    const filter = options.shadow === false ? undefined : 'url(#shadow)';
+    const { frame } = config;
+    const title = layout.text.title;
+
+    return `
+  <!-- Main title -->
+  ${this.animate(
+    this.createMultilineText(title, colors.title ?? textColor, {
+      weight: 'bold',
+      filter,
+    }),
+    {
+      opacity: frame?.titleOpacity,
+      dy: frame && title ? frame.titleRise * title.fontSize * 0.6 : 0,
+    }
+  )}
+
+  <!-- Subtitle -->
+  ${this.createMultilineText(layout.text.subtitle, textColor, {
+    weight: '600',
+    opacity: 0.9,
+  })}
+
+  <!-- Description (multiline if necessary) -->
+  ${this.createMultilineText(layout.text.description, textColor, {
+    opacity: 0.8,
+  })}
+
+  <!-- Call to action (button sized to the measured text) -->
+  ${this.animate(
+    `${
+      ctaButton
+        ? `<rect x="${ctaButton.x}"
+        y="${ctaButton.y}"
+        width="${ctaButton.width}"
+        height="${ctaButton.height}"
+        fill="${colors.button ?? config.accentColor}"
+        rx="${options.buttonRadius ?? 25}"
+        ${filter ? `filter="${filter}"` : ''}/>`
+        : ''
+    }
+
+  ${this.createMultilineText(
+    layout.text.callToAction,
+    colors.buttonText ??
+      this.contrastColor(colors.button ?? config.accentColor),
+    { weight: 'bold' }
+  )}`,
+    {
+      scale: frame?.ctaScale,
+      origin: ctaButton && {
+        x: ctaButton.x + ctaButton.width / 2,
+        y: ctaButton.y + ctaButton.height / 2,
+      },
+    }
+  )}
+
+  <!-- Info block (offer, validity, location, phone, schedule) -->
+  ${
+    info
+      ? this.infoBlock.render(info, config.width, this.fontFamily, textColor)
+      : ''
+  }`;
+  }
+
+  /**
+   * Wraps markup in a group that moves, scales (about `origin`) or fades
+   * it for a frame of an animated flyer; markup with nothing to apply is
+   * returned as is.
+   */
+  protected animate(
+    markup: string,
+    effect: {
+      opacity?: number;
+      dx?: number;
+      dy?: number;
+      scale?: number;
+      origin?: { x: number; y: number };
+    }
+  ): string {
+    const { opacity = 1, dx = 0, dy = 0, scale = 1, origin } = effect;
+    const transforms: string[] = [];
+    if (dx !== 0 || dy !== 0) {
+      transforms.push(`translate(${dx} ${dy})`);
+    }
+    if (scale !== 1 && origin) {
+      transforms.push(
+        `translate(${origin.x} ${origin.y}) scale(${scale}) translate(${-origin.x} ${-origin.y})`
+      );
+    }
+    if (!markup.trim() || (opacity === 1 && transforms.length === 0)) {
+      return markup;
+    }
+
+    return `<g${opacity !== 1 ? ` opacity="${opacity}"` : ''}${
+      transforms.length ? ` transform="${transforms.join(' ')}"` : ''
+    }>
+  ${markup}
+  </g>`;
+  }
+
+  protected createMultilineText(
+    text: LaidOutText | undefined,
+    color: string,
+    style: TextStyle = {}
+  ): string {
+    if (!text) return '';
+
+    return text.lines
+      .map((line, index) => {
+        const lineY = text.y + index * text.fontSize * 1.2;
+        return `<text x="${text.x}" y="${lineY}"
+                     font-family="${this.fontFamily}"
+                     font-size="${text.fontSize}"
+                     ${style.weight ? `font-weight="${style.weight}"` : ''}
+                     fill="${color}"
+                     text-anchor="${text.anchor}"
+                     ${style.opacity !== undefined ? `opacity="${style.opacity}"` : ''}
+                     ${style.filter ? `filter="${style.filter}"` : ''}>
+                ${this.escapeXML(line)}
+              </text>`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Black or white, whichever reads better on the given color (WCAG AA,
+   * then the higher APCA contrast).
+   */
+  protected contrastColor(color: string): string {
+    return toHex(readableTextColor(parseColor(color)));
+  }
+
+  /**
+   * The structured offer's badge text in the canvas locale, or null when
+   * the offer has no recognized deal.
+   */
+  protected offerLabels(config: CanvasConfig): OfferLabels | null {
+    return config.structuredOffer
+      ? getOfferLabels(config.structuredOffer, config.locale)
+      : null;
+  }
+
+  protected escapeXML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Darkens a color in OKLCH, so hue and saturation hold up (any CSS color
+   * is accepted).
+   */
+  protected darkenColor(color: string, factor: number): string {
+    return darken(color, factor);
+  }
+
+  /**
+   * Dark end of the background gradient: the background darkened by up to
+   * 20%, as far as the text color still passes WCAG AA on it.
+   */
+  protected gradientEnd(config: CanvasConfig): string {
+    const text = parseColor(config.textColor);
+    for (let amount = 0.2; amount > 0.01; amount -= 0.05) {
+      const end = darken(config.backgroundColor, amount);
+      if (contrastRatio(text, parseColor(end)) >= 4.5) return end;
+    }
+    return config.backgroundColor;
+  }
+}
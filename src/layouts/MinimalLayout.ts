@@ -0,0 +1,74 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/**
+ * Flat background, left-aligned copy with wide margins and a short accent
+ * rule above the title. No gradients, shadows or decoration.
+ */
+export class MinimalLayout extends FlyerLayout {
+  readonly name = 'minimal' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const region = this.getRegion(config);
+    return this.scaledBoxes(config.width, region.width, region.height * 0.4);
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const boxes = this.getTextBoxes(config);
+    const stacked = this.stack(
+      text,
+      config,
+      boxes,
+      this.getRegion(config, info),
+      'start',
+      undefined,
+      // Room for the accent rule
+      { title: boxes.title.fontSize * 0.6 }
+    );
+
+    return {
+      text: stacked.text as LayoutResult['text'],
+      ctaButton: stacked.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { width, backgroundColor, accentColor } = config;
+    const title = layout.text.title!;
+    const ruleY = title.y - title.fontSize * 0.8 - title.fontSize * 0.5;
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Flat background -->
+  <rect width="100%" height="100%" fill="${backgroundColor}"/>
+
+  <!-- Accent rule -->
+  <rect x="${title.x}" y="${ruleY}" width="${width * 0.08}" height="${Math.max(
+    4,
+    title.fontSize * 0.12
+  )}" fill="${accentColor}"/>
+  ${this.renderCopy(config, layout, {}, { shadow: false, buttonRadius: 6 })}`
+    );
+  }
+
+  private getRegion(config: CanvasConfig, info = this.layoutInfo(config)): Region {
+    const { width, height } = config;
+    const marginX = width * 0.1;
+    const marginY = Math.min(width, height) * 0.08;
+
+    return {
+      x: marginX,
+      y: marginY,
+      width: width - marginX * 2,
+      height: this.contentBottom(config, info) - marginY * 2,
+    };
+  }
+}
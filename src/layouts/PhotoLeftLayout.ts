@@ -0,0 +1,115 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/**
+ * A picture panel on the left (on top for tall canvases) with left-aligned
+ * copy beside it. The panel is filled with accent artwork drawn from the
+ * palette.
+ */
+export class PhotoLeftLayout extends FlyerLayout {
+  readonly name = 'photo-left' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { content } = this.getRegions(config);
+    return this.scaledBoxes(
+      Math.min(config.width, config.height * 1.6),
+      content.width,
+      content.height * 0.4
+    );
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const { content, vertical } = this.getRegions(config, info);
+    const stacked = this.stack(
+      text,
+      config,
+      this.getTextBoxes(config),
+      content,
+      vertical ? 'middle' : 'start'
+    );
+
+    return {
+      text: stacked.text as LayoutResult['text'],
+      ctaButton: stacked.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { backgroundColor, accentColor } = config;
+    const { photo } = this.getRegions(config, layout.info);
+    const cx = photo.x + photo.width / 2;
+    const cy = photo.y + photo.height / 2;
+    const size = Math.min(photo.width, photo.height);
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+
+  ${
+    config.backdrop
+      ? '<!-- Picture panel: the product photo shows through -->'
+      : `<!-- Picture panel -->
+  <rect x="${photo.x}" y="${photo.y}" width="${photo.width}" height="${photo.height}"
+        fill="url(#photoGradient)"/>
+  <circle cx="${cx}" cy="${cy}" r="${size * 0.32}" fill="${backgroundColor}" opacity="0.25"/>
+  <circle cx="${cx}" cy="${cy}" r="${size * 0.2}" fill="none"
+          stroke="${backgroundColor}" stroke-width="${size * 0.02}" opacity="0.35"/>
+  <circle cx="${photo.x + photo.width * 0.85}" cy="${photo.y + photo.height * 0.15}"
+          r="${size * 0.08}" fill="${backgroundColor}" opacity="0.3"/>`
+  }
+  ${this.renderCopy(config, layout)}`,
+      `<linearGradient id="photoGradient" x1="0%" y1="0%" x2="100%" y2="100%">
+      <stop offset="0%" style="stop-color:${accentColor};stop-opacity:1" />
+      <stop offset="100%" style="stop-color:${this.darkenColor(
+        accentColor,
+        0.35
+      )};stop-opacity:1" />
+    </linearGradient>`
+    );
+  }
+
+  private getRegions(
+    config: CanvasConfig,
+    info = this.layoutInfo(config)
+  ): { photo: Region; content: Region; vertical: boolean } {
+    const { width, height } = config;
+    const bottom = this.contentBottom(config, info);
+    const margin = Math.min(width, height) * 0.06;
+    const vertical = height > width * 1.2;
+
+    if (vertical) {
+      const photoHeight = bottom * 0.45;
+      return {
+        vertical,
+        photo: { x: 0, y: 0, width, height: photoHeight },
+        content: {
+          x: margin,
+          y: photoHeight + margin,
+          width: width - margin * 2,
+          height: bottom - photoHeight - margin * 2,
+        },
+      };
+    }
+
+    const photoWidth = width * 0.4;
+    return {
+      vertical,
+      photo: { x: 0, y: 0, width: photoWidth, height: bottom },
+      content: {
+        x: photoWidth + margin,
+        y: margin,
+        width: width - photoWidth - margin * 2,
+        height: bottom - margin * 2,
+      },
+    };
+  }
+}
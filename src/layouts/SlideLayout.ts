@@ -0,0 +1,208 @@
+import type { TextBox } from '../layout/TextFitter';
+import type {
+  CanvasConfig,
+  CopyField,
+  SlidePosition,
+  TextVariation,
+} from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/** Position used when a canvas is not part of a carousel. */
+const SINGLE_SLIDE: SlidePosition = { role: 'hook', index: 0, count: 1 };
+
+/**
+ * One slide of a carousel. Every slide draws the same background, as wide
+ * as all slides side by side, shifted left by its position: the gradient,
+ * the circles on the seams and the wave run on from one slide into the
+ * next as people swipe. The copy depends on the slide's role: a large
+ * hook, numbered benefits, the offer, and a CTA button above the details
+ * on the last slide. Slides before the last get a swipe arrow, and an
+ * optional "2/5" counter.
+ */
+export class SlideLayout extends FlyerLayout {
+  readonly name = 'carousel-slide' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { role } = config.slide ?? SINGLE_SLIDE;
+    const region = this.getRegion(config);
+    // Hooks and offers are read at a glance; benefits carry more text.
+    const basis =
+      config.width * (role === 'hook' || role === 'offer' ? 1.6 : 1.3);
+    return this.scaledBoxes(basis, region.width, region.height * 0.5);
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const { role } = config.slide ?? SINGLE_SLIDE;
+    const info = this.layoutInfo(config);
+    const boxes = this.getTextBoxes(config);
+    const fields: CopyField[] = text.callToAction
+      ? ['title', 'description', 'callToAction']
+      : ['title', 'description'];
+    let region = this.getRegion(config, info);
+    if (role === 'benefit') {
+      // Room for the benefit's number above the title
+      const room = this.numberSize(boxes.title) * 1.1;
+      region = { ...region, y: region.y + room, height: region.height - room };
+    }
+    const stacked = this.stack(
+      text,
+      config,
+      boxes,
+      region,
+      role === 'benefit' ? 'start' : 'middle',
+      fields
+    );
+
+    return { text: stacked.text, ctaButton: stacked.ctaButton, info };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { width } = config;
+    const slide = config.slide ?? SINGLE_SLIDE;
+    const title = layout.text.title;
+
+    let number = '';
+    if (slide.role === 'benefit' && title) {
+      const size = this.numberSize(title.box);
+      number = `
+  <!-- Benefit number -->
+  <text x="${title.x}" y="${title.y - title.fontSize * 0.8 - size * 0.3}"
+        font-family="${this.fontFamily}" font-size="${size}" font-weight="bold"
+        fill="${config.accentColor}">${String(slide.index).padStart(2, '0')}</text>`;
+    }
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background shared by all slides, shifted to this one -->
+  <g transform="translate(${-slide.index * width} 0)">
+    ${this.panorama(config, slide.count)}
+  </g>
+  ${number}
+  ${this.renderCopy(config, layout)}
+  ${slide.numbering ? this.counter(config, slide) : ''}
+  ${slide.index < slide.count - 1 ? this.swipeArrow(config) : ''}`,
+      this.panoramaGradient(config, slide.count)
+    );
+  }
+
+  /**
+   * Gradient across all slides, alternating between the background and
+   * its darker end at every seam, so neighbouring slides meet in the same
+   * shade.
+   */
+  private panoramaGradient(config: CanvasConfig, count: number): string {
+    const end = this.gradientEnd(config);
+    const stops = Array.from(
+      { length: count + 1 },
+      (_, seam) =>
+        `<stop offset="${seam / count}" stop-color="${
+          seam % 2 === 0 ? config.backgroundColor : end
+        }"/>`
+    );
+    return `<linearGradient id="carouselBackground" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="${
+      config.width * count
+    }" y2="${config.height * 0.3}">
+      ${stops.join('\n      ')}
+    </linearGradient>`;
+  }
+
+  /**
+   * The background of the whole carousel: circles centered on the seams,
+   * alternating top and bottom so each shows half on either slide, and a
+   * wave whose period doesn't divide the slide width, so no two slides
+   * look the same.
+   */
+  private panorama(config: CanvasConfig, count: number): string {
+    const { width, height, accentColor } = config;
+    const total = width * count;
+    const radius = Math.min(width, height) * 0.28;
+
+    const circles = Array.from({ length: count + 1 }, (_, seam) => {
+      const cy = seam % 2 === 0 ? height * 0.12 : height * 0.88;
+      return `<circle cx="${seam * width}" cy="${cy}" r="${radius}" fill="${accentColor}" opacity="0.18"/>`;
+    });
+
+    const baseline = height * 0.8;
+    const amplitude = height * 0.04;
+    const period = width * 1.35;
+    const points: string[] = [];
+    for (let x = 0; x <= total; x += width / 24) {
+      const y = baseline + amplitude * Math.sin((2 * Math.PI * x) / period);
+      points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+
+    return `<rect width="${total}" height="${height}" fill="url(#carouselBackground)"/>
+    ${circles.join('\n    ')}
+    <path d="M0,${height} L${points.join(' L')} L${total},${height} Z" fill="${accentColor}" opacity="0.12"/>
+    <polyline points="${points.join(' ')}" fill="none" stroke="${accentColor}" stroke-width="${Math.max(
+      3,
+      height * 0.006
+    )}" opacity="0.5"/>`;
+  }
+
+  /** "2/5" in a pill at the top right of the safe area. */
+  private counter(config: CanvasConfig, slide: SlidePosition): string {
+    const safe = this.safeArea(config);
+    const label = `${slide.index + 1}/${slide.count}`;
+    const size = Math.max(14, config.width * 0.028);
+    const pillWidth = this.measurer.measure(label, size, true) + size * 1.4;
+    const pillHeight = size * 1.8;
+    const x = safe.x + safe.width - config.width * 0.05 - pillWidth;
+    const y = safe.y + config.height * 0.04;
+
+    return `
+  <!-- Slide counter -->
+  <rect x="${x}" y="${y}" width="${pillWidth}" height="${pillHeight}" rx="${
+    pillHeight / 2
+  }" fill="${config.textColor}" opacity="0.15"/>
+  <text x="${x + pillWidth / 2}" y="${y + pillHeight / 2 + size * 0.35}"
+        font-family="${this.fontFamily}" font-size="${size}" font-weight="bold"
+        fill="${config.textColor}" text-anchor="middle">${label}</text>`;
+  }
+
+  /** An arrow at the bottom right of the safe area, inviting a swipe. */
+  private swipeArrow(config: CanvasConfig): string {
+    const safe = this.safeArea(config);
+    const size = Math.min(config.width, config.height) * 0.06;
+    const right = safe.x + safe.width - config.width * 0.05;
+    const y = safe.y + safe.height - config.height * 0.05;
+    const head = size * 0.35;
+
+    return `
+  <!-- Swipe arrow -->
+  <path d="M${right - size},${y} H${right} M${right - head},${y - head} L${right},${y} L${right - head},${y + head}"
+        fill="none" stroke="${config.textColor}" stroke-width="${Math.max(
+          3,
+          size * 0.1
+        )}" stroke-linecap="round" stroke-linejoin="round" opacity="0.85"/>`;
+  }
+
+  /** Font size of a benefit's number. */
+  private numberSize(title: TextBox): number {
+    return title.fontSize * 1.2;
+  }
+
+  private getRegion(
+    config: CanvasConfig,
+    info = this.layoutInfo(config)
+  ): Region {
+    const { width, height } = config;
+    const marginX = width * 0.1;
+    const marginY = height * 0.1;
+    // The swipe arrow and counter sit in the margins.
+    const bottom =
+      this.contentBottom(config, info) - (info ? marginY * 0.4 : marginY);
+
+    return {
+      x: marginX,
+      y: marginY,
+      width: width - marginX * 2,
+      height: bottom - marginY,
+    };
+  }
+}
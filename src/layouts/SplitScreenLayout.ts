@@ -0,0 +1,136 @@
+import type { TextBox } from '../layout/TextFitter';
+import type { CanvasConfig, CopyField, TextVariation } from '../types';
+import { FlyerLayout, type LayoutResult, type Region } from './FlyerLayout';
+
+/**
+ * Two panels: a solid accent panel carrying the title and the background
+ * side carrying the rest of the copy. Panels sit side by side on landscape
+ * and square canvases, and on top of each other on tall ones.
+ */
+export class SplitScreenLayout extends FlyerLayout {
+  readonly name = 'split-screen' as const;
+
+  getTextBoxes(config: CanvasConfig): Record<CopyField, TextBox> {
+    const { panel, content } = this.getRegions(config);
+    const boxes = this.scaledBoxes(
+      Math.min(config.width, config.height * 1.6),
+      content.width,
+      content.height * 0.5
+    );
+
+    return { ...boxes, title: this.getTitleBox(config, panel) };
+  }
+
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const info = this.layoutInfo(config);
+    const { panel, content, vertical } = this.getRegions(config, info);
+    const boxes = this.getTextBoxes(config);
+    const padding = this.getPadding(config);
+
+    const title = this.stack(
+      text,
+      config,
+      boxes,
+      {
+        x: panel.x + padding,
+        y: panel.y + padding,
+        width: panel.width - padding * 2,
+        height: panel.height - padding * 2,
+      },
+      vertical ? 'middle' : 'start',
+      ['title']
+    );
+    const rest = this.stack(
+      text,
+      config,
+      boxes,
+      content,
+      vertical ? 'middle' : 'start',
+      ['subtitle', 'description', 'callToAction']
+    );
+
+    return {
+      text: { ...title.text, ...rest.text } as LayoutResult['text'],
+      ctaButton: rest.ctaButton!,
+      info,
+    };
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const { panel } = this.getRegions(config, layout.info);
+    const { accentColor } = config;
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Background with gradient -->
+  <rect width="100%" height="100%" fill="url(#bgGradient)"/>
+
+  <!-- Title panel -->
+  <rect x="${panel.x}" y="${panel.y}" width="${panel.width}" height="${panel.height}"
+        fill="${accentColor}"/>
+  ${this.renderCopy(config, layout, {
+    title: this.contrastColor(accentColor),
+    button: this.darkenColor(accentColor, 0.15),
+  })}`
+    );
+  }
+
+  private getTitleBox(config: CanvasConfig, panel: Region): TextBox {
+    const padding = this.getPadding(config);
+    const titleSize = Math.max(28, Math.min(config.width, config.height) * 0.08);
+
+    return {
+      maxWidth: panel.width - padding * 2,
+      maxLines: 6,
+      maxHeight: panel.height - padding * 2,
+      fontSize: titleSize,
+      minFontSize: Math.max(24, titleSize * 0.5),
+      bold: true,
+    };
+  }
+
+  private getPadding(config: CanvasConfig): number {
+    return Math.min(config.width, config.height) * 0.06;
+  }
+
+  private getRegions(
+    config: CanvasConfig,
+    info = this.layoutInfo(config)
+  ): { panel: Region; content: Region; vertical: boolean } {
+    const { width } = config;
+    const bottom = this.contentBottom(config, info);
+    const padding = this.getPadding(config);
+    const vertical = config.height > config.width * 1.2;
+
+    if (vertical) {
+      const panelHeight = bottom * 0.4;
+      return {
+        vertical,
+        panel: { x: 0, y: 0, width, height: panelHeight },
+        content: {
+          x: padding,
+          y: panelHeight + padding,
+          width: width - padding * 2,
+          height: bottom - panelHeight - padding * 2,
+        },
+      };
+    }
+
+    const panelWidth = width * 0.45;
+    return {
+      vertical,
+      panel: { x: 0, y: 0, width: panelWidth, height: bottom },
+      content: {
+        x: panelWidth + padding,
+        y: padding,
+        width: width - panelWidth - padding * 2,
+        height: bottom - padding * 2,
+      },
+    };
+  }
+}
@@ -0,0 +1,572 @@
+import { readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { isColor, toHex } from '../color';
+import type { TextBox } from '../layout/TextFitter';
+import {
+  copyFieldOf,
+  placeholdersIn,
+  resolveDimension,
+  type Dimension,
+  type FlyerTemplate,
+  type TemplateBinding,
+  type TemplateLayer,
+  type TemplateOverride,
+  type TextLayer,
+} from '../templates/TemplateSchema';
+import type {
+  CanvasConfig,
+  CopyField,
+  LayoutName,
+  TextVariation,
+} from '../types';
+import {
+  FlyerLayout,
+  type CtaButton,
+  type LaidOutText,
+  type LayoutResult,
+  type LayoutTools,
+} from './FlyerLayout';
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+/** A text layer fitted and positioned on the canvas. */
+interface PlacedText {
+  text: LaidOutText;
+  /** Box around the text including padding, where a background is drawn. */
+  frame: CtaButton;
+}
+
+type Values = Record<TemplateBinding, string>;
+
+/**
+ * Renders a declarative template (see `FlyerTemplate`) loaded from the
+ * templates/ directory. Layers are drawn in order; text layers bound to
+ * copy fields are fitted like the built-in layouts, so length budgets and
+ * refitting work the same.
+ */
+export class TemplateLayout extends FlyerLayout {
+  readonly name: LayoutName;
+  /** Templates position every layer themselves, brand assets included. */
+  override readonly avoidsAssets = false;
+
+  private template: FlyerTemplate;
+  private images = new Map<string, string>();
+
+  constructor(template: FlyerTemplate, tools: LayoutTools) {
+    super(tools);
+    this.name = template.name;
+    this.template = template;
+  }
+
+  getTextBoxes(config: CanvasConfig): Partial<Record<CopyField, TextBox>> {
+    const boxes: Partial<Record<CopyField, TextBox>> = {};
+
+    for (const { layer } of this.textLayers(this.getLayers(config), config)) {
+      const field = copyFieldOf(layer.bind);
+      if (field && !boxes[field]) {
+        boxes[field] = this.getTextBox(layer, config);
+      }
+    }
+
+    return boxes;
+  }
+
+  /**
+   * Places the first visible text layer bound to each copy field. A CTA
+   * layer with a background counts as the CTA button.
+   */
+  arrange(text: TextVariation, config: CanvasConfig): LayoutResult {
+    const values = this.getValues(text, config);
+    const result: LayoutResult = {
+      text: {},
+      info: this.getOverridden(config, 'info') ? this.layoutInfo(config) : null,
+    };
+
+    const layers = this.textLayers(this.getLayers(config), config, values);
+    for (const { layer, dx, dy } of layers) {
+      const field = copyFieldOf(layer.bind);
+      if (!field || result.text[field]) continue;
+
+      const placed = this.placeText(layer, values, config, dx, dy);
+      if (!placed) continue;
+
+      result.text[field] = placed.text;
+      if (field === 'callToAction' && layer.background) {
+        result.ctaButton = placed.frame;
+      }
+    }
+
+    return result;
+  }
+
+  render(
+    text: TextVariation,
+    config: CanvasConfig,
+    layout: LayoutResult
+  ): string {
+    const values = this.getValues(text, config);
+    const background = this.paint(
+      this.getOverridden(config, 'background') ?? '{{gradient}}',
+      config
+    );
+
+    return this.svgDocument(
+      config,
+      `
+  <!-- Template: ${this.escapeXML(this.template.name)} -->
+  <rect width="100%" height="100%" fill="${background}"/>
+  ${this.renderLayers(this.getLayers(config), values, config)}
+  ${
+    layout.info
+      ? this.infoBlock.render(
+          layout.info,
+          config.width,
+          this.fontFamily,
+          config.textColor
+        )
+      : ''
+  }`
+    );
+  }
+
+  /**
+   * Layers with the overrides for the canvas orientation, then for the
+   * format, applied by layer id.
+   */
+  private getLayers(config: CanvasConfig): TemplateLayer[] {
+    return this.getOverrides(config).reduce(
+      (layers, override) => this.applyOverride(layers, override.layers ?? {}),
+      this.template.layers
+    );
+  }
+
+  private applyOverride(
+    layers: TemplateLayer[],
+    changes: Record<string, Partial<TemplateLayer>>
+  ): TemplateLayer[] {
+    return layers.map((layer) => {
+      const change = layer.id ? changes[layer.id] : undefined;
+      const next = (change ? { ...layer, ...change } : layer) as TemplateLayer;
+
+      return next.type === 'group'
+        ? { ...next, layers: this.applyOverride(next.layers, changes) }
+        : next;
+    });
+  }
+
+  private getOverrides(config: CanvasConfig): TemplateOverride[] {
+    const ratio = config.width / config.height;
+    const orientation =
+      ratio > 1.1 ? 'landscape' : ratio < 0.9 ? 'portrait' : 'square';
+
+    return [orientation, config.format]
+      .map((key) => (key ? this.template.formats?.[key] : undefined))
+      .filter((override): override is TemplateOverride => !!override);
+  }
+
+  /** A template-level setting, as overridden for this canvas. */
+  private getOverridden<K extends 'background' | 'info'>(
+    config: CanvasConfig,
+    key: K
+  ): FlyerTemplate[K] {
+    let value = this.template[key];
+    for (const override of this.getOverrides(config)) {
+      if (override[key] !== undefined) {
+        value = override[key] as FlyerTemplate[K];
+      }
+    }
+    return value;
+  }
+
+  private getValues(text: TextVariation, config: CanvasConfig): Values {
+    const details = config.details ?? {};
+    const labels = this.offerLabels(config);
+
+    return {
+      title: text.title,
+      subtitle: text.subtitle,
+      description: text.description,
+      callToAction: text.callToAction,
+      tone: text.tone,
+      product: details.product ?? '',
+      businessType: details.businessType ?? '',
+      offer: details.offer ?? '',
+      validity: details.validity ?? '',
+      location: details.location ?? '',
+      phone: details.phone ?? '',
+      schedule: details.schedule ?? '',
+      offerHeadline: labels?.headline ?? '',
+      offerCaption: labels?.caption ?? '',
+      originalPrice: labels?.originalPrice ?? '',
+    };
+  }
+
+  private isVisible(layer: TemplateLayer, values?: Values): boolean {
+    if (layer.hidden) return false;
+    // Without values (budgets), conditional layers count as shown.
+    return !layer.if || !values || values[layer.if].trim() !== '';
+  }
+
+  /** Visible text layers in drawing order, with their group offsets. */
+  private textLayers(
+    layers: TemplateLayer[],
+    config: CanvasConfig,
+    values?: Values,
+    dx = 0,
+    dy = 0
+  ): Array<{ layer: TextLayer; dx: number; dy: number }> {
+    return layers.flatMap((layer) => {
+      if (!this.isVisible(layer, values)) return [];
+      if (layer.type === 'group') {
+        return this.textLayers(
+          layer.layers,
+          config,
+          values,
+          dx + this.px(layer.x, 'x', config),
+          dy + this.px(layer.y, 'y', config)
+        );
+      }
+      return layer.type === 'text' ? [{ layer, dx, dy }] : [];
+    });
+  }
+
+  private getTextBox(layer: TextLayer, config: CanvasConfig): TextBox {
+    const fontSize = this.px(layer.fontSize, 'size', config);
+    const padX = layer.background ? (layer.background.paddingX ?? 1) * fontSize : 0;
+    const padY = layer.background
+      ? (layer.background.paddingY ?? 0.4) * fontSize
+      : 0;
+    const minFontSize =
+      layer.minFontSize !== undefined
+        ? this.px(layer.minFontSize, 'size', config)
+        : fontSize * 0.6;
+
+    return {
+      maxWidth: this.px(layer.width, 'x', config) - padX * 2,
+      maxLines:
+        layer.maxLines ?? (copyFieldOf(layer.bind) === 'description' ? 8 : 2),
+      maxHeight:
+        layer.height !== undefined
+          ? this.px(layer.height, 'y', config) - padY * 2
+          : undefined,
+      hyphenate: layer.hyphenate,
+      fontSize,
+      minFontSize: Math.min(fontSize, minFontSize),
+      bold: this.isBold(layer),
+    };
+  }
+
+  /**
+   * Fits a text layer's value into its box and aligns the result (and its
+   * background frame) inside the layer's rectangle.
+   *
+   * @returns The placed text, or null when the value is empty.
+   */
+  private placeText(
+    layer: TextLayer,
+    values: Values,
+    config: CanvasConfig,
+    dx: number,
+    dy: number
+  ): PlacedText | null {
+    let value = layer.bind
+      ? values[layer.bind]
+      : (layer.text ?? '').replace(
+          /\{\{\s*(\w+)\s*\}\}/g,
+          (_, name: string) => values[name as TemplateBinding] ?? ''
+        );
+    if (layer.uppercase) {
+      value = value.toUpperCase();
+    }
+    if (!value.trim()) return null;
+
+    const box = this.getTextBox(layer, config);
+    const fitted = this.textFitter.fit(value, box);
+    const { fontSize, lines } = fitted;
+
+    const x = dx + this.px(layer.x, 'x', config);
+    const y = dy + this.px(layer.y, 'y', config);
+    const width = this.px(layer.width, 'x', config);
+    const padX = layer.background ? (layer.background.paddingX ?? 1) * fontSize : 0;
+    const padY = layer.background
+      ? (layer.background.paddingY ?? 0.4) * fontSize
+      : 0;
+
+    const textWidth = Math.max(
+      0,
+      ...lines.map((line) => this.measurer.measure(line, fontSize, box.bold))
+    );
+    const frameWidth = textWidth + padX * 2;
+    const frameHeight = this.blockHeight(fitted) + padY * 2;
+
+    const align = layer.align ?? 'start';
+    let left =
+      align === 'start'
+        ? x
+        : align === 'middle'
+          ? x + (width - frameWidth) / 2
+          : x + width - frameWidth;
+
+    let top = y;
+    if (layer.height !== undefined && layer.verticalAlign !== 'top') {
+      const room = this.px(layer.height, 'y', config) - frameHeight;
+      if (layer.verticalAlign === 'middle') top += room / 2;
+      if (layer.verticalAlign === 'bottom') top += room;
+    }
+
+    // Nudge text the template put under platform UI back into the safe area.
+    if (config.safeZone) {
+      const safe = this.safeArea(config);
+      left = this.keepInside(left, frameWidth, safe.x, safe.width);
+      top = this.keepInside(top, frameHeight, safe.y, safe.height);
+    }
+
+    const anchorX =
+      align === 'start'
+        ? left + padX
+        : align === 'middle'
+          ? left + frameWidth / 2
+          : left + frameWidth - padX;
+    // On a background, center the lines' cap height in the frame like the
+    // CTA button does; otherwise hang the first line from the top.
+    const baseline = layer.background
+      ? top +
+        frameHeight / 2 -
+        ((lines.length - 1) * fontSize * 1.2) / 2 +
+        fontSize * 0.35
+      : top + fontSize * 0.8;
+
+    return {
+      text: { ...fitted, box, x: anchorX, y: baseline, anchor: align },
+      frame: {
+        x: left,
+        y: top,
+        width: frameWidth,
+        height: frameHeight,
+        textY: baseline,
+      },
+    };
+  }
+
+  /**
+   * Moves a span starting at `start` so it lies within the range, or to the
+   * range's start when it is too long to fit.
+   */
+  private keepInside(
+    start: number,
+    size: number,
+    rangeStart: number,
+    rangeSize: number
+  ): number {
+    if (size >= rangeSize) return rangeStart;
+    return Math.min(Math.max(start, rangeStart), rangeStart + rangeSize - size);
+  }
+
+  private renderLayers(
+    layers: TemplateLayer[],
+    values: Values,
+    config: CanvasConfig,
+    dx = 0,
+    dy = 0
+  ): string {
+    return layers
+      .filter((layer) => this.isVisible(layer, values))
+      .map((layer) => this.renderLayer(layer, values, config, dx, dy))
+      .join('\n  ');
+  }
+
+  private renderLayer(
+    layer: TemplateLayer,
+    values: Values,
+    config: CanvasConfig,
+    dx: number,
+    dy: number
+  ): string {
+    const px = (value: Dimension | undefined, axis: 'x' | 'y' | 'size') =>
+      this.px(value, axis, config);
+    const stroke = (fallback?: string) => {
+      const color = layer.type !== 'group' && 'stroke' in layer ? layer.stroke : undefined;
+      const width = 'strokeWidth' in layer ? layer.strokeWidth : undefined;
+      if (!color && !fallback) return '';
+      return `stroke="${this.paint(color ?? fallback!, config)}" stroke-width="${
+        width !== undefined ? px(width, 'size') : 2
+      }"`;
+    };
+
+    switch (layer.type) {
+      case 'group': {
+        const x = dx + px(layer.x, 'x');
+        const y = dy + px(layer.y, 'y');
+        return `<g ${this.attributes(layer, x, y)}>
+  ${this.renderLayers(layer.layers, values, config, x, y)}
+  </g>`;
+      }
+
+      case 'rect': {
+        const x = dx + px(layer.x, 'x');
+        const y = dy + px(layer.y, 'y');
+        const width = px(layer.width, 'x');
+        const height = px(layer.height, 'y');
+        return `<rect x="${x}" y="${y}" width="${width}" height="${height}"
+        rx="${px(layer.radius, 'size')}"
+        fill="${this.paint(layer.fill ?? '{{accent}}', config)}" ${stroke()}
+        ${this.attributes(layer, x + width / 2, y + height / 2)}/>`;
+      }
+
+      case 'shape': {
+        const fill = `fill="${this.paint(layer.fill ?? '{{accent}}', config)}"`;
+        if (layer.shape === 'line') {
+          const x1 = dx + px(layer.x1, 'x');
+          const y1 = dy + px(layer.y1, 'y');
+          const x2 = dx + px(layer.x2, 'x');
+          const y2 = dy + px(layer.y2, 'y');
+          return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" ${stroke('{{accent}}')}
+        ${this.attributes(layer, (x1 + x2) / 2, (y1 + y2) / 2)}/>`;
+        }
+        if (layer.shape === 'polygon') {
+          const points = (layer.points ?? []).map(
+            ([x, y]) => [dx + px(x, 'x'), dy + px(y, 'y')] as const
+          );
+          const cx = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+          const cy = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+          return `<polygon points="${points.map((point) => point.join(',')).join(' ')}"
+        ${fill} ${stroke()} ${this.attributes(layer, cx, cy)}/>`;
+        }
+
+        const cx = dx + px(layer.cx, 'x');
+        const cy = dy + px(layer.cy, 'y');
+        return layer.shape === 'circle'
+          ? `<circle cx="${cx}" cy="${cy}" r="${px(layer.r, 'size')}"
+        ${fill} ${stroke()} ${this.attributes(layer, cx, cy)}/>`
+          : `<ellipse cx="${cx}" cy="${cy}" rx="${px(layer.rx, 'x')}" ry="${px(layer.ry, 'y')}"
+        ${fill} ${stroke()} ${this.attributes(layer, cx, cy)}/>`;
+      }
+
+      case 'image': {
+        const x = dx + px(layer.x, 'x');
+        const y = dy + px(layer.y, 'y');
+        const width = px(layer.width, 'x');
+        const height = px(layer.height, 'y');
+        const aspect = { cover: 'xMidYMid slice', contain: 'xMidYMid meet', fill: 'none' }[
+          layer.fit ?? 'cover'
+        ];
+        return `<image href="${this.getImage(layer.href)}"
+        x="${x}" y="${y}" width="${width}" height="${height}"
+        preserveAspectRatio="${aspect}"
+        ${this.attributes(layer, x + width / 2, y + height / 2)}/>`;
+      }
+
+      case 'text': {
+        const placed = this.placeText(layer, values, config, dx, dy);
+        if (!placed) return '';
+
+        const { frame } = placed;
+        const background = layer.background;
+        const backgroundFill = background
+          ? this.paint(background.fill, config)
+          : undefined;
+        const color = layer.color
+          ? this.paint(layer.color, config)
+          : backgroundFill && isColor(backgroundFill)
+            ? this.contrastColor(backgroundFill)
+            : config.textColor;
+        const weight =
+          layer.weight === undefined ? undefined : String(layer.weight);
+
+        return `<g ${this.attributes(
+          layer,
+          frame.x + frame.width / 2,
+          frame.y + frame.height / 2
+        )}>
+  ${
+    background
+      ? `<rect x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${
+          frame.height
+        }" rx="${px(background.radius, 'size')}" fill="${backgroundFill}"/>`
+      : ''
+  }
+  ${this.createMultilineText(placed.text, color, { weight })}
+  </g>`;
+      }
+    }
+  }
+
+  /** Opacity, rotation (around cx, cy) and shadow attributes of a layer. */
+  private attributes(layer: TemplateLayer, cx: number, cy: number): string {
+    return [
+      layer.opacity !== undefined ? `opacity="${layer.opacity}"` : '',
+      layer.rotate ? `transform="rotate(${layer.rotate} ${cx} ${cy})"` : '',
+      layer.shadow ? 'filter="url(#shadow)"' : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private isBold(layer: TextLayer): boolean {
+    return (
+      layer.weight === 'bold' ||
+      (typeof layer.weight === 'number' && layer.weight >= 600)
+    );
+  }
+
+  private px(
+    value: Dimension | undefined,
+    axis: 'x' | 'y' | 'size',
+    config: CanvasConfig
+  ): number {
+    return value === undefined ? 0 : resolveDimension(value, axis, config);
+  }
+
+  /** Resolves `{{color}}` placeholders in a paint value. */
+  private paint(value: string, config: CanvasConfig): string {
+    const colors: Record<string, string> = {
+      background: config.backgroundColor,
+      text: config.textColor,
+      accent: config.accentColor,
+      accentText: this.contrastColor(config.accentColor),
+      gradient: 'url(#bgGradient)',
+    };
+
+    let painted = value;
+    for (const name of placeholdersIn(value)) {
+      painted = painted.replace(
+        new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`, 'g'),
+        colors[name] ?? ''
+      );
+    }
+    // Any CSS color works in a template; the renderer gets hex.
+    if (isColor(painted)) {
+      painted = toHex(painted);
+    }
+    return this.escapeXML(painted);
+  }
+
+  /**
+   * Image layers are embedded as data URIs so the renderer never has to
+   * resolve paths. Files are read relative to the template.
+   */
+  private getImage(href: string): string {
+    if (href.startsWith('data:')) {
+      return this.escapeXML(href);
+    }
+
+    let uri = this.images.get(href);
+    if (!uri) {
+      const path = resolve(
+        this.template.source ? dirname(this.template.source) : process.cwd(),
+        href
+      );
+      const type = IMAGE_TYPES[extname(path).toLowerCase()] ?? 'image/png';
+      uri = `data:${type};base64,${readFileSync(path).toString('base64')}`;
+      this.images.set(href, uri);
+    }
+    return uri;
+  }
+}
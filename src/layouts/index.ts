@@ -0,0 +1,107 @@
+import type { FlyerTemplate } from '../templates/TemplateSchema';
+import type { BuiltinLayoutName, LayoutName } from '../types';
+import type { FlyerLayout, LayoutTools } from './FlyerLayout';
+import { CenteredLayout } from './CenteredLayout';
+import { SplitScreenLayout } from './SplitScreenLayout';
+import { DiagonalBandLayout } from './DiagonalBandLayout';
+import { BigNumberLayout, extractHeadlineNumber } from './BigNumberLayout';
+import { MinimalLayout } from './MinimalLayout';
+import { BadgeTopLayout } from './BadgeTopLayout';
+import { PhotoLeftLayout } from './PhotoLeftLayout';
+import { SlideLayout } from './SlideLayout';
+import { TemplateLayout } from './TemplateLayout';
+
+export type {
+  FlyerLayout,
+  LayoutTools,
+  LayoutResult,
+  LaidOutText,
+  CtaButton,
+  Region,
+} from './FlyerLayout';
+export { COPY_FIELDS } from './FlyerLayout';
+export {
+  CenteredLayout,
+  SplitScreenLayout,
+  DiagonalBandLayout,
+  BigNumberLayout,
+  MinimalLayout,
+  BadgeTopLayout,
+  PhotoLeftLayout,
+  SlideLayout,
+  TemplateLayout,
+  extractHeadlineNumber,
+};
+
+/** Layouts flyers can use; 'carousel-slide' is only used by carousels. */
+export const LAYOUTS: BuiltinLayoutName[] = [
+  'centered',
+  'split-screen',
+  'diagonal-band',
+  'big-number',
+  'minimal',
+  'badge-top',
+  'photo-left',
+];
+
+/**
+ * Checks a layout name, e.g. from the command line.
+ *
+ * @param name - Built-in layout or template name.
+ * @param templates - Templates that may be selected by name.
+ * @throws Error if the name is not a known layout.
+ */
+export function resolveLayoutName(
+  name: string,
+  templates: FlyerTemplate[] = []
+): LayoutName {
+  const normalized = name.trim().toLowerCase();
+  const available = [...LAYOUTS, ...templates.map((template) => template.name)];
+
+  if (!available.includes(normalized)) {
+    throw new Error(
+      `❌ Configuration error: unknown layout "${name}". Expected one of: ${available.join(
+        ', '
+      )}.`
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Builds the layout with the given name.
+ *
+ * @param name - Layout to build.
+ * @param tools - Text fitting, measuring and footer services it renders with.
+ * @param templates - Templates that may be selected by name.
+ */
+export function createLayout(
+  name: LayoutName,
+  tools: LayoutTools,
+  templates: FlyerTemplate[] = []
+): FlyerLayout {
+  const template = templates.find((candidate) => candidate.name === name);
+  if (template) {
+    return new TemplateLayout(template, tools);
+  }
+
+  switch (name) {
+    case 'split-screen':
+      return new SplitScreenLayout(tools);
+    case 'diagonal-band':
+      return new DiagonalBandLayout(tools);
+    case 'big-number':
+      return new BigNumberLayout(tools);
+    case 'minimal':
+      return new MinimalLayout(tools);
+    case 'badge-top':
+      return new BadgeTopLayout(tools);
+    case 'photo-left':
+      return new PhotoLeftLayout(tools);
+    case 'carousel-slide':
+      return new SlideLayout(tools);
+    default:
+      return new CenteredLayout(tools);
+  }
+}
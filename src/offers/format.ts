@@ -0,0 +1,175 @@
+import type { StructuredOffer } from '../types';
+
+/** Text an offer badge shows, formatted for a locale. */
+export interface OfferLabels {
+  /** The big line: "-50%", "-$10", "2x1", "FREE" or the promo price. */
+  headline: string;
+  /** Smaller line under it: "OFF", the promo price, "FOR 2", the free item... */
+  caption?: string;
+  /** Regular price, drawn struck through. */
+  originalPrice?: string;
+}
+
+/** Badge words per language; other languages use English. */
+const BADGE_WORDS: Record<
+  string,
+  {
+    off: string;
+    free: string;
+    bogo: (buy: number, get: number) => string;
+    multiBuy: (quantity: number) => string;
+  }
+> = {
+  en: {
+    off: 'off',
+    free: 'free',
+    bogo: (buy, get) => `buy ${buy} get ${get} free`,
+    multiBuy: (quantity) => `for ${quantity}`,
+  },
+  es: {
+    off: 'dto.',
+    free: 'gratis',
+    bogo: (buy, get) => `lleva ${buy + get} paga ${buy}`,
+    multiBuy: (quantity) => `por ${quantity}`,
+  },
+  pt: {
+    off: 'off',
+    free: 'grátis',
+    bogo: (buy, get) => `leve ${buy + get} pague ${buy}`,
+    multiBuy: (quantity) => `leve ${quantity}`,
+  },
+  fr: {
+    off: 'de remise',
+    free: 'offert',
+    bogo: (buy, get) => `${buy} acheté, ${get} offert`,
+    multiBuy: (quantity) => `les ${quantity}`,
+  },
+  de: {
+    off: 'Rabatt',
+    free: 'gratis',
+    bogo: (buy, get) => `${buy + get} für ${buy}`,
+    multiBuy: (quantity) => `${quantity} Stück`,
+  },
+  it: {
+    off: 'di sconto',
+    free: 'in omaggio',
+    bogo: (buy, get) => `prendi ${buy + get} paghi ${buy}`,
+    multiBuy: (quantity) => `${quantity} pezzi`,
+  },
+};
+
+/** Locale used for each copy language name. */
+const LANGUAGE_LOCALES: Record<string, string> = {
+  english: 'en-US',
+  spanish: 'es-ES',
+  español: 'es-ES',
+  portuguese: 'pt-BR',
+  português: 'pt-BR',
+  french: 'fr-FR',
+  français: 'fr-FR',
+  german: 'de-DE',
+  deutsch: 'de-DE',
+  italian: 'it-IT',
+  italiano: 'it-IT',
+};
+
+/**
+ * The locale to format an offer for, from the copy language: a name like
+ * "Spanish" or a locale tag like "es-MX".
+ *
+ * @returns A BCP 47 locale, 'en-US' for unknown languages.
+ */
+export function localeForLanguage(language: string): string {
+  const known = LANGUAGE_LOCALES[language.trim().toLowerCase()];
+  if (known) {
+    return known;
+  }
+  try {
+    return Intl.getCanonicalLocales(language.trim())[0] ?? 'en-US';
+  } catch {
+    return 'en-US';
+  }
+}
+
+/**
+ * A price in a currency, as the locale writes it: "$25", "25 €", "R$ 19,90".
+ * Whole amounts drop the decimals.
+ */
+export function formatPrice(
+  amount: number,
+  currency: string = 'USD',
+  locale: string = 'en-US'
+): string {
+  const whole = Number.isInteger(amount);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: whole ? 0 : undefined,
+    maximumFractionDigits: whole ? 0 : undefined,
+  }).format(amount);
+}
+
+/**
+ * The lines a badge draws for an offer, with numbers, currencies and badge
+ * words in the locale's conventions.
+ *
+ * @param offer - Offer to label.
+ * @param locale - BCP 47 locale (default: 'en-US').
+ */
+export function getOfferLabels(
+  offer: StructuredOffer,
+  locale: string = 'en-US'
+): OfferLabels {
+  const words =
+    BADGE_WORDS[new Intl.Locale(locale).language] ?? BADGE_WORDS.en!;
+  const upper = (text: string) => text.toLocaleUpperCase(locale);
+  const price = (amount: number) => formatPrice(amount, offer.currency, locale);
+  const promoPrice =
+    offer.promoPrice !== undefined ? price(offer.promoPrice) : undefined;
+  const originalPrice =
+    offer.originalPrice !== undefined ? price(offer.originalPrice) : undefined;
+
+  switch (offer.type) {
+    case 'percent':
+      return {
+        headline: new Intl.NumberFormat(locale, {
+          style: 'percent',
+          maximumFractionDigits: 1,
+        }).format(-(offer.value ?? 0) / 100),
+        caption: promoPrice ?? upper(words.off),
+        originalPrice,
+      };
+    case 'amount':
+      return {
+        headline: price(-(offer.value ?? 0)),
+        caption: promoPrice ?? upper(words.off),
+        originalPrice,
+      };
+    case 'bogo': {
+      const buy = offer.buy ?? 1;
+      const get = offer.get ?? 1;
+      return {
+        headline: `${buy + get}x${buy}`,
+        caption: promoPrice ?? upper(words.bogo(buy, get)),
+        originalPrice,
+      };
+    }
+    case 'free-item':
+      return {
+        headline: upper(words.free),
+        caption: offer.item ? upper(offer.item) : promoPrice,
+        originalPrice,
+      };
+    case 'multi-buy':
+      return {
+        headline: promoPrice ?? '',
+        caption: upper(words.multiBuy(offer.quantity ?? 2)),
+        originalPrice,
+      };
+    case 'price':
+      return {
+        headline: promoPrice ?? '',
+        originalPrice,
+      };
+  }
+}
@@ -0,0 +1,12 @@
+export {
+  OFFER_TYPES,
+  parseAmount,
+  parseOffer,
+  validateStructuredOffer,
+} from './parse';
+export {
+  formatPrice,
+  getOfferLabels,
+  localeForLanguage,
+  type OfferLabels,
+} from './format';
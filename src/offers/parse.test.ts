@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import type { StructuredOffer } from '../types';
+import { getOfferLabels } from './format';
+import { parseAmount, parseOffer, validateStructuredOffer } from './parse';
+
+describe('parseAmount', () => {
+  test.each([
+    ['1,299.50', 1299.5],
+    ['1.299,50', 1299.5],
+    ['1.500', 1500],
+    ['19,90', 19.9],
+    ['abc', NaN],
+  ])('reads %s', (text, amount) => {
+    expect(parseAmount(text)).toBe(amount);
+  });
+});
+
+const OFFERS: Array<[string, StructuredOffer]> = [
+  ['50% off', { type: 'percent', value: 50 }],
+  ['Save $5', { type: 'amount', value: 5, currency: 'USD' }],
+  ['€10 de descuento', { type: 'amount', value: 10, currency: 'EUR' }],
+  ['2x1', { type: 'bogo', buy: 1, get: 1 }],
+  ['3 for 2', { type: 'bogo', buy: 2, get: 1 }],
+  ['buy one get one', { type: 'bogo', buy: 1, get: 1 }],
+  ['lleva 3 paga 2', { type: 'bogo', buy: 2, get: 1 }],
+  ['Free dessert with your meal', { type: 'free-item', item: 'dessert' }],
+  [
+    '2 for $10',
+    { type: 'multi-buy', quantity: 2, promoPrice: 10, currency: 'USD' },
+  ],
+  [
+    'Two pizzas for $20 (regular $30)',
+    {
+      type: 'multi-buy',
+      quantity: 2,
+      promoPrice: 20,
+      originalPrice: 30,
+      currency: 'USD',
+    },
+  ],
+  [
+    'tres por 10 €',
+    { type: 'multi-buy', quantity: 3, promoPrice: 10, currency: 'EUR' },
+  ],
+  [
+    'Early bird $25 (regular price $40)',
+    { type: 'price', promoPrice: 25, originalPrice: 40, currency: 'USD' },
+  ],
+  [
+    'Summer 2024 deal for $9',
+    { type: 'price', promoPrice: 9, currency: 'USD' },
+  ],
+];
+
+describe('parseOffer', () => {
+  test.each(OFFERS)('reads "%s"', (text, offer) => {
+    expect(parseOffer(text)).toEqual(offer);
+  });
+
+  test('uses the default currency for $ and bare amounts', () => {
+    expect(parseOffer('Only $199', 'MXN')?.currency).toBe('MXN');
+    expect(parseOffer('MXN 199')?.currency).toBe('MXN');
+  });
+
+  test('returns null when no deal is recognized', () => {
+    expect(parseOffer('Grand opening')).toBeNull();
+  });
+});
+
+describe('validateStructuredOffer', () => {
+  test('accepts parsed offers', () => {
+    for (const text of ['50% off', '2 for $10', '2x1', 'Free drink']) {
+      expect(() => validateStructuredOffer(parseOffer(text)!)).not.toThrow();
+    }
+  });
+
+  test('rejects impossible deals', () => {
+    expect(() =>
+      validateStructuredOffer({ type: 'percent', value: 120 })
+    ).toThrow('at most 100%');
+    expect(() =>
+      validateStructuredOffer({ type: 'multi-buy', quantity: 1, promoPrice: 5 })
+    ).toThrow('quantity of 2 or more');
+    expect(() =>
+      validateStructuredOffer({
+        type: 'price',
+        promoPrice: 30,
+        originalPrice: 20,
+      })
+    ).toThrow('must be lower than the original price');
+    expect(() =>
+      validateStructuredOffer({
+        type: 'price',
+        promoPrice: 5,
+        currency: 'XYZ1',
+      })
+    ).toThrow('unknown currency');
+  });
+});
+
+describe('getOfferLabels', () => {
+  test('formats each kind of deal for the locale', () => {
+    expect(getOfferLabels({ type: 'percent', value: 50 })).toEqual({
+      headline: '-50%',
+      caption: 'OFF',
+      originalPrice: undefined,
+    });
+    expect(getOfferLabels(parseOffer('2 for $10')!)).toEqual({
+      headline: '$10',
+      caption: 'FOR 2',
+      originalPrice: undefined,
+    });
+    expect(
+      getOfferLabels({ type: 'bogo', buy: 2, get: 1 }, 'es-MX').caption
+    ).toBe('LLEVA 3 PAGA 2');
+    expect(getOfferLabels({ type: 'percent', value: 30 }, 'de-DE')).toEqual({
+      headline: '-30\u00a0%',
+      caption: 'RABATT',
+      originalPrice: undefined,
+    });
+    expect(getOfferLabels(parseOffer('2 for 10 EUR', 'EUR')!, 'it-IT')).toEqual(
+      {
+        headline: '10\u00a0€',
+        caption: '2 PEZZI',
+        originalPrice: undefined,
+      }
+    );
+    expect(
+      getOfferLabels(
+        { type: 'price', promoPrice: 19.9, originalPrice: 25, currency: 'BRL' },
+        'pt-BR'
+      )
+    ).toEqual({ headline: 'R$\u00a019,90', originalPrice: 'R$\u00a025' });
+  });
+});
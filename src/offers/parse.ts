@@ -0,0 +1,375 @@
+import type { OfferType, StructuredOffer } from '../types';
+
+export const OFFER_TYPES: OfferType[] = [
+  'percent',
+  'amount',
+  'bogo',
+  'free-item',
+  'multi-buy',
+  'price',
+];
+
+/** Currency each symbol stands for; `$` is left to the caller's default. */
+const CURRENCY_SYMBOLS: Record<string, string | undefined> = {
+  US$: 'USD',
+  R$: 'BRL',
+  $: undefined,
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+/** ISO codes recognized when written next to an amount ("25 EUR", "MXN 199"). */
+const CURRENCY_CODES = [
+  'USD',
+  'EUR',
+  'GBP',
+  'MXN',
+  'ARS',
+  'CLP',
+  'COP',
+  'PEN',
+  'BRL',
+  'CAD',
+  'AUD',
+  'JPY',
+  'INR',
+  'CHF',
+];
+
+const CURRENCY = String.raw`US\$|R\$|[$€£¥₹]|\b(?:${CURRENCY_CODES.join('|')})\b`;
+const AMOUNT = String.raw`\d(?:[\d.,]*\d)?`;
+/** A price with its currency before or after the amount. */
+const PRICE = new RegExp(
+  `(${CURRENCY})\\s?(${AMOUNT})|(${AMOUNT})\\s?(${CURRENCY})`,
+  'g'
+);
+
+const PERCENT = /(\d+(?:[.,]\d+)?)\s?%/;
+/** Words after a price that make it money off rather than a price. */
+const AMOUNT_OFF_AFTER = /^\s*(?:off|discount|de descuento|descuento|dto\b)/i;
+/** Words before a price that make it money off. */
+const AMOUNT_OFF_BEFORE = /\b(?:save|ahorra|ahorre)\s*$/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  un: 1,
+  uno: 1,
+  una: 1,
+  dos: 2,
+  tres: 3,
+};
+const COUNT = String.raw`\d+|one|two|three|un|uno|una|dos|tres`;
+const FREE = /\b(?:free|gratis)\b/i;
+/**
+ * A count of items before a price makes it a multi-buy: "2 for $10", "2
+ * pizzas for $20", "3 tacos por $100".
+ */
+const MULTI_BUY_BEFORE = new RegExp(
+  String.raw`(?:^|[^\p{L}\d])(\d{1,2}|one|two|three|dos|tres)\s+(?:\p{L}+\s+){0,2}(?:for|por|pour)\s*$`,
+  'iu'
+);
+/** Where the name of a free item ends. */
+const ITEM_END = /[+,;.!()]|\s(?:on|with|for|when|if|con|en|al|por|si)\s/i;
+
+/** A price found in offer text. */
+interface FoundPrice {
+  amount: number;
+  currency?: string;
+  index: number;
+  end: number;
+}
+
+/**
+ * Reads an amount written with either decimal convention: "1,299.50" and
+ * "1.299,50" are both 1299.5, and a lone separator followed by exactly three
+ * digits ("1.500") groups thousands.
+ *
+ * @returns The amount, or NaN if the text is not a number.
+ */
+export function parseAmount(text: string): number {
+  const raw = text.trim();
+  if (!/^\d[\d.,]*$/.test(raw)) {
+    return NaN;
+  }
+
+  const lastDot = raw.lastIndexOf('.');
+  const lastComma = raw.lastIndexOf(',');
+  let normalized: string;
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Both present: the later one is the decimal mark.
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const group = decimal === '.' ? ',' : '.';
+    normalized = raw.split(group).join('').replace(decimal, '.');
+  } else {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const parts = raw.split(separator);
+    const groupsThousands =
+      parts.length > 2 || (parts.length === 2 && parts[1]!.length === 3);
+    normalized = groupsThousands ? parts.join('') : parts.join('.');
+  }
+
+  return Number(normalized);
+}
+
+/**
+ * Finds the deal in free-text offer copy: "50% off" (percent), "$10 off"
+ * (amount), "2x1" or "buy one get one" (bogo), "free dessert" (free item),
+ * "2 for $10" (multi-buy) and prices, where two prices are read as the
+ * promo and the regular one.
+ * English and Spanish wording is understood.
+ *
+ * @param text - Offer as written, e.g. "Early bird $25 (regular price $40)".
+ * @param currency - Currency of `$` and bare amounts (default: 'USD').
+ * @returns The structured offer, or null when no deal is recognized.
+ */
+export function parseOffer(
+  text: string,
+  currency: string = 'USD'
+): StructuredOffer | null {
+  const prices = findPrices(text, currency);
+  const priced = (offer: StructuredOffer): StructuredOffer => {
+    // Two prices are the promo price and the regular one, in either order.
+    const amounts = prices.map((price) => price.amount);
+    if (amounts.length >= 2) {
+      offer.promoPrice = Math.min(...amounts);
+      offer.originalPrice = Math.max(...amounts);
+    }
+    if (amounts.length > 0) {
+      offer.currency = prices[0]!.currency ?? currency;
+    }
+    return offer;
+  };
+
+  const percent = text.match(PERCENT);
+  if (percent) {
+    return priced({ type: 'percent', value: parseAmount(percent[1]!) });
+  }
+
+  const isOff = (price: FoundPrice) =>
+    AMOUNT_OFF_AFTER.test(text.slice(price.end)) ||
+    AMOUNT_OFF_BEFORE.test(text.slice(0, price.index));
+
+  const multiBuy = findMultiBuy(text, prices);
+  if (multiBuy) {
+    // A higher price that isn't money off is the regular total.
+    const regular = prices.filter(
+      (price) =>
+        price !== multiBuy.price &&
+        !isOff(price) &&
+        price.amount > multiBuy.price.amount
+    );
+    const offer: StructuredOffer = {
+      type: 'multi-buy',
+      quantity: multiBuy.quantity,
+      promoPrice: multiBuy.price.amount,
+      currency: multiBuy.price.currency ?? currency,
+    };
+    if (regular.length > 0) {
+      offer.originalPrice = Math.max(...regular.map((price) => price.amount));
+    }
+    return offer;
+  }
+
+  const off = prices.find(isOff);
+  if (off) {
+    const others = prices.filter((price) => price !== off);
+    const offer: StructuredOffer = {
+      type: 'amount',
+      value: off.amount,
+      currency: off.currency ?? currency,
+    };
+    if (others.length > 0) {
+      offer.promoPrice = Math.min(...others.map((price) => price.amount));
+    }
+    return offer;
+  }
+
+  const bogo = parseBogo(text);
+  if (bogo) {
+    return priced({ type: 'bogo', ...bogo });
+  }
+
+  if (FREE.test(text)) {
+    return priced({ type: 'free-item', item: findFreeItem(text) });
+  }
+
+  if (prices.length > 0) {
+    const amounts = prices.map((price) => price.amount);
+    return priced({
+      type: 'price',
+      promoPrice: Math.min(...amounts),
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Checks a structured offer given in a config or on the command line: a
+ * known type with the parts it needs, positive amounts, a percentage up to
+ * 100, a promo price below the regular one and a currency `Intl` knows.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateStructuredOffer(offer: StructuredOffer): void {
+  const fail = (message: string): never => {
+    throw new Error(`❌ Configuration error: ${message}`);
+  };
+
+  if (!OFFER_TYPES.includes(offer.type)) {
+    fail(
+      `unknown offer type "${offer.type}". Expected one of: ${OFFER_TYPES.join(', ')}.`
+    );
+  }
+  for (const key of [
+    'value',
+    'buy',
+    'get',
+    'originalPrice',
+    'promoPrice',
+  ] as const) {
+    const value = offer[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      fail(`offer ${key} must be a positive number, got ${value}.`);
+    }
+  }
+
+  if (offer.type === 'percent' || offer.type === 'amount') {
+    if (offer.value === undefined) {
+      fail(`a "${offer.type}" offer needs a value.`);
+    }
+    if (offer.type === 'percent' && offer.value! > 100) {
+      fail(`a percent offer can take at most 100% off, got ${offer.value}%.`);
+    }
+  }
+  if (offer.type === 'price' && offer.promoPrice === undefined) {
+    fail('a "price" offer needs a promo price.');
+  }
+  if (offer.type === 'multi-buy') {
+    if (
+      offer.quantity === undefined ||
+      !(Number.isInteger(offer.quantity) && offer.quantity >= 2)
+    ) {
+      fail(
+        `a "multi-buy" offer needs a quantity of 2 or more items, got ${offer.quantity}.`
+      );
+    }
+    if (offer.promoPrice === undefined) {
+      fail('a "multi-buy" offer needs a promo price for the items together.');
+    }
+  }
+  if (
+    offer.promoPrice !== undefined &&
+    offer.originalPrice !== undefined &&
+    offer.promoPrice >= offer.originalPrice
+  ) {
+    fail(
+      `the promo price (${offer.promoPrice}) must be lower than the original price (${offer.originalPrice}).`
+    );
+  }
+
+  try {
+    new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency: offer.currency ?? 'USD',
+    });
+  } catch {
+    fail(
+      `unknown currency "${offer.currency}". Use an ISO 4217 code like USD or EUR.`
+    );
+  }
+}
+
+/** Every price in the text, in order. */
+function findPrices(text: string, currency: string): FoundPrice[] {
+  return [...text.matchAll(PRICE)]
+    .map((match) => {
+      const symbol = match[1] ?? match[4]!;
+      const amount = parseAmount(match[2] ?? match[3]!);
+      return {
+        amount,
+        currency:
+          symbol in CURRENCY_SYMBOLS
+            ? (CURRENCY_SYMBOLS[symbol] ?? currency)
+            : symbol,
+        index: match.index,
+        end: match.index + match[0].length,
+      };
+    })
+    .filter((price) => price.amount > 0);
+}
+
+/** The price preceded by a count of items: "2 for $10", "3 por $100". */
+function findMultiBuy(
+  text: string,
+  prices: FoundPrice[]
+): { quantity: number; price: FoundPrice } | null {
+  for (const price of prices) {
+    const match = text.slice(0, price.index).match(MULTI_BUY_BEFORE);
+    const quantity = match
+      ? (NUMBER_WORDS[match[1]!.toLowerCase()] ?? Number(match[1]))
+      : 0;
+    if (quantity >= 2) {
+      return { quantity, price };
+    }
+  }
+  return null;
+}
+
+/** "2x1", "3 for 2", "buy one get one", "lleva 2 paga 1" and "BOGO". */
+function parseBogo(text: string): { buy: number; get: number } | null {
+  const count = (word: string) =>
+    NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+
+  // Take N, pay for M.
+  const takePay =
+    text.match(/\b(\d+)\s?[x×]\s?(\d+)\b/i) ??
+    text.match(
+      new RegExp(
+        String.raw`\b(\d+)\s+(?:for|por)\s+(?:the price of\s+|el precio de\s+)?(\d+)\b`,
+        'i'
+      )
+    ) ??
+    text.match(
+      new RegExp(String.raw`\blleva\s+(${COUNT})\s+paga\s+(${COUNT})\b`, 'i')
+    );
+  if (takePay) {
+    const take = count(takePay[1]!);
+    const pay = count(takePay[2]!);
+    if (take > pay && pay > 0) {
+      return { buy: pay, get: take - pay };
+    }
+  }
+
+  const buyGet = text.match(
+    new RegExp(
+      String.raw`\b(?:buy|compra)\s+(${COUNT})\b.*?\b(?:get|lleva)\s+(${COUNT})\b`,
+      'i'
+    )
+  );
+  if (buyGet) {
+    return { buy: count(buyGet[1]!), get: count(buyGet[2]!) };
+  }
+
+  return /\bbogo\b/i.test(text) ? { buy: 1, get: 1 } : null;
+}
+
+/**
+ * What a free-item offer gives away: the words after "free" ("free
+ * dessert with your meal" → "dessert"), or before it when it ends the
+ * phrase ("Oil change + inspection FREE" → "inspection").
+ */
+function findFreeItem(text: string): string | undefined {
+  const match = text.match(FREE)!;
+  const after = text.slice(match.index! + match[0].length);
+  const before = text.slice(0, match.index);
+
+  const following = after.split(ITEM_END)[0]!.trim();
+  const preceding = before.split(ITEM_END).pop()!.trim();
+  const item = following || preceding;
+  return item ? item.split(/\s+/).slice(0, 4).join(' ') : undefined;
+}
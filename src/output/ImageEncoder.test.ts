@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ImageEncoder,
+  formatByteSize,
+  isAnimated,
+  outputExtension,
+  parseByteSize,
+  validateOutputOptions,
+} from './ImageEncoder';
+
+/** A busy flyer-sized SVG, so the file size follows the quality. */
+function noisySvg(size = 320): string {
+  let seed = 7;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const cells: string[] = [];
+  for (let y = 0; y < size; y += 8) {
+    for (let x = 0; x < size; x += 8) {
+      const hue = Math.round(random() * 360);
+      cells.push(
+        `<rect x="${x}" y="${y}" width="8" height="8" fill="hsl(${hue}, 70%, 50%)"/>`
+      );
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${cells.join('')}</svg>`;
+}
+
+describe('byte sizes', () => {
+  test.each([
+    ['1MB', 1_000_000],
+    ['500 KB', 500_000],
+    ['1.5MiB', 1_572_864],
+    ['800000', 800_000],
+    ['1 GB', NaN],
+    ['big', NaN],
+  ])('reads %s', (text, bytes) => {
+    expect(parseByteSize(text)).toBe(bytes);
+  });
+
+  test('formats sizes for messages', () => {
+    expect(formatByteSize(830)).toBe('830 B');
+    expect(formatByteSize(830_400)).toBe('830 KB');
+    expect(formatByteSize(1_240_000)).toBe('1.2 MB');
+  });
+});
+
+describe('output options', () => {
+  test('rejects unknown encodings, qualities and size limits', () => {
+    expect(() => validateOutputOptions({ quality: 0 })).toThrow(
+      'from 1 to 100'
+    );
+    expect(() => validateOutputOptions({ maxBytes: -1 })).toThrow(
+      'positive number of bytes'
+    );
+    expect(() => validateOutputOptions({ encoding: 'bmp' as 'png' })).toThrow(
+      'unknown output encoding "bmp"'
+    );
+  });
+
+  test('animates WebP and GIF only', () => {
+    const animation = { frames: 4 };
+
+    expect(isAnimated({ encoding: 'webp', animation })).toBe(true);
+    expect(isAnimated({ encoding: 'png', animation })).toBe(false);
+    expect(isAnimated({ encoding: 'gif' })).toBe(false);
+    expect(outputExtension({ encoding: 'jpeg' })).toBe('.jpg');
+  });
+});
+
+describe('ImageEncoder size search', () => {
+  const encoder = new ImageEncoder();
+  const svg = noisySvg();
+
+  test('keeps the default quality when there is no limit', async () => {
+    const image = await encoder.encode(svg, { encoding: 'jpeg' });
+
+    expect(image.quality).toBe(90);
+    expect(image.data.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+  });
+
+  test('finds the highest quality that stays under the limit', async () => {
+    const full = await encoder.encode(svg, { encoding: 'jpeg' });
+    const maxBytes = Math.round(full.data.length * 0.6);
+
+    const image = await encoder.encode(svg, { encoding: 'jpeg', maxBytes });
+    expect(image.data.length).toBeLessThanOrEqual(maxBytes);
+    expect(image.quality).toBeLessThan(90);
+
+    const better = await encoder.encode(svg, {
+      encoding: 'jpeg',
+      quality: image.quality! + 1,
+    });
+    expect(better.data.length).toBeGreaterThan(maxBytes);
+  });
+
+  test('reduces a lossless PNG to a palette to fit', async () => {
+    const lossless = await encoder.encode(svg);
+    const maxBytes = Math.round(lossless.data.length / 2);
+
+    const image = await encoder.encode(svg, { maxBytes });
+    expect(lossless.quality).toBeUndefined();
+    expect(image.quality).toBeDefined();
+    expect(image.data.length).toBeLessThanOrEqual(maxBytes);
+  });
+
+  test('returns the smallest encoding when nothing fits', async () => {
+    const image = await encoder.encode(svg, {
+      encoding: 'webp',
+      maxBytes: 100,
+    });
+
+    expect(image.data.length).toBeGreaterThan(100);
+    expect(image.quality).toBe(10);
+  });
+
+  test('leaves SVG output alone', async () => {
+    const image = await encoder.encode(svg, { encoding: 'svg', maxBytes: 1 });
+
+    expect(image.data.toString()).toBe(svg);
+  });
+});
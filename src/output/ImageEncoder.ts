@@ -0,0 +1,422 @@
+import { writeFile } from 'fs/promises';
+import { format as formatPath, parse as parsePath } from 'path';
+import sharp from 'sharp';
+import { consola } from 'consola';
+import { DEFAULT_DURATION, validateAnimationOptions } from '../animation';
+import { PrintExporter, validatePrintOptions } from '../print';
+import type {
+  FormatId,
+  ImageEncoding,
+  OutputOptions,
+  PromoConfig,
+} from '../types';
+
+export const IMAGE_ENCODINGS: ImageEncoding[] = [
+  'png',
+  'jpeg',
+  'webp',
+  'avif',
+  'gif',
+  'svg',
+  'pdf',
+];
+
+/** Encodings written animated when `animation` is set. */
+export const ANIMATED_ENCODINGS: ImageEncoding[] = ['webp', 'gif'];
+
+/** File extension written for each encoding. */
+const EXTENSIONS: Record<ImageEncoding, string> = {
+  png: '.png',
+  jpeg: '.jpg',
+  webp: '.webp',
+  avif: '.avif',
+  gif: '.gif',
+  svg: '.svg',
+  pdf: '.pdf',
+};
+
+/**
+ * Quality used when none is given; PNG stays lossless unless it has to
+ * shrink, and GIF keeps its full 256 colors.
+ */
+const DEFAULT_QUALITY: Record<RasterEncoding, number> = {
+  png: 100,
+  jpeg: 90,
+  webp: 90,
+  avif: 60,
+  gif: 100,
+};
+
+/** Lowest quality the file size search goes down to. */
+const MIN_QUALITY = 10;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1000,
+  mb: 1000 ** 2,
+  kib: 1024,
+  mib: 1024 ** 2,
+};
+
+/** Encodings sharp writes from the rendered pixels. */
+type RasterEncoding = Exclude<ImageEncoding, 'svg' | 'pdf'>;
+
+/** An encoded image and the quality it was encoded at. */
+export interface EncodedImage {
+  data: Buffer;
+  encoding: ImageEncoding;
+  /** Quality of a lossy (or palette PNG) encoding. */
+  quality?: number;
+}
+
+/** Files written for one image. */
+export interface WrittenImage {
+  path: string;
+  bytes: number;
+  quality?: number;
+  /** The SVG source, when `keepSvg` is set. */
+  svgPath?: string;
+}
+
+/** Pixels of a rendered SVG, encoded once per quality tried. */
+interface RenderedPixels {
+  data: Buffer;
+  info: sharp.OutputInfo;
+}
+
+/**
+ * Checks output options: a known encoding, a quality from 1 to 100, a
+ * positive size limit and valid print and animation options.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateOutputOptions(options: OutputOptions): void {
+  if (options.encoding && !IMAGE_ENCODINGS.includes(options.encoding)) {
+    throw new Error(
+      `❌ Configuration error: unknown output encoding "${options.encoding}". Expected one of: ${IMAGE_ENCODINGS.join(', ')}.`
+    );
+  }
+  const { quality, maxBytes } = options;
+  if (
+    quality !== undefined &&
+    !(Number.isInteger(quality) && quality >= 1 && quality <= 100)
+  ) {
+    throw new Error(
+      `❌ Configuration error: output quality must be a whole number from 1 to 100, got ${quality}.`
+    );
+  }
+  if (maxBytes !== undefined && !(Number.isFinite(maxBytes) && maxBytes > 0)) {
+    throw new Error(
+      `❌ Configuration error: the output size limit must be a positive number of bytes, got ${maxBytes}.`
+    );
+  }
+  if (options.print) {
+    validatePrintOptions(options.print);
+  }
+  if (options.animation) {
+    validateAnimationOptions(options.animation);
+  }
+}
+
+/** Whether output with these options is written as an animation. */
+export function isAnimated(options: OutputOptions = {}): boolean {
+  return (
+    !!options.animation &&
+    ANIMATED_ENCODINGS.includes(options.encoding ?? 'png')
+  );
+}
+
+/**
+ * Output options for one format: the config's `outputs` entry for it,
+ * merged over `output`.
+ *
+ * @throws Error if the merged options are invalid.
+ */
+export function resolveOutputOptions(
+  config: Pick<PromoConfig, 'output' | 'outputs'>,
+  format: FormatId
+): OutputOptions {
+  const options = { ...config.output, ...config.outputs?.[format] };
+  validateOutputOptions(options);
+  return options;
+}
+
+/** File extension, with its dot, of the files written with these options. */
+export function outputExtension(options: OutputOptions = {}): string {
+  return EXTENSIONS[options.encoding ?? 'png'];
+}
+
+/**
+ * Reads a file size such as "1MB", "500 KB", "1.5MiB" or "800000" (bytes).
+ * KB and MB are powers of 1000, KiB and MiB of 1024.
+ *
+ * @returns The size in bytes, or NaN if the text is not a size.
+ */
+export function parseByteSize(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  const unit = SIZE_UNITS[match?.[2]?.toLowerCase() || 'b'];
+  if (!match || unit === undefined) {
+    return NaN;
+  }
+  return Math.round(Number(match[1]) * unit);
+}
+
+/** A byte count for messages: "830 KB", "1.2 MB". */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1000 ** 2) return `${Math.round(bytes / 1000)} KB`;
+  return `${(bytes / 1000 ** 2).toFixed(1)} MB`;
+}
+
+/**
+ * Writes flyer SVGs as PNG, JPEG, WebP, AVIF, GIF, print PDF (see
+ * `PrintExporter`) or the SVG itself, and frame SVGs as animated WebP or
+ * GIF. With a
+ * size limit, the SVG is rasterized once and re-encoded in a binary search
+ * over the quality for the best one that fits; lossless output that is too
+ * large (PNG, lossless WebP and AVIF) is searched with lossy encoding
+ * instead, a palette for PNG.
+ */
+export class ImageEncoder {
+  private printExporter = new PrintExporter();
+
+  /**
+   * Encodes an SVG.
+   *
+   * @param svg - Flyer markup.
+   * @param options - Encoding, quality and size limit. Size limits don't apply to SVG and PDF.
+   * @param dpi - Resolution the flyer was laid out at, for the PDF page size.
+   * @returns The encoded data; when no quality fits the size limit, the
+   * smallest encoding tried, with a warning.
+   */
+  async encode(
+    svg: string,
+    options: OutputOptions = {},
+    dpi: number = 72
+  ): Promise<EncodedImage> {
+    const encoding = options.encoding ?? 'png';
+    if (encoding === 'svg') {
+      return { data: Buffer.from(svg), encoding };
+    }
+    if (encoding === 'pdf') {
+      const data = await this.printExporter.export(svg, dpi, options.print);
+      return { data, encoding };
+    }
+
+    const pixels = await sharp(Buffer.from(svg))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const lossless =
+      encoding === 'png' ? options.quality === undefined : !!options.lossless;
+    const quality = options.quality ?? DEFAULT_QUALITY[encoding];
+    const first = await this.encodeAt(pixels, encoding, options, {
+      quality,
+      lossless,
+    });
+
+    const { maxBytes } = options;
+    if (maxBytes === undefined || first.length <= maxBytes) {
+      return { data: first, encoding, quality: lossless ? undefined : quality };
+    }
+
+    // Highest quality that fits; the first encoding already ruled out `quality` unless it was lossless.
+    let low = MIN_QUALITY;
+    let high = lossless ? quality : quality - 1;
+    let best: EncodedImage | undefined;
+    let smallest: EncodedImage = { data: first, encoding };
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const data = await this.encodeAt(pixels, encoding, options, {
+        quality: mid,
+        lossless: false,
+      });
+      if (data.length < smallest.data.length) {
+        smallest = { data, encoding, quality: mid };
+      }
+      if (data.length <= maxBytes) {
+        best = { data, encoding, quality: mid };
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (!best) {
+      consola.warn(
+        `⚠️ Could not fit the ${encoding.toUpperCase()} image in ${formatByteSize(maxBytes)}; the smallest is ${formatByteSize(smallest.data.length)}.`
+      );
+      return smallest;
+    }
+    const fitted = `to stay under ${formatByteSize(maxBytes)} (${formatByteSize(best.data.length)})`;
+    consola.info(
+      encoding === 'png'
+        ? `📉 PNG reduced to a ${paletteSize(best.quality!)}-color palette ${fitted}.`
+        : `📉 ${encoding.toUpperCase()} quality lowered to ${best.quality} ${fitted}.`
+    );
+    return best;
+  }
+
+  /**
+   * Encodes the frames of an animation as an animated WebP or GIF, each
+   * shown for an equal share of the animation's duration.
+   *
+   * @param frames - Markup of every frame, in order.
+   * @param options - Encoding (WebP or GIF), quality and `animation`. Size
+   * limits don't apply to animations.
+   */
+  async encodeAnimation(
+    frames: string[],
+    options: OutputOptions = {}
+  ): Promise<EncodedImage> {
+    const encoding = options.encoding === 'gif' ? 'gif' : 'webp';
+    const { loop = 0, duration = DEFAULT_DURATION } = options.animation ?? {};
+    const delay = frames.map(() => Math.round(duration / frames.length));
+    if (options.maxBytes !== undefined) {
+      consola.warn(
+        `⚠️ Size limits don't apply to animations; writing the ${encoding.toUpperCase()} at full quality.`
+      );
+    }
+
+    // sharp joins encoded images only; uncompressed PNG is the quickest.
+    const pages: Buffer[] = [];
+    for (const svg of frames) {
+      pages.push(
+        await sharp(Buffer.from(svg)).png({ compressionLevel: 0 }).toBuffer()
+      );
+    }
+    const image = sharp(pages, { join: { animated: true } });
+    const quality = options.quality ?? DEFAULT_QUALITY[encoding];
+
+    const data =
+      encoding === 'gif'
+        ? await image
+            .gif({ loop, delay, colours: paletteSize(quality), dither: 0 })
+            .toBuffer()
+        : await image
+            .webp({ loop, delay, quality, lossless: !!options.lossless })
+            .toBuffer();
+    return { data, encoding, quality };
+  }
+
+  /**
+   * Encodes the frames of an animation and writes it to `outputPath`, plus
+   * the still flyer's SVG next to it when `keepSvg` is set.
+   *
+   * @param frames - Markup of every frame, in order.
+   * @param svg - Markup of the still flyer.
+   * @param outputPath - File to write; its extension is not checked.
+   * @param options - Encoding, quality, `animation` and `keepSvg`.
+   */
+  async writeAnimation(
+    frames: string[],
+    svg: string,
+    outputPath: string,
+    options: OutputOptions = {}
+  ): Promise<WrittenImage> {
+    const encoded = await this.encodeAnimation(frames, options);
+    await writeFile(outputPath, encoded.data);
+    return this.keepSource(svg, outputPath, options, {
+      path: outputPath,
+      bytes: encoded.data.length,
+      quality: encoded.quality,
+    });
+  }
+
+  /**
+   * Encodes an SVG and writes it to `outputPath`, plus the SVG source next
+   * to it (same name, .svg) when `keepSvg` is set.
+   *
+   * @param svg - Flyer markup.
+   * @param outputPath - File to write; its extension is not checked.
+   * @param options - Encoding, quality, size limit and `keepSvg`.
+   * @param dpi - Resolution the flyer was laid out at, for the PDF page size.
+   */
+  async write(
+    svg: string,
+    outputPath: string,
+    options: OutputOptions = {},
+    dpi: number = 72
+  ): Promise<WrittenImage> {
+    const encoded = await this.encode(svg, options, dpi);
+    await writeFile(outputPath, encoded.data);
+
+    const written: WrittenImage = {
+      path: outputPath,
+      bytes: encoded.data.length,
+      quality: encoded.quality,
+    };
+    return encoded.encoding === 'svg'
+      ? written
+      : this.keepSource(svg, outputPath, options, written);
+  }
+
+  /** Writes the SVG next to an image (same name, .svg) when `keepSvg` is set. */
+  private async keepSource(
+    svg: string,
+    outputPath: string,
+    options: OutputOptions,
+    written: WrittenImage
+  ): Promise<WrittenImage> {
+    if (options.keepSvg) {
+      const { dir, name } = parsePath(outputPath);
+      written.svgPath = formatPath({ dir, name, ext: EXTENSIONS.svg });
+      await writeFile(written.svgPath, svg);
+    }
+    return written;
+  }
+
+  /** The rendered pixels in one encoding at one quality. */
+  private encodeAt(
+    { data, info }: RenderedPixels,
+    encoding: RasterEncoding,
+    options: OutputOptions,
+    { quality, lossless }: { quality: number; lossless: boolean }
+  ): Promise<Buffer> {
+    const image = sharp(data, {
+      raw: { width: info.width, height: info.height, channels: info.channels },
+    });
+
+    switch (encoding) {
+      case 'jpeg':
+        // JPEG has no alpha; transparent areas would otherwise turn black.
+        return image
+          .flatten({ background: '#ffffff' })
+          .jpeg({
+            quality,
+            progressive: options.progressive ?? false,
+            mozjpeg: options.mozjpeg ?? false,
+          })
+          .toBuffer();
+      case 'webp':
+        return image.webp({ quality, lossless }).toBuffer();
+      case 'avif':
+        return image.avif({ quality, lossless }).toBuffer();
+      case 'gif':
+        return image
+          .gif({ colours: paletteSize(quality), dither: 0 })
+          .toBuffer();
+      default:
+        if (lossless) {
+          return image.png({ compressionLevel: 9 }).toBuffer();
+        }
+        return image
+          .png({
+            palette: true,
+            quality,
+            colours: paletteSize(quality),
+            dither: 0,
+            compressionLevel: 9,
+          })
+          .toBuffer();
+    }
+  }
+}
+
+/**
+ * Colors of a palette image at a quality: fewer as it drops, from 2 to
+ * 256. Dithering noise would undo the savings, so images are encoded
+ * without it.
+ */
+function paletteSize(quality: number): number {
+  return Math.round(2 ** (1 + (7 * quality) / 100));
+}
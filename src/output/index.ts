@@ -0,0 +1,13 @@
+export {
+  ANIMATED_ENCODINGS,
+  IMAGE_ENCODINGS,
+  ImageEncoder,
+  formatByteSize,
+  isAnimated,
+  outputExtension,
+  parseByteSize,
+  resolveOutputOptions,
+  validateOutputOptions,
+  type EncodedImage,
+  type WrittenImage,
+} from './ImageEncoder';
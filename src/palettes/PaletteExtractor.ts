@@ -0,0 +1,351 @@
+import { consola } from 'consola';
+import sharp from 'sharp';
+import {
+  fromOklch,
+  meetsContrast,
+  parseColor,
+  readableTextColor,
+  toHex,
+  toOklch,
+  type ContrastTarget,
+} from '../color';
+import { clampRgb, oklabToRgb, rgbToOklab } from '../color/convert';
+import type { ExtractedColor, PaletteExtraction, RgbColor } from '../types';
+
+type Vector = [number, number, number];
+
+export interface PaletteExtractionOptions {
+  /** Most colors to return (default: 6). */
+  count?: number;
+  /** Contrast flyer text must reach on each color (default: WCAG 4.5:1 and APCA Lc 60). */
+  contrast?: ContrastTarget;
+  /** Keep the plain backdrop around a logo or product shot (default: false). */
+  keepBackground?: boolean;
+  /**
+   * Darken or lighten colors text cannot read on until it can, keeping
+   * their hue (default: true). When false they are left out instead.
+   */
+  adjust?: boolean;
+}
+
+/** Pixels of one 5-bit-per-channel histogram bucket. */
+interface Bin {
+  lab: Vector;
+  count: number;
+  /** How many of them lie on the image border. */
+  edge: number;
+}
+
+/** The image is downscaled to at most this many pixels a side first. */
+const SAMPLE_SIZE = 128;
+/** Clusters found before near-duplicates are merged. */
+const CLUSTERS = 12;
+/** Clusters closer than this (OKLab distance) are the same color. */
+const MERGE_DISTANCE = 0.06;
+/** Colors covering less of the image than this are anti-aliasing or noise. */
+const MIN_SHARE = 0.01;
+/** Below this OKLCH chroma a color reads as gray. */
+const NEUTRAL_CHROMA = 0.03;
+
+/**
+ * Finds the dominant colors of an image (a logo, a product photo) so they
+ * can be used as flyer backgrounds.
+ *
+ * Pixels are bucketed into a color histogram and clustered with a weighted
+ * k-means in OKLab, so colors that look alike merge. Colors are ranked by
+ * visual weight: the area they cover, boosted for colorful ones so a brand
+ * color beats a larger gray. A neutral color filling most of the image's
+ * border is taken as the backdrop and left out. Mid-tones flyer text cannot
+ * read well on are moved to the nearest lightness where it can (or left
+ * out), since brand colors are often exactly such mid-tones.
+ */
+export class PaletteExtractor {
+  /**
+   * Extracts a palette from an image file.
+   *
+   * @param image - Path to any image sharp can read (PNG, JPEG, WebP, SVG...).
+   * @param options - Number of colors, contrast target and backdrop handling.
+   * @returns The usable colors, ranked, plus the ones rejected.
+   * @throws Error if the image cannot be read or has no opaque pixels.
+   */
+  async extract(
+    image: string,
+    options: PaletteExtractionOptions = {}
+  ): Promise<PaletteExtraction> {
+    const {
+      count = 6,
+      contrast = {},
+      keepBackground = false,
+      adjust = true,
+    } = options;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(
+        `❌ Configuration error: color count must be a positive integer, got ${count}.`
+      );
+    }
+
+    consola.info(`🔍 Extracting colors from ${image}`);
+
+    let pixels: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      pixels = await sharp(image)
+        .resize(SAMPLE_SIZE, SAMPLE_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    } catch (error) {
+      throw new Error(
+        `❌ Configuration error: could not read image ${image}: ${(error as Error).message}`
+      );
+    }
+
+    const bins = this.histogram(pixels.data, pixels.info);
+    if (bins.length === 0) {
+      throw new Error(
+        `❌ Configuration error: ${image} has no opaque pixels to take colors from.`
+      );
+    }
+
+    const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+    const totalEdge = bins.reduce((sum, bin) => sum + bin.edge, 0);
+
+    const ranked = this.merge(this.cluster(bins))
+      .filter((cluster) => cluster.count / total >= MIN_SHARE)
+      .map((cluster) => {
+        const rgb = clampRgb(oklabToRgb(cluster.lab));
+        const chroma = Math.hypot(cluster.lab[1], cluster.lab[2]);
+        const share = cluster.count / total;
+        const swatch: ExtractedColor = {
+          color: toHex(rgb),
+          share,
+          weight: share * (1 + Math.min(chroma, 0.2) * 10),
+        };
+
+        if (
+          !keepBackground &&
+          chroma < NEUTRAL_CHROMA &&
+          totalEdge > 0 &&
+          cluster.edge / totalEdge >= 0.5
+        ) {
+          swatch.rejected = 'background';
+        } else if (!this.isReadable(rgb, contrast)) {
+          const readable = adjust
+            ? this.makeReadable(rgb, contrast)
+            : undefined;
+          if (readable) {
+            swatch.original = swatch.color;
+            swatch.color = toHex(readable);
+          } else {
+            swatch.rejected = 'contrast';
+          }
+        }
+        return swatch;
+      })
+      .sort((a, b) => b.weight - a.weight);
+
+    // Adjusting lightness can make two colors the same.
+    const seen = new Set<string>();
+    for (const swatch of ranked) {
+      if (swatch.rejected) continue;
+      if (seen.has(swatch.color)) swatch.rejected = 'duplicate';
+      seen.add(swatch.color);
+    }
+
+    const swatches = ranked
+      .filter((swatch) => !swatch.rejected)
+      .slice(0, count);
+    return {
+      colors: swatches.map((swatch) => swatch.color),
+      swatches,
+      rejected: ranked.filter((swatch) => swatch.rejected),
+    };
+  }
+
+  private isReadable(color: RgbColor, target: ContrastTarget): boolean {
+    return meetsContrast(readableTextColor(color), color, target);
+  }
+
+  /**
+   * The color at the OKLCH lightness closest to the original where black
+   * or white text reaches the target, or undefined if there is none.
+   */
+  private makeReadable(
+    color: RgbColor,
+    target: ContrastTarget
+  ): RgbColor | undefined {
+    const oklch = toOklch(color);
+    // Search in 8-bit steps so the result still passes once written as hex.
+    const at = (l: number) => parseColor(toHex(fromOklch({ ...oklch, l })));
+    const passes = (l: number) => this.isReadable(at(l), target);
+
+    let best: number | undefined;
+    for (const end of [0, 1]) {
+      if (!passes(end)) continue;
+
+      let passing = end;
+      let failing = oklch.l;
+      while (Math.abs(passing - failing) > 0.002) {
+        const mid = (passing + failing) / 2;
+        if (passes(mid)) passing = mid;
+        else failing = mid;
+      }
+      if (
+        best === undefined ||
+        Math.abs(passing - oklch.l) < Math.abs(best - oklch.l)
+      ) {
+        best = passing;
+      }
+    }
+
+    return best === undefined ? undefined : at(best);
+  }
+
+  /** Buckets opaque pixels by their top 5 bits per channel. */
+  private histogram(data: Buffer, info: sharp.OutputInfo): Bin[] {
+    const { width, height, channels } = info;
+    const buckets = new Map<
+      number,
+      { r: number; g: number; b: number; count: number; edge: number }
+    >();
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * channels;
+        if (data[offset + 3]! < 128) continue;
+
+        const r = data[offset]!;
+        const g = data[offset + 1]!;
+        const b = data[offset + 2]!;
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        const bucket = buckets.get(key) ?? {
+          r: 0,
+          g: 0,
+          b: 0,
+          count: 0,
+          edge: 0,
+        };
+        bucket.r += r;
+        bucket.g += g;
+        bucket.b += b;
+        bucket.count++;
+        if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+          bucket.edge++;
+        }
+        buckets.set(key, bucket);
+      }
+    }
+
+    return [...buckets.values()].map((bucket) => ({
+      lab: rgbToOklab({
+        r: bucket.r / bucket.count / 255,
+        g: bucket.g / bucket.count / 255,
+        b: bucket.b / bucket.count / 255,
+      }),
+      count: bucket.count,
+      edge: bucket.edge,
+    }));
+  }
+
+  /**
+   * Weighted k-means over the histogram. Seeds are picked deterministically,
+   * k-means++ style: the most common color, then repeatedly the bucket with
+   * the most pixels times squared distance to its nearest seed.
+   */
+  private cluster(bins: Bin[]): Bin[] {
+    const centers: Vector[] = [
+      bins.reduce((best, bin) => (bin.count > best.count ? bin : best)).lab,
+    ];
+    while (centers.length < CLUSTERS) {
+      let next: Bin | undefined;
+      let nextScore = 0;
+      for (const bin of bins) {
+        const score = bin.count * this.nearest(bin.lab, centers).distance ** 2;
+        if (score > nextScore) {
+          next = bin;
+          nextScore = score;
+        }
+      }
+      if (!next) break;
+      centers.push(next.lab);
+    }
+
+    let assignment: number[] = [];
+    for (let iteration = 0; iteration < 10; iteration++) {
+      const next = bins.map((bin) => this.nearest(bin.lab, centers).index);
+      if (next.every((index, i) => index === assignment[i])) break;
+      assignment = next;
+
+      centers.forEach((_, index) => {
+        const members = bins.filter((_, i) => assignment[i] === index);
+        if (members.length > 0) {
+          centers[index] = this.mean(members).lab;
+        }
+      });
+    }
+
+    return centers
+      .map((_, index) => bins.filter((_, i) => assignment[i] === index))
+      .filter((members) => members.length > 0)
+      .map((members) => this.mean(members));
+  }
+
+  /** Merges clusters that look alike, closest pair first. */
+  private merge(clusters: Bin[]): Bin[] {
+    const merged = [...clusters];
+    for (;;) {
+      let pair: [number, number] | undefined;
+      let closest = MERGE_DISTANCE;
+      for (let i = 0; i < merged.length; i++) {
+        for (let j = i + 1; j < merged.length; j++) {
+          const distance = this.distance(merged[i]!.lab, merged[j]!.lab);
+          if (distance < closest) {
+            pair = [i, j];
+            closest = distance;
+          }
+        }
+      }
+      if (!pair) return merged;
+
+      const [i, j] = pair;
+      merged[i] = this.mean([merged[i]!, merged[j]!]);
+      merged.splice(j, 1);
+    }
+  }
+
+  /** Pixel-weighted mean of several bins. */
+  private mean(bins: Bin[]): Bin {
+    const count = bins.reduce((sum, bin) => sum + bin.count, 0);
+    const lab = [0, 1, 2].map(
+      (axis) =>
+        bins.reduce((sum, bin) => sum + bin.lab[axis]! * bin.count, 0) / count
+    ) as Vector;
+    return {
+      lab,
+      count,
+      edge: bins.reduce((sum, bin) => sum + bin.edge, 0),
+    };
+  }
+
+  private nearest(
+    lab: Vector,
+    centers: Vector[]
+  ): { index: number; distance: number } {
+    let index = 0;
+    let distance = Infinity;
+    centers.forEach((center, i) => {
+      const d = this.distance(lab, center);
+      if (d < distance) {
+        index = i;
+        distance = d;
+      }
+    });
+    return { index, distance };
+  }
+
+  private distance(a: Vector, b: Vector): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+  }
+}
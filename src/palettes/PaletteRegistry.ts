@@ -0,0 +1,275 @@
+import { consola } from 'consola';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { isColor, toHex } from '../color';
+import type { Palette, PaletteSource } from '../types';
+import { BUILTIN_PALETTES } from './presets';
+
+export const DEFAULT_PALETTES_FILE = './palettes.json';
+
+/** Palette used when nothing else matches. */
+export const DEFAULT_PALETTE = 'nicotordev';
+
+/** A palette together with where it was defined. */
+export interface PaletteEntry extends Palette {
+  source: PaletteSource;
+}
+
+/** Shape of the user palettes file. */
+interface PalettesFile {
+  palettes: Palette[];
+}
+
+/** Lowercase, single-spaced form used for names and business types. */
+export function normalizePaletteName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Built-in palettes plus user palettes kept in a JSON file
+ * (PROMOMAKER_PALETTES_FILE, or ./palettes.json). User palettes take
+ * precedence, so a user palette named like a built-in one replaces it.
+ */
+export class PaletteRegistry {
+  readonly file: string;
+  private userPalettes: Palette[];
+
+  /**
+   * @param file - User palettes file (default: PROMOMAKER_PALETTES_FILE or ./palettes.json).
+   */
+  constructor(
+    file: string = process.env.PROMOMAKER_PALETTES_FILE || DEFAULT_PALETTES_FILE
+  ) {
+    this.file = resolve(file);
+    this.userPalettes = this.read();
+  }
+
+  /** Every palette, user palettes first; shadowed built-ins are left out. */
+  list(): PaletteEntry[] {
+    const user = this.userPalettes.map((palette): PaletteEntry => ({
+      ...palette,
+      source: 'user',
+    }));
+    const taken = new Set(user.map((palette) => palette.name));
+    const builtin = BUILTIN_PALETTES.filter(
+      (palette) => !taken.has(palette.name)
+    ).map((palette): PaletteEntry => ({ ...palette, source: 'builtin' }));
+
+    return [...user, ...builtin];
+  }
+
+  /** The palette with this name (case-insensitive), if any. */
+  get(name: string): PaletteEntry | undefined {
+    const key = normalizePaletteName(name);
+    return this.list().find((palette) => palette.name === key);
+  }
+
+  /**
+   * The palette best suited to a business type: one named after it, then
+   * one listing it in `businessTypes`, then the one whose name or business
+   * type appears in it as whole words ("italian restaurant" → restaurant),
+   * preferring the longest match.
+   *
+   * @param businessType - Free-form business type, e.g. "coffee shop".
+   * @returns The palette, or undefined when nothing matches.
+   */
+  findForBusiness(businessType: string): PaletteEntry | undefined {
+    const type = normalizePaletteName(businessType);
+    if (!type) {
+      return undefined;
+    }
+
+    const palettes = this.list();
+    const keywords = (palette: Palette) => [
+      palette.name,
+      ...(palette.businessTypes ?? []).map(normalizePaletteName),
+    ];
+
+    const exact =
+      palettes.find((palette) => palette.name === type) ??
+      palettes.find((palette) => keywords(palette).includes(type));
+    if (exact) {
+      return exact;
+    }
+
+    const words = ` ${type.replace(/[^a-z0-9]+/g, ' ').trim()} `;
+    let best: { palette: PaletteEntry; length: number } | undefined;
+    for (const palette of palettes) {
+      for (const keyword of keywords(palette)) {
+        if (
+          words.includes(` ${keyword} `) &&
+          keyword.length > (best?.length ?? 0)
+        ) {
+          best = { palette, length: keyword.length };
+        }
+      }
+    }
+
+    return best?.palette;
+  }
+
+  /**
+   * Saves a user palette to the palettes file.
+   *
+   * @param palette - Colors may be any CSS colors; they are stored as hex.
+   * @param options.replace - Overwrite an existing user palette of the same name.
+   * @returns The palette as stored.
+   * @throws Error if the palette is invalid or the name is taken.
+   */
+  async add(
+    palette: Palette,
+    options: { replace?: boolean } = {}
+  ): Promise<PaletteEntry> {
+    const stored = this.validate(palette);
+    if (!stored) {
+      throw new Error(
+        `❌ Configuration error: invalid palette "${palette.name}": ${this.problem(palette)}`
+      );
+    }
+
+    const existing = this.userPalettes.findIndex(
+      (entry) => entry.name === stored.name
+    );
+    if (existing !== -1 && !options.replace) {
+      throw new Error(
+        `❌ Configuration error: palette "${stored.name}" already exists in ${this.file}. Use --force to replace it.`
+      );
+    }
+
+    const palettes = [...this.userPalettes];
+    if (existing === -1) {
+      palettes.push(stored);
+    } else {
+      palettes[existing] = stored;
+    }
+
+    await this.write(palettes);
+    return { ...stored, source: 'user' };
+  }
+
+  /**
+   * Deletes a user palette from the palettes file. Built-in palettes cannot
+   * be removed.
+   *
+   * @throws Error if no user palette has this name.
+   */
+  async remove(name: string): Promise<void> {
+    const key = normalizePaletteName(name);
+    if (!this.userPalettes.some((palette) => palette.name === key)) {
+      const builtin = BUILTIN_PALETTES.some((palette) => palette.name === key);
+      throw new Error(
+        builtin
+          ? `❌ Configuration error: "${key}" is a built-in palette and cannot be removed.`
+          : `❌ Configuration error: no user palette named "${key}" in ${this.file}.`
+      );
+    }
+
+    await this.write(
+      this.userPalettes.filter((palette) => palette.name !== key)
+    );
+  }
+
+  /** Normalized copy of a palette, or undefined when it is invalid. */
+  private validate(palette: Palette): Palette | undefined {
+    if (this.problem(palette)) {
+      return undefined;
+    }
+
+    const businessTypes = (palette.businessTypes ?? [])
+      .map(normalizePaletteName)
+      .filter(Boolean);
+    return {
+      name: normalizePaletteName(palette.name),
+      colors: palette.colors.map((color) => toHex(color)),
+      ...(palette.description?.trim()
+        ? { description: palette.description.trim() }
+        : {}),
+      ...(businessTypes.length > 0 ? { businessTypes } : {}),
+    };
+  }
+
+  /** What is wrong with a palette, or undefined when it is valid. */
+  private problem(palette: Palette): string | undefined {
+    if (
+      typeof palette?.name !== 'string' ||
+      !normalizePaletteName(palette.name)
+    ) {
+      return 'name is required';
+    }
+    if (palette.name.includes(',') || isColor(palette.name)) {
+      return 'name must not contain commas or be a color';
+    }
+    if (!Array.isArray(palette.colors) || palette.colors.length === 0) {
+      return 'at least one color is required';
+    }
+    const invalid = palette.colors.find(
+      (color) => typeof color !== 'string' || !isColor(color)
+    );
+    if (invalid !== undefined) {
+      return `"${invalid}" is not a CSS color`;
+    }
+    if (
+      palette.description !== undefined &&
+      typeof palette.description !== 'string'
+    ) {
+      return 'description must be a string';
+    }
+    if (
+      palette.businessTypes !== undefined &&
+      (!Array.isArray(palette.businessTypes) ||
+        palette.businessTypes.some((type) => typeof type !== 'string'))
+    ) {
+      return 'businessTypes must be a list of strings';
+    }
+    return undefined;
+  }
+
+  /** Loads the palettes file, skipping (with a warning) invalid entries. */
+  private read(): Palette[] {
+    if (!existsSync(this.file)) {
+      return [];
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(this.file, 'utf-8'));
+    } catch (error) {
+      consola.warn(
+        `⚠️ Could not read palettes from ${this.file}: ${(error as Error).message}`
+      );
+      return [];
+    }
+
+    const entries = (raw as Partial<PalettesFile> | null)?.palettes;
+    if (!Array.isArray(entries)) {
+      consola.warn(`⚠️ ${this.file} has no "palettes" list; ignoring it`);
+      return [];
+    }
+
+    const palettes: Palette[] = [];
+    for (const entry of entries as Palette[]) {
+      const palette = this.validate(entry);
+      if (!palette) {
+        consola.warn(
+          `⚠️ Skipping palette "${entry?.name}" in ${this.file}: ${this.problem(entry)}`
+        );
+      } else if (palettes.some((other) => other.name === palette.name)) {
+        consola.warn(
+          `⚠️ Skipping duplicate palette "${palette.name}" in ${this.file}`
+        );
+      } else {
+        palettes.push(palette);
+      }
+    }
+
+    return palettes;
+  }
+
+  private async write(palettes: Palette[]): Promise<void> {
+    const content: PalettesFile = { palettes };
+    await mkdir(dirname(this.file), { recursive: true });
+    await writeFile(this.file, JSON.stringify(content, null, 2) + '\n');
+    this.userPalettes = palettes;
+  }
+}
@@ -0,0 +1,107 @@
+import { consola } from 'consola';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import sharp from 'sharp';
+import {
+  contrastRatio,
+  createColorScheme,
+  formatOklch,
+  parseColor,
+  toOklch,
+} from '../color';
+import { FontMetricsMeasurer } from '../layout/FontMetrics';
+import type { Palette } from '../types';
+
+const WIDTH = 900;
+const HEADER_HEIGHT = 120;
+const ROW_HEIGHT = 120;
+const PADDING = 40;
+
+/**
+ * Renders a palette as a PNG swatch sheet: one band per color showing its
+ * hex and OKLCH values, and the text, accent and CTA colors a flyer on that
+ * background would get, with their contrast ratios.
+ */
+export class PaletteSwatch {
+  private fontFamily: string;
+
+  /**
+   * @param fontMetrics - Font to render labels with. Defaults to the first
+   * preferred family found in PROMOMAKER_FONT_DIR or system fonts.
+   */
+  constructor(fontMetrics: FontMetricsMeasurer = new FontMetricsMeasurer()) {
+    this.fontFamily = fontMetrics.hasFontFile
+      ? `'${fontMetrics.family.replace(/'/g, '')}', Arial, sans-serif`
+      : 'Arial, sans-serif';
+  }
+
+  /**
+   * Writes the swatch sheet for a palette.
+   *
+   * @param palette - Palette to render; colors may be any CSS colors.
+   * @param outputPath - PNG file to create (parent folders are created).
+   */
+  async render(palette: Palette, outputPath: string): Promise<void> {
+    consola.info(`🎨 Rendering palette swatch: ${outputPath}`);
+
+    await mkdir(dirname(outputPath), { recursive: true });
+    await sharp(Buffer.from(this.createSVG(palette)))
+      .png()
+      .toFile(outputPath);
+
+    consola.success(`✅ Palette swatch saved: ${outputPath}`);
+  }
+
+  /** SVG markup of the swatch sheet. */
+  createSVG(palette: Palette): string {
+    const height = HEADER_HEIGHT + palette.colors.length * ROW_HEIGHT;
+    const subtitle = palette.description
+      ? `${palette.colors.length} colors · ${palette.description}`
+      : `${palette.colors.length} colors`;
+
+    const rows = palette.colors.map((color, index) =>
+      this.createRow(color, HEADER_HEIGHT + index * ROW_HEIGHT)
+    );
+
+    return `<svg width="${WIDTH}" height="${height}" xmlns="http://www.w3.org/2000/svg" font-family="${this.fontFamily}">
+  <rect width="${WIDTH}" height="${height}" fill="#FFFFFF"/>
+  <text x="${PADDING}" y="62" font-size="36" font-weight="bold" fill="#111111">${this.escape(palette.name)}</text>
+  <text x="${PADDING}" y="96" font-size="20" fill="#555555">${this.escape(subtitle)}</text>
+${rows.join('\n')}
+</svg>`;
+  }
+
+  private createRow(color: string, y: number): string {
+    const scheme = createColorScheme(color);
+    const background = parseColor(scheme.background);
+    const textRatio = contrastRatio(parseColor(scheme.text), background);
+    const accentRatio = contrastRatio(parseColor(scheme.accent), background);
+    const ctaRatio = contrastRatio(
+      parseColor(scheme.accentText),
+      parseColor(scheme.accent)
+    );
+
+    const buttonWidth = 220;
+    const buttonHeight = 56;
+    const buttonX = WIDTH - PADDING - buttonWidth;
+    const buttonY = y + (ROW_HEIGHT - buttonHeight) / 2 - 10;
+
+    return `  <g>
+    <rect x="0" y="${y}" width="${WIDTH}" height="${ROW_HEIGHT}" fill="${scheme.background}"/>
+    <text x="${PADDING}" y="${y + 52}" font-size="32" font-weight="bold" fill="${scheme.text}">${scheme.background}</text>
+    <text x="${PADDING}" y="${y + 86}" font-size="18" fill="${scheme.text}">${this.escape(formatOklch(toOklch(color)))} · text ${textRatio.toFixed(1)}:1</text>
+    <rect x="${buttonX}" y="${buttonY}" width="${buttonWidth}" height="${buttonHeight}" rx="${buttonHeight / 2}" fill="${scheme.accent}"/>
+    <text x="${buttonX + buttonWidth / 2}" y="${buttonY + buttonHeight / 2 + 8}" font-size="22" font-weight="bold" fill="${scheme.accentText}" text-anchor="middle">Call to action</text>
+    <text x="${buttonX + buttonWidth / 2}" y="${buttonY + buttonHeight + 24}" font-size="15" fill="${scheme.text}" text-anchor="middle">accent ${scheme.accent} ${accentRatio.toFixed(1)}:1 · label ${ctaRatio.toFixed(1)}:1</text>
+  </g>`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  DEFAULT_PALETTE,
+  DEFAULT_PALETTES_FILE,
+  PaletteRegistry,
+  normalizePaletteName,
+  type PaletteEntry,
+} from './PaletteRegistry';
+export {
+  PaletteExtractor,
+  type PaletteExtractionOptions,
+} from './PaletteExtractor';
+export { PaletteSwatch } from './PaletteSwatch';
+export { BUILTIN_PALETTES } from './presets';
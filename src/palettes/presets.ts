@@ -0,0 +1,86 @@
+import type { Palette } from '../types';
+
+/**
+ * Palettes shipped with PromoMaker. The name doubles as a business type;
+ * `businessTypes` lists other businesses each palette suits.
+ */
+export const BUILTIN_PALETTES: Palette[] = [
+  {
+    name: 'nicotordev',
+    description: "NicoTorDev's purple and pink theme",
+    colors: [
+      '#8B5CF6', // main-600
+      '#EC4899', // secondary-500
+      '#A855F7', // main-500
+      '#F472B6', // secondary-400
+      '#7C3AED', // main-700
+      '#E879F9', // secondary-300
+    ],
+  },
+  {
+    name: 'professional',
+    description: 'Cool tech blues with a pink accent',
+    colors: ['#8B5CF6', '#6366F1', '#3B82F6', '#06B6D4', '#10B981', '#EC4899'],
+    businessTypes: ['agency', 'consulting', 'software', 'startup', 'tech'],
+  },
+  {
+    name: 'restaurant',
+    description: 'Warm, appetizing pastels',
+    colors: ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FECA57', '#FF9FF3'],
+    businessTypes: ['bakery', 'bar', 'cafe', 'coffee shop', 'food', 'pizzeria'],
+  },
+  {
+    name: 'beauty spa',
+    description: 'Soft pinks and lavenders',
+    colors: ['#FF69B4', '#E6E6FA', '#DDA0DD', '#F0E68C', '#FFB6C1', '#E0B4D6'],
+    businessTypes: ['beauty', 'nail salon', 'salon', 'spa', 'wellness'],
+  },
+  {
+    name: 'gym',
+    description: 'High-energy saturated colors',
+    colors: ['#FF4500', '#32CD32', '#1E90FF', '#FFD700', '#DC143C', '#000000'],
+    businessTypes: ['crossfit', 'fitness', 'sports', 'yoga'],
+  },
+  {
+    name: 'technology academy',
+    description: 'Friendly blues, greens and oranges',
+    colors: ['#4A90E2', '#50C878', '#FF6B35', '#9B59B6', '#E67E22', '#34495E'],
+    businessTypes: ['academy', 'bootcamp', 'course', 'education', 'school'],
+  },
+  {
+    name: 'event organizer',
+    description: 'Bold party colors',
+    colors: ['#FFD700', '#FF1493', '#00FF7F', '#FF4500', '#8A2BE2', '#DC143C'],
+    businessTypes: ['concert', 'event', 'festival', 'party', 'wedding'],
+  },
+  {
+    name: 'real estate',
+    description: 'Trustworthy navy with clear accents',
+    colors: ['#2C3E50', '#E74C3C', '#3498DB', '#27AE60', '#F39C12', '#8E44AD'],
+    businessTypes: ['property', 'realtor', 'rentals'],
+  },
+  {
+    name: 'auto shop',
+    description: 'Industrial slate, red and orange',
+    colors: ['#2C3E50', '#E74C3C', '#F39C12', '#95A5A6', '#34495E', '#E67E22'],
+    businessTypes: ['auto', 'car', 'dealership', 'garage', 'mechanic'],
+  },
+  {
+    name: 'retail store',
+    description: 'Bright, clean primaries',
+    colors: ['#E74C3C', '#3498DB', '#2ECC71', '#F39C12', '#9B59B6', '#1ABC9C'],
+    businessTypes: ['boutique', 'fashion', 'retail', 'shop', 'store'],
+  },
+  {
+    name: 'digital marketing',
+    description: 'Flat UI colors',
+    colors: ['#3498DB', '#E74C3C', '#2ECC71', '#F39C12', '#9B59B6', '#E67E22'],
+    businessTypes: ['advertising', 'marketing', 'seo', 'social media'],
+  },
+  {
+    name: 'professional services',
+    description: 'Muted slate and blue',
+    colors: ['#34495E', '#3498DB', '#2ECC71', '#E67E22', '#9B59B6', '#95A5A6'],
+    businessTypes: ['accounting', 'insurance', 'law firm', 'legal', 'services'],
+  },
+];
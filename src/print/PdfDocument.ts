@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+
+/**
+ * A PDF text string: literal for ASCII, UTF-16BE hex otherwise.
+ */
+export function pdfString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+  }
+  const utf16 = Buffer.from(`\ufeff${text}`, 'utf16le').swap16();
+  return `<${utf16.toString('hex').toUpperCase()}>`;
+}
+
+/** A date as a PDF date string, in UTC. */
+export function pdfDate(date: Date): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:T]/g, '')
+    .replace(/\.\d+Z$/, '');
+  return `(D:${stamp}Z)`;
+}
+
+/**
+ * Minimal PDF writer: numbered objects, optionally with a binary stream,
+ * assembled with a cross-reference table. Dictionaries are written as
+ * PDF source text; streams get their /Length added.
+ */
+export class PdfDocument {
+  private objects: Buffer[] = [];
+
+  /**
+   * Adds an object.
+   *
+   * @param dictionary - The object's dictionary (or other value) as PDF source.
+   * @param stream - Stream data, already encoded as the dictionary's /Filter says.
+   * @returns The object number, for `ref`.
+   */
+  add(dictionary: string, stream?: Buffer): number {
+    const number = this.reserve();
+    this.set(number, dictionary, stream);
+    return number;
+  }
+
+  /**
+   * Takes an object number to fill in later with `set`, for objects that
+   * refer to each other (a page and its parent).
+   */
+  reserve(): number {
+    this.objects.push(Buffer.alloc(0));
+    return this.objects.length;
+  }
+
+  /** Writes a reserved object; see `add` for the parameters. */
+  set(number: number, dictionary: string, stream?: Buffer): void {
+    const head = `${number} 0 obj\n`;
+    this.objects[number - 1] = stream
+      ? Buffer.concat([
+          Buffer.from(
+            `${head}${dictionary.replace(/>>\s*$/, `/Length ${stream.length} >>`)}\nstream\n`,
+            'latin1'
+          ),
+          stream,
+          Buffer.from('\nendstream\nendobj\n', 'latin1'),
+        ])
+      : Buffer.from(`${head}${dictionary}\nendobj\n`, 'latin1');
+  }
+
+  /** Indirect reference to an object. */
+  ref(number: number): string {
+    return `${number} 0 R`;
+  }
+
+  /**
+   * The complete file.
+   *
+   * @param root - Object number of the document catalog.
+   * @param info - Object number of the document information dictionary.
+   */
+  toBuffer(root: number, info: number): Buffer {
+    // The binary comment marks the file as binary for transfer tools.
+    const header = Buffer.from('%PDF-1.6\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+    const offsets: number[] = [];
+    let offset = header.length;
+    for (const object of this.objects) {
+      offsets.push(offset);
+      offset += object.length;
+    }
+
+    const id = createHash('md5')
+      .update(Buffer.concat(this.objects))
+      .digest('hex');
+    const xref = [
+      'xref',
+      `0 ${this.objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((at) => `${String(at).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${this.objects.length + 1} /Root ${this.ref(root)} /Info ${this.ref(info)} /ID [<${id}> <${id}>] >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n');
+
+    return Buffer.concat([
+      header,
+      ...this.objects,
+      Buffer.from(xref, 'latin1'),
+    ]);
+  }
+}
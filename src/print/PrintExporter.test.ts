@@ -0,0 +1,123 @@
+import { describe, expect, test } from 'bun:test';
+import sharp from 'sharp';
+import { pdfDate, pdfString } from './PdfDocument';
+import { PrintExporter, bleedPixels, printCanvas } from './PrintExporter';
+
+/** A flyer drawn on its print canvas: 100 x 60 px trim plus the bleed. */
+function flyerSvg(bleed: number): string {
+  const width = 100 + bleed * 2;
+  const height = 60 + bleed * 2;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="${width}" height="${height}" fill="#FF6B6B"/></svg>`;
+}
+
+/** A page box of the PDF, e.g. /TrimBox, as numbers. */
+function pageBox(pdf: Buffer, name: string): number[] {
+  const match = pdf
+    .toString('latin1')
+    .match(new RegExp(`/${name} \\[([\\d. ]+)\\]`));
+  expect(match).not.toBeNull();
+  return match![1]!.split(' ').map(Number);
+}
+
+describe('print canvas', () => {
+  test('grows the trim size and the safe zone by the bleed', () => {
+    expect(bleedPixels({}, 300)).toBe(35);
+    expect(bleedPixels({ bleed: 0 }, 300)).toBe(0);
+
+    const margins = { top: 59, right: 59, bottom: 59, left: 59 };
+    expect(
+      printCanvas({ width: 1240, height: 1748 }, 300, {}, margins)
+    ).toEqual({
+      width: 1310,
+      height: 1818,
+      safeZone: { top: 94, right: 94, bottom: 94, left: 94 },
+    });
+  });
+});
+
+describe('PrintExporter', () => {
+  const exporter = new PrintExporter();
+  // 3 mm at 72 DPI is 9 px, and 1 px is 1 pt.
+  const bleed = bleedPixels({}, 72);
+
+  test('puts the TrimBox inside the BleedBox by the bleed', async () => {
+    const pdf = await exporter.export(flyerSvg(bleed), 72);
+    const [bx1, by1, bx2, by2] = pageBox(pdf, 'BleedBox');
+    const [tx1, ty1, tx2, ty2] = pageBox(pdf, 'TrimBox');
+
+    expect(bleed).toBe(9);
+    expect(bx2! - bx1!).toBeCloseTo(118);
+    expect(by2! - by1!).toBeCloseTo(78);
+    expect(tx2! - tx1!).toBeCloseTo(100);
+    expect(ty2! - ty1!).toBeCloseTo(60);
+    expect(tx1! - bx1!).toBeCloseTo(9);
+    expect(by2! - ty2!).toBeCloseTo(9);
+  });
+
+  test('leaves room for the marks around the bleed', async () => {
+    const marked = await exporter.export(flyerSvg(bleed), 72);
+    const [mx1, my1, mx2] = pageBox(marked, 'MediaBox');
+    const [bx1, by1, bx2] = pageBox(marked, 'BleedBox');
+    // 1 mm gap, 5 mm marks and 1 mm of paper.
+    expect(bx1! - mx1!).toBeCloseTo((7 * 72) / 25.4, 1);
+    expect(by1! - my1!).toBeCloseTo((7 * 72) / 25.4, 1);
+    expect(mx2! - bx2!).toBeCloseTo((7 * 72) / 25.4, 1);
+
+    const plain = await exporter.export(flyerSvg(bleed), 72, {
+      cropMarks: false,
+      registrationMarks: false,
+    });
+    expect(pageBox(plain, 'MediaBox')).toEqual(pageBox(plain, 'BleedBox'));
+  });
+
+  test('matches the TrimBox to the BleedBox without a bleed', async () => {
+    const pdf = await exporter.export(flyerSvg(0), 72, { bleed: 0 });
+
+    expect(pageBox(pdf, 'TrimBox')).toEqual(pageBox(pdf, 'BleedBox'));
+  });
+
+  test('writes a CMYK image with the profile as output intent', async () => {
+    const pdf = (await exporter.export(flyerSvg(bleed), 72)).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.6')).toBe(true);
+    expect(pdf).toContain('/ColorSpace /DeviceCMYK');
+    expect(pdf).toContain('/S /GTS_PDFX');
+    expect(pdf).toContain('/Width 118 /Height 78');
+  });
+
+  test('points the cross-reference table at every object', async () => {
+    const pdf = (await exporter.export(flyerSvg(bleed), 72)).toString('latin1');
+    const start = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const entries = pdf
+      .slice(start)
+      .split('\n')
+      .filter((row) => / 00000 n $/.test(row));
+
+    expect(pdf.slice(start).startsWith('xref')).toBe(true);
+    expect(entries.length).toBeGreaterThan(5);
+    for (const [index, row] of entries.entries()) {
+      const offset = Number(row.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    }
+  });
+
+  test('sizes sheets to the image with one box for all', async () => {
+    const sheet = sharp({
+      create: { width: 144, height: 72, channels: 3, background: '#ffffff' },
+    });
+    const pdf = await exporter.exportSheet(sheet, 72, [[5, 0, 5, 3]]);
+
+    expect(pageBox(pdf, 'MediaBox')).toEqual([0, 0, 144, 72]);
+    expect(pageBox(pdf, 'TrimBox')).toEqual([0, 0, 144, 72]);
+  });
+});
+
+describe('PDF strings', () => {
+  test('escapes ASCII and encodes other text as UTF-16', () => {
+    expect(pdfString('Pizza (large)')).toBe('(Pizza \\(large\\))');
+    expect(pdfString('Café')).toBe('<FEFF00430061006600E9>');
+    expect(pdfDate(new Date('2026-03-01T12:30:05.123Z'))).toBe(
+      '(D:20260301123005Z)'
+    );
+  });
+});
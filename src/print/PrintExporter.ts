@@ -0,0 +1,406 @@
+import { closeSync, existsSync, openSync, readSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { deflateSync } from 'zlib';
+import sharp from 'sharp';
+import type { Dimensions, PrintOptions, SafeZone } from '../types';
+import { PdfDocument, pdfDate, pdfString } from './PdfDocument';
+
+/** Bleed most print shops ask for, in millimeters. */
+export const DEFAULT_BLEED = 3;
+
+/** Largest bleed accepted, in millimeters. */
+const MAX_BLEED = 20;
+
+/** Name of the CMYK profile bundled with sharp (libvips). */
+const BUILT_IN_PROFILE = 'cmyk';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/** Marks start this far outside the bleed, in millimeters... */
+const MARK_GAP = 1;
+/** ...are this long... */
+const MARK_LENGTH = 5;
+/** ...and leave this much paper around them. */
+const MARK_MARGIN = 1;
+/** Line width of the marks, in points (a hairline that still prints). */
+const MARK_WIDTH = 0.25;
+
+/** Corner offsets of a bounding box, for PDF page boxes. */
+type Box = [number, number, number, number];
+
+/** A line from (x1, y1) to (x2, y2). */
+export type MarkLine = [number, number, number, number];
+
+/** Pixels of an image converted to CMYK. */
+interface CmykImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
+}
+
+/** Where things go on a PDF page, in points from the bottom-left corner. */
+interface PageLayout {
+  mediaBox: Box;
+  bleedBox: Box;
+  trimBox: Box;
+  /** Area the image is drawn in. */
+  imageBox: Box;
+  /** Content stream drawn over the image. */
+  marks: string;
+}
+
+/**
+ * Checks print options: a bleed from 0 to 20 mm, and an ICC profile that
+ * is the built-in one or a CMYK profile file.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validatePrintOptions(print: PrintOptions): void {
+  const { bleed, iccProfile } = print;
+  if (
+    bleed !== undefined &&
+    !(Number.isFinite(bleed) && bleed >= 0 && bleed <= MAX_BLEED)
+  ) {
+    throw new Error(
+      `❌ Configuration error: bleed must be from 0 to ${MAX_BLEED} mm, got ${bleed}.`
+    );
+  }
+  if (iccProfile === undefined || iccProfile === BUILT_IN_PROFILE) {
+    return;
+  }
+  if (!existsSync(iccProfile)) {
+    throw new Error(
+      `❌ Configuration error: ICC profile ${iccProfile} does not exist.`
+    );
+  }
+
+  // Bytes 16-19 of an ICC header name the profile's color space.
+  const header = Buffer.alloc(20);
+  const file = openSync(iccProfile, 'r');
+  try {
+    readSync(file, header, 0, 20, 0);
+  } finally {
+    closeSync(file);
+  }
+  if (header.toString('latin1', 16, 20) !== 'CMYK') {
+    throw new Error(
+      `❌ Configuration error: ${iccProfile} is not a CMYK ICC profile.`
+    );
+  }
+}
+
+/** Bleed on each side in pixels, at a resolution. */
+export function bleedPixels(print: PrintOptions = {}, dpi: number): number {
+  return Math.round(((print.bleed ?? DEFAULT_BLEED) / 25.4) * dpi);
+}
+
+/**
+ * Canvas a format is drawn on for print: the trim size grown by the bleed
+ * on each side, with the bleed added to the safe zone so the copy stays
+ * inside the trim.
+ *
+ * @param size - Trim size in pixels.
+ * @param dpi - Resolution of the format.
+ * @param print - Bleed setting.
+ * @param safeZone - The format's own safe zone (print margins).
+ */
+export function printCanvas(
+  size: Dimensions,
+  dpi: number,
+  print: PrintOptions = {},
+  safeZone?: SafeZone
+): Dimensions & { safeZone: SafeZone } {
+  const bleed = bleedPixels(print, dpi);
+  return {
+    width: size.width + bleed * 2,
+    height: size.height + bleed * 2,
+    safeZone: {
+      top: (safeZone?.top ?? 0) + bleed,
+      right: (safeZone?.right ?? 0) + bleed,
+      bottom: (safeZone?.bottom ?? 0) + bleed,
+      left: (safeZone?.left ?? 0) + bleed,
+    },
+  };
+}
+
+/**
+ * Turns a flyer SVG drawn on a `printCanvas` into a print-ready PDF. The
+ * flyer is rasterized at the format's resolution, converted to CMYK
+ * through an ICC profile with sharp's color management, and placed on a
+ * page with a BleedBox and TrimBox. Crop and registration marks are drawn
+ * as vectors around it in registration color, and the profile is embedded
+ * as a PDF/X output intent. Imposed sheets (see `Imposer`) go through the
+ * same conversion with `exportSheet`.
+ */
+export class PrintExporter {
+  private profiles = new Map<string, Promise<Buffer>>();
+
+  /**
+   * @param svg - Flyer markup, bleed included.
+   * @param dpi - Pixels per inch the canvas was laid out at.
+   * @param print - Bleed, marks and ICC profile.
+   * @returns The PDF file.
+   * @throws Error if the profile does not convert to CMYK.
+   */
+  async export(
+    svg: string,
+    dpi: number,
+    print: PrintOptions = {}
+  ): Promise<Buffer> {
+    const profile = print.iccProfile ?? BUILT_IN_PROFILE;
+    const image = await this.toCmyk(sharp(Buffer.from(svg)), profile);
+
+    // Page geometry in points, from the bottom-left corner.
+    const scale = 72 / dpi;
+    const bleed = bleedPixels(print, dpi) * scale;
+    const hasMarks =
+      print.cropMarks !== false || print.registrationMarks !== false;
+    const margin = hasMarks
+      ? (MARK_GAP + MARK_LENGTH + MARK_MARGIN) * POINTS_PER_MM
+      : 0;
+    const width = image.info.width * scale;
+    const height = image.info.height * scale;
+    const bleedBox: Box = [margin, margin, margin + width, margin + height];
+    const trimBox: Box = [
+      margin + bleed,
+      margin + bleed,
+      margin + width - bleed,
+      margin + height - bleed,
+    ];
+
+    return this.writePdf(image, profile, {
+      mediaBox: [0, 0, width + margin * 2, height + margin * 2],
+      bleedBox,
+      trimBox,
+      imageBox: bleedBox,
+      marks: this.marks(trimBox, bleed, print),
+    });
+  }
+
+  /**
+   * Turns an imposed print sheet into a PDF the size of the sheet, converted
+   * to CMYK, with its cut marks drawn as vectors in registration color.
+   *
+   * @param image - The sheet.
+   * @param dpi - Pixels per inch of the image.
+   * @param cutMarks - Lines in millimeters from the sheet's top-left corner.
+   * @param iccProfile - CMYK profile file, or 'cmyk' for the built-in one.
+   * @returns The PDF file.
+   * @throws Error if the profile does not convert the sheet to CMYK.
+   */
+  async exportSheet(
+    image: sharp.Sharp,
+    dpi: number,
+    cutMarks: MarkLine[],
+    iccProfile: string = BUILT_IN_PROFILE
+  ): Promise<Buffer> {
+    const cmyk = await this.toCmyk(image, iccProfile);
+    const width = (cmyk.info.width * 72) / dpi;
+    const height = (cmyk.info.height * 72) / dpi;
+    const page: Box = [0, 0, width, height];
+
+    // Flip to PDF coordinates, which start at the bottom.
+    const lines = cutMarks.map(([x1, y1, x2, y2]) =>
+      line(
+        x1 * POINTS_PER_MM,
+        height - y1 * POINTS_PER_MM,
+        x2 * POINTS_PER_MM,
+        height - y2 * POINTS_PER_MM
+      )
+    );
+    return this.writePdf(cmyk, iccProfile, {
+      mediaBox: page,
+      bleedBox: page,
+      trimBox: page,
+      imageBox: page,
+      marks: registration(lines),
+    });
+  }
+
+  /**
+   * Flattens an image onto white and converts it to CMYK.
+   *
+   * @throws Error if the profile does not convert to CMYK.
+   */
+  private async toCmyk(
+    input: sharp.Sharp,
+    profile: string
+  ): Promise<CmykImage> {
+    const image = await input
+      .flatten({ background: '#ffffff' })
+      .withIccProfile(profile)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    if (image.info.channels !== 4) {
+      throw new Error(
+        `❌ Configuration error: ICC profile ${profile} did not convert the flyer to CMYK.`
+      );
+    }
+    return image;
+  }
+
+  /** A one-page PDF of a CMYK image, with the profile as output intent. */
+  private async writePdf(
+    { data, info }: CmykImage,
+    profile: string,
+    layout: PageLayout
+  ): Promise<Buffer> {
+    const [x1, y1, x2, y2] = layout.imageBox;
+    const content = [
+      `q ${n(x2 - x1)} 0 0 ${n(y2 - y1)} ${n(x1)} ${n(y1)} cm /Flyer Do Q`,
+      layout.marks,
+    ].join('\n');
+
+    const doc = new PdfDocument();
+    const image = doc.add(
+      `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} /ColorSpace /DeviceCMYK /BitsPerComponent 8 /Filter /FlateDecode >>`,
+      deflateSync(data)
+    );
+    const contents = doc.add(
+      '<< /Filter /FlateDecode >>',
+      deflateSync(Buffer.from(content, 'latin1'))
+    );
+    const icc = doc.add(
+      '<< /N 4 /Filter /FlateDecode >>',
+      deflateSync(await this.loadProfile(profile))
+    );
+    const profileName =
+      profile === BUILT_IN_PROFILE ? 'sharp built-in CMYK' : basename(profile);
+    const intent = doc.add(
+      `<< /Type /OutputIntent /S /GTS_PDFX /OutputConditionIdentifier (Custom) /Info ${pdfString(profileName)} /DestOutputProfile ${doc.ref(icc)} >>`
+    );
+
+    const page = doc.reserve();
+    const pages = doc.add(
+      `<< /Type /Pages /Kids [${doc.ref(page)}] /Count 1 >>`
+    );
+    doc.set(
+      page,
+      `<< /Type /Page /Parent ${doc.ref(pages)} /MediaBox ${box(layout.mediaBox)} /BleedBox ${box(layout.bleedBox)} /TrimBox ${box(layout.trimBox)} /Resources << /XObject << /Flyer ${doc.ref(image)} >> >> /Contents ${doc.ref(contents)} >>`
+    );
+    const catalog = doc.add(
+      `<< /Type /Catalog /Pages ${doc.ref(pages)} /OutputIntents [${doc.ref(intent)}] >>`
+    );
+    const now = pdfDate(new Date());
+    const infoDict = doc.add(
+      `<< /Creator (PromoMaker) /Producer (PromoMaker) /CreationDate ${now} /ModDate ${now} /Trapped /False >>`
+    );
+
+    return doc.toBuffer(catalog, infoDict);
+  }
+
+  /** ICC profile data, read once per profile. */
+  private loadProfile(profile: string): Promise<Buffer> {
+    let data = this.profiles.get(profile);
+    if (!data) {
+      data =
+        profile === BUILT_IN_PROFILE
+          ? // sharp only exposes its bundled profile attached to an image.
+            sharp({
+              create: {
+                width: 1,
+                height: 1,
+                channels: 3,
+                background: '#ffffff',
+              },
+            })
+              .withIccProfile(profile)
+              .tiff()
+              .toBuffer()
+              .then((tiff) => sharp(tiff).metadata())
+              .then((metadata) => metadata.icc!)
+          : readFile(profile);
+      this.profiles.set(profile, data);
+    }
+    return data;
+  }
+
+  /**
+   * Content stream drawing the crop marks (two lines at each corner, in
+   * line with the trim) and registration targets (a circle and cross in
+   * the middle of each side), outside the bleed.
+   */
+  private marks(
+    [left, bottom, right, top]: Box,
+    bleed: number,
+    print: PrintOptions
+  ): string {
+    const offset = bleed + MARK_GAP * POINTS_PER_MM;
+    const length = MARK_LENGTH * POINTS_PER_MM;
+    const ops: string[] = [];
+
+    if (print.cropMarks !== false) {
+      for (const [x, sx] of [
+        [left, -1],
+        [right, 1],
+      ] as const) {
+        for (const [y, sy] of [
+          [bottom, -1],
+          [top, 1],
+        ] as const) {
+          ops.push(
+            line(x + sx * offset, y, x + sx * (offset + length), y),
+            line(x, y + sy * offset, x, y + sy * (offset + length))
+          );
+        }
+      }
+    }
+
+    if (print.registrationMarks !== false) {
+      const distance = offset + length / 2;
+      const cx = (left + right) / 2;
+      const cy = (bottom + top) / 2;
+      for (const [x, y] of [
+        [cx, top + distance],
+        [cx, bottom - distance],
+        [left - distance, cy],
+        [right + distance, cy],
+      ] as const) {
+        const r = length * 0.3;
+        ops.push(
+          circle(x, y, r),
+          line(x - length / 2, y, x + length / 2, y),
+          line(x, y - length / 2, x, y + length / 2)
+        );
+      }
+    }
+
+    return registration(ops);
+  }
+}
+
+/**
+ * Strokes path operators as hairlines in registration color (full coverage
+ * on every plate).
+ */
+function registration(ops: string[]): string {
+  return ops.length > 0
+    ? `q ${MARK_WIDTH} w 1 1 1 1 K\n${ops.join('\n')}\nQ`
+    : '';
+}
+
+/** A stroked line, in points. */
+function line(x1: number, y1: number, x2: number, y2: number): string {
+  return `${n(x1)} ${n(y1)} m ${n(x2)} ${n(y2)} l S`;
+}
+
+/** A number for PDF source, to a hundredth of a point. */
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function box([x1, y1, x2, y2]: Box): string {
+  return `[${n(x1)} ${n(y1)} ${n(x2)} ${n(y2)}]`;
+}
+
+/** A stroked circle, as four Bézier curves. */
+function circle(x: number, y: number, r: number): string {
+  const k = r * 0.5523;
+  return [
+    `${n(x + r)} ${n(y)} m`,
+    `${n(x + r)} ${n(y + k)} ${n(x + k)} ${n(y + r)} ${n(x)} ${n(y + r)} c`,
+    `${n(x - k)} ${n(y + r)} ${n(x - r)} ${n(y + k)} ${n(x - r)} ${n(y)} c`,
+    `${n(x - r)} ${n(y - k)} ${n(x - k)} ${n(y - r)} ${n(x)} ${n(y - r)} c`,
+    `${n(x + k)} ${n(y - r)} ${n(x + r)} ${n(y - k)} ${n(x + r)} ${n(y)} c S`,
+  ].join('\n');
+}
@@ -0,0 +1,9 @@
+export { PdfDocument, pdfDate, pdfString } from './PdfDocument';
+export {
+  DEFAULT_BLEED,
+  PrintExporter,
+  bleedPixels,
+  printCanvas,
+  validatePrintOptions,
+  type MarkLine,
+} from './PrintExporter';
@@ -0,0 +1,43 @@
+import { consola } from 'consola';
+import { ResponseCache } from '../cache/ResponseCache';
+import type { CopyProvider, CopyRequest } from './CopyProvider';
+
+/**
+ * Wraps a provider with the on-disk response cache.
+ * The key covers the provider, model, messages and generation parameters,
+ * so any change to the prompt or settings results in a fresh request.
+ */
+export class CachedProvider implements CopyProvider {
+  readonly name: string;
+  readonly model: string;
+  private inner: CopyProvider;
+  private cache: ResponseCache;
+
+  constructor(inner: CopyProvider, cache: ResponseCache = new ResponseCache()) {
+    this.inner = inner;
+    this.cache = cache;
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async complete(request: CopyRequest): Promise<string> {
+    const key = ResponseCache.keyFor({
+      provider: this.inner.name,
+      model: this.inner.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      json: request.json,
+    });
+
+    const cached = await this.cache.get(key);
+    if (cached !== undefined) {
+      consola.info(`💾 Using cached ${this.name} response (${key.slice(0, 12)}).`);
+      return cached;
+    }
+
+    const response = await this.inner.complete(request);
+    await this.cache.set(key, response);
+    return response;
+  }
+}
@@ -0,0 +1,42 @@
+import type { CopyField, PromoConfig, SlideRole } from '../types';
+
+export interface CopyMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Everything a provider needs to produce one completion.
+ * `context` carries the structured request so in-process providers
+ * (like the mock) don't have to parse the prompt text back.
+ */
+export interface CopyRequest {
+  messages: CopyMessage[];
+  temperature: number;
+  maxTokens: number;
+  json: boolean;
+  context?: {
+    config: PromoConfig;
+    quantity: number;
+    language: string;
+    /** Set when the request asks for carousel slides with these roles. */
+    slides?: SlideRole[];
+  };
+  /** Set when the request asks for a shorter rewrite of a single field. */
+  rewrite?: {
+    field: CopyField;
+    text: string;
+    maxChars: number;
+  };
+}
+
+/**
+ * A backend able to turn a chat-style prompt into raw copy.
+ * Implementations only deal with transport; parsing and validation
+ * stay in TextGenerator.
+ */
+export interface CopyProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CopyRequest): Promise<string>;
+}
@@ -0,0 +1,25 @@
+import { OpenAIProvider } from './OpenAIProvider';
+import type { OpenAIConfig } from '../types';
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+/**
+ * Copy provider for any OpenAI-compatible server running locally
+ * (Ollama, llama.cpp server, LM Studio, vLLM...).
+ * No real API key is required, but some servers expect a non-empty one.
+ */
+export class LocalProvider extends OpenAIProvider {
+  override readonly name: string = 'local';
+
+  constructor(config: Partial<OpenAIConfig> = {}) {
+    super({
+      apiKey: config.apiKey ?? process.env.LOCAL_LLM_API_KEY ?? 'local',
+      model: config.model ?? process.env.LOCAL_LLM_MODEL ?? DEFAULT_LOCAL_MODEL,
+      baseURL:
+        config.baseURL ??
+        process.env.LOCAL_LLM_BASE_URL ??
+        DEFAULT_LOCAL_BASE_URL,
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import type { CarouselSlide, TextVariation } from '../types';
+import type { CopyProvider, CopyRequest } from './CopyProvider';
+
+const MOCK_TONES = [
+  'urgent',
+  'elegant',
+  'casual',
+  'fun',
+  'exclusive',
+  'friendly',
+  'informative',
+  'inspiring',
+];
+
+/**
+ * Deterministic in-process provider for offline runs and tests.
+ * The same request always yields the same response, and no network
+ * access or API key is needed.
+ */
+export class MockProvider implements CopyProvider {
+  readonly name = 'mock';
+  readonly model: string;
+
+  constructor(model: string = 'mock-1') {
+    this.model = model;
+  }
+
+  async complete(request: CopyRequest): Promise<string> {
+    if (request.rewrite) {
+      const { text, maxChars } = request.rewrite;
+      const words = text.split(/\s+/);
+      while (words.length > 1 && words.join(' ').length > maxChars) {
+        words.pop();
+      }
+      return JSON.stringify({ text: words.join(' ').slice(0, maxChars) });
+    }
+
+    const context = request.context;
+    const product = context?.config.product ?? 'our product';
+    const offer = context?.config.offer ?? 'a special offer';
+    const validity = context?.config.validity ?? 'for a limited time';
+    const quantity = Math.max(1, context?.quantity ?? 1);
+
+    if (context?.slides) {
+      let benefit = 0;
+      const slides = context.slides.map((role): CarouselSlide => {
+        switch (role) {
+          case 'hook':
+            return {
+              role,
+              title: `Craving ${product}?`,
+              body: `Swipe to see why ${product} is worth it.`,
+            };
+          case 'benefit':
+            benefit++;
+            return {
+              role,
+              title: `Reason #${benefit} to love ${product}`,
+              body: `Made fresh for you, every single time. Reason ${benefit}.`,
+            };
+          case 'offer':
+            return { role, title: offer, body: `Valid ${validity}.` };
+          default:
+            return {
+              role,
+              title: `Get ${product} today`,
+              body: `Don't miss ${offer}.`,
+              callToAction: 'Get Yours Now',
+            };
+        }
+      });
+      return JSON.stringify({ slides });
+    }
+
+    // Rotate the tone list by a hash of the prompt so different campaigns
+    // don't all start with the same tone, while staying reproducible.
+    const offset = this.hash(
+      request.messages.map((m) => m.content).join('\n')
+    );
+
+    const variations: TextVariation[] = [];
+    for (let i = 0; i < quantity; i++) {
+      const tone = MOCK_TONES[(offset + i) % MOCK_TONES.length] ?? 'general';
+      variations.push({
+        title: `${product}: ${offer}`,
+        subtitle: `Our ${tone} pick: ${product}, ${validity}.`,
+        callToAction: 'Get Yours Now',
+        description: `Enjoy ${offer} on ${product}. Offer #${i + 1}, ${validity}.`,
+        tone,
+      });
+    }
+
+    return JSON.stringify({ variations });
+  }
+
+  private hash(text: string): number {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
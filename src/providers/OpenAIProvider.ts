@@ -0,0 +1,46 @@
+import OpenAI from 'openai';
+import type { OpenAIConfig } from '../types';
+import type { CopyProvider, CopyRequest } from './CopyProvider';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-3.5-turbo';
+
+/**
+ * Copy provider backed by the OpenAI chat completions API.
+ */
+export class OpenAIProvider implements CopyProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor(config: Partial<OpenAIConfig> = {}) {
+    const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        '❌ Configuration error: OPENAI_API_KEY environment variable is not defined.'
+      );
+    }
+
+    this.model = config.model ?? process.env.OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL;
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  async complete(request: CopyRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' } }),
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('AI did not return content in the response.');
+    }
+
+    return content;
+  }
+}
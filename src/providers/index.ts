@@ -0,0 +1,52 @@
+import type { CopyProviderConfig, CopyProviderName } from '../types';
+import type { CopyProvider } from './CopyProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { LocalProvider } from './LocalProvider';
+import { MockProvider } from './MockProvider';
+import { CachedProvider } from './CachedProvider';
+
+export type { CopyProvider, CopyRequest, CopyMessage } from './CopyProvider';
+export { OpenAIProvider, LocalProvider, MockProvider, CachedProvider };
+
+export const COPY_PROVIDERS: CopyProviderName[] = ['openai', 'local', 'mock'];
+
+/**
+ * Resolves the provider name from explicit config, then the
+ * COPY_PROVIDER environment variable, defaulting to OpenAI.
+ */
+export function resolveProviderName(
+  config: CopyProviderConfig = {}
+): CopyProviderName {
+  const name = (config.provider ?? process.env.COPY_PROVIDER ?? 'openai')
+    .toString()
+    .toLowerCase();
+
+  if (!COPY_PROVIDERS.includes(name as CopyProviderName)) {
+    throw new Error(
+      `❌ Configuration error: unknown copy provider "${name}". Expected one of: ${COPY_PROVIDERS.join(
+        ', '
+      )}.`
+    );
+  }
+
+  return name as CopyProviderName;
+}
+
+/**
+ * Builds the copy provider selected by config or environment.
+ *
+ * @param config - Optional explicit provider, model, key and endpoint.
+ * @returns A ready-to-use CopyProvider.
+ */
+export function createCopyProvider(
+  config: CopyProviderConfig = {}
+): CopyProvider {
+  switch (resolveProviderName(config)) {
+    case 'local':
+      return new LocalProvider(config);
+    case 'mock':
+      return new MockProvider(config.model);
+    default:
+      return new OpenAIProvider(config);
+  }
+}
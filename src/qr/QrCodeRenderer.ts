@@ -0,0 +1,274 @@
+import { consola } from 'consola';
+import { ASSET_MARGIN } from '../assets/BrandAssets';
+import { contrastRatio, relativeLuminance, tryParseColor } from '../color';
+import type { Region } from '../layouts/FlyerLayout';
+import type {
+  CanvasConfig,
+  ErrorCorrectionLevel,
+  PromoConfig,
+  QrCode,
+  QrPlacement,
+  SafeZone,
+} from '../types';
+import { QrEncoder, type QrMatrix } from './QrEncoder';
+import { buildQrPayload } from './payloads';
+
+export const QR_PLACEMENTS: QrPlacement[] = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+];
+
+const ERROR_CORRECTION_LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+/**
+ * Default side length, quiet zone included, as a fraction of the shorter
+ * side. Codes with many modules are drawn larger.
+ */
+const DEFAULT_SIZE = 0.16;
+
+/** The standard asks for 4 modules of quiet zone; most readers cope with 2. */
+const DEFAULT_QUIET_ZONE = 4;
+const MIN_QUIET_ZONE = 2;
+
+/**
+ * Contrast the dark modules need against the light ones. Phone cameras
+ * read codes well below this, but print and screens lose some on the way.
+ */
+const MIN_SCAN_CONTRAST = 4.5;
+
+/** Modules smaller than this many pixels blur together when the image is scaled. */
+const MIN_MODULE_PIXELS = 3;
+
+/** The canvas fields QR code placement depends on. */
+export type QrCanvas = Pick<CanvasConfig, 'width' | 'height' | 'safeZone'>;
+
+/** A QR code encoded and positioned on the canvas. */
+export interface PlacedQrCode extends Region {
+  placement: QrPlacement;
+  matrix: QrMatrix;
+  quietZone: number;
+  color: string;
+  background: string;
+}
+
+/**
+ * Checks a QR code before any copy is generated: a known placement, sizes
+ * in range, colors that scan (dark modules on a lighter, contrasting
+ * background) and a payload that can be built from the promo's details
+ * and fits in a QR code.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateQrCode(
+  qr: QrCode,
+  config: Pick<PromoConfig, 'businessType' | 'phone' | 'location'>
+): void {
+  if (qr.placement && !QR_PLACEMENTS.includes(qr.placement)) {
+    throw new Error(
+      `❌ Configuration error: unknown QR code placement "${qr.placement}". Expected one of: ${QR_PLACEMENTS.join(', ')}.`
+    );
+  }
+  if (qr.size !== undefined && !(qr.size > 0 && qr.size <= 0.5)) {
+    throw new Error(
+      `❌ Configuration error: QR code size must be between 0 and 0.5 (a fraction of the canvas), got ${qr.size}.`
+    );
+  }
+  if (
+    qr.quietZone !== undefined &&
+    !(Number.isInteger(qr.quietZone) && qr.quietZone >= MIN_QUIET_ZONE)
+  ) {
+    throw new Error(
+      `❌ Configuration error: QR code quiet zone must be a whole number of modules, at least ${MIN_QUIET_ZONE}, got ${qr.quietZone}.`
+    );
+  }
+  if (
+    qr.errorCorrection &&
+    !ERROR_CORRECTION_LEVELS.includes(qr.errorCorrection)
+  ) {
+    throw new Error(
+      `❌ Configuration error: unknown QR error correction level "${qr.errorCorrection}". Expected one of: ${ERROR_CORRECTION_LEVELS.join(', ')}.`
+    );
+  }
+
+  const dark = tryParseColor(qr.color ?? '#000000');
+  const light = tryParseColor(qr.background ?? '#FFFFFF');
+  if (!dark || !light) {
+    throw new Error(
+      `❌ Configuration error: invalid QR code color "${dark ? qr.background : qr.color}".`
+    );
+  }
+  // Many readers only find dark-on-light codes.
+  if (relativeLuminance(dark) >= relativeLuminance(light)) {
+    throw new Error(
+      `❌ Configuration error: QR code color ${qr.color} must be darker than its background ${qr.background ?? '#FFFFFF'}.`
+    );
+  }
+  const ratio = contrastRatio(dark, light);
+  if (ratio < MIN_SCAN_CONTRAST) {
+    throw new Error(
+      `❌ Configuration error: QR code colors have ${ratio.toFixed(1)}:1 contrast; at least ${MIN_SCAN_CONTRAST}:1 is needed to scan reliably.`
+    );
+  }
+
+  new QrEncoder().encode(buildQrPayload(qr, config), qr.errorCorrection);
+}
+
+/**
+ * Places QR codes on flyers as native SVG: one path of dark modules on a
+ * tile of the background color that includes the quiet zone, so the code
+ * scans the same over any flyer background. Codes go in a corner of the
+ * format's safe area, sized in whole pixels per module, and the space they
+ * take is reserved so layouts keep copy clear of them.
+ */
+export class QrCodeRenderer {
+  private matrices = new Map<string, QrMatrix>();
+
+  /**
+   * @param encoder - Encoder for payloads (default: the built-in one).
+   */
+  constructor(private encoder: QrEncoder = new QrEncoder()) {}
+
+  /**
+   * The canvas with its safe zone widened by the space the QR code takes,
+   * for laying out copy around it: the band above or below it on portrait
+   * canvases, the column beside it on square and landscape ones.
+   */
+  reserveSpace<T extends QrCanvas & Pick<CanvasConfig, 'qr'>>(config: T): T {
+    if (!config.qr) {
+      return config;
+    }
+
+    const reserved: SafeZone = {
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+      ...config.safeZone,
+    };
+    const box = this.getBox(config.qr, config);
+    const placement = config.qr.placement ?? 'bottom-right';
+    if (config.width >= config.height) {
+      // Height is scarce: keep the column beside the code free instead.
+      if (placement.endsWith('left')) {
+        reserved.left = Math.max(reserved.left, box.x + box.width);
+      } else {
+        reserved.right = Math.max(reserved.right, config.width - box.x);
+      }
+    } else if (placement.startsWith('bottom')) {
+      reserved.bottom = Math.max(reserved.bottom, config.height - box.y);
+    } else {
+      reserved.top = Math.max(reserved.top, box.y + box.height);
+    }
+
+    return { ...config, safeZone: reserved };
+  }
+
+  /**
+   * Encodes a QR code and positions it on a canvas.
+   *
+   * @param qr - Code options and the payload to encode.
+   * @param canvas - Canvas size and the area to keep it in.
+   */
+  place(qr: QrCode & { payload: string }, canvas: QrCanvas): PlacedQrCode {
+    const matrix = this.encode(qr);
+    const quietZone = qr.quietZone ?? DEFAULT_QUIET_ZONE;
+    const box = this.getBox(qr, canvas);
+    if (box.width / (matrix.size + 2 * quietZone) < MIN_MODULE_PIXELS) {
+      consola.warn(
+        `⚠️ QR code modules are under ${MIN_MODULE_PIXELS}px at ${canvas.width}x${canvas.height}; shorten the payload or lower the error correction so it scans.`
+      );
+    }
+
+    return {
+      placement: qr.placement ?? 'bottom-right',
+      matrix,
+      quietZone,
+      color: qr.color ?? '#000000',
+      background: qr.background ?? '#FFFFFF',
+      ...box,
+    };
+  }
+
+  /** SVG markup drawing a placed QR code, in module units scaled to its box. */
+  render(qr: PlacedQrCode): string {
+    const { matrix, quietZone } = qr;
+    const modules = matrix.size + 2 * quietZone;
+
+    // One subpath per horizontal run of dark modules.
+    let path = '';
+    matrix.modules.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        if (!row[x]) continue;
+        let run = 1;
+        while (row[x + run]) run++;
+        path += `M${x + quietZone} ${y + quietZone}h${run}v1h-${run}z`;
+        x += run - 1;
+      }
+    });
+
+    return `
+  <!-- QR code (${qr.placement}) -->
+  <svg x="${qr.x}" y="${qr.y}" width="${qr.width}" height="${qr.height}" viewBox="0 0 ${modules} ${modules}" shape-rendering="crispEdges">
+    <rect width="${modules}" height="${modules}" fill="${qr.background}"/>
+    <path d="${path}" fill="${qr.color}"/>
+  </svg>`;
+  }
+
+  /**
+   * Square box a QR code goes in, inside the canvas's safe area. It is
+   * grown if needed so modules are at least MIN_MODULE_PIXELS, and
+   * shrunk to whole pixels per module so their edges stay sharp.
+   */
+  private getBox(qr: QrCode & { payload: string }, canvas: QrCanvas): Region {
+    const placement = qr.placement ?? 'bottom-right';
+    const { top = 0, right = 0, bottom = 0, left = 0 } = canvas.safeZone ?? {};
+    const safe = {
+      x: left,
+      y: top,
+      width: canvas.width - left - right,
+      height: canvas.height - top - bottom,
+    };
+
+    const short = Math.min(canvas.width, canvas.height);
+    const margin = short * ASSET_MARGIN;
+    const modules =
+      this.encode(qr).size + 2 * (qr.quietZone ?? DEFAULT_QUIET_ZONE);
+    let side = Math.min(
+      Math.max(short * (qr.size ?? DEFAULT_SIZE), modules * MIN_MODULE_PIXELS),
+      safe.width - 2 * margin,
+      safe.height - 2 * margin
+    );
+    if (side >= modules) {
+      side = Math.floor(side / modules) * modules;
+    }
+
+    return {
+      x: Math.round(
+        placement.endsWith('left')
+          ? safe.x + margin
+          : safe.x + safe.width - margin - side
+      ),
+      y: Math.round(
+        placement.startsWith('top')
+          ? safe.y + margin
+          : safe.y + safe.height - margin - side
+      ),
+      width: side,
+      height: side,
+    };
+  }
+
+  /** The symbol for a code's payload, encoded once. */
+  private encode(qr: QrCode & { payload: string }): QrMatrix {
+    const level = qr.errorCorrection ?? 'M';
+    const key = `${level}|${qr.payload}`;
+    let matrix = this.matrices.get(key);
+    if (!matrix) {
+      matrix = this.encoder.encode(qr.payload, level);
+      this.matrices.set(key, matrix);
+    }
+    return matrix;
+  }
+}
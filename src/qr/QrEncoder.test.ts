@@ -0,0 +1,191 @@
+import { describe, expect, test } from 'bun:test';
+import type { ErrorCorrectionLevel } from '../types';
+import { QrEncoder, type QrMatrix } from './QrEncoder';
+
+const LEVELS: Record<number, ErrorCorrectionLevel> = {
+  1: 'L',
+  0: 'M',
+  3: 'Q',
+  2: 'H',
+};
+
+/** Data codewords and ECC codewords per block of the versions decoded here. */
+const VERSION_1: Record<ErrorCorrectionLevel, [number, number]> = {
+  L: [19, 7],
+  M: [16, 10],
+  Q: [13, 13],
+  H: [9, 17],
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Reads the level and mask from the format bits around the top-left finder. */
+function readFormat(matrix: QrMatrix): {
+  level: ErrorCorrectionLevel;
+  mask: number;
+  valid: boolean;
+} {
+  const dark = (x: number, y: number) => (matrix.modules[y]![x] ? 1 : 0);
+  const positions: Array<[number, number]> = [
+    ...[0, 1, 2, 3, 4, 5].map((i): [number, number] => [8, i]),
+    [8, 7],
+    [8, 8],
+    [7, 8],
+    ...[9, 10, 11, 12, 13, 14].map((i): [number, number] => [14 - i, 8]),
+  ];
+  const bits =
+    positions.reduce((value, [x, y], i) => value | (dark(x, y) << i), 0) ^
+    0x5412;
+
+  // A valid format word is a multiple of the BCH generator 0x537.
+  let remainder = bits;
+  for (let i = 14; i >= 10; i--) {
+    if ((remainder >>> i) & 1) remainder ^= 0x537 << (i - 10);
+  }
+  const data = bits >>> 10;
+  return { level: LEVELS[data >>> 3]!, mask: data & 7, valid: remainder === 0 };
+}
+
+/** Unmasks a version 1 symbol and reads its codewords in zigzag order. */
+function readCodewords(matrix: QrMatrix, mask: number): number[] {
+  const { size } = matrix;
+  const isFunction = (x: number, y: number) =>
+    (x < 9 && y < 9) ||
+    (x >= size - 8 && y < 9) ||
+    (x < 9 && y >= size - 8) ||
+    x === 6 ||
+    y === 6;
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (const x of [right, right - 1]) {
+        if (!isFunction(x, y)) {
+          bits.push(Number(matrix.modules[y]![x]! !== MASKS[mask]!(x, y)));
+        }
+      }
+    }
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit)
+    );
+  }
+  return codewords;
+}
+
+/** Reed-Solomon syndromes over GF(256); all zero for an intact block. */
+function syndromes(block: number[], eccCount: number): number[] {
+  const multiply = (a: number, b: number) => {
+    let product = 0;
+    for (let i = 7; i >= 0; i--) {
+      product = (product << 1) ^ ((product >>> 7) * 0x11d);
+      product ^= ((b >>> i) & 1) * a;
+    }
+    return product;
+  };
+
+  const result: number[] = [];
+  let root = 1;
+  for (let i = 0; i < eccCount; i++) {
+    result.push(
+      block.reduce((value, codeword) => multiply(value, root) ^ codeword, 0)
+    );
+    root = multiply(root, 2);
+  }
+  return result;
+}
+
+/** The byte-mode payload of a version 1 symbol's data codewords. */
+function decodeBytes(data: number[]): string {
+  const bits = data.flatMap((byte) =>
+    [7, 6, 5, 4, 3, 2, 1, 0].map((i) => (byte >>> i) & 1)
+  );
+  const read = (start: number, length: number) =>
+    bits
+      .slice(start, start + length)
+      .reduce((value, bit) => (value << 1) | bit, 0);
+
+  expect(read(0, 4)).toBe(0b0100);
+  const length = read(4, 8);
+  const bytes = Array.from({ length }, (_, i) => read(12 + i * 8, 8));
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+describe('QrEncoder', () => {
+  const encoder = new QrEncoder();
+
+  test('round-trips a version 1 symbol through its format, mask and codewords', () => {
+    const text = 'tel:+15550100';
+    const matrix = encoder.encode(text, 'L');
+    expect(matrix.version).toBe(1);
+    expect(matrix.size).toBe(21);
+
+    const format = readFormat(matrix);
+    expect(format.valid).toBe(true);
+    // 13 bytes (116 bits with the header) fit M's 16 codewords, not Q's 13.
+    expect(format.level).toBe('M');
+
+    const [dataCount, eccCount] = VERSION_1[format.level];
+    const codewords = readCodewords(matrix, format.mask);
+    const block = codewords.slice(0, dataCount + eccCount);
+    expect(syndromes(block, eccCount).every((value) => value === 0)).toBe(true);
+    expect(decodeBytes(block.slice(0, dataCount))).toBe(text);
+  });
+
+  test('round-trips UTF-8 text', () => {
+    const text = 'Café ☕';
+    const matrix = encoder.encode(text);
+    const format = readFormat(matrix);
+    const [dataCount] = VERSION_1[format.level];
+
+    expect(matrix.version).toBe(1);
+    expect(
+      decodeBytes(readCodewords(matrix, format.mask).slice(0, dataCount))
+    ).toBe(text);
+  });
+
+  test('picks the smallest version that holds the payload', () => {
+    expect(encoder.encode('x'.repeat(14), 'M').version).toBe(1);
+    expect(encoder.encode('x'.repeat(15), 'M').version).toBe(2);
+
+    const matrix = encoder.encode('x'.repeat(100), 'M');
+    expect(matrix.version).toBe(6);
+    expect(matrix.size).toBe(41);
+    expect(matrix.modules).toHaveLength(41);
+  });
+
+  test('draws the finder patterns and the dark module', () => {
+    const { modules, size } = encoder.encode('https://example.com');
+    for (const [x, y] of [
+      [0, 0],
+      [size - 7, 0],
+      [0, size - 7],
+    ] as const) {
+      expect(modules[y]![x]).toBe(true);
+      expect(modules[y + 1]![x + 1]).toBe(false);
+      expect(modules[y + 3]![x + 3]).toBe(true);
+    }
+    expect(modules[size - 8]![8]).toBe(true);
+  });
+
+  test('rejects payloads too long for any version', () => {
+    expect(() => encoder.encode('x'.repeat(3000), 'H')).toThrow(
+      'QR payload is too long'
+    );
+  });
+});
@@ -0,0 +1,514 @@
+import type { ErrorCorrectionLevel } from '../types';
+
+/** A QR symbol: `modules[y][x]` is true for dark modules. */
+export interface QrMatrix {
+  version: number;
+  /** Modules per side, without the quiet zone. */
+  size: number;
+  modules: boolean[][];
+}
+
+/** Order used when trying a stronger error correction level that still fits. */
+const LEVELS: ErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+/** Format information bits for each level (ISO/IEC 18004 table 12). */
+const LEVEL_BITS: Record<ErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+/** Error correction codewords per block, by level and version (index 0 unused). */
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+};
+
+/** Error correction blocks, by level and version (index 0 unused). */
+const ECC_BLOCKS: Record<ErrorCorrectionLevel, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+};
+
+/** The eight data mask patterns, by column and row. */
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/** Dark-light run a finder pattern makes, which data should not imitate. */
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+/**
+ * Encodes text as a QR code symbol (ISO/IEC 18004), without any network
+ * service or dependency. Text is stored as UTF-8 in byte mode, in the
+ * smallest version (1 to 40) that holds it at the requested error
+ * correction level; if that version has room for a stronger level, the
+ * stronger one is used. Of the eight masks, the one with the lowest
+ * penalty score is applied, as the standard recommends.
+ */
+export class QrEncoder {
+  /**
+   * @param text - Payload to encode.
+   * @param level - Minimum error correction level (default: M, 15% damage).
+   * @throws Error if the text is too long for a QR code at that level.
+   */
+  encode(text: string, level: ErrorCorrectionLevel = 'M'): QrMatrix {
+    const data = new TextEncoder().encode(text);
+
+    let version = 1;
+    while (
+      this.dataBits(data.length, version) > this.capacity(version, level)
+    ) {
+      if (++version > 40) {
+        throw new Error(
+          `❌ Configuration error: QR payload is too long (${data.length} bytes) for a QR code at error correction level ${level}.`
+        );
+      }
+    }
+    for (const stronger of LEVELS.slice(LEVELS.indexOf(level) + 1)) {
+      if (
+        this.dataBits(data.length, version) <= this.capacity(version, stronger)
+      ) {
+        level = stronger;
+      }
+    }
+
+    const codewords = this.addErrorCorrection(
+      this.dataCodewords(data, version, level),
+      version,
+      level
+    );
+
+    const symbol = new QrSymbol(version);
+    symbol.drawFunctionPatterns();
+    symbol.drawCodewords(codewords);
+
+    let best = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      symbol.applyMask(mask);
+      symbol.drawFormatBits(LEVEL_BITS[level], mask);
+      const penalty = symbol.penalty();
+      if (penalty < bestPenalty) {
+        best = mask;
+        bestPenalty = penalty;
+      }
+      symbol.applyMask(mask); // XOR again to undo
+    }
+    symbol.applyMask(best);
+    symbol.drawFormatBits(LEVEL_BITS[level], best);
+
+    return { version, size: symbol.size, modules: symbol.modules };
+  }
+
+  /** Bits the byte-mode segment takes: mode, character count and data. */
+  private dataBits(bytes: number, version: number): number {
+    return 4 + (version < 10 ? 8 : 16) + bytes * 8;
+  }
+
+  /** Data bits a version holds at a level. */
+  private capacity(version: number, level: ErrorCorrectionLevel): number {
+    return this.dataCodewordCount(version, level) * 8;
+  }
+
+  private dataCodewordCount(
+    version: number,
+    level: ErrorCorrectionLevel
+  ): number {
+    return (
+      Math.floor(rawDataModules(version) / 8) -
+      ECC_CODEWORDS_PER_BLOCK[level][version]! * ECC_BLOCKS[level][version]!
+    );
+  }
+
+  /**
+   * The byte-mode segment, terminated and padded with the alternating
+   * 0xEC/0x11 pad bytes to the version's data capacity.
+   */
+  private dataCodewords(
+    data: Uint8Array,
+    version: number,
+    level: ErrorCorrectionLevel
+  ): number[] {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    append(0b0100, 4);
+    append(data.length, version < 10 ? 8 : 16);
+    for (const byte of data) append(byte, 8);
+
+    const capacity = this.capacity(version, level);
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+      append(pad, 8);
+    }
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(
+        bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0)
+      );
+    }
+    return codewords;
+  }
+
+  /**
+   * Splits the data into blocks, appends each block's Reed-Solomon
+   * codewords, and interleaves the blocks.
+   */
+  private addErrorCorrection(
+    data: number[],
+    version: number,
+    level: ErrorCorrectionLevel
+  ): number[] {
+    const blockCount = ECC_BLOCKS[level][version]!;
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version]!;
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlocks = blockCount - (rawCodewords % blockCount);
+    const shortLength = Math.floor(rawCodewords / blockCount);
+
+    const divisor = reedSolomonDivisor(eccLength);
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+      const length = shortLength - eccLength + (i < shortBlocks ? 0 : 1);
+      const block = data.slice(offset, offset + length);
+      offset += length;
+      const ecc = reedSolomonRemainder(block, divisor);
+      // Short blocks get a placeholder so all blocks line up when interleaving.
+      if (i < shortBlocks) block.push(0);
+      blocks.push([...block, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0]!.length; i++) {
+      blocks.forEach((block, j) => {
+        if (i !== shortLength - eccLength || j >= shortBlocks) {
+          result.push(block[i]!);
+        }
+      });
+    }
+    return result;
+  }
+}
+
+/** The module grid being built, with the modules reserved for function patterns. */
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  /** Timing, finder and alignment patterns, and the version information. */
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // The three corners with finder patterns get none.
+        if (!(
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        )) {
+          this.drawAlignment(x, y);
+        }
+      })
+    );
+
+    // Reserve the format areas; the real bits are drawn once the mask is chosen.
+    this.drawFormatBits(0, 0);
+    this.drawVersion();
+  }
+
+  /** Places codewords in the two-module-wide zigzag, skipping function modules. */
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    const total = codewords.length * 8;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing pattern
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < this.size; step++) {
+        const y = upward ? this.size - 1 - step : step;
+        for (let column = 0; column < 2; column++) {
+          const x = right - column;
+          if (!this.reserved[y]![x] && bit < total) {
+            this.modules[y]![x] =
+              ((codewords[bit >>> 3]! >>> (7 - (bit & 7))) & 1) === 1;
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  /** Inverts the data modules the mask selects; applying it twice undoes it. */
+  applyMask(mask: number): void {
+    const invert = MASKS[mask]!;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y]![x] && invert(x, y)) {
+          this.modules[y]![x] = !this.modules[y]![x];
+        }
+      }
+    }
+  }
+
+  /** The two copies of the format information (level and mask) and the dark module. */
+  drawFormatBits(levelBits: number, mask: number): void {
+    const data = (levelBits << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bitAt = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Around the top-left finder.
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bitAt(i));
+    this.setFunction(8, 7, bitAt(6));
+    this.setFunction(8, 8, bitAt(7));
+    this.setFunction(7, 8, bitAt(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bitAt(i));
+
+    // Split between the top-right and bottom-left finders.
+    for (let i = 0; i < 8; i++)
+      this.setFunction(this.size - 1 - i, 8, bitAt(i));
+    for (let i = 8; i < 15; i++)
+      this.setFunction(8, this.size - 15 + i, bitAt(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  /**
+   * Penalty score of the current modules (ISO/IEC 18004 section 7.8.3):
+   * long same-color runs, 2x2 blocks, finder-like patterns and an
+   * unbalanced dark ratio all make a symbol harder to read.
+   */
+  penalty(): number {
+    let score = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map((row) => row[x]!)),
+    ];
+
+    for (const line of lines) {
+      // Runs of five or more modules of one color.
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) score += run - 2;
+          run = 1;
+        }
+      }
+
+      // 1:1:3:1:1 finder-like patterns with four light modules on one side.
+      for (let i = 0; i + FINDER_LIKE.length <= line.length; i++) {
+        if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+        const lightBefore = [1, 2, 3, 4].every((k) => !line[i - k]);
+        const lightAfter = [0, 1, 2, 3].every(
+          (k) => !line[i + FINDER_LIKE.length + k]
+        );
+        if (lightBefore || lightAfter) score += 40;
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y]![x]!;
+        if (color) dark++;
+        if (
+          x < this.size - 1 &&
+          y < this.size - 1 &&
+          color === this.modules[y]![x + 1] &&
+          color === this.modules[y + 1]![x] &&
+          color === this.modules[y + 1]![x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark;
+    this.reserved[y]![x] = true;
+  }
+
+  /** A finder pattern centered on a module, with its light separator. */
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(
+          cx + dx,
+          cy + dy,
+          Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+        );
+      }
+    }
+  }
+
+  /** Version information blocks, for versions 7 and up. */
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /** Centers of the alignment patterns along each axis. */
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step =
+      Math.floor((this.version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const positions = [6];
+    for (
+      let position = this.size - 7;
+      positions.length < count;
+      position -= step
+    ) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+}
+
+/** Modules left for data and error correction once function patterns are drawn. */
+function rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+/** Product of two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function multiply(x: number, y: number): number {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> i) & 1) * x;
+  }
+  return product;
+}
+
+/** Coefficients of the Reed-Solomon generator polynomial of a degree, highest first. */
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(result[j]!, root);
+      if (j + 1 < degree) result[j]! ^= result[j + 1]!;
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+/** Error correction codewords of a block: the remainder of its division by the generator. */
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
@@ -0,0 +1,19 @@
+export {
+  QR_PLACEMENTS,
+  QrCodeRenderer,
+  validateQrCode,
+  type PlacedQrCode,
+  type QrCanvas,
+} from './QrCodeRenderer';
+export { QrEncoder, type QrMatrix } from './QrEncoder';
+export {
+  QR_PAYLOAD_TYPES,
+  buildQrPayload,
+  findPhoneNumber,
+  geoPayload,
+  isPhoneNumber,
+  normalizePhone,
+  telPayload,
+  vcardPayload,
+  whatsappPayload,
+} from './payloads';
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildQrPayload,
+  findPhoneNumber,
+  geoPayload,
+  isPhoneNumber,
+  normalizePhone,
+  vcardPayload,
+  whatsappPayload,
+} from './payloads';
+
+const details = {
+  businessType: 'Pizzeria Roma',
+  phone: 'Call +1-800-PIZZANOW today',
+  location: 'Main St 1, Springfield',
+};
+
+describe('phone numbers', () => {
+  test.each([
+    ['Call us at (555) 123-4567', '(555) 123-4567', '5551234567'],
+    ['Tel: +56 9 1234 5678.', '+56 9 1234 5678', '+56912345678'],
+    ['1-800-FLOWERS', '1-800-FLOWERS', '18003569377'],
+    ['Order at 555-BEAUTY now', '555-BEAUTY', '555232889'],
+    ['Open 9-18, call 555.010.0199', '555.010.0199', '5550100199'],
+  ])('finds the number in "%s"', (text, number, dialable) => {
+    expect(findPhoneNumber(text)).toBe(number);
+    expect(normalizePhone(text)).toBe(dialable);
+  });
+
+  test('only reads capital letters after the digits as vanity letters', () => {
+    expect(normalizePhone('555 1234 ext')).toBe('5551234');
+    expect(normalizePhone('CALL 555-0100')).toBe('5550100');
+  });
+
+  test('are told apart from placeholders', () => {
+    expect(isPhoneNumber('+56 9 1234 5678')).toBe(true);
+    expect(isPhoneNumber('Contact us')).toBe(false);
+    expect(normalizePhone('Contact us')).toBe('');
+  });
+});
+
+describe('payloads', () => {
+  test('link WhatsApp chats with an encoded message', () => {
+    expect(whatsappPayload('+56 9 1234 5678', 'Hola! 2x1?')).toBe(
+      'https://wa.me/56912345678?text=Hola!%202x1%3F'
+    );
+  });
+
+  test('read coordinates or search for an address', () => {
+    expect(geoPayload(' -33.45, -70.66 ')).toBe('geo:-33.45,-70.66');
+    expect(geoPayload('Main St 1')).toBe('geo:0,0?q=Main%20St%201');
+  });
+
+  test('escape vCard values', () => {
+    expect(vcardPayload({ name: 'Tacos; Co', address: 'Av. 1, Centro' })).toBe(
+      [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'FN:Tacos\\; Co',
+        'ORG:Tacos\\; Co',
+        'ADR;TYPE=WORK:;;Av. 1\\, Centro;;;;',
+        'END:VCARD',
+      ].join('\r\n')
+    );
+  });
+
+  test('are built from the promo details', () => {
+    expect(buildQrPayload({ type: 'tel' }, details)).toBe(
+      'tel:+180074992669'
+    );
+    expect(buildQrPayload({ type: 'whatsapp' }, details)).toBe(
+      'https://wa.me/180074992669'
+    );
+    expect(buildQrPayload({ type: 'vcard' }, details)).toContain(
+      'FN:Pizzeria Roma'
+    );
+    expect(() =>
+      buildQrPayload({ type: 'tel' }, { ...details, phone: 'Call us' })
+    ).toThrow('needs a phone number, got "Call us"');
+    expect(() => buildQrPayload({ type: 'url' }, details)).toThrow(
+      'needs a URL'
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import type { PromoConfig, QrCode, QrPayloadType } from '../types';
+
+export const QR_PAYLOAD_TYPES: QrPayloadType[] = [
+  'url',
+  'tel',
+  'whatsapp',
+  'vcard',
+  'geo',
+];
+
+/** Phone keypad digit for each letter, for vanity numbers like 555-BEAUTY. */
+const KEYPAD: Record<string, string> = Object.fromEntries(
+  ['ABC', 'DEF', 'GHI', 'JKL', 'MNO', 'PQRS', 'TUV', 'WXYZ'].flatMap(
+    (letters, index) =>
+      [...letters].map((letter) => [letter, String(index + 2)])
+  )
+);
+
+/**
+ * A phone number in text: digits with the usual separators and an optional
+ * leading +, then optionally one trailing group of capital vanity letters
+ * ("1-800-FLOWERS"). Words around it are not part of the number.
+ */
+const PHONE = /\+?\(?\d[\d\s().\-/]*\d\)?(?:-?[A-Z]{2,}(?![A-Za-z]))?/g;
+
+/**
+ * The phone number written in text such as "Call us at (555) 123-4567",
+ * without the words around it: of the candidates, the one with the most
+ * digits, so times like "9-18" are passed over.
+ *
+ * @returns The number as written, or null when the text has none.
+ */
+export function findPhoneNumber(text: string): string | null {
+  let best: string | null = null;
+  let bestDigits = 2;
+  for (const [candidate] of text.matchAll(PHONE)) {
+    const digits = candidate.match(/[\dA-Z]/g)!.length;
+    if (digits > bestDigits) {
+      best = candidate.trim();
+      bestDigits = digits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether text holds a phone number (see `findPhoneNumber`), rather than
+ * being a placeholder like "Contact us".
+ */
+export function isPhoneNumber(phone: string): boolean {
+  return findPhoneNumber(phone) !== null;
+}
+
+/**
+ * The phone number in text as dialable characters: vanity letters become
+ * keypad digits, separators and surrounding words are dropped, and a
+ * leading + is kept.
+ *
+ * @returns The digits, or an empty string when the text has no number.
+ */
+export function normalizePhone(phone: string): string {
+  const number = findPhoneNumber(phone) ?? '';
+  const digits = number
+    .replace(/[A-Z]/g, (letter) => KEYPAD[letter]!)
+    .replace(/[^\d]/g, '');
+  return number.startsWith('+') ? `+${digits}` : digits;
+}
+
+/** `tel:` URI that starts a call. */
+export function telPayload(phone: string): string {
+  return `tel:${normalizePhone(phone)}`;
+}
+
+/**
+ * WhatsApp click-to-chat link. WhatsApp expects the number in
+ * international format, digits only.
+ */
+export function whatsappPayload(phone: string, message?: string): string {
+  const number = normalizePhone(phone).replace('+', '');
+  return message
+    ? `https://wa.me/${number}?text=${encodeURIComponent(message)}`
+    : `https://wa.me/${number}`;
+}
+
+/**
+ * `geo:` URI. A location written as "latitude,longitude" becomes those
+ * coordinates; an address becomes a search, which map apps resolve.
+ */
+export function geoPayload(location: string): string {
+  const point = location.match(
+    /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/
+  );
+  if (point) {
+    return `geo:${point[1]},${point[2]}`;
+  }
+  return `geo:0,0?q=${encodeURIComponent(location.trim())}`;
+}
+
+/** vCard 3.0 contact with whichever details are known. */
+export function vcardPayload(contact: {
+  name: string;
+  phone?: string;
+  address?: string;
+  url?: string;
+}): string {
+  const escape = (value: string) => value.replace(/([\\,;])/g, '\\$1');
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escape(contact.name)}`,
+    `ORG:${escape(contact.name)}`,
+    contact.phone && `TEL;TYPE=WORK,VOICE:${normalizePhone(contact.phone)}`,
+    contact.address && `ADR;TYPE=WORK:;;${escape(contact.address)};;;;`,
+    contact.url && `URL:${contact.url}`,
+    'END:VCARD',
+  ]
+    .filter(Boolean)
+    .join('\r\n');
+}
+
+/**
+ * The text a QR code encodes, from its type and the promo's details.
+ *
+ * @throws Error if a detail the type needs is missing.
+ */
+export function buildQrPayload(
+  qr: QrCode,
+  config: Pick<PromoConfig, 'businessType' | 'phone' | 'location'>
+): string {
+  const require = (value: string | undefined, what: string): string => {
+    if (!value?.trim()) {
+      throw new Error(
+        `❌ Configuration error: a "${qr.type}" QR code needs ${what}.`
+      );
+    }
+    return value.trim();
+  };
+  const requirePhone = (): string => {
+    const phone = require(config.phone, 'a phone number');
+    if (!isPhoneNumber(phone)) {
+      throw new Error(
+        `❌ Configuration error: a "${qr.type}" QR code needs a phone number, got "${phone}".`
+      );
+    }
+    return phone;
+  };
+
+  switch (qr.type) {
+    case 'url':
+      return require(qr.url, 'a URL');
+    case 'tel':
+      return telPayload(requirePhone());
+    case 'whatsapp':
+      return whatsappPayload(requirePhone(), qr.message);
+    case 'vcard':
+      return vcardPayload({
+        name: require(qr.name ?? config.businessType, 'a name'),
+        phone: isPhoneNumber(config.phone) ? config.phone : undefined,
+        address: config.location || undefined,
+        url: qr.url,
+      });
+    case 'geo':
+      return geoPayload(require(config.location, 'a location'));
+    default:
+      throw new Error(
+        `❌ Configuration error: unknown QR code type "${qr.type}". Expected one of: ${QR_PAYLOAD_TYPES.join(', ')}.`
+      );
+  }
+}
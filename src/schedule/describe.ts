@@ -0,0 +1,31 @@
+import type { PromoConfig } from '../types';
+import { formatOpeningHours } from './hours';
+import { formatValidity } from './validity';
+
+/**
+ * The promo with its `validity` and `schedule` text written from the
+ * structured validity period and opening hours, in the locale's language.
+ * Free text is kept where there is nothing structured to write it from.
+ *
+ * @param config - Promo to describe.
+ * @param locale - BCP 47 locale to write for.
+ * @param now - Moment countdowns are relative to (default: now).
+ */
+export function describeSchedule<T extends PromoConfig>(
+  config: T,
+  locale: string,
+  now: Date = new Date()
+): T {
+  const validity = config.validityPeriod
+    ? formatValidity(config.validityPeriod, locale, now)
+    : null;
+  const schedule = config.openingHours
+    ? formatOpeningHours(config.openingHours, locale)
+    : null;
+
+  return {
+    ...config,
+    validity: validity ?? config.validity,
+    schedule: schedule ?? config.schedule,
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatOpeningHours,
+  parseOpeningHours,
+  validateOpeningHours,
+} from './hours';
+
+describe('parseOpeningHours', () => {
+  test('reads day ranges, lists, closed days and several time ranges', () => {
+    expect(
+      parseOpeningHours(
+        'mon-fri 9-14, 16:30-20; sat,sun 10:00-14:00; sun closed'
+      )
+    ).toEqual({
+      monday: [
+        { open: '09:00', close: '14:00' },
+        { open: '16:30', close: '20:00' },
+      ],
+      tuesday: [
+        { open: '09:00', close: '14:00' },
+        { open: '16:30', close: '20:00' },
+      ],
+      wednesday: [
+        { open: '09:00', close: '14:00' },
+        { open: '16:30', close: '20:00' },
+      ],
+      thursday: [
+        { open: '09:00', close: '14:00' },
+        { open: '16:30', close: '20:00' },
+      ],
+      friday: [
+        { open: '09:00', close: '14:00' },
+        { open: '16:30', close: '20:00' },
+      ],
+      saturday: [{ open: '10:00', close: '14:00' }],
+      sunday: [],
+    });
+  });
+
+  test('wraps day ranges around the week', () => {
+    expect(Object.keys(parseOpeningHours('fri-mon 18-02'))).toEqual([
+      'friday',
+      'saturday',
+      'sunday',
+      'monday',
+    ]);
+  });
+
+  test('rejects text it cannot read', () => {
+    expect(() => parseOpeningHours('weekdays 9-5')).toThrow(
+      'cannot read opening hours "weekdays 9-5"'
+    );
+    expect(() => parseOpeningHours('mon 25:00-26:00')).toThrow(
+      'invalid opening hours on monday'
+    );
+    expect(() =>
+      validateOpeningHours({ monday: [{ open: '09:00', close: '09:00' }] })
+    ).toThrow('open and close at 09:00');
+  });
+});
+
+describe('formatOpeningHours', () => {
+  test('groups days with the same hours and names closed days', () => {
+    const hours = parseOpeningHours(
+      'mon-fri 09:00-18:00; sat 10:00-14:00; sun closed'
+    );
+    expect(formatOpeningHours(hours)).toBe(
+      'Mon – Fri 9:00 AM – 6:00 PM · Sat 10:00 AM – 2:00 PM · Sun closed'
+    );
+    expect(formatOpeningHours(hours, 'es-ES')).toBe(
+      'lun – vie 9:00 – 18:00 · sáb 10:00 – 14:00 · dom cerrado'
+    );
+  });
+
+  test('treats missing days as closed', () => {
+    expect(formatOpeningHours(parseOpeningHours('mon-fri 9-17'))).toBe(
+      'Mon – Fri 9:00 AM – 5:00 PM · Sat – Sun closed'
+    );
+  });
+
+  test('writes out hours past midnight and every day', () => {
+    expect(formatOpeningHours(parseOpeningHours('daily 18:00-24:00'))).toBe(
+      'Every day 6:00 PM – 12:00 AM'
+    );
+  });
+
+  test('is empty when every day is closed', () => {
+    expect(formatOpeningHours(parseOpeningHours('daily closed'))).toBe('');
+  });
+});
@@ -0,0 +1,203 @@
+import type { OpeningHours, TimeRange, Weekday } from '../types';
+
+/** Days in display order, Monday first. */
+export const WEEKDAYS: Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/** Opening hours wording per language; other languages use English. */
+const HOURS_WORDS: Record<string, { everyDay: string; closed: string }> = {
+  en: { everyDay: 'Every day', closed: 'closed' },
+  es: { everyDay: 'Todos los días', closed: 'cerrado' },
+  fr: { everyDay: 'Tous les jours', closed: 'fermé' },
+  de: { everyDay: 'Täglich', closed: 'geschlossen' },
+  it: { everyDay: 'Tutti i giorni', closed: 'chiuso' },
+  pt: { everyDay: 'Todos os dias', closed: 'fechado' },
+};
+
+const TIME = /^([01]?\d|2[0-4]):([0-5]\d)$/;
+
+/**
+ * Checks opening hours: known days and ranges of valid 24-hour times that
+ * open and close at different times.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateOpeningHours(hours: OpeningHours): void {
+  for (const [day, ranges] of Object.entries(hours)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      throw new Error(
+        `❌ Configuration error: unknown day "${day}" in opening hours. Expected one of: ${WEEKDAYS.join(', ')}.`
+      );
+    }
+    for (const range of ranges ?? []) {
+      const open = parseTime(range.open);
+      const close = parseTime(range.close);
+      if (open === null || close === null || open >= 24 * 60) {
+        throw new Error(
+          `❌ Configuration error: invalid opening hours on ${day} (${range.open}-${range.close}). Use 24-hour HH:MM times.`
+        );
+      }
+      if (open === close) {
+        throw new Error(
+          `❌ Configuration error: opening hours on ${day} open and close at ${range.open}.`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Reads opening hours written as "mon-fri 09:00-18:00; sat 10:00-14:00;
+ * sun closed". Days are English names or their first three letters, alone,
+ * as a range or separated by commas, or "daily"; several time ranges are
+ * separated by commas.
+ *
+ * @throws Error if the text cannot be read.
+ */
+export function parseOpeningHours(text: string): OpeningHours {
+  const hours: OpeningHours = {};
+  const fail = (segment: string): never => {
+    throw new Error(
+      `❌ Configuration error: cannot read opening hours "${segment}". Write them like "mon-fri 09:00-18:00; sat 10:00-14:00".`
+    );
+  };
+
+  for (const segment of text.split(';').map((part) => part.trim())) {
+    if (!segment) continue;
+    const match = segment.match(/^([a-z,\s-]+?)\s+(closed|[\d:,\s-]+)$/i);
+    if (!match) fail(segment);
+
+    const days = parseDays(match![1]!.toLowerCase()) ?? fail(segment);
+    const ranges: TimeRange[] =
+      match![2]!.toLowerCase() === 'closed'
+        ? []
+        : match![2]!.split(',').map((range) => {
+            const [open, close, extra] = range.split('-').map(normalizeTime);
+            if (!open || !close || extra !== undefined) fail(segment);
+            return { open: open!, close: close! };
+          });
+
+    for (const day of days) {
+      hours[day] = ranges;
+    }
+  }
+
+  validateOpeningHours(hours);
+  return hours;
+}
+
+/**
+ * Opening hours written out for a locale: consecutive days with the same
+ * hours are grouped, and closed days are named so nobody assumes they are
+ * open ("Mon – Fri 9:00 AM – 6:00 PM · Sat 10:00 AM – 2:00 PM · Sun
+ * closed").
+ *
+ * @returns The text, or an empty string when every day is closed.
+ */
+export function formatOpeningHours(
+  hours: OpeningHours,
+  locale: string = 'en-US'
+): string {
+  const time = new Intl.DateTimeFormat(locale, {
+    timeZone: 'UTC',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  const weekday = new Intl.DateTimeFormat(locale, {
+    timeZone: 'UTC',
+    weekday: 'short',
+  });
+  // 2024-01-01 was a Monday.
+  const dayName = (index: number) =>
+    weekday.format(new Date(Date.UTC(2024, 0, 1 + index)));
+  const timeText = (value: string) => {
+    const minutes = parseTime(value)! % (24 * 60);
+    return time.format(new Date(minutes * 60 * 1000));
+  };
+  const rangesText = (ranges: TimeRange[]) =>
+    ranges
+      .map((range) => `${timeText(range.open)} – ${timeText(range.close)}`)
+      .join(', ');
+
+  // Runs of consecutive days with the same hours.
+  const groups: { first: number; last: number; text: string }[] = [];
+  WEEKDAYS.forEach((day, index) => {
+    const ranges = hours[day] ?? [];
+    const text = ranges.length > 0 ? rangesText(ranges) : '';
+    const previous = groups[groups.length - 1];
+    if (previous && previous.text === text && previous.last === index - 1) {
+      previous.last = index;
+    } else {
+      groups.push({ first: index, last: index, text });
+    }
+  });
+
+  const words =
+    HOURS_WORDS[new Intl.Locale(locale).language] ?? HOURS_WORDS.en!;
+  if (groups.every((group) => !group.text)) {
+    return '';
+  }
+  if (groups.length === 1) {
+    return `${words.everyDay} ${groups[0]!.text}`;
+  }
+
+  return groups
+    .map((group) => {
+      const days =
+        group.first === group.last
+          ? dayName(group.first)
+          : `${dayName(group.first)} – ${dayName(group.last)}`;
+      return `${days} ${group.text || words.closed}`;
+    })
+    .join(' · ');
+}
+
+/** Minutes after midnight of an "HH:MM" time, or null. */
+function parseTime(value: string): number | null {
+  const match = value.trim().match(TIME);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+/** "9" or "9:30" as "09:00" or "09:30"; undefined when not a time. */
+function normalizeTime(value: string): string | undefined {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return undefined;
+  return `${match[1]!.padStart(2, '0')}:${match[2] ?? '00'}`;
+}
+
+/** Days named by "mon-fri", "sat,sun", "tuesday" or "daily". */
+function parseDays(text: string): Weekday[] | null {
+  if (text.trim() === 'daily') {
+    return WEEKDAYS;
+  }
+
+  const dayIndex = (name: string) =>
+    WEEKDAYS.findIndex(
+      (day) => name.trim().length >= 3 && day.startsWith(name.trim())
+    );
+  const days: Weekday[] = [];
+  for (const part of text.split(',')) {
+    const [from, to, extra] = part.split('-').map(dayIndex);
+    if (from === undefined || from < 0 || extra !== undefined) return null;
+    if (to === undefined) {
+      days.push(WEEKDAYS[from]!);
+      continue;
+    }
+    if (to < 0) return null;
+    // Ranges may wrap around the week, e.g. fri-mon.
+    for (let i = from; ; i = (i + 1) % 7) {
+      days.push(WEEKDAYS[i]!);
+      if (i === to) break;
+    }
+  }
+  return days;
+}
@@ -0,0 +1,16 @@
+export { describeSchedule } from './describe';
+export {
+  WEEKDAYS,
+  formatOpeningHours,
+  parseOpeningHours,
+  validateOpeningHours,
+} from './hours';
+export {
+  COUNTDOWN_DAYS,
+  formatCountdown,
+  formatValidity,
+  getValidityStatus,
+  validateValidityPeriod,
+  type ValidityState,
+  type ValidityStatus,
+} from './validity';
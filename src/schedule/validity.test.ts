@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatCountdown,
+  formatValidity,
+  getValidityStatus,
+  validateValidityPeriod,
+} from './validity';
+
+const newYork = (end: string, start?: string) => ({
+  start,
+  end,
+  timeZone: 'America/New_York',
+});
+
+describe('getValidityStatus', () => {
+  test('ends at the local midnight after the end date across a DST change', () => {
+    // Clocks spring forward on 2026-03-08 in New York (EST to EDT).
+    const period = newYork('2026-03-08');
+    const { endsAt } = getValidityStatus(period);
+
+    expect(endsAt?.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(
+      getValidityStatus(period, new Date('2026-03-09T03:59:59Z')).state
+    ).toBe('active');
+    expect(
+      getValidityStatus(period, new Date('2026-03-09T04:00:00Z')).state
+    ).toBe('expired');
+  });
+
+  test('reads local times on either side of the change', () => {
+    const before = getValidityStatus(newYork('2026-03-08T01:30'));
+    const after = getValidityStatus(newYork('2026-03-08T03:30'));
+
+    expect(before.endsAt?.toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(after.endsAt?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  test('counts calendar days in the period time zone', () => {
+    const period = newYork('2026-03-10');
+    // 23:30 on March 7 in New York is already March 8 in UTC.
+    const now = new Date('2026-03-08T04:30:00Z');
+    expect(getValidityStatus(period, now).daysLeft).toBe(3);
+  });
+
+  test('is upcoming before the start', () => {
+    const period = newYork('2026-12-31', '2026-12-01');
+    expect(
+      getValidityStatus(period, new Date('2026-11-30T12:00:00Z')).state
+    ).toBe('upcoming');
+  });
+});
+
+describe('formatValidity and formatCountdown', () => {
+  const period = { end: '2026-10-23', timeZone: 'UTC' };
+  const on = (day: number) => new Date(Date.UTC(2026, 9, day, 12));
+
+  test.each([
+    [9, 'Until October 23', null],
+    [18, 'Ends Friday', 'Only 5 days left'],
+    [21, 'Ends Friday', 'Only 2 days left'],
+    [22, 'Ends tomorrow', 'Ends tomorrow'],
+    [23, 'Ends today', 'Last day'],
+    [24, 'Ended October 23', null],
+  ])('agree on October %i', (day, validity, countdown) => {
+    expect(formatValidity(period, 'en-US', on(day))).toBe(validity);
+    expect(formatCountdown(period, 'en-US', on(day))).toBe(countdown);
+  });
+
+  test('write the range of an offer that has not started', () => {
+    expect(
+      formatValidity(
+        { start: '2026-11-01', end: '2026-11-30', timeZone: 'UTC' },
+        'en-US',
+        on(18)
+      )
+    ).toBe('November 1 – 30');
+  });
+
+  test('are translated', () => {
+    expect(formatValidity(period, 'es-MX', on(22))).toBe('Termina mañana');
+    expect(formatCountdown(period, 'de-DE', on(19))).toBe('Nur noch 4 Tage');
+  });
+
+  test('leave open-ended running offers unwritten', () => {
+    expect(formatValidity({ start: '2026-01-01' }, 'en-US', on(18))).toBeNull();
+  });
+});
+
+describe('validateValidityPeriod', () => {
+  test('rejects bad dates, zones and ranges', () => {
+    expect(() => validateValidityPeriod({})).toThrow('needs a start or an end');
+    expect(() => validateValidityPeriod({ end: '2026-02-30' })).toThrow(
+      'invalid validity date "2026-02-30"'
+    );
+    expect(() =>
+      validateValidityPeriod({ end: '2026-01-01', timeZone: 'Mars/Olympus' })
+    ).toThrow('unknown time zone');
+    expect(() =>
+      validateValidityPeriod({ start: '2026-02-01', end: '2026-01-01' })
+    ).toThrow('ends (2026-01-01) before it starts (2026-02-01)');
+  });
+});
@@ -0,0 +1,407 @@
+import type { ValidityPeriod } from '../types';
+
+/** Countdown copy ("only 3 days left") is written this close to the end. */
+export const COUNTDOWN_DAYS = 7;
+
+export type ValidityState = 'upcoming' | 'active' | 'expired';
+
+export interface ValidityStatus {
+  state: ValidityState;
+  /** First moment the offer is valid. */
+  startsAt?: Date;
+  /** First moment it no longer is. */
+  endsAt?: Date;
+  /**
+   * Whole days after today until the last valid day, in the period's time
+   * zone: 0 on the last day. Unset for open-ended offers.
+   */
+  daysLeft?: number;
+}
+
+/** A calendar date. */
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** A bound of the period, as an instant and as its day in the time zone. */
+interface Bound {
+  instant: Date;
+  date: LocalDate;
+}
+
+/** Validity wording per language; other languages use English. */
+interface ValidityPhrases {
+  endsToday: string;
+  endsTomorrow: string;
+  endsOn: (weekday: string) => string;
+  until: (date: string) => string;
+  from: (date: string) => string;
+  ended: (date: string) => string;
+  lastDay: string;
+  daysLeft: (days: number) => string;
+}
+
+const VALIDITY_PHRASES: Record<string, ValidityPhrases> = {
+  en: {
+    endsToday: 'Ends today',
+    endsTomorrow: 'Ends tomorrow',
+    endsOn: (weekday) => `Ends ${weekday}`,
+    until: (date) => `Until ${date}`,
+    from: (date) => `From ${date}`,
+    ended: (date) => `Ended ${date}`,
+    lastDay: 'Last day',
+    daysLeft: (days) =>
+      days === 1 ? 'Only 1 day left' : `Only ${days} days left`,
+  },
+  es: {
+    endsToday: 'Termina hoy',
+    endsTomorrow: 'Termina mañana',
+    endsOn: (weekday) => `Termina el ${weekday}`,
+    until: (date) => `Hasta el ${date}`,
+    from: (date) => `Desde el ${date}`,
+    ended: (date) => `Terminó el ${date}`,
+    lastDay: 'Último día',
+    daysLeft: (days) =>
+      days === 1 ? 'Solo queda 1 día' : `Solo quedan ${days} días`,
+  },
+  fr: {
+    endsToday: "Se termine aujourd'hui",
+    endsTomorrow: 'Se termine demain',
+    endsOn: (weekday) => `Se termine ${weekday}`,
+    until: (date) => `Jusqu'au ${date}`,
+    from: (date) => `À partir du ${date}`,
+    ended: (date) => `Terminé le ${date}`,
+    lastDay: 'Dernier jour',
+    daysLeft: (days) =>
+      days === 1 ? "Plus qu'un jour" : `Plus que ${days} jours`,
+  },
+  de: {
+    endsToday: 'Endet heute',
+    endsTomorrow: 'Endet morgen',
+    endsOn: (weekday) => `Endet am ${weekday}`,
+    until: (date) => `Bis ${date}`,
+    from: (date) => `Ab ${date}`,
+    ended: (date) => `Beendet am ${date}`,
+    lastDay: 'Letzter Tag',
+    daysLeft: (days) =>
+      days === 1 ? 'Nur noch 1 Tag' : `Nur noch ${days} Tage`,
+  },
+  it: {
+    endsToday: 'Termina oggi',
+    endsTomorrow: 'Termina domani',
+    endsOn: (weekday) => `Termina ${weekday}`,
+    until: (date) => `Fino al ${date}`,
+    from: (date) => `Dal ${date}`,
+    ended: (date) => `Terminata il ${date}`,
+    lastDay: 'Ultimo giorno',
+    daysLeft: (days) =>
+      days === 1 ? 'Ancora 1 giorno' : `Ancora ${days} giorni`,
+  },
+  pt: {
+    endsToday: 'Termina hoje',
+    endsTomorrow: 'Termina amanhã',
+    endsOn: (weekday) => `Termina ${weekday}`,
+    until: (date) => `Até ${date}`,
+    from: (date) => `A partir de ${date}`,
+    ended: (date) => `Terminou em ${date}`,
+    lastDay: 'Último dia',
+    daysLeft: (days) =>
+      days === 1 ? 'Só falta 1 dia' : `Só faltam ${days} dias`,
+  },
+};
+
+const MOMENT =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks a validity period: at least one date, dates that parse, a time
+ * zone `Intl` knows and a start before the end.
+ *
+ * @throws Error describing the first problem found.
+ */
+export function validateValidityPeriod(period: ValidityPeriod): void {
+  if (!period.start && !period.end) {
+    throw new Error(
+      '❌ Configuration error: a validity period needs a start or an end date.'
+    );
+  }
+  if (period.timeZone) {
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: period.timeZone });
+    } catch {
+      throw new Error(
+        `❌ Configuration error: unknown time zone "${period.timeZone}". Use an IANA name like America/New_York.`
+      );
+    }
+  }
+  for (const value of [period.start, period.end]) {
+    if (value !== undefined && !parseBound(value, 'UTC', 'start')) {
+      throw new Error(
+        `❌ Configuration error: invalid validity date "${value}". Use YYYY-MM-DD or YYYY-MM-DDTHH:MM.`
+      );
+    }
+  }
+
+  const { startsAt, endsAt } = getValidityStatus(period);
+  if (startsAt && endsAt && startsAt >= endsAt) {
+    throw new Error(
+      `❌ Configuration error: the validity period ends (${period.end}) before it starts (${period.start}).`
+    );
+  }
+}
+
+/**
+ * Where `now` falls in a validity period.
+ *
+ * @param period - Period to check (see `validateValidityPeriod`).
+ * @param now - Moment to check (default: the current time).
+ */
+export function getValidityStatus(
+  period: ValidityPeriod,
+  now: Date = new Date()
+): ValidityStatus {
+  const timeZone = timeZoneOf(period);
+  const start = period.start
+    ? parseBound(period.start, timeZone, 'start')
+    : null;
+  const end = period.end ? parseBound(period.end, timeZone, 'end') : null;
+
+  const state: ValidityState =
+    start && now < start.instant
+      ? 'upcoming'
+      : end && now >= end.instant
+        ? 'expired'
+        : 'active';
+
+  return {
+    state,
+    startsAt: start?.instant,
+    endsAt: end?.instant,
+    daysLeft: end ? daysBetween(zonedDate(now, timeZone), end.date) : undefined,
+  };
+}
+
+/**
+ * The validity written out for a flyer in the locale's language: "Ends
+ * today", "Ends Sunday" in the last week, "Until October 31" before that,
+ * the date range for offers that have not started, "Ended ..." after.
+ *
+ * @returns The text, or null for an open-ended offer that is running.
+ */
+export function formatValidity(
+  period: ValidityPeriod,
+  locale: string = 'en-US',
+  now: Date = new Date()
+): string | null {
+  const timeZone = timeZoneOf(period);
+  const status = getValidityStatus(period, now);
+  const phrases = phrasesFor(locale);
+  const start = period.start
+    ? parseBound(period.start, timeZone, 'start')
+    : null;
+  const end = period.end ? parseBound(period.end, timeZone, 'end') : null;
+
+  const today = zonedDate(now, timeZone);
+  const dateFormat = (date: LocalDate) =>
+    new Intl.DateTimeFormat(locale, {
+      timeZone: 'UTC',
+      month: 'long',
+      day: 'numeric',
+      year: date.year !== today.year ? 'numeric' : undefined,
+    });
+
+  switch (status.state) {
+    case 'expired':
+      return phrases.ended(dateFormat(end!.date).format(utcDate(end!.date)));
+    case 'upcoming':
+      return end
+        ? dateFormat(end.date).formatRange(
+            utcDate(start!.date),
+            utcDate(end.date)
+          )
+        : phrases.from(dateFormat(start!.date).format(utcDate(start!.date)));
+    case 'active': {
+      if (!end) return null;
+      const days = status.daysLeft!;
+      const countdown = countdownStage(days);
+      if (countdown === 'today') return phrases.endsToday;
+      if (countdown === 'tomorrow') return phrases.endsTomorrow;
+      if (days < 7) {
+        return phrases.endsOn(
+          new Intl.DateTimeFormat(locale, {
+            timeZone: 'UTC',
+            weekday: 'long',
+          }).format(utcDate(end.date))
+        );
+      }
+      return phrases.until(dateFormat(end.date).format(utcDate(end.date)));
+    }
+  }
+}
+
+/**
+ * Countdown copy for the last days of an offer: "Last day", "Ends
+ * tomorrow", then "Only 3 days left" counting the days after today, so it
+ * agrees with `formatValidity` ("Ends today", "Ends tomorrow", "Ends
+ * Sunday") shown next to it.
+ *
+ * @returns The text, or null when the offer is not running or has more
+ * than COUNTDOWN_DAYS left.
+ */
+export function formatCountdown(
+  period: ValidityPeriod,
+  locale: string = 'en-US',
+  now: Date = new Date()
+): string | null {
+  const status = getValidityStatus(period, now);
+  if (
+    status.state !== 'active' ||
+    status.daysLeft === undefined ||
+    status.daysLeft >= COUNTDOWN_DAYS
+  ) {
+    return null;
+  }
+
+  const phrases = phrasesFor(locale);
+  switch (countdownStage(status.daysLeft)) {
+    case 'today':
+      return phrases.lastDay;
+    case 'tomorrow':
+      return phrases.endsTomorrow;
+    default:
+      return phrases.daysLeft(status.daysLeft);
+  }
+}
+
+/**
+ * The stage of an offer's last days that both the validity and the
+ * countdown are worded for, so they never disagree.
+ */
+function countdownStage(daysLeft: number): 'today' | 'tomorrow' | 'days' {
+  return daysLeft <= 0 ? 'today' : daysLeft === 1 ? 'tomorrow' : 'days';
+}
+
+function phrasesFor(locale: string): ValidityPhrases {
+  return (
+    VALIDITY_PHRASES[new Intl.Locale(locale).language] ?? VALIDITY_PHRASES.en!
+  );
+}
+
+function timeZoneOf(period: ValidityPeriod): string {
+  return period.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Reads a period bound. A date alone covers the whole day, so an end date
+ * stops at the next midnight; a time without an offset is local to the
+ * time zone.
+ *
+ * @returns The bound, or null if the text is not a date.
+ */
+function parseBound(
+  value: string,
+  timeZone: string,
+  edge: 'start' | 'end'
+): Bound | null {
+  const match = value.trim().match(MOMENT);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, offset] = match;
+  const date = { year: +year!, month: +month!, day: +day! };
+  const check = utcDate(date);
+  if (
+    check.getUTCMonth() + 1 !== date.month ||
+    check.getUTCDate() !== date.day
+  ) {
+    return null;
+  }
+
+  if (offset) {
+    const instant = new Date(value.trim());
+    if (Number.isNaN(instant.getTime())) return null;
+    return { instant, date: zonedDate(instant, timeZone) };
+  }
+  if (hour !== undefined) {
+    const time = [+hour, +minute!, +(second ?? 0)] as const;
+    if (time[0] > 23 || time[1] > 59 || time[2] > 59) return null;
+    return { instant: zonedInstant(date, time, timeZone), date };
+  }
+
+  const midnight =
+    edge === 'end'
+      ? zonedDate(new Date(check.getTime() + DAY_MS), 'UTC')
+      : date;
+  return { instant: zonedInstant(midnight, [0, 0, 0], timeZone), date };
+}
+
+/** The calendar date of an instant in a time zone. */
+function zonedDate(instant: Date, timeZone: string): LocalDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)!.value);
+  return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+/** The instant a wall-clock time occurs in a time zone. */
+function zonedInstant(
+  date: LocalDate,
+  [hour, minute, second]: readonly [number, number, number],
+  timeZone: string
+): Date {
+  const wall = Date.UTC(
+    date.year,
+    date.month - 1,
+    date.day,
+    hour,
+    minute,
+    second
+  );
+  // Correct by the zone's offset, twice in case the first guess crossed a DST change.
+  let instant = wall - offsetAt(wall, timeZone);
+  instant = wall - offsetAt(instant, timeZone);
+  return new Date(instant);
+}
+
+/** Milliseconds a time zone is ahead of UTC at an instant. */
+function offsetAt(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)!.value);
+  const wall = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+function utcDate(date: LocalDate): Date {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day));
+}
+
+function daysBetween(from: LocalDate, to: LocalDate): number {
+  return Math.round((utcDate(to).getTime() - utcDate(from).getTime()) / DAY_MS);
+}
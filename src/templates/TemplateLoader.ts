@@ -0,0 +1,159 @@
+import { consola } from 'consola';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { parse as parseYAML } from 'yaml';
+import { LAYOUTS } from '../layouts';
+import {
+  formatTemplateIssues,
+  validateTemplate,
+  type FlyerTemplate,
+  type TemplateIssue,
+  type TemplateLayer,
+} from './TemplateSchema';
+
+export const TEMPLATE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Loads declarative flyer templates (JSON or YAML) and checks them before
+ * they reach the renderer.
+ * Templates are discovered in PROMOMAKER_TEMPLATE_DIR, or ./templates.
+ */
+export class TemplateLoader {
+  private directory: string;
+
+  /**
+   * @param directory - Where to discover templates (default: PROMOMAKER_TEMPLATE_DIR or ./templates).
+   */
+  constructor(
+    directory: string = process.env.PROMOMAKER_TEMPLATE_DIR || './templates'
+  ) {
+    this.directory = resolve(directory);
+  }
+
+  /**
+   * Reads and validates one template file.
+   *
+   * @param file - Path to a .json, .yaml or .yml template.
+   * @returns The template, with `source` set to its absolute path.
+   * @throws Error listing every problem found in the file.
+   */
+  load(file: string): FlyerTemplate {
+    const { template, issues } = this.check(file);
+
+    if (!template) {
+      throw new Error(
+        `❌ Configuration error: invalid template ${file}:\n${formatTemplateIssues(
+          issues
+        )}`
+      );
+    }
+
+    return template;
+  }
+
+  /**
+   * Validates a template file without throwing.
+   *
+   * @param file - Path to the template.
+   * @returns The template when valid, and the issues found.
+   */
+  check(file: string): { template?: FlyerTemplate; issues: TemplateIssue[] } {
+    const path = resolve(file);
+    let raw: unknown;
+
+    try {
+      const content = readFileSync(path, 'utf-8');
+      raw =
+        extname(path).toLowerCase() === '.json'
+          ? JSON.parse(content)
+          : parseYAML(content);
+    } catch (error) {
+      return {
+        issues: [{ path: '', message: `could not be read: ${(error as Error).message}` }],
+      };
+    }
+
+    const { template, issues } = validateTemplate(raw);
+    if (!template) {
+      return { issues };
+    }
+
+    if ((LAYOUTS as string[]).includes(template.name)) {
+      issues.push({
+        path: 'name',
+        message: `"${template.name}" is a built-in layout`,
+      });
+    }
+    issues.push(...this.checkImages(template.layers, dirname(path)));
+
+    return issues.length === 0
+      ? { template: { ...template, source: path }, issues }
+      : { issues };
+  }
+
+  /**
+   * Loads every template in the templates directory. Invalid files and
+   * duplicate names are reported and skipped so one broken file does not
+   * stop generation.
+   *
+   * @returns Valid templates, sorted by file name.
+   */
+  discover(): FlyerTemplate[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    const files = readdirSync(this.directory)
+      .filter((file) => TEMPLATE_EXTENSIONS.includes(extname(file).toLowerCase()))
+      .sort();
+    const templates: FlyerTemplate[] = [];
+
+    for (const file of files) {
+      const path = join(this.directory, file);
+      const { template, issues } = this.check(path);
+
+      if (!template) {
+        consola.warn(
+          `⚠️ Skipping template ${file}:\n${formatTemplateIssues(issues)}`
+        );
+        continue;
+      }
+      if (templates.some((other) => other.name === template.name)) {
+        consola.warn(
+          `⚠️ Skipping template ${file}: the name "${template.name}" is already used.`
+        );
+        continue;
+      }
+
+      templates.push(template);
+    }
+
+    if (templates.length > 0) {
+      consola.debug(
+        `🧩 Loaded ${templates.length} template(s) from ${this.directory}`
+      );
+    }
+    return templates;
+  }
+
+  private checkImages(
+    layers: TemplateLayer[],
+    directory: string,
+    path = 'layers'
+  ): TemplateIssue[] {
+    return layers.flatMap((layer, index) => {
+      const layerPath = `${path}[${index}]`;
+      if (layer.type === 'group') {
+        return this.checkImages(layer.layers, directory, `${layerPath}.layers`);
+      }
+      if (
+        layer.type === 'image' &&
+        !layer.href.startsWith('data:') &&
+        !existsSync(resolve(directory, layer.href))
+      ) {
+        return [{ path: `${layerPath}.href`, message: `file not found: ${layer.href}` }];
+      }
+      return [];
+    });
+  }
+}
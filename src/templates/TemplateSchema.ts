@@ -0,0 +1,591 @@
+import { isColor } from '../color';
+import { listFormats } from '../formats';
+import { INFO_FIELDS } from '../layout/InfoBlock';
+import type { CopyField } from '../types';
+
+/**
+ * A length in a template. Numbers are pixels; strings may use `%` (of the
+ * canvas width for x/width, of the height for y/height, of the shorter
+ * side for sizes), `vw`, `vh`, `vmin`, `vmax` and `px` units, combined
+ * with `+` and `-`: `"100% - 40"`, `"50vw + 2vmin"`.
+ */
+export type Dimension = number | string;
+
+/**
+ * Names a text layer can bind to: the copy fields of the variation, the
+ * details of the promotion and the structured offer's badge text.
+ */
+export const TEMPLATE_BINDINGS = [
+  'title',
+  'subtitle',
+  'description',
+  'callToAction',
+  'tone',
+  'product',
+  'businessType',
+  ...INFO_FIELDS,
+  'offerHeadline',
+  'offerCaption',
+  'originalPrice',
+] as const;
+
+export type TemplateBinding = (typeof TEMPLATE_BINDINGS)[number];
+
+/** Colors usable as `{{name}}` in any paint value. */
+export const TEMPLATE_COLORS = [
+  'background',
+  'text',
+  'accent',
+  'accentText',
+  'gradient',
+] as const;
+
+/** Keys accepted under `formats`, besides format names. */
+export const TEMPLATE_ORIENTATIONS = ['landscape', 'square', 'portrait'] as const;
+
+const COPY_BINDINGS: CopyField[] = [
+  'title',
+  'subtitle',
+  'description',
+  'callToAction',
+];
+
+interface BaseLayer {
+  /** Referenced by per-format overrides. */
+  id?: string;
+  /** Only drawn when this binding has a value. */
+  if?: TemplateBinding;
+  hidden?: boolean;
+  opacity?: number;
+  /** Degrees, around the layer's own center (or origin for groups). */
+  rotate?: number;
+  /** Drop shadow. */
+  shadow?: boolean;
+}
+
+export interface RectLayer extends BaseLayer {
+  type: 'rect';
+  x: Dimension;
+  y: Dimension;
+  width: Dimension;
+  height: Dimension;
+  radius?: Dimension;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: Dimension;
+}
+
+export interface ShapeLayer extends BaseLayer {
+  type: 'shape';
+  shape: 'circle' | 'ellipse' | 'line' | 'polygon';
+  cx?: Dimension;
+  cy?: Dimension;
+  r?: Dimension;
+  rx?: Dimension;
+  ry?: Dimension;
+  x1?: Dimension;
+  y1?: Dimension;
+  x2?: Dimension;
+  y2?: Dimension;
+  /** Polygon corners as [x, y] pairs. */
+  points?: Array<[Dimension, Dimension]>;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: Dimension;
+}
+
+export interface TextLayer extends BaseLayer {
+  type: 'text';
+  /** Field whose value is shown (checked against the layout like built-in layouts). */
+  bind?: TemplateBinding;
+  /** Literal text with `{{binding}}` placeholders, used when `bind` is not set. */
+  text?: string;
+  x: Dimension;
+  y: Dimension;
+  width: Dimension;
+  /** Optional height limit; the text shrinks to fit. */
+  height?: Dimension;
+  maxLines?: number;
+  /** Break long words with a hyphen when they do not fit (default: true). */
+  hyphenate?: boolean;
+  fontSize: Dimension;
+  minFontSize?: Dimension;
+  weight?: 'normal' | 'bold' | number;
+  align?: 'start' | 'middle' | 'end';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  color?: string;
+  uppercase?: boolean;
+  /** Box drawn behind the text, sized to it (e.g. a CTA button). */
+  background?: {
+    fill: string;
+    radius?: Dimension;
+    /** Horizontal padding as a multiple of the font size (default 1). */
+    paddingX?: number;
+    /** Vertical padding as a multiple of the font size (default 0.4). */
+    paddingY?: number;
+  };
+}
+
+export interface ImageLayer extends BaseLayer {
+  type: 'image';
+  /** File path relative to the template, or a data: URI. */
+  href: string;
+  x: Dimension;
+  y: Dimension;
+  width: Dimension;
+  height: Dimension;
+  fit?: 'cover' | 'contain' | 'fill';
+}
+
+export interface GroupLayer extends BaseLayer {
+  type: 'group';
+  /** Offset applied to every child. */
+  x?: Dimension;
+  y?: Dimension;
+  layers: TemplateLayer[];
+}
+
+export type TemplateLayer =
+  | RectLayer
+  | ShapeLayer
+  | TextLayer
+  | ImageLayer
+  | GroupLayer;
+
+/** Changes for one format (or orientation): layer fields by layer id. */
+export interface TemplateOverride {
+  background?: string;
+  info?: boolean;
+  layers?: Record<string, Partial<TemplateLayer>>;
+}
+
+export interface FlyerTemplate {
+  /** Layout name the template is selected by. */
+  name: string;
+  description?: string;
+  /** Canvas fill (default: `{{gradient}}`). */
+  background?: string;
+  /** Add the standard info block along the bottom (default: false). */
+  info?: boolean;
+  layers: TemplateLayer[];
+  /** Keyed by orientation or registered format id (`facebook`, `story`...). */
+  formats?: Record<string, TemplateOverride>;
+  /** File the template was loaded from, for relative image paths. */
+  source?: string;
+}
+
+export interface TemplateIssue {
+  /** Where in the template, e.g. `layers[2].fontSize`. */
+  path: string;
+  message: string;
+}
+
+const LAYER_TYPES = ['rect', 'shape', 'text', 'image', 'group'];
+const SHAPES = ['circle', 'ellipse', 'line', 'polygon'];
+
+/** Dimensions each layer type must define. */
+const REQUIRED_DIMENSIONS: Record<string, string[]> = {
+  rect: ['x', 'y', 'width', 'height'],
+  text: ['x', 'y', 'width', 'fontSize'],
+  image: ['x', 'y', 'width', 'height'],
+  group: [],
+  circle: ['cx', 'cy', 'r'],
+  ellipse: ['cx', 'cy', 'rx', 'ry'],
+  line: ['x1', 'y1', 'x2', 'y2'],
+  polygon: [],
+};
+
+const DIMENSION_KEYS = [
+  'x',
+  'y',
+  'width',
+  'height',
+  'radius',
+  'strokeWidth',
+  'cx',
+  'cy',
+  'r',
+  'rx',
+  'ry',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+  'fontSize',
+  'minFontSize',
+];
+
+/**
+ * Resolves a template dimension to pixels.
+ *
+ * @param value - Pixels or a unit expression (see `Dimension`).
+ * @param axis - What `%` refers to: canvas width (x), height (y) or shorter side (size).
+ * @param canvas - Canvas size.
+ * @throws Error if the expression cannot be parsed.
+ */
+export function resolveDimension(
+  value: Dimension,
+  axis: 'x' | 'y' | 'size',
+  canvas: { width: number; height: number }
+): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const { width, height } = canvas;
+  const units: Record<string, number> = {
+    '': 1,
+    px: 1,
+    vw: width / 100,
+    vh: height / 100,
+    vmin: Math.min(width, height) / 100,
+    vmax: Math.max(width, height) / 100,
+    '%':
+      (axis === 'x' ? width : axis === 'y' ? height : Math.min(width, height)) /
+      100,
+  };
+
+  const terms = value.trim().split(/\s*([+-])\s*(?=\d|\.)/);
+  let total = 0;
+  let sign = 1;
+
+  terms.forEach((term, index) => {
+    if (index % 2 === 1) {
+      sign = term === '-' ? -1 : 1;
+      return;
+    }
+    // A leading sign produces an empty first term.
+    if (term === '' && index === 0) {
+      return;
+    }
+
+    const match = term.match(/^(\d+(?:\.\d+)?|\.\d+)(px|vw|vh|vmin|vmax|%)?$/);
+    if (!match) {
+      throw new Error(`invalid length "${value}"`);
+    }
+    total += sign * parseFloat(match[1]!) * units[match[2] ?? '']!;
+  });
+
+  return total;
+}
+
+/**
+ * Validates a parsed template file.
+ * Every problem is reported with its path so designers can fix them all
+ * in one go.
+ *
+ * @param raw - Parsed JSON or YAML.
+ * @returns The template when valid, and the issues found.
+ */
+export function validateTemplate(raw: unknown): {
+  template?: FlyerTemplate;
+  issues: TemplateIssue[];
+} {
+  const issues: TemplateIssue[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { issues: [{ path: '', message: 'must be an object' }] };
+  }
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.name !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(record.name)) {
+    issues.push({
+      path: 'name',
+      message: 'is required and must be lowercase letters, digits and dashes',
+    });
+  }
+  for (const key of ['description', 'background'] as const) {
+    if (record[key] !== undefined && typeof record[key] !== 'string') {
+      issues.push({ path: key, message: 'must be a string' });
+    }
+  }
+  if (typeof record.background === 'string') {
+    checkPaint(record.background, 'background', issues);
+  }
+  if (record.info !== undefined && typeof record.info !== 'boolean') {
+    issues.push({ path: 'info', message: 'must be true or false' });
+  }
+
+  const ids = new Map<string, Record<string, unknown>>();
+  if (!Array.isArray(record.layers) || record.layers.length === 0) {
+    issues.push({ path: 'layers', message: 'must be a non-empty list' });
+  } else {
+    record.layers.forEach((layer, index) =>
+      checkLayer(layer, `layers[${index}]`, issues, ids)
+    );
+  }
+
+  if (record.formats !== undefined) {
+    if (typeof record.formats !== 'object' || record.formats === null) {
+      issues.push({ path: 'formats', message: 'must be an object' });
+    } else {
+      const keys: string[] = [
+        ...TEMPLATE_ORIENTATIONS,
+        ...listFormats().map((format) => format.id),
+      ];
+      for (const [key, override] of Object.entries(record.formats)) {
+        if (!keys.includes(key)) {
+          issues.push({
+            path: `formats.${key}`,
+            message: `must be an orientation or a registered format (${keys.join(', ')})`,
+          });
+        }
+        checkOverride(override, `formats.${key}`, issues, ids);
+      }
+    }
+  }
+
+  return issues.length === 0
+    ? { template: raw as FlyerTemplate, issues }
+    : { issues };
+}
+
+/**
+ * Formats issues as a bulleted list for error messages.
+ */
+export function formatTemplateIssues(issues: TemplateIssue[]): string {
+  return issues
+    .map((issue) => `- ${issue.path ? `${issue.path}: ` : ''}${issue.message}`)
+    .join('\n');
+}
+
+/** Binding names referenced as `{{name}}` in a string. */
+export function placeholdersIn(text: string): string[] {
+  return [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map((match) => match[1]!);
+}
+
+function checkLayer(
+  layer: unknown,
+  path: string,
+  issues: TemplateIssue[],
+  ids: Map<string, Record<string, unknown>>
+): void {
+  if (typeof layer !== 'object' || layer === null) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  const record = layer as Record<string, unknown>;
+
+  if (typeof record.id === 'string') {
+    if (ids.has(record.id)) {
+      issues.push({ path: `${path}.id`, message: `"${record.id}" is used twice` });
+    }
+    ids.set(record.id, record);
+  }
+
+  checkLayerFields(record, path, issues, true);
+
+  if (record.type === 'group') {
+    if (!Array.isArray(record.layers)) {
+      issues.push({ path: `${path}.layers`, message: 'must be a list' });
+    } else {
+      record.layers.forEach((child, index) =>
+        checkLayer(child, `${path}.layers[${index}]`, issues, ids)
+      );
+    }
+  }
+}
+
+/**
+ * Checks the fields of a layer. With `complete` set, required fields must
+ * be present; overrides only check what they set.
+ */
+function checkLayerFields(
+  record: Record<string, unknown>,
+  path: string,
+  issues: TemplateIssue[],
+  complete: boolean
+): void {
+  const type = record.type;
+  if (complete && !LAYER_TYPES.includes(type as string)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `must be one of: ${LAYER_TYPES.join(', ')}`,
+    });
+    return;
+  }
+
+  if (type === 'shape' && !SHAPES.includes(record.shape as string)) {
+    issues.push({
+      path: `${path}.shape`,
+      message: `must be one of: ${SHAPES.join(', ')}`,
+    });
+  }
+
+  if (complete) {
+    const required =
+      REQUIRED_DIMENSIONS[type === 'shape' ? (record.shape as string) : (type as string)] ??
+      [];
+    for (const key of required) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+  }
+
+  for (const key of DIMENSION_KEYS) {
+    const value = record[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      issues.push({ path: `${path}.${key}`, message: 'must be a number or a length' });
+      continue;
+    }
+    try {
+      resolveDimension(value, 'x', { width: 100, height: 100 });
+    } catch (error) {
+      issues.push({ path: `${path}.${key}`, message: (error as Error).message });
+    }
+  }
+
+  for (const key of ['fill', 'stroke', 'color']) {
+    if (record[key] !== undefined) {
+      if (typeof record[key] !== 'string') {
+        issues.push({ path: `${path}.${key}`, message: 'must be a string' });
+      } else {
+        checkPaint(record[key] as string, `${path}.${key}`, issues);
+      }
+    }
+  }
+
+  if (
+    record.opacity !== undefined &&
+    (typeof record.opacity !== 'number' || record.opacity < 0 || record.opacity > 1)
+  ) {
+    issues.push({ path: `${path}.opacity`, message: 'must be a number from 0 to 1' });
+  }
+  if (record.if !== undefined) {
+    checkBinding(record.if, `${path}.if`, issues);
+  }
+
+  if (type === 'text') {
+    if (record.bind !== undefined) {
+      checkBinding(record.bind, `${path}.bind`, issues);
+    } else if (complete && typeof record.text !== 'string') {
+      issues.push({ path, message: 'text layers need "bind" or "text"' });
+    }
+    if (typeof record.text === 'string') {
+      for (const name of placeholdersIn(record.text)) {
+        checkBinding(name, `${path}.text`, issues);
+      }
+    }
+    if (
+      record.maxLines !== undefined &&
+      (!Number.isInteger(record.maxLines) || (record.maxLines as number) < 1)
+    ) {
+      issues.push({ path: `${path}.maxLines`, message: 'must be a positive integer' });
+    }
+    if (
+      record.align !== undefined &&
+      !['start', 'middle', 'end'].includes(record.align as string)
+    ) {
+      issues.push({ path: `${path}.align`, message: 'must be start, middle or end' });
+    }
+    const background = record.background as Record<string, unknown> | undefined;
+    if (background !== undefined) {
+      if (typeof background !== 'object' || typeof background?.fill !== 'string') {
+        issues.push({ path: `${path}.background.fill`, message: 'is required' });
+      } else {
+        checkPaint(background.fill as string, `${path}.background.fill`, issues);
+      }
+    }
+  }
+
+  if (type === 'image' && complete && typeof record.href !== 'string') {
+    issues.push({ path: `${path}.href`, message: 'is required' });
+  }
+
+  if (type === 'shape' && record.shape === 'polygon') {
+    const points = record.points;
+    if (
+      !Array.isArray(points) ||
+      points.length < 3 ||
+      points.some((point) => !Array.isArray(point) || point.length !== 2)
+    ) {
+      issues.push({
+        path: `${path}.points`,
+        message: 'must list at least three [x, y] pairs',
+      });
+    }
+  }
+}
+
+function checkOverride(
+  override: unknown,
+  path: string,
+  issues: TemplateIssue[],
+  ids: Map<string, Record<string, unknown>>
+): void {
+  if (typeof override !== 'object' || override === null) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  const record = override as Record<string, unknown>;
+
+  if (typeof record.background === 'string') {
+    checkPaint(record.background, `${path}.background`, issues);
+  }
+  if (record.info !== undefined && typeof record.info !== 'boolean') {
+    issues.push({ path: `${path}.info`, message: 'must be true or false' });
+  }
+
+  const layers = record.layers as Record<string, unknown> | undefined;
+  if (layers === undefined) return;
+  if (typeof layers !== 'object' || layers === null) {
+    issues.push({ path: `${path}.layers`, message: 'must map layer ids to changes' });
+    return;
+  }
+
+  for (const [id, changes] of Object.entries(layers)) {
+    const base = ids.get(id);
+    if (!base) {
+      issues.push({ path: `${path}.layers.${id}`, message: 'no layer has this id' });
+      continue;
+    }
+    if (typeof changes !== 'object' || changes === null) {
+      issues.push({ path: `${path}.layers.${id}`, message: 'must be an object' });
+      continue;
+    }
+    checkLayerFields(
+      { ...(changes as Record<string, unknown>), type: base.type, shape: base.shape },
+      `${path}.layers.${id}`,
+      issues,
+      false
+    );
+  }
+}
+
+function checkBinding(name: unknown, path: string, issues: TemplateIssue[]): void {
+  if (!TEMPLATE_BINDINGS.includes(name as TemplateBinding)) {
+    issues.push({
+      path,
+      message: `unknown binding "${String(name)}" (expected one of: ${TEMPLATE_BINDINGS.join(', ')})`,
+    });
+  }
+}
+
+function checkPaint(value: string, path: string, issues: TemplateIssue[]): void {
+  const names = placeholdersIn(value);
+  const literal = value.trim();
+  if (
+    names.length === 0 &&
+    literal !== 'none' &&
+    !literal.startsWith('url(') &&
+    !isColor(literal)
+  ) {
+    issues.push({ path, message: `"${value}" is not a CSS color` });
+  }
+
+  for (const name of names) {
+    if (!TEMPLATE_COLORS.includes(name as (typeof TEMPLATE_COLORS)[number])) {
+      issues.push({
+        path,
+        message: `unknown color "${name}" (expected one of: ${TEMPLATE_COLORS.join(', ')})`,
+      });
+    }
+  }
+}
+
+/** Copy fields a text layer binding refers to, if any. */
+export function copyFieldOf(binding: TemplateBinding | undefined): CopyField | null {
+  return COPY_BINDINGS.includes(binding as CopyField) ? (binding as CopyField) : null;
+}
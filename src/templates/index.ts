@@ -0,0 +1,22 @@
+export { TemplateLoader, TEMPLATE_EXTENSIONS } from './TemplateLoader';
+export {
+  TEMPLATE_BINDINGS,
+  TEMPLATE_COLORS,
+  TEMPLATE_ORIENTATIONS,
+  formatTemplateIssues,
+  resolveDimension,
+  validateTemplate,
+} from './TemplateSchema';
+export type {
+  Dimension,
+  FlyerTemplate,
+  GroupLayer,
+  ImageLayer,
+  RectLayer,
+  ShapeLayer,
+  TemplateBinding,
+  TemplateIssue,
+  TemplateLayer,
+  TemplateOverride,
+  TextLayer,
+} from './TemplateSchema';
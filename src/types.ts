@@ -7,31 +7,605 @@ export interface PromoConfig {
   phone: string;
   schedule: string;
   colors: string[];
-  sizes: {
-    facebook: { width: number; height: number };
-    instagram: { width: number; height: number };
-    story: { width: number; height: number };
-  };
+  /**
+   * Which details appear in the flyer's info block. Fields are shown by
+   * default when they have a value; set one to false to hide it.
+   */
+  infoFields?: InfoFieldToggles;
+  /** Layouts to rotate through, like colors (default: every layout). */
+  layouts?: LayoutName[];
+  /**
+   * Canvas sizes by format id. Registered formats use their preset size
+   * unless overridden here; ids missing from the registry can be added.
+   */
+  sizes?: Partial<Record<FormatId, Dimensions>>;
+  /** Logos and other brand images composited onto every flyer. */
+  assets?: BrandAsset[];
+  /** Product photo used as the flyer background instead of the gradient. */
+  photo?: ProductPhoto;
+  /** Scannable code placed on every flyer. */
+  qr?: QrCode;
+  /**
+   * The offer broken into its parts, for discount badges and struck-through
+   * prices. Parsed from `offer` when omitted.
+   */
+  structuredOffer?: StructuredOffer;
+  /**
+   * ISO 4217 currency of the prices in `offer` when it is parsed
+   * (default: 'USD').
+   */
+  currency?: string;
+  /** Badge shape the offer is drawn on (default: 'starburst'). */
+  badge?: BadgeStyle;
+  /**
+   * BCP 47 locale prices and percentages are formatted for, e.g. 'es-MX'
+   * (default: derived from the copy language).
+   */
+  locale?: string;
+  /**
+   * Opening hours by day. When set, they are written out for the locale
+   * and replace the `schedule` text.
+   */
+  openingHours?: OpeningHours;
+  /**
+   * When the offer runs. When set, it is written out for the locale ("Ends
+   * Sunday") and replaces the `validity` text; flyers for an offer that
+   * has ended are refused.
+   */
+  validityPeriod?: ValidityPeriod;
+  /** How flyer images are written (default: PNG). */
+  output?: OutputOptions;
+  /**
+   * Output options by format id, merged over `output`, e.g. a file size
+   * limit for WhatsApp.
+   */
+  outputs?: Partial<Record<FormatId, OutputOptions>>;
 }
 
+/** File type a flyer image is written as. */
+export type ImageEncoding =
+  | 'png'
+  | 'jpeg'
+  | 'webp'
+  | 'avif'
+  | 'gif'
+  | 'svg'
+  | 'pdf';
+
+/** How a flyer image is encoded and written. */
+export interface OutputOptions {
+  /**
+   * File type (default: 'png'). 'svg' writes the editable vector source;
+   * 'pdf' a print-ready CMYK file (see `print`).
+   */
+  encoding?: ImageEncoding;
+  /**
+   * Quality from 1 to 100 for JPEG, WebP and AVIF, and for PNG reduced to
+   * a palette (default: 90 for JPEG and WebP, 60 for AVIF).
+   */
+  quality?: number;
+  /** JPEG: progressive scans, which show a preview while loading (default: false). */
+  progressive?: boolean;
+  /** JPEG: mozjpeg trellis quantization, for smaller files (default: false). */
+  mozjpeg?: boolean;
+  /** WebP and AVIF: lossless compression (default: false). */
+  lossless?: boolean;
+  /**
+   * Largest file size in bytes. The quality is lowered step by step until
+   * the image fits; PNG is reduced to a palette first.
+   */
+  maxBytes?: number;
+  /** Also write the SVG next to a raster image, for editing (default: false). */
+  keepSvg?: boolean;
+  /** Bleed, marks and color profile of PDF output. */
+  print?: PrintOptions;
+  /**
+   * Animate WebP and GIF output (see `AnimationOptions`); other file types
+   * are written still.
+   */
+  animation?: AnimationOptions;
+}
+
+/** Effect an animated flyer plays. */
+export type AnimationEffect =
+  | 'fade-title'
+  | 'pulse-cta'
+  | 'slide-badge'
+  | 'countdown';
+
+/**
+ * How an animated flyer plays: every frame is the flyer's SVG with the
+ * effects at that point of the loop.
+ */
+export interface AnimationOptions {
+  /** Frames per loop, 2 to 120 (default: 24). */
+  frames?: number;
+  /** Length of one loop in milliseconds, 200 to 30000 (default: 3000). */
+  duration?: number;
+  /**
+   * Effects to play (default: all). The countdown only shows when the
+   * offer has an end date, and the badge only slides in layouts that have
+   * one.
+   */
+  effects?: AnimationEffect[];
+  /** Times to play; 0 loops forever (default: 0). */
+  loop?: number;
+}
+
+/** State of the animated parts of a flyer in one frame. */
+export interface AnimationFrame {
+  /** Title opacity, from 0 to 1. */
+  titleOpacity: number;
+  /** How far the title still has to rise, from 0 (in place) to 1. */
+  titleRise: number;
+  /** Size of the CTA button relative to its still size. */
+  ctaScale: number;
+  /** How far the offer badge still has to slide in, from 0 (in place) to 1. */
+  badgeOffset: number;
+  /** Time left in the offer in milliseconds, when the countdown is shown. */
+  countdown?: number;
+}
+
+/**
+ * How a flyer is prepared for print. The canvas grows by the bleed on each
+ * side, the copy stays inside the trim, and the page is converted to CMYK.
+ */
+export interface PrintOptions {
+  /** Background printed past the trim on each side, in millimeters (default: 3). */
+  bleed?: number;
+  /** Crop marks at the corners of the trim (default: true). */
+  cropMarks?: boolean;
+  /** Registration targets in the middle of each side (default: true). */
+  registrationMarks?: boolean;
+  /**
+   * CMYK ICC profile to convert with: a file path, or 'cmyk' for the
+   * profile bundled with sharp (default: 'cmyk').
+   */
+  iccProfile?: string;
+}
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/**
+ * Opening and closing time as 24-hour "HH:MM". A closing time before the
+ * opening time runs past midnight; "24:00" closes at midnight.
+ */
+export interface TimeRange {
+  open: string;
+  close: string;
+}
+
+/** Hours for each day, several ranges for split shifts; days left out are closed. */
+export type OpeningHours = Partial<Record<Weekday, TimeRange[]>>;
+
+/**
+ * When an offer is valid. Dates are "YYYY-MM-DD" (the whole day counts) or
+ * "YYYY-MM-DDTHH:MM", in `timeZone` unless they carry an offset.
+ */
+export interface ValidityPeriod {
+  /** First valid day (default: valid now). */
+  start?: string;
+  /** Last valid day (default: open-ended). */
+  end?: string;
+  /** IANA time zone, e.g. 'America/Mexico_City' (default: the system's). */
+  timeZone?: string;
+}
+
+/**
+ * Kind of deal: a percentage or an amount off, buy-some-get-some-free, a
+ * free item, several items for one price ("2 for $10"), or simply a
+ * (promotional) price.
+ */
+export type OfferType =
+  | 'percent'
+  | 'amount'
+  | 'bogo'
+  | 'free-item'
+  | 'multi-buy'
+  | 'price';
+
+/**
+ * An offer in parts a renderer can typeset: "-50%", "2x1", or $40 struck
+ * through next to $25.
+ */
+export interface StructuredOffer {
+  type: OfferType;
+  /** Percent off for `percent` offers; money off for `amount` offers. */
+  value?: number;
+  /** Items paid for in a `bogo` offer (default: 1). */
+  buy?: number;
+  /** Items given free in a `bogo` offer (default: 1). */
+  get?: number;
+  /** What a `free-item` offer gives away, e.g. "drink". */
+  item?: string;
+  /** Items a `multi-buy` offer sells together for `promoPrice`. */
+  quantity?: number;
+  /** Regular price, drawn struck through. */
+  originalPrice?: number;
+  /** Price with the offer applied. */
+  promoPrice?: number;
+  /** ISO 4217 currency code of the prices (default: 'USD'). */
+  currency?: string;
+}
+
+/** Shape an offer badge is drawn as. */
+export type BadgeStyle = 'starburst' | 'ribbon' | 'price-tag';
+
+/**
+ * Which part of a photo survives cropping to a format: sharp's attention
+ * (salient, high-contrast areas) or entropy (detailed areas) strategy, the
+ * center, or a focal point given as fractions of the width and height.
+ */
+export type PhotoFocus =
+  | 'attention'
+  | 'entropy'
+  | 'center'
+  | { x: number; y: number };
+
+/**
+ * How a photo is toned down under the copy: a gradient of the background
+ * color fading out around the text, a blur plus a lighter gradient, or
+ * `auto` to blur only where the photo is busy.
+ */
+export type ScrimStyle = 'auto' | 'gradient' | 'blur' | 'none';
+
+/** A product photo background (PNG, JPEG, WebP...). */
+export interface ProductPhoto {
+  path: string;
+  /** Crop strategy or focal point (default: 'attention'). */
+  focus?: PhotoFocus;
+  /** Legibility treatment under the copy (default: 'auto'). */
+  scrim?: ScrimStyle;
+}
+
+/** Where a brand asset goes on the flyer. */
+export type AssetPlacement =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+  | 'header'
+  | 'watermark';
+
+/** A logo or other brand image (PNG, JPEG, WebP or SVG file). */
+export interface BrandAsset {
+  /** Image file, drawn when no variant suits the background. */
+  path: string;
+  /** Variant for dark backgrounds, e.g. an all-white logo. */
+  onDark?: string;
+  /** Variant for light backgrounds. */
+  onLight?: string;
+  /** Where it goes (default: 'top-left'). */
+  placement?: AssetPlacement;
+  /**
+   * Largest height, as a fraction of the canvas's shorter side (default:
+   * 0.12 in corners, 0.14 as a header, 0.5 as a watermark).
+   */
+  maxSize?: number;
+  /** 0-1 (default: 1, or 0.12 as a watermark). */
+  opacity?: number;
+}
+
+/**
+ * What a QR code opens: a link, a call to `phone`, a WhatsApp chat with
+ * `phone`, a contact card, or `location` on a map.
+ */
+export type QrPayloadType = 'url' | 'tel' | 'whatsapp' | 'vcard' | 'geo';
+
+/** QR code error correction: L 7%, M 15%, Q 25%, H 30% damage recovered. */
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/** Corner a QR code goes in. */
+export type QrPlacement =
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+/** A QR code built from the promo's details. */
+export interface QrCode {
+  type: QrPayloadType;
+  /** Link for `url` codes; the website on a vCard. */
+  url?: string;
+  /** Message prefilled in a WhatsApp chat. */
+  message?: string;
+  /** Contact name on a vCard (default: the business type). */
+  name?: string;
+  /** Corner it goes in (default: 'bottom-right'). */
+  placement?: QrPlacement;
+  /**
+   * Side length including the quiet zone, as a fraction of the canvas's
+   * shorter side (default: 0.16; long payloads are drawn larger).
+   */
+  size?: number;
+  /** Light margin around the code, in modules (default: 4, at least 2). */
+  quietZone?: number;
+  /** Dark module color (default: '#000000'). */
+  color?: string;
+  /** Light module and quiet zone color (default: '#FFFFFF'). */
+  background?: string;
+  /** Minimum error correction level (default: 'M'). */
+  errorCorrection?: ErrorCorrectionLevel;
+}
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+/** Formats shipped with PromoMaker; see src/formats for the full list. */
+export type BuiltinFormatId =
+  | 'facebook'
+  | 'instagram'
+  | 'instagram-portrait'
+  | 'story'
+  | 'linkedin'
+  | 'linkedin-square'
+  | 'x'
+  | 'pinterest'
+  | 'youtube-thumbnail'
+  | 'whatsapp-status'
+  | 'iab-medium-rectangle'
+  | 'iab-large-rectangle'
+  | 'iab-leaderboard'
+  | 'iab-half-page'
+  | 'iab-wide-skyscraper'
+  | 'iab-billboard'
+  | 'iab-mobile-banner'
+  | 'a4'
+  | 'a5'
+  | 'letter';
+
+/** A built-in format, or one added with `registerFormat`. */
+export type FormatId = BuiltinFormatId | (string & {});
+
+export type FormatCategory = 'social' | 'display' | 'video' | 'print';
+
+/** Distance in pixels from each edge that platform UI may cover. */
+export interface SafeZone {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** An output format in the format registry. */
+export interface FormatSpec {
+  id: FormatId;
+  /** Human-readable name, e.g. "Instagram Story". */
+  label: string;
+  width: number;
+  height: number;
+  /** Pixels per inch: 72 for screens, 300 for print. */
+  dpi: number;
+  /** Platform or standard the format belongs to, e.g. "Instagram" or "IAB". */
+  platform: string;
+  category: FormatCategory;
+  /** Areas covered by platform UI (profile header, reply bar...). */
+  safeZone?: SafeZone;
+  /** Other names the format is accepted under, e.g. "stories". */
+  aliases?: string[];
+}
+
+/** A color in sRGB, channels from 0 to 1. */
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+  /** Opacity from 0 to 1 (default: 1). */
+  alpha?: number;
+}
+
+/** A color in OKLCH: lightness 0-1, chroma (0 to about 0.37), hue in degrees. */
+export interface OklchColor {
+  l: number;
+  c: number;
+  h: number;
+  alpha?: number;
+}
+
+/** Color harmonies built from one base color. */
+export type HarmonyKind =
+  | 'complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'split-complementary';
+
+/** Colors a flyer is drawn with, derived from one background color. */
+export interface ColorScheme {
+  background: string;
+  /** Text on the background. */
+  text: string;
+  /** Decoration and the CTA button. */
+  accent: string;
+  /** Text on the accent (the CTA label). */
+  accentText: string;
+}
+
+/** Contrast of a text color on a background. */
+export interface ContrastReport {
+  /** WCAG 2.x contrast ratio, 1 to 21. */
+  ratio: number;
+  /** APCA lightness contrast (Lc), about -108 to 106; negative is light text on dark. */
+  lc: number;
+  /** WCAG AA for normal text (4.5:1). */
+  aa: boolean;
+  /** WCAG AA for large text and UI components (3:1). */
+  aaLarge: boolean;
+  /** WCAG AAA for normal text (7:1). */
+  aaa: boolean;
+}
+
+/** A named set of flyer background colors. */
+export interface Palette {
+  /** Lowercase name, e.g. "restaurant"; used with `--colors`. */
+  name: string;
+  /** Background colors, as hex. */
+  colors: string[];
+  description?: string;
+  /** Business types the palette suits, for lookup by business type. */
+  businessTypes?: string[];
+}
+
+/** Where a palette comes from: shipped with PromoMaker or the palettes file. */
+export type PaletteSource = 'builtin' | 'user';
+
+/** A dominant color found in an image. */
+export interface ExtractedColor {
+  /** The color as hex. */
+  color: string;
+  /** Fraction of the image's opaque pixels close to this color, 0-1. */
+  share: number;
+  /** Ranking score: the share, boosted for colorful (non-gray) colors. */
+  weight: number;
+  /** The color as found in the image, when it had to be darkened or lightened for text contrast. */
+  original?: string;
+  /** Why the color was left out of the palette, if it was. */
+  rejected?: 'background' | 'contrast' | 'duplicate';
+}
+
+/** Colors extracted from an image, ranked by visual weight. */
+export interface PaletteExtraction {
+  /** Usable colors, best first; ready for `PromoConfig.colors`. */
+  colors: string[];
+  /** Details of `colors`, in the same order. */
+  swatches: ExtractedColor[];
+  /** Dominant colors that were left out, and why. */
+  rejected: ExtractedColor[];
+}
+
+/** Named flyer layouts built into the SVG renderer. */
+export type BuiltinLayoutName =
+  | 'centered'
+  | 'split-screen'
+  | 'diagonal-band'
+  | 'big-number'
+  | 'minimal'
+  | 'badge-top'
+  | 'photo-left'
+  /** Carousel slides only; not offered for single flyers. */
+  | 'carousel-slide';
+
+/** A built-in layout, or the name of a template from the templates/ directory. */
+export type LayoutName = BuiltinLayoutName | (string & {});
+
+/** Business details that can be shown in the flyer's footer/info block. */
+export type InfoField = 'offer' | 'validity' | 'location' | 'phone' | 'schedule';
+
+export type InfoFieldToggles = Partial<Record<InfoField, boolean>>;
+
+/** Promotion details a template can bind text to. */
+export type PromoDetails = Partial<
+  Pick<PromoConfig, 'product' | 'businessType' | InfoField>
+>;
+
+/** A detail to render in the info block, in display order. */
+export interface InfoItem {
+  field: InfoField;
+  text: string;
+}
+
+export type TextVariationSource = 'ai' | 'repair' | 'fallback';
+
 export interface TextVariation {
   title: string;
   subtitle: string;
   callToAction: string;
   description: string;
   tone: string;
+  /** Where the copy came from: first AI answer, a repair pass, or the fallback. */
+  source?: TextVariationSource;
+}
+
+/** Text fields of a variation that are rendered on the flyer. */
+export type CopyField = 'title' | 'subtitle' | 'callToAction' | 'description';
+
+/** Maximum characters per field, derived from the layout of the target formats. */
+export type LengthBudget = Partial<Record<CopyField, number>>;
+
+/** A field that does not fit its layout box even at the minimum font size. */
+export interface TextOverflow {
+  field: CopyField;
+  text: string;
+  maxChars: number;
+}
+
+/** What a carousel slide does in the sequence, in the order slides come. */
+export type SlideRole = 'hook' | 'benefit' | 'offer' | 'cta';
+
+/** Copy of one carousel slide. */
+export interface CarouselSlide {
+  role: SlideRole;
+  title: string;
+  /** A sentence or two under the title. */
+  body: string;
+  /** Button text; only the CTA slide has one. */
+  callToAction?: string;
+  source?: TextVariationSource;
+}
+
+/** How a carousel is generated. */
+export interface CarouselOptions {
+  /**
+   * Number of slides, 3 to 10: a hook, benefit slides, the offer and a
+   * CTA (default: 5).
+   */
+  slides?: number;
+  /** Format of every slide (default: 'instagram'; 'instagram-portrait' is 1080x1350). */
+  format?: FormatId;
+  /** Show the slide's position ("2/5") on each slide (default: false). */
+  numbering?: boolean;
+  /** Background color (default: the first of `colors`). */
+  color?: string;
+}
+
+/** Where a slide sits in its carousel, for the slide layout. */
+export interface SlidePosition {
+  role: SlideRole;
+  /** Position from 0. */
+  index: number;
+  count: number;
+  numbering?: boolean;
+}
+
+export interface GeneratedCarousel {
+  /** Slide images, in order. */
+  filenames: string[];
+  /** The slides' SVG sources, when `keepSvg` is set. */
+  svgFilenames?: string[];
+  /** Copy of each slide, as rendered. */
+  slides: CarouselSlide[];
+  color: string;
+  format: FormatId;
 }
 
 export interface GeneratedFlyer {
   filename: string;
+  /** The flyer's SVG source, when `keepSvg` is set. */
+  svgFilename?: string;
   textVariation: TextVariation;
   color: string;
-  format: 'facebook' | 'instagram' | 'story';
+  format: FormatId;
+  layout: LayoutName;
 }
 
 export interface OpenAIConfig {
   apiKey: string;
   model: string;
+  baseURL?: string;
+}
+
+export type CopyProviderName = 'openai' | 'local' | 'mock';
+
+export interface CopyProviderConfig extends Partial<OpenAIConfig> {
+  provider?: CopyProviderName;
 }
 
 export interface CanvasConfig {
@@ -40,4 +614,43 @@ export interface CanvasConfig {
   backgroundColor: string;
   textColor: string;
   accentColor: string;
+  /** Details for the footer/info block; omitted or empty means no block. */
+  info?: InfoItem[];
+  /** Layout to render with (default: 'centered'). */
+  layout?: LayoutName;
+  /** Offer text, for layouts that feature it (big number, badge). */
+  offer?: string;
+  /** The offer in parts, for discount badges; unset when it has no deal in it. */
+  structuredOffer?: StructuredOffer;
+  /** Badge shape for the offer (default: 'starburst'). */
+  badge?: BadgeStyle;
+  /** Locale prices and percentages are formatted for (default: 'en-US'). */
+  locale?: string;
+  /** Format being rendered, for per-format template overrides. */
+  format?: FormatId;
+  /** Details for template bindings; hidden info fields are left out. */
+  details?: PromoDetails;
+  /** Edges covered by platform UI; layouts keep critical content inside. */
+  safeZone?: SafeZone;
+  /** Shade the safe zone's insets on the output to check placements. */
+  debugSafeZones?: boolean;
+  /** Logos and brand images to composite; copy keeps clear of them. */
+  assets?: BrandAsset[];
+  /** Product photo to use as the background. */
+  photo?: ProductPhoto;
+  /**
+   * SVG markup painted instead of the background gradient (the cropped
+   * photo and its scrim); set by the renderer once the copy is placed.
+   */
+  backdrop?: string;
+  /** QR code to place, with the text it encodes. */
+  qr?: QrCode & { payload: string };
+  /** Pixels per inch of the format, for the page size of PDF output (default: 72). */
+  dpi?: number;
+  /** Set when the canvas is one slide of a carousel. */
+  slide?: SlidePosition;
+  /** When the offer ends, for the countdown of animated flyers. */
+  endsAt?: Date;
+  /** Set when the canvas is one frame of an animated flyer. */
+  frame?: AnimationFrame;
 }